@@ -0,0 +1,252 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_MAX_NOTIFICATIONS_PER_HOUR,
+  parseChatSubscriptionDocument,
+  parseEmailPreferenceDocument,
+  parseInterestDocument,
+  parseNotificationMatchDocument,
+  parseNotificationPreferencesDocument,
+  parseNotificationSubscriptionDocument,
+} from "./documents";
+
+const createdAt = { _seconds: 1705320000, _nanoseconds: 0 };
+
+describe("parseInterestDocument", () => {
+  it("should parse a valid interest", () => {
+    expect(
+      parseInterestDocument("interest-1", {
+        userId: "user-1",
+        coordinates: { lat: 42.69, lng: 23.33 },
+        radius: 500,
+        createdAt,
+        updatedAt: createdAt,
+      })
+    ).toEqual({
+      id: "interest-1",
+      userId: "user-1",
+      coordinates: { lat: 42.69, lng: 23.33 },
+      radius: 500,
+      createdAt: "2024-01-15T12:00:00.000Z",
+      updatedAt: "2024-01-15T12:00:00.000Z",
+    });
+  });
+
+  it("should keep the known values of the filters", () => {
+    const interest = parseInterestDocument("interest-1", {
+      userId: "user-1",
+      coordinates: { lat: 42.69, lng: 23.33 },
+      radius: 500,
+      filters: {
+        sources: ["sofiyska-voda", 1],
+        categories: ["water", "weather", "water"],
+        kind: "sometimes",
+      },
+    });
+
+    expect(interest?.filters).toEqual({
+      sources: ["sofiyska-voda"],
+      categories: ["water"],
+    });
+  });
+
+  it("should drop empty filters", () => {
+    expect(
+      parseInterestDocument("interest-1", {
+        userId: "user-1",
+        coordinates: { lat: 42.69, lng: 23.33 },
+        radius: 500,
+        filters: { sources: [], categories: [] },
+      })?.filters
+    ).toBeUndefined();
+  });
+
+  it("should reject interests without coordinates or radius", () => {
+    expect(
+      parseInterestDocument("interest-1", { userId: "user-1", radius: 500 })
+    ).toBeNull();
+    expect(
+      parseInterestDocument("interest-1", {
+        userId: "user-1",
+        coordinates: { lat: "42.69", lng: 23.33 },
+        radius: 500,
+      })
+    ).toBeNull();
+    expect(
+      parseInterestDocument("interest-1", {
+        userId: "user-1",
+        coordinates: { lat: 42.69, lng: 23.33 },
+      })
+    ).toBeNull();
+  });
+});
+
+describe("parseNotificationSubscriptionDocument", () => {
+  it("should parse a valid subscription", () => {
+    expect(
+      parseNotificationSubscriptionDocument("sub-1", {
+        userId: "user-1",
+        token: "token",
+        endpoint: "https://push.example/1",
+        createdAt,
+        updatedAt: createdAt,
+        deviceInfo: { platform: "Android" },
+      })
+    ).toMatchObject({
+      id: "sub-1",
+      token: "token",
+      deviceInfo: { platform: "Android" },
+    });
+  });
+
+  it("should reject subscriptions without a token", () => {
+    expect(
+      parseNotificationSubscriptionDocument("sub-1", {
+        userId: "user-1",
+        endpoint: "https://push.example/1",
+      })
+    ).toBeNull();
+  });
+});
+
+describe("parseChatSubscriptionDocument", () => {
+  it("should parse a linked chat", () => {
+    expect(
+      parseChatSubscriptionDocument("chat-1", {
+        userId: "user-1",
+        channel: "telegram",
+        chatId: "-100123",
+        displayName: "Съседи Оборище",
+        createdAt,
+      })
+    ).toEqual({
+      id: "chat-1",
+      userId: "user-1",
+      channel: "telegram",
+      chatId: "-100123",
+      displayName: "Съседи Оборище",
+      createdAt: "2024-01-15T12:00:00.000Z",
+    });
+  });
+
+  it("should reject unknown channels", () => {
+    expect(
+      parseChatSubscriptionDocument("chat-1", {
+        userId: "user-1",
+        channel: "whatsapp",
+        chatId: "123",
+      })
+    ).toBeNull();
+  });
+});
+
+describe("parseNotificationMatchDocument", () => {
+  const match = {
+    userId: "user-1",
+    messageId: "message-1",
+    interestId: "interest-1",
+    matchedAt: createdAt,
+  };
+
+  it("should parse a match that is not notified yet", () => {
+    expect(parseNotificationMatchDocument("match-1", match)).toMatchObject({
+      id: "match-1",
+      matchedAt: "2024-01-15T12:00:00.000Z",
+      notified: false,
+      notifiedAt: undefined,
+    });
+  });
+
+  it("should keep only well-formed device sends and snapshots", () => {
+    const parsed = parseNotificationMatchDocument("match-1", {
+      ...match,
+      notified: true,
+      notifiedAt: createdAt,
+      distance: 120,
+      deviceNotifications: [
+        { subscriptionId: "sub-1", success: true, sentAt: "2024-01-15" },
+        "invalid",
+      ],
+      messageSnapshot: { createdAt },
+    });
+
+    expect(parsed?.deviceNotifications).toHaveLength(1);
+    expect(parsed?.messageSnapshot).toBeUndefined();
+    expect(parsed?.distance).toBe(120);
+  });
+
+  it("should reject matches without their references", () => {
+    expect(
+      parseNotificationMatchDocument("match-1", { ...match, messageId: 1 })
+    ).toBeNull();
+  });
+});
+
+describe("parseEmailPreferenceDocument", () => {
+  const preference = {
+    email: "user@example.com",
+    frequency: "daily",
+    unsubscribeToken: "secret",
+    createdAt,
+    updatedAt: createdAt,
+  };
+
+  it("should parse a preference keyed by the user id", () => {
+    expect(parseEmailPreferenceDocument("user-1", preference)).toMatchObject({
+      userId: "user-1",
+      email: "user@example.com",
+      frequency: "daily",
+      lastDigestAt: undefined,
+    });
+  });
+
+  it("should reject unknown frequencies and missing unsubscribe tokens", () => {
+    expect(
+      parseEmailPreferenceDocument("user-1", {
+        ...preference,
+        frequency: "hourly",
+      })
+    ).toBeNull();
+    expect(
+      parseEmailPreferenceDocument("user-1", {
+        ...preference,
+        unsubscribeToken: "",
+      })
+    ).toBeNull();
+  });
+});
+
+describe("parseNotificationPreferencesDocument", () => {
+  it("should default users without preferences", () => {
+    expect(parseNotificationPreferencesDocument("user-1", undefined)).toEqual({
+      userId: "user-1",
+      quietHours: undefined,
+      maxPerHour: DEFAULT_MAX_NOTIFICATIONS_PER_HOUR,
+      recentSends: [],
+    });
+  });
+
+  it("should parse quiet hours and the recent sends", () => {
+    expect(
+      parseNotificationPreferencesDocument("user-1", {
+        quietHours: { start: "22:00", end: "07:30" },
+        maxPerHour: 3,
+        recentSends: [createdAt],
+      })
+    ).toEqual({
+      userId: "user-1",
+      quietHours: { start: "22:00", end: "07:30" },
+      maxPerHour: 3,
+      recentSends: ["2024-01-15T12:00:00.000Z"],
+    });
+  });
+
+  it("should ignore malformed quiet hours and caps", () => {
+    const parsed = parseNotificationPreferencesDocument("user-1", {
+      quietHours: { start: "24:00", end: "07:00" },
+      maxPerHour: 0,
+    });
+
+    expect(parsed.quietHours).toBeUndefined();
+    expect(parsed.maxPerHour).toBe(DEFAULT_MAX_NOTIFICATIONS_PER_HOUR);
+  });
+});
@@ -0,0 +1,308 @@
+/**
+ * Runtime validation of the Firestore documents both apps read. Each parser
+ * returns the typed document, or null when a required field is missing or
+ * has the wrong type, so that the caller can skip it.
+ */
+
+import type {
+  ChatChannel,
+  ChatSubscription,
+  DeviceNotification,
+  EmailFrequency,
+  EmailPreference,
+  IncidentKind,
+  Interest,
+  InterestFilters,
+  MessageCategory,
+  MessageSnapshot,
+  NotificationMatch,
+  NotificationPreferences,
+  NotificationSubscription,
+  QuietHours,
+} from "./types";
+import { convertTimestamp } from "./timestamps";
+
+type DocumentData = Record<string, any>;
+
+function isString(value: unknown): value is string {
+  return typeof value === "string" && value.length > 0;
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function isObject(value: unknown): value is DocumentData {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+export const EMAIL_FREQUENCIES: readonly EmailFrequency[] = [
+  "instant",
+  "daily",
+  "weekly",
+];
+
+export function isEmailFrequency(value: unknown): value is EmailFrequency {
+  return EMAIL_FREQUENCIES.includes(value as EmailFrequency);
+}
+
+export const CHAT_CHANNELS: readonly ChatChannel[] = ["telegram", "viber"];
+
+export function isChatChannel(value: unknown): value is ChatChannel {
+  return CHAT_CHANNELS.includes(value as ChatChannel);
+}
+
+export const DEFAULT_MAX_NOTIFICATIONS_PER_HOUR = 5;
+
+/**
+ * Time of day as "HH:MM" (24-hour clock)
+ */
+export function isTimeOfDay(value: unknown): value is string {
+  return typeof value === "string" && /^([01]\d|2[0-3]):[0-5]\d$/.test(value);
+}
+
+export function isQuietHours(value: unknown): value is QuietHours {
+  return (
+    isObject(value) &&
+    isTimeOfDay(value.start) &&
+    isTimeOfDay(value.end) &&
+    value.start !== value.end
+  );
+}
+
+export const MESSAGE_CATEGORIES: readonly MessageCategory[] = [
+  "water",
+  "heating",
+  "electricity",
+  "roads",
+  "construction",
+  "other",
+];
+
+export const INCIDENT_KINDS: readonly IncidentKind[] = ["planned", "unplanned"];
+
+export function isMessageCategory(value: unknown): value is MessageCategory {
+  return MESSAGE_CATEGORIES.includes(value as MessageCategory);
+}
+
+export function isIncidentKind(value: unknown): value is IncidentKind {
+  return INCIDENT_KINDS.includes(value as IncidentKind);
+}
+
+/**
+ * Filters of a zone, without unknown values and empty filters. Undefined
+ * when nothing is left, for a zone that gets every message.
+ */
+export function parseInterestFilters(
+  value: unknown
+): InterestFilters | undefined {
+  if (!isObject(value)) {
+    return undefined;
+  }
+
+  const filters: InterestFilters = {};
+  const sources = Array.isArray(value.sources)
+    ? [...new Set(value.sources.filter(isString))]
+    : [];
+  if (sources.length > 0) {
+    filters.sources = sources;
+  }
+  const categories = Array.isArray(value.categories)
+    ? [...new Set(value.categories.filter(isMessageCategory))]
+    : [];
+  if (categories.length > 0) {
+    filters.categories = categories;
+  }
+  if (isIncidentKind(value.kind)) {
+    filters.kind = value.kind;
+  }
+
+  return Object.keys(filters).length > 0 ? filters : undefined;
+}
+
+/**
+ * Document of the interests collection
+ */
+export function parseInterestDocument(
+  id: string,
+  data: DocumentData
+): Interest | null {
+  const { coordinates } = data;
+  if (
+    !isString(data.userId) ||
+    !isNumber(coordinates?.lat) ||
+    !isNumber(coordinates?.lng) ||
+    !isNumber(data.radius)
+  ) {
+    return null;
+  }
+
+  return {
+    id,
+    userId: data.userId,
+    coordinates: { lat: coordinates.lat, lng: coordinates.lng },
+    radius: data.radius,
+    filters: parseInterestFilters(data.filters),
+    geohashes: Array.isArray(data.geohashes)
+      ? data.geohashes.filter(isString)
+      : undefined,
+    createdAt: convertTimestamp(data.createdAt),
+    updatedAt: convertTimestamp(data.updatedAt),
+  };
+}
+
+/**
+ * Document of the notificationSubscriptions collection
+ */
+export function parseNotificationSubscriptionDocument(
+  id: string,
+  data: DocumentData
+): NotificationSubscription | null {
+  if (
+    !isString(data.userId) ||
+    !isString(data.token) ||
+    !isString(data.endpoint)
+  ) {
+    return null;
+  }
+
+  return {
+    id,
+    userId: data.userId,
+    token: data.token,
+    endpoint: data.endpoint,
+    createdAt: convertTimestamp(data.createdAt),
+    updatedAt: convertTimestamp(data.updatedAt),
+    deviceInfo: isObject(data.deviceInfo) ? data.deviceInfo : undefined,
+  };
+}
+
+/**
+ * Document of the chatSubscriptions collection
+ */
+export function parseChatSubscriptionDocument(
+  id: string,
+  data: DocumentData
+): ChatSubscription | null {
+  if (
+    !isString(data.userId) ||
+    !isChatChannel(data.channel) ||
+    !isString(data.chatId)
+  ) {
+    return null;
+  }
+
+  return {
+    id,
+    userId: data.userId,
+    channel: data.channel,
+    chatId: data.chatId,
+    displayName: isString(data.displayName) ? data.displayName : undefined,
+    createdAt: convertTimestamp(data.createdAt),
+  };
+}
+
+/**
+ * Document of the notificationMatches collection. Device sends and the
+ * message snapshot are only kept when well-formed.
+ */
+export function parseNotificationMatchDocument(
+  id: string,
+  data: DocumentData
+): NotificationMatch | null {
+  if (
+    !isString(data.userId) ||
+    !isString(data.messageId) ||
+    !isString(data.interestId)
+  ) {
+    return null;
+  }
+
+  const deviceNotifications: DeviceNotification[] | undefined = Array.isArray(
+    data.deviceNotifications
+  )
+    ? data.deviceNotifications.filter(
+        (device: unknown) =>
+          isObject(device) && typeof device.success === "boolean"
+      )
+    : undefined;
+  const messageSnapshot: MessageSnapshot | undefined =
+    isObject(data.messageSnapshot) &&
+    typeof data.messageSnapshot.text === "string"
+      ? {
+          ...(data.messageSnapshot as MessageSnapshot),
+          createdAt: convertTimestamp(data.messageSnapshot.createdAt),
+        }
+      : undefined;
+
+  return {
+    id,
+    userId: data.userId,
+    messageId: data.messageId,
+    interestId: data.interestId,
+    matchedAt: convertTimestamp(data.matchedAt),
+    notified: data.notified === true,
+    notifiedAt: data.notifiedAt ? convertTimestamp(data.notifiedAt) : undefined,
+    notificationError: isString(data.notificationError)
+      ? data.notificationError
+      : undefined,
+    distance: isNumber(data.distance) ? data.distance : undefined,
+    deviceNotifications,
+    messageSnapshot,
+    emailedAt: data.emailedAt ? convertTimestamp(data.emailedAt) : undefined,
+    collapsed: data.collapsed === true ? true : undefined,
+  };
+}
+
+/**
+ * Document of the emailPreferences collection, whose id is the user id
+ */
+export function parseEmailPreferenceDocument(
+  id: string,
+  data: DocumentData
+): EmailPreference | null {
+  if (
+    !isString(data.email) ||
+    !isEmailFrequency(data.frequency) ||
+    !isString(data.unsubscribeToken)
+  ) {
+    return null;
+  }
+
+  return {
+    userId: id,
+    email: data.email,
+    frequency: data.frequency,
+    unsubscribeToken: data.unsubscribeToken,
+    lastDigestAt: data.lastDigestAt
+      ? convertTimestamp(data.lastDigestAt)
+      : undefined,
+    createdAt: convertTimestamp(data.createdAt),
+    updatedAt: convertTimestamp(data.updatedAt),
+  };
+}
+
+/**
+ * Document of the notificationPreferences collection, whose id is the user
+ * id. Users without one get the defaults: no quiet hours and
+ * DEFAULT_MAX_NOTIFICATIONS_PER_HOUR.
+ */
+export function parseNotificationPreferencesDocument(
+  id: string,
+  data: DocumentData | undefined
+): NotificationPreferences {
+  const { quietHours, maxPerHour, recentSends } = data ?? {};
+  return {
+    userId: id,
+    quietHours: isQuietHours(quietHours)
+      ? { start: quietHours.start, end: quietHours.end }
+      : undefined,
+    maxPerHour:
+      Number.isInteger(maxPerHour) && maxPerHour > 0
+        ? maxPerHour
+        : DEFAULT_MAX_NOTIFICATIONS_PER_HOUR,
+    recentSends: Array.isArray(recentSends)
+      ? recentSends.map(convertTimestamp)
+      : [],
+  };
+}
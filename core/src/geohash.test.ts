@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import {
+  countGeohashesForBbox,
+  encodeGeohash,
+  geohashesForBbox,
+  geohashesForCircle,
+  getCircleBbox,
+} from "./geohash";
+
+describe("encodeGeohash", () => {
+  it("should encode coordinates", () => {
+    expect(encodeGeohash(57.64911, 10.40744, 11)).toBe("u4pruydqqvj");
+  });
+
+  it("should produce prefixes for lower precisions", () => {
+    const hash = encodeGeohash(42.6977, 23.3219, 6);
+    expect(encodeGeohash(42.6977, 23.3219, 4)).toBe(hash.slice(0, 4));
+  });
+});
+
+describe("geohashesForBbox", () => {
+  it("should return the single cell of a small bbox", () => {
+    expect(geohashesForBbox([23.32, 42.69, 23.321, 42.691], 5)).toEqual([
+      encodeGeohash(42.69, 23.32, 5),
+    ]);
+  });
+
+  it("should return every cell intersecting the bbox", () => {
+    // Precision 5 cells are ~0.044° wide and ~0.044° high
+    const hashes = geohashesForBbox([23.28, 42.66, 23.38, 42.72], 5);
+
+    expect(hashes.length).toBeGreaterThanOrEqual(6);
+    expect(new Set(hashes).size).toBe(hashes.length);
+    expect(hashes).toContain(encodeGeohash(42.66, 23.28, 5));
+    expect(hashes).toContain(encodeGeohash(42.72, 23.38, 5));
+    expect(hashes).toContain(encodeGeohash(42.69, 23.33, 5));
+  });
+
+  it("should be counted without listing the cells", () => {
+    const bbox: [number, number, number, number] = [23.28, 42.66, 23.38, 42.72];
+
+    expect(countGeohashesForBbox(bbox, 5)).toBe(
+      geohashesForBbox(bbox, 5).length
+    );
+  });
+});
+
+describe("getCircleBbox", () => {
+  it("should contain the circle", () => {
+    const [minLng, minLat, maxLng, maxLat] = getCircleBbox(
+      42.6977,
+      23.3219,
+      500
+    );
+
+    // 500 m ≈ 0.0045° of latitude and ≈ 0.0061° of longitude in Sofia
+    expect(maxLat - 42.6977).toBeCloseTo(0.0045, 3);
+    expect(42.6977 - minLat).toBeCloseTo(0.0045, 3);
+    expect(maxLng - 23.3219).toBeCloseTo(0.0061, 3);
+    expect(23.3219 - minLng).toBeCloseTo(0.0061, 3);
+  });
+});
+
+describe("geohashesForCircle", () => {
+  it("should cover the circle at every stored precision", () => {
+    const hashes = geohashesForCircle(42.6977, 23.3219, 500);
+
+    expect(hashes).toContain(encodeGeohash(42.6977, 23.3219, 4));
+    expect(hashes).toContain(encodeGeohash(42.6977, 23.3219, 6));
+    // 500 m north and east of the center
+    expect(hashes).toContain(encodeGeohash(42.7022, 23.328, 6));
+  });
+});
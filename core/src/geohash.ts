@@ -0,0 +1,161 @@
+/**
+ * Geohash cells of coordinates, bounding boxes and interest circles. Ingest
+ * stores them on messages and interests, web queries by them.
+ */
+
+const BASE32 = "0123456789bcdefghjkmnpqrstuvwxyz";
+
+/**
+ * Geohash precisions stored on messages and interests, from the coarsest to
+ * the finest. The web API picks the finest one whose cells cover the
+ * requested bounding box within the Firestore `array-contains-any` limit.
+ * Precision 4 ≈ 39×20 km, 5 ≈ 4.9×4.9 km, 6 ≈ 1.2×0.6 km
+ */
+export const GEOHASH_PRECISIONS = [4, 5, 6];
+
+// [minLng, minLat, maxLng, maxLat]
+export type Bbox = [number, number, number, number];
+
+interface GeohashGrid {
+  lngBits: number;
+  latBits: number;
+  cellWidth: number; // degrees of longitude
+  cellHeight: number; // degrees of latitude
+}
+
+function getGrid(precision: number): GeohashGrid {
+  const bits = precision * 5;
+  const lngBits = Math.ceil(bits / 2);
+  const latBits = Math.floor(bits / 2);
+  return {
+    lngBits,
+    latBits,
+    cellWidth: 360 / 2 ** lngBits,
+    cellHeight: 180 / 2 ** latBits,
+  };
+}
+
+function clampIndex(index: number, bits: number): number {
+  return Math.min(Math.max(index, 0), 2 ** bits - 1);
+}
+
+/**
+ * Build the geohash of a grid cell. Bits alternate between longitude
+ * and latitude, starting with longitude.
+ */
+function cellToGeohash(x: number, y: number, grid: GeohashGrid): string {
+  let hash = "";
+  let chunk = 0;
+  let lngBit = grid.lngBits - 1;
+  let latBit = grid.latBits - 1;
+  const totalBits = grid.lngBits + grid.latBits;
+
+  for (let i = 0; i < totalBits; i++) {
+    const bit = i % 2 === 0 ? (x >> lngBit--) & 1 : (y >> latBit--) & 1;
+    chunk = (chunk << 1) | bit;
+    if (i % 5 === 4) {
+      hash += BASE32[chunk];
+      chunk = 0;
+    }
+  }
+
+  return hash;
+}
+
+function toCell(lat: number, lng: number, grid: GeohashGrid) {
+  return {
+    x: clampIndex(Math.floor((lng + 180) / grid.cellWidth), grid.lngBits),
+    y: clampIndex(Math.floor((lat + 90) / grid.cellHeight), grid.latBits),
+  };
+}
+
+function getCellRange(bbox: Bbox, grid: GeohashGrid) {
+  const [minLng, minLat, maxLng, maxLat] = bbox;
+  return {
+    min: toCell(minLat, minLng, grid),
+    max: toCell(maxLat, maxLng, grid),
+  };
+}
+
+/**
+ * Size of the cells of a precision, in degrees
+ */
+export function getGeohashCellSize(precision: number): {
+  width: number;
+  height: number;
+} {
+  const { cellWidth, cellHeight } = getGrid(precision);
+  return { width: cellWidth, height: cellHeight };
+}
+
+/**
+ * Encode a coordinate as a geohash of the given precision (characters)
+ */
+export function encodeGeohash(
+  lat: number,
+  lng: number,
+  precision: number
+): string {
+  const grid = getGrid(precision);
+  const { x, y } = toCell(lat, lng, grid);
+  return cellToGeohash(x, y, grid);
+}
+
+/**
+ * Number of cells intersecting a bounding box, without listing them (large
+ * boxes have millions of fine cells)
+ */
+export function countGeohashesForBbox(bbox: Bbox, precision: number): number {
+  const { min, max } = getCellRange(bbox, getGrid(precision));
+  return (max.x - min.x + 1) * (max.y - min.y + 1);
+}
+
+/**
+ * Geohashes of all cells intersecting a bounding box
+ */
+export function geohashesForBbox(bbox: Bbox, precision: number): string[] {
+  const grid = getGrid(precision);
+  const { min, max } = getCellRange(bbox, grid);
+
+  const hashes: string[] = [];
+  for (let x = min.x; x <= max.x; x++) {
+    for (let y = min.y; y <= max.y; y++) {
+      hashes.push(cellToGeohash(x, y, grid));
+    }
+  }
+  return hashes;
+}
+
+// Meters per degree of latitude (and of longitude at the equator), on the
+// mean Earth radius turf uses
+const METERS_PER_DEGREE = (6371008.8 * Math.PI) / 180;
+
+/**
+ * Bounding box of a circle such as an interest zone, 1% larger so that
+ * nothing at its edge is missed
+ */
+export function getCircleBbox(
+  lat: number,
+  lng: number,
+  radius: number // meters
+): Bbox {
+  const latDelta = (radius * 1.01) / METERS_PER_DEGREE;
+  const lngDelta = latDelta / Math.cos((lat * Math.PI) / 180);
+  return [lng - lngDelta, lat - latDelta, lng + lngDelta, lat + latDelta];
+}
+
+/**
+ * Geohashes of the cells covered by an interest circle, at every precision
+ * in GEOHASH_PRECISIONS. Stored as `geohashes` on the interest, so that the
+ * notifications load only the interests in the cells of new messages.
+ */
+export function geohashesForCircle(
+  lat: number,
+  lng: number,
+  radius: number // meters
+): string[] {
+  const bbox = getCircleBbox(lat, lng, radius);
+  return GEOHASH_PRECISIONS.flatMap((precision) =>
+    geohashesForBbox(bbox, precision)
+  ).sort();
+}
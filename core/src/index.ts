@@ -0,0 +1,5 @@
+export type * from "./types";
+export * from "./sofia";
+export * from "./geohash";
+export * from "./timestamps";
+export * from "./documents";
@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
-import { convertTimestamp } from "./firestore-utils";
+import { convertTimestamp } from "./timestamps";
 
 describe("convertTimestamp", () => {
   beforeEach(() => {
@@ -0,0 +1,390 @@
+/**
+ * Domain and GeoJSON types shared by ingest and web
+ */
+
+export interface Message {
+  id?: string;
+  text: string;
+  addresses?: Address[];
+  extractedData?: ExtractedData;
+  geoJson?: GeoJSONFeatureCollection;
+  createdAt: Date | string;
+  crawledAt?: Date | string;
+  finalizedAt?: Date | string;
+  source?: string;
+  categories?: MessageCategory[];
+  sourceUrl?: string;
+  markdownText?: string;
+  messageFilter?: {
+    isRelevant: boolean;
+    normalizedText: string;
+  };
+  ingestStatus?: IngestStatus;
+  ingestStages?: IngestStages;
+  sourceRevision?: number; // Revision of the source document the message was built from
+  previousMessageId?: string; // Message built from the previous source revision
+  supersededBy?: string; // Message built from a newer source revision
+  sourceDiff?: SourceDiffLine[]; // Changes against the previous message text
+  resolvedAt?: Date | string; // The incident disappeared from the source feed
+  activeFrom?: Date | string; // Start of the validity window (see ingest/messageIngest/active-window.ts)
+  activeUntil?: Date | string; // End of the validity window
+  geohashes?: string[]; // Cells covered by geoJson (see geohash.ts)
+  geocodingConfidence?: number; // Lowest confidence of its addresses
+  geocodingOutliers?: Address[]; // Addresses dropped as too far from the rest
+  reviewStatus?: ReviewStatus; // Set when flagged into the review queue
+}
+
+// What a message is about, from its source, text and locations (see
+// ingest/messageIngest/category.ts). A message can be in several categories;
+// the web API and the zone filters filter by them.
+export type MessageCategory =
+  | "water"
+  | "heating"
+  | "electricity"
+  | "roads"
+  | "construction"
+  | "other";
+
+// Review of low-confidence geocoding (see
+// ingest/messageIngest/geocoding-review.ts). Notifications wait while a review
+// is pending.
+export type ReviewStatus = "pending" | "accepted" | "rejected";
+
+// Why a message was flagged for review
+export interface ReviewReason {
+  type: "low-confidence" | "outlier" | "not-found";
+  location: string; // Extracted pin, street endpoint, block, street or area
+  confidence?: number;
+}
+
+// Entry of the reviewQueue collection (document ID = message ID)
+export interface ReviewQueueEntry {
+  messageId: string;
+  text: string;
+  source?: string;
+  confidence: number;
+  reasons: ReviewReason[];
+  addresses: Address[];
+  outliers: Address[];
+  status: ReviewStatus;
+  createdAt: Date | string;
+  reviewedAt?: Date | string;
+  reviewedBy?: string; // Email of the admin
+  geoJson?: GeoJSONFeatureCollection; // Of the message, added by the web API
+}
+
+// A changed line between two revisions of a source
+export interface SourceDiffLine {
+  type: "added" | "removed";
+  text: string;
+}
+
+// Ingest pipeline checkpoints (stored on the message document)
+export type IngestStage = "filter" | "extract" | "geocode" | "geojson";
+
+export type IngestStageStatus = "pending" | "completed" | "skipped" | "failed";
+
+export interface IngestStageState {
+  status: IngestStageStatus;
+  attempts: number;
+  updatedAt?: string;
+  error?: string; // Last error message if the stage failed
+}
+
+export type IngestStages = Record<IngestStage, IngestStageState>;
+
+// processing: stages left to run; completed/failed: nothing left to resume
+export type IngestStatus = "processing" | "completed" | "failed";
+
+export interface Address {
+  originalText: string;
+  formattedAddress: string;
+  coordinates: {
+    lat: number;
+    lng: number;
+  };
+  geoJson?: {
+    type: "Point";
+    coordinates: [number, number]; // [longitude, latitude]
+  };
+  geocoding?: GeocodingQuality;
+  area?: GeoJSONPolygon; // Outline of a block, complex or district
+}
+
+// How an address was geocoded (see ingest/lib/geocoding-quality.ts)
+export type GeocodingMethod =
+  | "google-rooftop" // Exact Google hit (building or interpolated number)
+  | "google-approx" // Google street/area center
+  | "overpass-intersection" // Crossing of two OSM streets
+  | "overpass-centerline" // Center of an OSM street
+  | "fallback" // Street endpoint geocoded on its own, Nominatim or Photon
+  | "osm-block" // Block, entrance or complex among OSM buildings and areas
+  | "osm-area" // Whole street or area (ж.к., квартал, район) from OSM
+  | "manual"; // Cache override or moved in the review queue
+
+// Services addresses can be geocoded with (see ingest/lib/geocoding-provider.ts)
+export type GeocodingProviderName =
+  | "google"
+  | "overpass"
+  | "offline"
+  | "nominatim"
+  | "photon";
+
+export interface GeocodingQuality {
+  method: GeocodingMethod;
+  confidence: number; // 0-1
+  provider?: GeocodingProviderName; // Provider of the chain that found it
+}
+
+export interface Timespan {
+  start: string;
+  end: string;
+}
+
+export interface Pin {
+  address: string;
+  timespans: Timespan[];
+}
+
+// Side of a street by the parity of its house numbers
+export type StreetSide = "even" | "odd";
+
+export interface StreetSection {
+  street: string;
+  from: string; // Cross street, or a house on the street ("ул. Оборище 10")
+  to: string;
+  side?: StreetSide; // Only this side is affected (see ingest/lib/house-numbers.ts)
+  timespans: Timespan[];
+}
+
+// A block (бл.) of a residential complex (ж.к.), or the whole complex when
+// no block is given
+export interface BlockReference {
+  complex: string; // "ж.к. Младост 1", "" when not mentioned
+  block: string; // "215", "" for the whole complex
+  entrance: string; // "Б", "" when not mentioned
+  timespans: Timespan[];
+}
+
+// A whole street ("цялата ул. Оборище")
+export interface WholeStreet {
+  street: string;
+  timespans: Timespan[];
+}
+
+// A whole neighbourhood, complex or district ("в целия ж.к. Изток")
+export interface AreaReference {
+  name: string; // "ж.к. Изток", "кв. Лозенец", "район Красно село"
+  timespans: Timespan[];
+}
+
+export interface ExtractedData {
+  responsible_entity: string;
+  pins: Pin[];
+  streets: StreetSection[];
+  blocks?: BlockReference[]; // Not set on data extracted before blocks
+  whole_streets?: WholeStreet[]; // Not set on data extracted before areas
+  areas?: AreaReference[];
+  markdown_text?: string;
+}
+
+// GeoJSON Types
+export type GeoJSONGeometry =
+  | GeoJSONPoint
+  | GeoJSONMultiPoint
+  | GeoJSONLineString
+  | GeoJSONMultiLineString
+  | GeoJSONPolygon
+  | GeoJSONMultiPolygon
+  | GeoJSONGeometryCollection;
+
+export interface GeoJSONPoint {
+  type: "Point";
+  coordinates: [number, number]; // [longitude, latitude]
+}
+
+export interface GeoJSONMultiPoint {
+  type: "MultiPoint";
+  coordinates: [number, number][]; // array of [longitude, latitude]
+}
+
+export interface GeoJSONLineString {
+  type: "LineString";
+  coordinates: [number, number][]; // array of [longitude, latitude]
+}
+
+export interface GeoJSONMultiLineString {
+  type: "MultiLineString";
+  coordinates: [number, number][][]; // array of lines
+}
+
+export interface GeoJSONPolygon {
+  type: "Polygon";
+  coordinates: [number, number][][]; // array of rings, each ring is array of [longitude, latitude]; the first is the outline, the others holes
+}
+
+export interface GeoJSONMultiPolygon {
+  type: "MultiPolygon";
+  coordinates: [number, number][][][]; // array of polygons
+}
+
+export interface GeoJSONGeometryCollection {
+  type: "GeometryCollection";
+  geometries: GeoJSONGeometry[];
+}
+
+export interface GeoJSONFeature {
+  type: "Feature";
+  geometry: GeoJSONGeometry;
+  properties: Record<string, any>;
+}
+
+export interface GeoJSONFeatureCollection {
+  type: "FeatureCollection";
+  features: GeoJSONFeature[];
+}
+
+// Intersection coordinates
+export interface IntersectionCoordinates {
+  lat: number;
+  lng: number;
+}
+
+// User Interest (area of interest on the map)
+export interface Interest {
+  id?: string;
+  userId: string;
+  coordinates: {
+    lat: number;
+    lng: number;
+  };
+  radius: number; // in meters (min: 100, max: 1000, default: 500)
+  filters?: InterestFilters; // Without filters, every message in the zone
+  geohashes?: string[]; // Cells covered by the circle (see geohash.ts)
+  createdAt: Date | string;
+  updatedAt: Date | string;
+}
+
+// Planned works or unplanned incidents such as accidents
+export type IncidentKind = "planned" | "unplanned";
+
+// Messages a zone notifies about, each filter unset for all
+export interface InterestFilters {
+  sources?: string[]; // Source ids (see web/lib/sources.json)
+  categories?: MessageCategory[];
+  kind?: IncidentKind;
+}
+
+// Notification Subscription
+export interface NotificationSubscription {
+  id?: string;
+  userId: string;
+  token: string; // FCM token
+  endpoint: string; // Push subscription endpoint
+  createdAt: Date | string;
+  updatedAt: Date | string;
+  deviceInfo?: {
+    userAgent?: string;
+    platform?: string;
+  };
+}
+
+// Quiet hours in Sofia time, as "HH:MM" ("22:00" to "07:00" spans midnight)
+export interface QuietHours {
+  start: string;
+  end: string;
+}
+
+// Notification Preferences (one per user, the document id is the user id)
+export interface NotificationPreferences {
+  userId: string;
+  quietHours?: QuietHours; // Notifications wait until the quiet hours end
+  maxPerHour: number; // Beyond this, matches are collapsed into a summary
+  recentSends: (Date | string)[]; // Sends of the last hour, kept by ingest
+}
+
+// How often a user gets notifications by email: each match right away, or
+// a digest of the matches since the previous one
+export type EmailFrequency = "instant" | "daily" | "weekly";
+
+// Email Preference (one per user, the document id is the user id)
+export interface EmailPreference {
+  userId: string;
+  email: string;
+  frequency: EmailFrequency;
+  unsubscribeToken: string; // Secret of the one-click unsubscribe links
+  lastDigestAt?: Date | string; // Matches after this go in the next digest
+  createdAt: Date | string;
+  updatedAt: Date | string;
+}
+
+// Chat apps whose bots deliver notifications
+export type ChatChannel = "telegram" | "viber";
+
+// Notification channels with a send per device or chat
+export type NotificationChannelName = "push" | ChatChannel;
+
+// Chat Subscription (a Telegram or Viber chat linked with a one-time code)
+export interface ChatSubscription {
+  id?: string;
+  userId: string;
+  channel: ChatChannel;
+  chatId: string; // Telegram chat id or Viber user id
+  displayName?: string; // Chat title or the name of the person
+  createdAt: Date | string;
+}
+
+// Device Notification (tracking individual device send)
+export interface DeviceNotification {
+  subscriptionId: string; // Reference to the subscription or chat doc
+  channel?: NotificationChannelName; // Push when missing
+  deviceInfo?: {
+    userAgent?: string;
+  };
+  sentAt: Date | string;
+  success: boolean;
+  error?: string; // Error message if failed
+}
+
+// Message Snapshot (denormalized message data)
+export interface MessageSnapshot {
+  text: string;
+  source?: string;
+  sourceUrl?: string;
+  createdAt: string;
+}
+
+// Notification Match (message matched to user's interest)
+export interface NotificationMatch {
+  id?: string;
+  userId: string;
+  messageId: string;
+  interestId: string;
+  matchedAt: Date | string;
+  notified: boolean; // Whether notification was sent
+  notifiedAt?: Date | string;
+  notificationError?: string; // Error if notification failed
+  distance?: number; // Distance in meters from interest center to closest point
+  deviceNotifications?: DeviceNotification[]; // Array of device-specific sends
+  messageSnapshot?: MessageSnapshot; // Denormalized message data
+  emailedAt?: Date | string; // When the match was sent by email
+  collapsed?: boolean; // Sent in a summary with other matches
+}
+
+// Notification History Item (for API response)
+export interface NotificationHistoryItem {
+  id: string;
+  messageId: string;
+  messageSnapshot: MessageSnapshot;
+  notifiedAt: string;
+  distance?: number;
+  interestId: string;
+  successfulDevicesCount: number;
+}
+
+// Source Configuration
+export interface SourceConfig {
+  id: string;
+  url: string;
+  name: string;
+}
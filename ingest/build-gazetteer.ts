@@ -0,0 +1,99 @@
+#!/usr/bin/env node
+
+import { Command } from "commander";
+import { execFileSync } from "node:child_process";
+import { mkdir, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { basename, dirname, join, resolve } from "node:path";
+import { DEFAULT_GAZETTEER_PATH, buildGazetteer } from "./lib/gazetteer";
+
+const program = new Command();
+
+/**
+ * Convert a PBF extract to GeoJSON with osmium-tool, keeping only the
+ * objects the gazetteer uses (streets, squares, addresses, blocks with
+ * their entrances, complexes and districts)
+ */
+async function convertPbf(input: string, workDir: string): Promise<string> {
+  const filtered = join(workDir, "filtered.osm.pbf");
+  const output = join(workDir, "extract.geojson");
+
+  try {
+    execFileSync("osmium", [
+      "tags-filter",
+      input,
+      "w/highway",
+      "nw/place=square",
+      "nwr/addr:housenumber",
+      "w/building",
+      "n/entrance",
+      "nwr/place=suburb,quarter,neighbourhood",
+      "wr/landuse=residential",
+      "r/boundary=administrative",
+      "-o",
+      filtered,
+    ]);
+    execFileSync("osmium", ["export", filtered, "-o", output]);
+  } catch (error) {
+    throw new Error(
+      `Converting ${input} failed, is osmium-tool installed? (${error})`
+    );
+  }
+
+  return output;
+}
+
+program
+  .name("build-gazetteer")
+  .description(
+    "Build the Sofia street gazetteer used by GEOCODING_BACKEND=offline"
+  )
+  .requiredOption(
+    "-i, --input <path>",
+    "OSM extract: .osm.pbf (needs osmium-tool), GeoJSON or Overpass JSON"
+  )
+  .option(
+    "-o, --output <path>",
+    "Where to write the gazetteer",
+    DEFAULT_GAZETTEER_PATH
+  )
+  .addHelpText(
+    "after",
+    `
+Examples:
+  $ npx tsx build-gazetteer --input sofia.osm.pbf
+  $ npx tsx build-gazetteer --input sofia.geojson --output /tmp/gazetteer.json
+`
+  )
+  .action(async (options) => {
+    const input = resolve(process.cwd(), options.input);
+    const output = resolve(process.cwd(), options.output);
+    const workDir = await mkdtemp(join(tmpdir(), "gazetteer-"));
+    let exitCode = 0;
+
+    try {
+      const geoJsonPath = input.endsWith(".pbf")
+        ? await convertPbf(input, workDir)
+        : input;
+
+      console.log(`📥 Reading ${geoJsonPath}`);
+      const extract = JSON.parse(await readFile(geoJsonPath, "utf-8"));
+      const gazetteer = buildGazetteer(extract, basename(input));
+
+      await mkdir(dirname(output), { recursive: true });
+      await writeFile(output, JSON.stringify(gazetteer));
+
+      console.log(
+        `✅ Gazetteer written to ${output}: ${gazetteer.streets.length} street ways, ${gazetteer.addresses.length} addresses, ${gazetteer.blocks.length} blocks, ${gazetteer.complexes.length} complexes and districts`
+      );
+    } catch (error) {
+      console.error("❌ Building the gazetteer failed:", error);
+      exitCode = 1;
+    } finally {
+      await rm(workDir, { recursive: true, force: true });
+    }
+
+    process.exit(exitCode);
+  });
+
+program.parse();
@@ -1,67 +1,141 @@
 #!/usr/bin/env node
 
-import { Command } from "commander";
-import { readdirSync, statSync } from "node:fs";
-import { join } from "node:path";
+import { Command, InvalidArgumentError } from "commander";
+import { CRAWLERS, getCrawlerIds, resolveCrawlers } from "./crawlers/registry";
+import { DEFAULT_CONCURRENCY, runCrawlers } from "./crawlers/run-crawlers";
+import { configureFixtures } from "./crawlers/shared/fixtures";
+import type { Crawler } from "./crawlers/shared/types";
 
 const program = new Command();
 
 /**
- * Get available crawler sources by reading the crawlers directory
+ * Format one line per crawler for --list and --help
  */
-function getAvailableSources(): string[] {
-  const crawlersDir = join(__dirname, "crawlers");
-  const entries = readdirSync(crawlersDir);
+function formatCrawlerList(): string {
+  const width = Math.max(...getCrawlerIds().map((id) => id.length));
+  return CRAWLERS.map(
+    (crawler) =>
+      `  ${crawler.id.padEnd(width)}  [${crawler.output}] ${
+        crawler.displayName
+      } - ${crawler.description}`
+  ).join("\n");
+}
 
-  return entries.filter((entry) => {
-    const fullPath = join(crawlersDir, entry);
-    const isDirectory = statSync(fullPath).isDirectory();
-    // Exclude 'shared' and 'README.md'
-    return isDirectory && entry !== "shared";
-  });
+/**
+ * Parse a comma-separated list of source ids
+ */
+function parseSourceList(value: string): string[] {
+  return value
+    .split(",")
+    .map((source) => source.trim())
+    .filter(Boolean);
+}
+
+function parsePositiveInteger(value: string): number {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 1) {
+    throw new InvalidArgumentError("Not a positive integer.");
+  }
+  return number;
+}
+
+function parseDate(value: string): Date {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new InvalidArgumentError("Not a date (YYYY-MM-DD).");
+  }
+  return date;
 }
 
 program
   .name("crawl")
-  .description("Run a web crawler to fetch data from external sources")
-  .requiredOption("-s, --source <name>", "Source crawler to run")
+  .description("Run web crawlers to fetch data from external sources")
+  .option("-s, --source <name>", "Source crawler to run")
+  .option(
+    "--sources <names>",
+    "Comma-separated list of source crawlers to run",
+    parseSourceList
+  )
+  .option("--all", "Run all crawlers")
+  .option(
+    "--concurrency <number>",
+    `Number of crawlers to run at the same time (default: ${DEFAULT_CONCURRENCY})`,
+    parsePositiveInteger
+  )
+  .option("--list", "List available crawlers and exit")
+  .option("--dry-run", "Fetch and parse without writing to Firestore")
+  .option(
+    "--since <date>",
+    "Skip documents published before this date (YYYY-MM-DD)",
+    parseDate
+  )
+  .option(
+    "--limit <number>",
+    "Limit number of documents per crawler",
+    parsePositiveInteger
+  )
+  .option("--headed", "Show the browser window (Playwright crawlers)")
+  .option("--record <dir>", "Save fetched pages and API responses as fixtures")
+  .option(
+    "--replay <dir>",
+    "Serve pages and API responses from fixtures (offline)"
+  )
   .addHelpText(
     "after",
     `
 Available sources:
-${getAvailableSources()
-  .map((source) => `  - ${source}`)
-  .join("\n")}
+${formatCrawlerList()}
 
 Examples:
   $ npx tsx crawl --source rayon-oborishte-bg
-  $ npx tsx crawl --source sofia-bg
+  $ npx tsx crawl --source sofia-bg --dry-run --limit 5
+  $ npx tsx crawl --source toplo-bg --since 2025-01-01
+  $ npx tsx crawl --sources toplo-bg,erm-zapad
+  $ npx tsx crawl --all --concurrency 3
+  $ npx tsx crawl --list
+  $ npx tsx crawl --source sofia-bg --record fixtures/sofia-bg
+  $ npx tsx crawl --source sofia-bg --replay fixtures/sofia-bg --dry-run
 `
   )
   .action(async (options) => {
-    const availableSources = getAvailableSources();
-
-    // Validate source
-    if (!availableSources.includes(options.source)) {
-      console.error(`❌ Error: Unknown source "${options.source}"`);
-      console.error(`\nAvailable sources: ${availableSources.join(", ")}`);
-      process.exit(1);
+    if (options.list) {
+      console.log(formatCrawlerList());
+      process.exit(0);
     }
 
-    // Dynamically import and run the crawler
+    let crawlers: Crawler[];
     try {
-      const crawlerPath = `./crawlers/${options.source}/index.js`;
-      console.log(`🚀 Running crawler: ${options.source}`);
-
-      const crawler = await import(crawlerPath);
-      await crawler.crawl();
-
-      console.log(`✅ Crawler ${options.source} completed`);
-      process.exit(0);
+      if (options.all) {
+        crawlers = CRAWLERS;
+      } else if (options.sources) {
+        crawlers = resolveCrawlers(options.sources);
+      } else if (options.source) {
+        crawlers = resolveCrawlers([options.source]);
+      } else {
+        throw new Error("Specify --source <name>, --sources <names> or --all");
+      }
     } catch (error) {
-      console.error(`❌ Error running crawler ${options.source}:`, error);
+      console.error(`❌ Error: ${(error as Error).message}`);
+      console.error(`\nAvailable sources: ${getCrawlerIds().join(", ")}`);
       process.exit(1);
     }
+
+    if (options.record) {
+      configureFixtures({ mode: "record", dir: options.record });
+    } else if (options.replay) {
+      configureFixtures({ mode: "replay", dir: options.replay });
+    }
+
+    const report = await runCrawlers(crawlers, {
+      dryRun: options.dryRun,
+      limit: options.limit,
+      since: options.since,
+      headless: !options.headed,
+      concurrency: options.concurrency,
+    });
+
+    // Fail the job when any crawler failed, after the others have finished
+    process.exit(report.failedSources.length > 0 ? 1 : 0);
   });
 
 program.parse();
@@ -1,6 +1,11 @@
-import { describe, expect, it } from "vitest";
+import { describe, expect, it, vi } from "vitest";
 import type { RawIncident } from "./types";
-import { buildGeoJSON, buildMessage, buildTitle } from "./builders";
+import {
+  buildActivePeriod,
+  buildGeoJSON,
+  buildMessage,
+  buildTitle,
+} from "./builders";
 
 describe("buildMessage", () => {
   it("should build complete message with all fields", () => {
@@ -327,3 +332,34 @@ describe("buildGeoJSON", () => {
     expect(geoJson?.features[0].geometry.type).toBe("MultiPoint");
   });
 });
+
+describe("buildActivePeriod", () => {
+  const incident: RawIncident = {
+    ceo: "12345",
+    typedist: "Авария",
+    type_event: "1",
+    city_name: "София",
+    grid_id: "",
+    cities: "",
+    begin_event: "29.12.2025 10:00",
+    end_event: "29.12.2025 16:00",
+    lat: "42.6977",
+    lon: "23.3219",
+    points: { cnt: "0" },
+  };
+
+  it("should parse the period to ISO format", () => {
+    const period = buildActivePeriod(incident);
+
+    expect(period.activeFrom).toContain("2025-12-29");
+    expect(period.activeUntil).toContain("2025-12-29");
+  });
+
+  it("should leave out invalid dates", () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    expect(
+      buildActivePeriod({ ...incident, begin_event: "invalid", end_event: "" })
+    ).toEqual({});
+  });
+});
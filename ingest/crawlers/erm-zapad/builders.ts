@@ -1,26 +1,22 @@
 import type { GeoJSONFeature, GeoJSONFeatureCollection } from "@/lib/types";
 import { parseBulgarianDateTime } from "../shared/date-utils";
+import type { BaseSourceDocument } from "../shared/types";
 import type { RawIncident } from "./types";
 import { createGeometry } from "./geometry";
 
 /**
- * Build GeoJSON FeatureCollection from incident
+ * Parse the incident period to ISO format
  */
-export function buildGeoJSON(
+export function buildActivePeriod(
   incident: RawIncident
-): GeoJSONFeatureCollection | null {
-  const geometry = createGeometry(incident);
-  if (!geometry) {
-    return null;
-  }
-
-  // Parse dates to ISO format for easier filtering in the app
-  let startTimeISO: string | undefined;
-  let endTimeISO: string | undefined;
+): Pick<BaseSourceDocument, "activeFrom" | "activeUntil"> {
+  const period: Pick<BaseSourceDocument, "activeFrom" | "activeUntil"> = {};
 
   try {
     if (incident.begin_event) {
-      startTimeISO = parseBulgarianDateTime(incident.begin_event).toISOString();
+      period.activeFrom = parseBulgarianDateTime(
+        incident.begin_event
+      ).toISOString();
     }
   } catch (error) {
     console.warn(`   ⚠️  Invalid start date format: ${incident.begin_event}`);
@@ -28,12 +24,32 @@ export function buildGeoJSON(
 
   try {
     if (incident.end_event) {
-      endTimeISO = parseBulgarianDateTime(incident.end_event).toISOString();
+      period.activeUntil = parseBulgarianDateTime(
+        incident.end_event
+      ).toISOString();
     }
   } catch (error) {
     console.warn(`   ⚠️  Invalid end date format: ${incident.end_event}`);
   }
 
+  return period;
+}
+
+/**
+ * Build GeoJSON FeatureCollection from incident
+ */
+export function buildGeoJSON(
+  incident: RawIncident
+): GeoJSONFeatureCollection | null {
+  const geometry = createGeometry(incident);
+  if (!geometry) {
+    return null;
+  }
+
+  // Parse dates to ISO format for easier filtering in the app
+  const { activeFrom: startTimeISO, activeUntil: endTimeISO } =
+    buildActivePeriod(incident);
+
   const feature: GeoJSONFeature = {
     type: "Feature",
     geometry,
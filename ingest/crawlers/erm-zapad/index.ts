@@ -3,13 +3,26 @@ import { resolve } from "node:path";
 import dotenv from "dotenv";
 import { delay } from "@/lib/delay";
 import { validateAndFixGeoJSON } from "../shared/geojson-validation";
-import { launchBrowser } from "../shared/browser";
-import { saveSourceDocumentIfNew } from "../shared/firestore";
+import { fetchWithFixtures, launchBrowser } from "../shared/browser";
+import { upsertSourceDocument } from "../shared/firestore";
 import { parseBulgarianDateTime } from "../shared/date-utils";
-import { buildGeoJSON, buildMessage, buildTitle } from "./builders";
+import {
+  createCrawlSummary,
+  hasOnlyFailures,
+  isPublishedBefore,
+  mergeCrawlSummaries,
+  recordCrawlFailure,
+  recordSaveResult,
+} from "../shared/crawl-summary";
+import type { CrawlOptions, CrawlSummary, Crawler } from "../shared/types";
+import {
+  buildActivePeriod,
+  buildGeoJSON,
+  buildMessage,
+  buildTitle,
+} from "./builders";
 import type {
   ApiResponse,
-  CrawlSummary,
   ErmZapadSourceDocument,
   Municipality,
   RawIncident,
@@ -25,10 +38,12 @@ const SOURCE_TYPE = "erm-zapad";
 /**
  * Discover active София-град municipalities from the index page
  */
-async function discoverMunicipalities(): Promise<Municipality[]> {
+async function discoverMunicipalities(
+  headless?: boolean
+): Promise<Municipality[]> {
   console.log("🔍 Discovering София-град municipalities...");
 
-  const browser = await launchBrowser();
+  const browser = await launchBrowser({ headless });
   const page = await browser.newPage();
 
   try {
@@ -102,7 +117,7 @@ async function fetchMunicipalityIncidents(
     lon: "0",
   });
 
-  const response = await fetch(API_URL, {
+  const response = await fetchWithFixtures(API_URL, {
     method: "POST",
     headers: {
       Accept: "*/*",
@@ -130,6 +145,13 @@ async function fetchMunicipalityIncidents(
   return incidents;
 }
 
+/**
+ * Build the source URL of an incident
+ */
+function buildIncidentUrl(ceo: string): string {
+  return `${BASE_URL}/incidents/${ceo}`;
+}
+
 /**
  * Convert raw incident to source document
  */
@@ -163,7 +185,7 @@ function buildSourceDocument(
     validation.warnings.forEach((warn) => console.warn(`      ${warn}`));
   }
 
-  const url = `${BASE_URL}/incidents/${incident.ceo}`;
+  const url = buildIncidentUrl(incident.ceo);
   const title = buildTitle(incident);
   const message = buildMessage(incident);
 
@@ -190,6 +212,7 @@ function buildSourceDocument(
     sourceType: SOURCE_TYPE,
     crawledAt: new Date(),
     geoJson: validation.geoJson,
+    ...buildActivePeriod(incident),
   };
 }
 
@@ -197,44 +220,60 @@ function buildSourceDocument(
  * Process incidents for a municipality
  */
 async function processMunicipality(
-  municipality: Municipality
+  municipality: Municipality,
+  options: CrawlOptions
 ): Promise<CrawlSummary> {
   console.log(`\n📍 Processing ${municipality.name} (${municipality.code})...`);
 
-  const summary: CrawlSummary = { saved: 0, skipped: 0, failed: 0 };
+  const summary = createCrawlSummary();
 
   try {
-    const incidents = await fetchMunicipalityIncidents(municipality.code);
-    console.log(`   Found ${incidents.length} incident(s)`);
+    const allIncidents = await fetchMunicipalityIncidents(municipality.code);
+    console.log(`   Found ${allIncidents.length} incident(s)`);
 
+    // The API returns active incidents only; the rest are resolved
+    summary.activeUrls = allIncidents
+      .filter((incident) => typeof incident.ceo === "string" && incident.ceo)
+      .map((incident) => buildIncidentUrl(incident.ceo));
+
+    const incidents = allIncidents.slice(0, options.limit);
     if (incidents.length === 0) {
       return summary;
     }
 
-    // Dynamic import after dotenv.config
-    const { adminDb } = await import("@/lib/firebase-admin");
+    // Dynamic import after dotenv.config (not needed for dry-run)
+    const adminDb = options.dryRun
+      ? null
+      : (await import("@/lib/firebase-admin")).adminDb;
 
     for (const incident of incidents) {
       try {
         const doc = buildSourceDocument(incident);
-        if (!doc) {
+        if (!doc || isPublishedBefore(doc.datePublished, options.since)) {
           summary.skipped++;
           continue;
         }
 
-        const saved = await saveSourceDocumentIfNew(doc, adminDb);
-        if (saved) {
-          console.log(`   ✅ Saved: ${doc.title}`);
+        if (!adminDb) {
+          console.log(`   📝 [dry-run] ${doc.title}`);
           summary.saved++;
-        } else {
-          summary.skipped++;
+          continue;
+        }
+
+        const result = await upsertSourceDocument(doc, adminDb, {
+          upstream: incident,
+          logSuccess: false,
+        });
+        if (result === "new") {
+          console.log(`   ✅ Saved: ${doc.title}`);
         }
+        recordSaveResult(summary, result);
       } catch (error) {
         console.error(
           `   ❌ Failed to process incident ${incident.ceo}:`,
           error
         );
-        summary.failed++;
+        recordCrawlFailure(summary, incident.ceo, error);
       }
     }
   } catch (error) {
@@ -251,56 +290,71 @@ async function processMunicipality(
 /**
  * Main crawler function
  */
-async function crawl(): Promise<void> {
+async function crawl(options: CrawlOptions = {}): Promise<CrawlSummary> {
   console.log("🚀 Starting ERM-Zapad crawler...\n");
 
   const startTime = Date.now();
-  const totalSummary: CrawlSummary = { saved: 0, skipped: 0, failed: 0 };
+  const summaries: CrawlSummary[] = [];
+  let remaining = options.limit;
 
-  try {
-    // Discover municipalities
-    const municipalities = await discoverMunicipalities();
+  // Discover municipalities
+  const municipalities = await discoverMunicipalities(options.headless);
+
+  if (municipalities.length === 0) {
+    console.log("⚠️  No София-град municipalities found");
+    return createCrawlSummary();
+  }
 
-    if (municipalities.length === 0) {
-      console.log("⚠️  No София-град municipalities found");
-      return;
+  // Process each municipality
+  for (const municipality of municipalities) {
+    if (remaining !== undefined && remaining <= 0) {
+      break;
     }
 
-    // Process each municipality
-    for (const municipality of municipalities) {
-      const summary = await processMunicipality(municipality);
+    const summary = await processMunicipality(municipality, {
+      ...options,
+      limit: remaining,
+    });
+    summaries.push(summary);
 
-      totalSummary.saved += summary.saved;
-      totalSummary.skipped += summary.skipped;
-      totalSummary.failed += summary.failed;
+    if (remaining !== undefined) {
+      remaining -= summary.saved + summary.skipped + summary.failed;
+    }
 
-      // Delay between municipalities
-      if (municipality !== municipalities.at(-1)) {
-        await delay(2000); // 2 second delay
-      }
+    // Delay between municipalities
+    if (municipality !== municipalities.at(-1)) {
+      await delay(2000); // 2 second delay
     }
+  }
 
-    // Final summary
-    const duration = ((Date.now() - startTime) / 1000).toFixed(1);
-    console.log(
-      `\n✅ Crawl complete in ${duration}s. Saved: ${totalSummary.saved}; Skipped: ${totalSummary.skipped}; Failed: ${totalSummary.failed}`
-    );
+  const totalSummary: CrawlSummary = {
+    ...mergeCrawlSummaries(summaries),
+    activeUrls: summaries.flatMap((summary) => summary.activeUrls ?? []),
+  };
 
-    // Exit with error if all failed
-    if (
-      totalSummary.failed > 0 &&
-      totalSummary.saved === 0 &&
-      totalSummary.skipped === 0
-    ) {
-      console.error("\n❌ All incidents failed to process");
-      process.exit(1);
-    }
-  } catch (error) {
-    console.error("\n❌ Crawl failed:", error);
-    process.exit(1);
+  // Final summary
+  const duration = ((Date.now() - startTime) / 1000).toFixed(1);
+  console.log(
+    `\n✅ Crawl complete in ${duration}s. Saved: ${totalSummary.saved}; Skipped: ${totalSummary.skipped}; Failed: ${totalSummary.failed}`
+  );
+
+  // Fail the crawl if every incident failed
+  if (hasOnlyFailures(totalSummary)) {
+    throw new Error("All incidents failed to process");
   }
+
+  return totalSummary;
 }
 
+const crawler: Crawler = {
+  id: SOURCE_TYPE,
+  displayName: "ЕРМ Запад",
+  description: "Power outages for София-град municipalities from info.ermzapad.bg",
+  schedule: "20 10,14,16 * * *",
+  output: "geojson",
+  crawl,
+};
+
 // Run if called directly
 if (require.main === module) {
   crawl().catch((error) => {
@@ -309,4 +363,4 @@ if (require.main === module) {
   });
 }
 
-export { crawl };
+export { crawl, crawler };
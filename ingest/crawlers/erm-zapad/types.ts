@@ -55,12 +55,3 @@ export interface Municipality {
 export interface ErmZapadSourceDocument extends SourceDocumentWithGeoJson {
   sourceType: "erm-zapad";
 }
-
-/**
- * Crawl summary statistics
- */
-export interface CrawlSummary {
-  saved: number;
-  skipped: number;
-  failed: number;
-}
@@ -1,4 +1,4 @@
-import type { Page } from "playwright";
+import type { CrawlerPage } from "../shared/browser";
 import type { PostLink } from "./types";
 import { SELECTORS } from "./selectors";
 
@@ -8,7 +8,7 @@ import { SELECTORS } from "./selectors";
  * Note: mladost.bg includes time information separately from the date,
  * so we need a custom implementation that extends the base extractor pattern.
  */
-export async function extractPostLinks(page: Page): Promise<PostLink[]> {
+export async function extractPostLinks(page: CrawlerPage): Promise<PostLink[]> {
   console.log("📋 Extracting post links from index page...");
 
   const posts = await page.evaluate(() => {
@@ -60,7 +60,7 @@ export async function extractPostLinks(page: Page): Promise<PostLink[]> {
  * Extract post details from individual post page
  */
 export async function extractPostDetails(
-  page: Page
+  page: CrawlerPage
 ): Promise<{ title: string; dateText: string; contentHtml: string }> {
   const details = await page.evaluate(() => {
     // Extract title (mladost.bg uses h2, not h1)
@@ -1,4 +1,4 @@
-import type { Page } from "playwright";
+import type { CrawlerPage } from "../shared/browser";
 import type { PostLink } from "./types";
 import { SELECTORS } from "./selectors";
 import { extractPostLinks as extractPostLinksShared } from "../shared/extractors";
@@ -6,7 +6,7 @@ import { extractPostLinks as extractPostLinksShared } from "../shared/extractors
 /**
  * Extract post links from the index page
  */
-export async function extractPostLinks(page: Page): Promise<PostLink[]> {
+export async function extractPostLinks(page: CrawlerPage): Promise<PostLink[]> {
   // Filter to only include actual post URLs (not category links, etc.)
   const urlFilter = (url: string) =>
     url.includes(
@@ -20,7 +20,7 @@ export async function extractPostLinks(page: Page): Promise<PostLink[]> {
  * Extract post details from individual post page
  */
 export async function extractPostDetails(
-  page: Page
+  page: CrawlerPage
 ): Promise<{ title: string; dateText: string; contentHtml: string }> {
   const details = await page.evaluate(() => {
     // Extract title
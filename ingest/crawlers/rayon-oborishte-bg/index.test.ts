@@ -0,0 +1,90 @@
+import { describe, it, expect, vi, beforeEach, afterAll } from "vitest";
+import { join } from "node:path";
+
+// Replay needs no network and no real delays between posts
+vi.mock("@/lib/delay", () => ({
+  delay: vi.fn().mockResolvedValue(undefined),
+}));
+
+const savedDocuments: any[] = [];
+vi.mock("@/lib/firebase-admin", () => ({ adminDb: {} }));
+vi.mock("../shared/firestore", () => ({
+  isUrlProcessed: vi.fn().mockResolvedValue(false),
+  saveSourceDocument: vi.fn(async (doc: any) => {
+    savedDocuments.push(doc);
+  }),
+}));
+
+import { crawl } from "./index";
+import { configureFixtures } from "../shared/fixtures";
+import { isUrlProcessed } from "../shared/firestore";
+
+describe("rayon-oborishte-bg crawl (fixture replay)", () => {
+  beforeEach(() => {
+    savedDocuments.length = 0;
+    vi.mocked(isUrlProcessed).mockResolvedValue(false);
+    configureFixtures({
+      mode: "replay",
+      dir: join(__dirname, "__fixtures__"),
+    });
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    configureFixtures({});
+  });
+
+  it("should crawl index and post pages into source documents", async () => {
+    const summary = await crawl();
+
+    expect(summary).toEqual({
+      saved: 2,
+      updated: 0,
+      skipped: 0,
+      failed: 0,
+      errors: [],
+    });
+    expect(savedDocuments).toHaveLength(2);
+
+    const [first] = savedDocuments;
+    expect(first.url).toContain("remont-ul-oborishte");
+    expect(first.title).toBe("Уведомление за ремонт на ул. Оборище");
+    expect(first.sourceType).toBe("rayon-oborishte-bg");
+    expect(first.message).toContain("**ул. Оборище**");
+    expect(first.message).not.toContain("Сподели");
+    expect(new Date(first.datePublished).getMonth()).toBe(11); // December
+  });
+
+  it("should skip posts that were already processed", async () => {
+    vi.mocked(isUrlProcessed).mockImplementation(async (url: string) =>
+      url.includes("spirane-na-vodata")
+    );
+
+    const summary = await crawl();
+
+    expect(summary.saved).toBe(1);
+    expect(summary.skipped).toBe(1);
+  });
+
+  it("should honour since and limit", async () => {
+    const sinceSummary = await crawl({ since: new Date("2025-12-01") });
+    expect(sinceSummary).toMatchObject({ saved: 1, skipped: 1 });
+
+    const limitSummary = await crawl({ limit: 1 });
+    expect(limitSummary).toMatchObject({ saved: 1, skipped: 0 });
+  });
+
+  it("should not write anything on dry-run", async () => {
+    const summary = await crawl({ dryRun: true });
+
+    expect(summary.saved).toBe(2);
+    expect(savedDocuments).toHaveLength(0);
+  });
+
+  it("should fail when a page was never recorded", async () => {
+    configureFixtures({ mode: "replay", dir: join(__dirname, "missing") });
+
+    await expect(crawl()).rejects.toThrow("No fixture recorded");
+  });
+});
@@ -2,14 +2,19 @@
 
 import dotenv from "dotenv";
 import { resolve } from "node:path";
-import { Browser } from "playwright";
 import type { Firestore } from "firebase-admin/firestore";
 import { SourceDocument, PostLink } from "./types";
-import { launchBrowser } from "../shared/browser";
+import type { CrawlOptions, CrawlSummary, Crawler } from "../shared/types";
+import { type CrawlerBrowser, launchBrowser } from "../shared/browser";
 import { delay } from "@/lib/delay";
 import { isUrlProcessed, saveSourceDocument } from "../shared/firestore";
 import { extractPostLinks, extractPostDetails } from "./extractors";
 import { buildWebPageSourceDocument } from "../shared/webpage-crawlers";
+import {
+  createCrawlSummary,
+  isPublishedBefore,
+  recordCrawlFailure,
+} from "../shared/crawl-summary";
 
 // Load environment variables from .env.local
 dotenv.config({ path: resolve(process.cwd(), ".env.local") });
@@ -23,26 +28,15 @@ const DELAY_BETWEEN_REQUESTS = 2000; // 2 seconds
  * Process a single post
  */
 async function processPost(
-  browser: Browser,
+  browser: CrawlerBrowser,
   postLink: PostLink,
-  adminDb: Firestore
-): Promise<void> {
+  adminDb: Firestore | null,
+  options: CrawlOptions
+): Promise<"saved" | "skipped"> {
   const { url, title } = postLink;
 
   console.log(`\n🔍 Processing: ${title.substring(0, 60)}...`);
 
-  // Check if already processed
-  try {
-    const alreadyProcessed = await isUrlProcessed(url, adminDb);
-    if (alreadyProcessed) {
-      console.log(`⏭️  Skipped (already processed): ${url}`);
-      return;
-    }
-  } catch (error) {
-    console.error(`❌ Error checking if URL is processed: ${url}`, error);
-    throw error;
-  }
-
   // Open new page for this post
   const page = await browser.newPage();
 
@@ -60,43 +54,55 @@ async function processPost(
       SOURCE_TYPE
     ) as Omit<SourceDocument, "crawledAt">;
 
+    if (isPublishedBefore(postDetails.datePublished, options.since)) {
+      console.log(`⏭️  Skipped (published before --since): ${url}`);
+      return "skipped";
+    }
+
     // Save to Firestore
     const sourceDoc: SourceDocument = {
       ...postDetails,
       crawledAt: new Date(),
     };
 
-    await saveSourceDocument(sourceDoc, adminDb);
-
-    console.log(`✅ Successfully processed: ${title.substring(0, 60)}...`);
+    if (adminDb) {
+      await saveSourceDocument(sourceDoc, adminDb);
+      console.log(`✅ Successfully processed: ${title.substring(0, 60)}...`);
+    } else {
+      console.log(`📝 [dry-run] ${sourceDoc.title}`);
+    }
+    return "saved";
   } catch (error) {
     console.error(`❌ Error processing post: ${url}`, error);
-    throw error; // Re-throw to fail the entire process
+    throw error; // Re-throw so the post is counted as failed
   } finally {
     await page.close();
-  }
 
-  // Wait before next request
-  await delay(DELAY_BETWEEN_REQUESTS);
+    // Wait before next request
+    await delay(DELAY_BETWEEN_REQUESTS);
+  }
 }
 
 /**
  * Main crawler function
  */
-export async function crawl(): Promise<void> {
+export async function crawl(options: CrawlOptions = {}): Promise<CrawlSummary> {
   console.log("🚀 Starting rayon-oborishte-bg crawler...\n");
   console.log(`📍 Index URL: ${INDEX_URL}`);
   console.log(`🗄️  Source type: ${SOURCE_TYPE}\n`);
 
-  // Import firebase-admin after env is loaded
-  const { adminDb } = await import("@/lib/firebase-admin");
+  // Import firebase-admin after env is loaded (not needed for dry-run)
+  const adminDb = options.dryRun
+    ? null
+    : (await import("@/lib/firebase-admin")).adminDb;
 
-  let browser: Browser | null = null;
+  const summary = createCrawlSummary();
+  let browser: CrawlerBrowser | null = null;
 
   try {
     // Launch browser
     console.log("🌐 Launching browser...");
-    browser = await launchBrowser();
+    browser = await launchBrowser({ headless: options.headless });
 
     // Open index page
     const page = await browser.newPage();
@@ -104,42 +110,46 @@ export async function crawl(): Promise<void> {
     await page.goto(INDEX_URL, { waitUntil: "networkidle" });
 
     // Extract all post links
-    const postLinks = await extractPostLinks(page);
+    const allPostLinks = await extractPostLinks(page);
     await page.close();
 
-    if (postLinks.length === 0) {
+    if (allPostLinks.length === 0) {
       console.warn("⚠️ No posts found on index page");
-      return;
+      return summary;
     }
 
+    const postLinks = allPostLinks.slice(0, options.limit);
     console.log(`\n📊 Total posts to process: ${postLinks.length}\n`);
 
     // Process each post
-    let processedCount = 0;
-    let skippedCount = 0;
-
     for (const postLink of postLinks) {
       try {
-        const wasProcessed = await isUrlProcessed(postLink.url, adminDb);
+        const wasProcessed =
+          adminDb !== null && (await isUrlProcessed(postLink.url, adminDb));
 
         if (wasProcessed) {
-          skippedCount++;
+          summary.skipped++;
         } else {
-          await processPost(browser, postLink, adminDb);
-          processedCount++;
+          const result = await processPost(browser, postLink, adminDb, options);
+          summary[result]++;
         }
       } catch (error) {
-        console.error(`❌ Error processing post: ${postLink.url}`, error);
+        recordCrawlFailure(summary, postLink.url, error);
         // Continue with next post
       }
     }
 
     console.log("\n" + "=".repeat(60));
     console.log("✅ Crawling completed successfully!");
-    console.log(`📊 Total posts found: ${postLinks.length}`);
-    console.log(`✅ Newly processed: ${processedCount}`);
-    console.log(`⏭️  Skipped (already exists): ${skippedCount}`);
+    console.log(`📊 Total posts found: ${allPostLinks.length}`);
+    console.log(`✅ Newly processed: ${summary.saved}`);
+    console.log(`⏭️  Skipped: ${summary.skipped}`);
+    if (summary.failed > 0) {
+      console.log(`❌ Failed: ${summary.failed}`);
+    }
     console.log("=".repeat(60) + "\n");
+
+    return summary;
   } catch (error) {
     console.error("\n" + "=".repeat(60));
     console.error("❌ Crawling failed with error:");
@@ -154,6 +164,15 @@ export async function crawl(): Promise<void> {
   }
 }
 
+export const crawler: Crawler = {
+  id: SOURCE_TYPE,
+  displayName: "Район Оборище",
+  description: "Repair and disruption notices from rayon-oborishte.bg",
+  schedule: "0 10,14,16 * * *",
+  output: "text",
+  crawl,
+};
+
 // Run the crawler if executed directly
 if (require.main === module) {
   // eslint-disable-next-line unicorn/prefer-top-level-await
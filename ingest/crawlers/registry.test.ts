@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { readdirSync, statSync } from "node:fs";
+import { join } from "node:path";
+import {
+  CRAWLERS,
+  getCrawler,
+  getCrawlerIds,
+  resolveCrawlers,
+} from "./registry";
+
+describe("crawlers/registry", () => {
+  it("should register every crawler directory", () => {
+    const directories = readdirSync(__dirname).filter(
+      (entry) =>
+        entry !== "shared" && statSync(join(__dirname, entry)).isDirectory()
+    );
+
+    expect([...getCrawlerIds()].sort()).toEqual(directories.sort());
+  });
+
+  it("should have unique ids", () => {
+    const ids = getCrawlerIds();
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it("should describe every crawler", () => {
+    for (const crawler of CRAWLERS) {
+      expect(crawler.displayName).toBeTruthy();
+      expect(crawler.description).toBeTruthy();
+      expect(crawler.schedule.split(" ")).toHaveLength(5);
+      expect(["geojson", "text"]).toContain(crawler.output);
+      expect(typeof crawler.crawl).toBe("function");
+    }
+  });
+
+  it("should look up crawlers by id", () => {
+    expect(getCrawler("sofiyska-voda")?.output).toBe("geojson");
+    expect(getCrawler("rayon-oborishte-bg")?.output).toBe("text");
+    expect(getCrawler("unknown")).toBeUndefined();
+  });
+
+  it("should resolve a list of ids in the given order", () => {
+    const crawlers = resolveCrawlers(["toplo-bg", "sofia-bg"]);
+    expect(crawlers.map((crawler) => crawler.id)).toEqual([
+      "toplo-bg",
+      "sofia-bg",
+    ]);
+  });
+
+  it("should reject unknown ids", () => {
+    expect(() => resolveCrawlers(["sofia-bg", "nope"])).toThrow(
+      'Unknown source "nope"'
+    );
+  });
+});
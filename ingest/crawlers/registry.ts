@@ -0,0 +1,46 @@
+import type { Crawler } from "./shared/types";
+import { crawler as ermZapad } from "./erm-zapad";
+import { crawler as mladostBg } from "./mladost-bg";
+import { crawler as rayonOborishteBg } from "./rayon-oborishte-bg";
+import { crawler as sofiaBg } from "./sofia-bg";
+import { crawler as sofiyskaVoda } from "./sofiyska-voda";
+import { crawler as toploBg } from "./toplo-bg";
+
+/**
+ * All available crawlers, in the order they are scheduled
+ */
+export const CRAWLERS: Crawler[] = [
+  rayonOborishteBg,
+  sofiaBg,
+  sofiyskaVoda,
+  toploBg,
+  ermZapad,
+  mladostBg,
+];
+
+/**
+ * Get the ids of all registered crawlers
+ */
+export function getCrawlerIds(): string[] {
+  return CRAWLERS.map((crawler) => crawler.id);
+}
+
+/**
+ * Look up a crawler by id
+ */
+export function getCrawler(id: string): Crawler | undefined {
+  return CRAWLERS.find((crawler) => crawler.id === id);
+}
+
+/**
+ * Resolve a list of crawler ids, failing on the first unknown one
+ */
+export function resolveCrawlers(ids: string[]): Crawler[] {
+  return ids.map((id) => {
+    const crawler = getCrawler(id);
+    if (!crawler) {
+      throw new Error(`Unknown source "${id}"`);
+    }
+    return crawler;
+  });
+}
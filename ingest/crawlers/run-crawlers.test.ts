@@ -0,0 +1,211 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// Mock firebase-admin before importing the orchestrator
+const mockAdd = vi.fn();
+vi.mock("@/lib/firebase-admin", () => ({
+  adminDb: {
+    collection: vi.fn(() => ({ add: mockAdd })),
+  },
+}));
+
+const mockReconcile = vi.fn();
+vi.mock("./shared/reconcile", () => ({
+  reconcileActiveSources: (...args: unknown[]) => mockReconcile(...args),
+}));
+
+import { runCrawlers } from "./run-crawlers";
+import type { Crawler, CrawlSummary } from "./shared/types";
+
+function fakeCrawler(
+  id: string,
+  crawl: () => Promise<CrawlSummary>
+): Crawler {
+  return {
+    id,
+    displayName: id,
+    description: `Fake crawler ${id}`,
+    schedule: "0 10 * * *",
+    output: "text",
+    crawl: vi.fn(crawl),
+  };
+}
+
+describe(runCrawlers, () => {
+  beforeEach(() => {
+    mockAdd.mockReset();
+    mockAdd.mockResolvedValue({ id: "run-1" });
+    mockReconcile.mockReset();
+    mockReconcile.mockResolvedValue({ resolved: ["https://a"], reopened: [] });
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  it("should keep running other crawlers when one throws", async () => {
+    const ok = fakeCrawler("ok", async () => ({
+      saved: 2,
+      updated: 0,
+      skipped: 1,
+      failed: 0,
+      errors: [],
+    }));
+    const broken = fakeCrawler("broken", async () => {
+      throw new Error("Site is down");
+    });
+    const partial = fakeCrawler("partial", async () => ({
+      saved: 1,
+      updated: 1,
+      skipped: 0,
+      failed: 1,
+      errors: ["https://example.com/x: timeout"],
+    }));
+
+    const report = await runCrawlers([ok, broken, partial], {
+      concurrency: 2,
+    });
+
+    expect(partial.crawl).toHaveBeenCalled();
+    expect(report.sources.map((s) => [s.source, s.status])).toEqual([
+      ["ok", "success"],
+      ["broken", "failed"],
+      ["partial", "success"],
+    ]);
+    expect(report.sources[1].errors).toEqual(["Site is down"]);
+    expect(report.totals).toEqual({
+      saved: 3,
+      updated: 1,
+      skipped: 1,
+      failed: 1,
+    });
+    expect(report.failedSources).toEqual(["broken"]);
+  });
+
+  it("should pass crawl options through without the concurrency setting", async () => {
+    const crawler = fakeCrawler("ok", async () => ({
+      saved: 0,
+      updated: 0,
+      skipped: 0,
+      failed: 0,
+      errors: [],
+    }));
+    const since = new Date("2025-01-01");
+
+    await runCrawlers([crawler], { concurrency: 3, limit: 5, since });
+
+    expect(crawler.crawl).toHaveBeenCalledWith({ limit: 5, since });
+  });
+
+  it("should store the report in crawlRuns", async () => {
+    const crawler = fakeCrawler("ok", async () => ({
+      saved: 1,
+      updated: 0,
+      skipped: 0,
+      failed: 0,
+      errors: [],
+    }));
+
+    const report = await runCrawlers([crawler]);
+
+    expect(mockAdd).toHaveBeenCalledWith(report);
+    expect(report.concurrency).toBe(2);
+    expect(report.durationMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it("should not store the report on dry-run", async () => {
+    const crawler = fakeCrawler("ok", async () => ({
+      saved: 1,
+      updated: 0,
+      skipped: 0,
+      failed: 0,
+      errors: [],
+    }));
+
+    const report = await runCrawlers([crawler], { dryRun: true });
+
+    expect(report.dryRun).toBe(true);
+    expect(mockAdd).not.toHaveBeenCalled();
+  });
+
+  it("should reconcile snapshot crawlers and drop the active URL list", async () => {
+    const crawler = fakeCrawler("snapshot", async () => ({
+      saved: 1,
+      updated: 0,
+      skipped: 0,
+      failed: 0,
+      errors: [],
+      activeUrls: ["https://b"],
+    }));
+
+    const report = await runCrawlers([crawler]);
+
+    expect(mockReconcile).toHaveBeenCalledWith(
+      "snapshot",
+      ["https://b"],
+      expect.anything()
+    );
+    expect(report.sources[0]).toMatchObject({ resolved: 1, reopened: 0 });
+    expect(report.sources[0]).not.toHaveProperty("activeUrls");
+  });
+
+  it("should not reconcile on dry-run or when the feed was limited", async () => {
+    const crawler = fakeCrawler("snapshot", async () => ({
+      saved: 1,
+      updated: 0,
+      skipped: 0,
+      failed: 0,
+      errors: [],
+      activeUrls: ["https://b"],
+    }));
+
+    await runCrawlers([crawler], { dryRun: true });
+    await runCrawlers([crawler], { limit: 1 });
+
+    expect(mockReconcile).not.toHaveBeenCalled();
+  });
+
+  it("should not reconcile an empty feed", async () => {
+    const crawler = fakeCrawler("snapshot", async () => ({
+      saved: 0,
+      updated: 0,
+      skipped: 0,
+      failed: 0,
+      errors: [],
+      activeUrls: [],
+    }));
+
+    await runCrawlers([crawler]);
+
+    expect(mockReconcile).not.toHaveBeenCalled();
+  });
+
+  it("should keep the crawl successful when reconciling fails", async () => {
+    mockReconcile.mockRejectedValue(new Error("quota exceeded"));
+    const crawler = fakeCrawler("snapshot", async () => ({
+      saved: 1,
+      updated: 0,
+      skipped: 0,
+      failed: 0,
+      errors: [],
+      activeUrls: ["https://b"],
+    }));
+
+    const report = await runCrawlers([crawler]);
+
+    expect(report.sources[0].status).toBe("success");
+    expect(report.sources[0].errors).toEqual(["reconcile: quota exceeded"]);
+  });
+
+  it("should still return the report when saving it fails", async () => {
+    mockAdd.mockRejectedValue(new Error("permission denied"));
+    const crawler = fakeCrawler("ok", async () => ({
+      saved: 1,
+      updated: 0,
+      skipped: 0,
+      failed: 0,
+      errors: [],
+    }));
+
+    await expect(runCrawlers([crawler])).resolves.toMatchObject({
+      totals: { saved: 1, updated: 0, skipped: 0, failed: 0 },
+    });
+  });
+});
@@ -0,0 +1,206 @@
+import { mapWithConcurrency } from "@/lib/concurrency";
+import { mergeCrawlSummaries } from "./shared/crawl-summary";
+import { reconcileActiveSources } from "./shared/reconcile";
+import type {
+  CrawlOptions,
+  CrawlRunReport,
+  Crawler,
+  CrawlerRunResult,
+} from "./shared/types";
+
+export const DEFAULT_CONCURRENCY = 2;
+
+export interface RunCrawlersOptions extends CrawlOptions {
+  concurrency?: number;
+}
+
+/**
+ * Mark incidents that left the live feed of a snapshot crawler as resolved.
+ * Skipped on dry-run, when --limit cut the feed short and when the feed is
+ * empty (more likely a broken page or API than no incidents at all). A
+ * failure is reported in the result errors, the crawl itself already
+ * succeeded.
+ */
+async function reconcileSnapshot(
+  crawler: Crawler,
+  activeUrls: string[] | undefined,
+  options: CrawlOptions,
+  errors: string[]
+): Promise<Pick<CrawlerRunResult, "resolved" | "reopened">> {
+  if (
+    !activeUrls ||
+    activeUrls.length === 0 ||
+    options.dryRun ||
+    options.limit !== undefined
+  ) {
+    return {};
+  }
+
+  try {
+    const { adminDb } = await import("@/lib/firebase-admin");
+    const { resolved, reopened } = await reconcileActiveSources(
+      crawler.id,
+      activeUrls,
+      adminDb
+    );
+    return { resolved: resolved.length, reopened: reopened.length };
+  } catch (error) {
+    console.error(`❌ Error reconciling ${crawler.id}:`, error);
+    const message = error instanceof Error ? error.message : String(error);
+    errors.push(`reconcile: ${message}`);
+    return {};
+  }
+}
+
+/**
+ * Run a single crawler, turning a thrown error into a failed result
+ * so one broken site does not abort the rest of the run
+ */
+export async function runCrawler(
+  crawler: Crawler,
+  options: CrawlOptions
+): Promise<CrawlerRunResult> {
+  const startTime = Date.now();
+  console.log(`🚀 Running crawler: ${crawler.id}`);
+
+  try {
+    const { activeUrls, ...summary } = await crawler.crawl(options);
+    console.log(`✅ Crawler ${crawler.id} completed`);
+
+    const reconciled = await reconcileSnapshot(
+      crawler,
+      activeUrls,
+      options,
+      summary.errors
+    );
+
+    return {
+      source: crawler.id,
+      status: "success",
+      ...summary,
+      ...reconciled,
+      durationMs: Date.now() - startTime,
+    };
+  } catch (error) {
+    console.error(`❌ Error running crawler ${crawler.id}:`, error);
+
+    return {
+      source: crawler.id,
+      status: "failed",
+      saved: 0,
+      updated: 0,
+      skipped: 0,
+      failed: 0,
+      errors: [error instanceof Error ? error.message : String(error)],
+      durationMs: Date.now() - startTime,
+    };
+  }
+}
+
+/**
+ * Combine per-crawler results into a run report
+ */
+export function buildCrawlRunReport(
+  results: CrawlerRunResult[],
+  startedAt: Date,
+  finishedAt: Date,
+  options: RunCrawlersOptions
+): CrawlRunReport {
+  const { saved, updated, skipped, failed } = mergeCrawlSummaries(results);
+
+  return {
+    startedAt,
+    finishedAt,
+    durationMs: finishedAt.getTime() - startedAt.getTime(),
+    dryRun: options.dryRun ?? false,
+    concurrency: options.concurrency ?? DEFAULT_CONCURRENCY,
+    sources: results,
+    totals: { saved, updated, skipped, failed },
+    failedSources: results
+      .filter((result) => result.status === "failed")
+      .map((result) => result.source),
+  };
+}
+
+/**
+ * Print a run report as a per-source table with totals
+ */
+export function printCrawlRunReport(report: CrawlRunReport): void {
+  const width = Math.max(...report.sources.map((r) => r.source.length));
+
+  console.log("\n" + "=".repeat(60));
+  console.log("📊 Crawl Run Summary");
+  console.log("=".repeat(60));
+  for (const result of report.sources) {
+    const icon = result.status === "success" ? "✅" : "❌";
+    const duration = (result.durationMs / 1000).toFixed(1);
+    const resolved =
+      result.resolved === undefined ? "" : `, resolved ${result.resolved}`;
+    console.log(
+      `${icon} ${result.source.padEnd(width)}  saved ${result.saved}, updated ${result.updated}, skipped ${result.skipped}, failed ${result.failed}${resolved} (${duration}s)`
+    );
+    for (const error of result.errors) {
+      console.log(`     ⚠️  ${error}`);
+    }
+  }
+  console.log("-".repeat(60));
+  console.log(`✅ Saved: ${report.totals.saved}`);
+  if (report.totals.updated > 0) {
+    console.log(`🔄 Updated: ${report.totals.updated}`);
+  }
+  console.log(`⏭️  Skipped: ${report.totals.skipped}`);
+  if (report.totals.failed > 0) {
+    console.log(`❌ Failed documents: ${report.totals.failed}`);
+  }
+  if (report.failedSources.length > 0) {
+    console.log(`❌ Failed crawlers: ${report.failedSources.join(", ")}`);
+  }
+  console.log(`⏱️  Duration: ${(report.durationMs / 1000).toFixed(1)}s`);
+  console.log("=".repeat(60));
+}
+
+/**
+ * Store a run report in the crawlRuns collection
+ */
+async function saveCrawlRun(report: CrawlRunReport): Promise<string> {
+  const { adminDb } = await import("@/lib/firebase-admin");
+  const docRef = await adminDb.collection("crawlRuns").add(report);
+  return docRef.id;
+}
+
+/**
+ * Run several crawlers with bounded concurrency and store the combined report.
+ * Dry runs are reported but not stored.
+ */
+export async function runCrawlers(
+  crawlers: Crawler[],
+  options: RunCrawlersOptions = {}
+): Promise<CrawlRunReport> {
+  const { concurrency = DEFAULT_CONCURRENCY, ...crawlOptions } = options;
+
+  console.log(
+    `🕷️  Running ${crawlers.length} crawler(s) with concurrency ${concurrency}`
+  );
+
+  const startedAt = new Date();
+  const results = await mapWithConcurrency(crawlers, concurrency, (crawler) =>
+    runCrawler(crawler, crawlOptions)
+  );
+  const report = buildCrawlRunReport(results, startedAt, new Date(), {
+    ...options,
+    concurrency,
+  });
+
+  printCrawlRunReport(report);
+
+  if (!options.dryRun) {
+    try {
+      const runId = await saveCrawlRun(report);
+      console.log(`🗄️  Run report saved: crawlRuns/${runId}`);
+    } catch (error) {
+      console.error("⚠️  Failed to save run report:", error);
+    }
+  }
+
+  return report;
+}
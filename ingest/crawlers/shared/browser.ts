@@ -1,13 +1,45 @@
-import { chromium, Browser, Page } from "playwright";
+import { chromium, Browser } from "playwright";
+import { getFixtureOptions, loadFixture, saveFixture } from "./fixtures";
+
+type WaitUntil = "load" | "domcontentloaded" | "networkidle";
 
 /**
- * Launch a new browser instance
+ * The part of a Playwright page the crawlers use - also implemented by the
+ * replay page
+ */
+export interface CrawlerPage {
+  goto(
+    url: string,
+    options?: { waitUntil?: WaitUntil; timeout?: number }
+  ): Promise<unknown>;
+  content(): Promise<string>;
+  evaluate<T, A = undefined>(fn: (arg: A) => T, arg?: A): Promise<T>;
+  close(): Promise<void>;
+}
+
+/**
+ * The part of a Playwright browser the crawlers use
+ */
+export interface CrawlerBrowser {
+  newPage(): Promise<CrawlerPage>;
+  close(): Promise<void>;
+}
+
+/**
+ * Launch a new browser instance.
+ * In record mode every page navigation is saved as a fixture; in replay mode
+ * no browser is started and pages are served from fixtures instead.
  */
 export async function launchBrowser(options?: {
   headless?: boolean;
   timeout?: number;
-}): Promise<Browser> {
-  return chromium.launch({
+}): Promise<CrawlerBrowser> {
+  const fixtures = getFixtureOptions();
+  if (fixtures.mode === "replay") {
+    return createReplayBrowser(fixtures.dir);
+  }
+
+  const browser = await chromium.launch({
     headless: options?.headless ?? true,
     timeout: options?.timeout,
     args: [
@@ -17,17 +49,122 @@ export async function launchBrowser(options?: {
       "--disable-gpu",
     ],
   });
+
+  if (fixtures.mode === "record") {
+    recordPageNavigations(browser, fixtures.dir);
+  }
+
+  return browser;
+}
+
+/**
+ * Save the rendered HTML after each page.goto() of pages opened by this browser.
+ * The rendered DOM is stored (not the raw response) so replay sees exactly
+ * what the extractors saw.
+ */
+function recordPageNavigations(browser: Browser, dir: string): void {
+  const newPage = browser.newPage.bind(browser);
+
+  browser.newPage = async (options) => {
+    const page = await newPage(options);
+    const goto = page.goto.bind(page);
+
+    page.goto = async (url, gotoOptions) => {
+      const response = await goto(url, gotoOptions);
+      saveFixture(
+        dir,
+        { url },
+        {
+          status: response?.status() ?? 200,
+          contentType: "text/html",
+          body: await page.content(),
+        }
+      );
+      return response;
+    };
+
+    return page;
+  };
+}
+
+/**
+ * Browser stand-in for replay mode. Pages load fixture HTML into a
+ * happy-dom window, which is enough for page.evaluate() based extractors.
+ */
+async function createReplayBrowser(dir: string): Promise<CrawlerBrowser> {
+  const { Window } = await import("happy-dom");
+
+  const newPage = async (): Promise<CrawlerPage> => {
+    let window: InstanceType<typeof Window> | null = null;
+    let html = "";
+
+    return {
+      goto: async (url: string) => {
+        const fixture = loadFixture(dir, { url });
+        await window?.happyDOM.close();
+
+        window = new Window({
+          url,
+          settings: {
+            disableJavaScriptEvaluation: true,
+            disableJavaScriptFileLoading: true,
+            disableCSSFileLoading: true,
+            handleDisabledFileLoadingAsSuccess: true,
+          },
+        });
+        window.document.write(fixture.body);
+        html = fixture.body;
+        return null;
+      },
+      content: async () => html,
+      evaluate: async <T, A>(fn: (arg: A) => T, arg?: A): Promise<T> => {
+        if (!window) {
+          throw new Error("page.evaluate() called before page.goto()");
+        }
+        return evaluateInDocument(window.document, () => fn(arg as A));
+      },
+      close: async () => {
+        await window?.happyDOM.close();
+        window = null;
+      },
+    };
+  };
+
+  return { newPage, close: async () => {} };
+}
+
+/**
+ * Run a function with the global `document` pointing at a replayed page,
+ * mirroring how page.evaluate() runs code inside the browser
+ */
+function evaluateInDocument<T>(document: unknown, fn: () => T): T {
+  const previous = Object.getOwnPropertyDescriptor(globalThis, "document");
+  Object.defineProperty(globalThis, "document", {
+    value: document,
+    configurable: true,
+    writable: true,
+  });
+
+  try {
+    return fn();
+  } finally {
+    if (previous) {
+      Object.defineProperty(globalThis, "document", previous);
+    } else {
+      delete (globalThis as { document?: unknown }).document;
+    }
+  }
 }
 
 /**
  * Create a new page in the browser
  */
 export async function createPage(
-  browser: Browser,
+  browser: CrawlerBrowser,
   options?: {
-    waitUntil?: "load" | "domcontentloaded" | "networkidle";
+    waitUntil?: WaitUntil;
   }
-): Promise<Page> {
+): Promise<CrawlerPage> {
   return browser.newPage();
 }
 
@@ -37,7 +174,7 @@ export async function createPage(
 export async function fetchPageContent(
   url: string,
   options?: {
-    waitUntil?: "load" | "domcontentloaded" | "networkidle";
+    waitUntil?: WaitUntil;
     timeout?: number;
   }
 ): Promise<string> {
@@ -53,3 +190,40 @@ export async function fetchPageContent(
     await browser.close();
   }
 }
+
+/**
+ * fetch() with fixture support, for crawlers that call JSON APIs directly.
+ * Requests are keyed by method, URL and body.
+ */
+export async function fetchWithFixtures(
+  url: string,
+  init?: RequestInit
+): Promise<Response> {
+  const fixtures = getFixtureOptions();
+  const request = {
+    url,
+    method: init?.method,
+    body: typeof init?.body === "string" ? init.body : undefined,
+  };
+
+  if (fixtures.mode === "replay") {
+    const fixture = loadFixture(fixtures.dir, request);
+    return new Response(fixture.body, {
+      status: fixture.status,
+      headers: { "Content-Type": fixture.contentType },
+    });
+  }
+
+  const response = await fetch(url, init);
+
+  if (fixtures.mode === "record") {
+    const body = await response.clone().text();
+    saveFixture(fixtures.dir, request, {
+      status: response.status,
+      contentType: response.headers.get("content-type") ?? "application/json",
+      body,
+    });
+  }
+
+  return response;
+}
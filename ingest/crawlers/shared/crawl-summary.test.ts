@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import {
+  createCrawlSummary,
+  hasOnlyFailures,
+  isPublishedBefore,
+  mergeCrawlSummaries,
+  recordCrawlFailure,
+  recordSaveResult,
+} from "./crawl-summary";
+
+describe("shared/crawl-summary", () => {
+  describe("recordCrawlFailure", () => {
+    it("should count the failure and keep the error message", () => {
+      const summary = createCrawlSummary();
+
+      recordCrawlFailure(summary, "https://example.com/a", new Error("timeout"));
+      recordCrawlFailure(summary, "https://example.com/b", "HTTP 500");
+
+      expect(summary.failed).toBe(2);
+      expect(summary.errors).toEqual([
+        "https://example.com/a: timeout",
+        "https://example.com/b: HTTP 500",
+      ]);
+    });
+  });
+
+  describe("recordSaveResult", () => {
+    it("should count new, updated and unchanged documents separately", () => {
+      const summary = createCrawlSummary();
+
+      recordSaveResult(summary, "new");
+      recordSaveResult(summary, "new");
+      recordSaveResult(summary, "updated");
+      recordSaveResult(summary, "unchanged");
+
+      expect(summary).toMatchObject({ saved: 2, updated: 1, skipped: 1 });
+    });
+  });
+
+  describe("mergeCrawlSummaries", () => {
+    it("should add up counts and concatenate errors", () => {
+      const merged = mergeCrawlSummaries([
+        { saved: 2, updated: 1, skipped: 1, failed: 0, errors: [] },
+        { saved: 0, updated: 0, skipped: 3, failed: 1, errors: ["boom"] },
+      ]);
+
+      expect(merged).toEqual({
+        saved: 2,
+        updated: 1,
+        skipped: 4,
+        failed: 1,
+        errors: ["boom"],
+      });
+    });
+
+    it("should return an empty summary for no input", () => {
+      expect(mergeCrawlSummaries([])).toEqual(createCrawlSummary());
+    });
+  });
+
+  describe("hasOnlyFailures", () => {
+    it("should be true only when nothing was saved or skipped", () => {
+      const failures = { ...createCrawlSummary(), failed: 2 };
+
+      expect(hasOnlyFailures(failures)).toBe(true);
+      expect(hasOnlyFailures({ ...failures, saved: 1 })).toBe(false);
+      expect(hasOnlyFailures({ ...failures, updated: 1 })).toBe(false);
+      expect(hasOnlyFailures(createCrawlSummary())).toBe(false);
+    });
+  });
+
+  describe("isPublishedBefore", () => {
+    const since = new Date("2025-12-01T00:00:00.000Z");
+
+    it("should compare the publish date with the cutoff", () => {
+      expect(isPublishedBefore("2025-11-30T10:00:00.000Z", since)).toBe(true);
+      expect(isPublishedBefore("2025-12-02T10:00:00.000Z", since)).toBe(false);
+    });
+
+    it("should never filter when no cutoff is given", () => {
+      expect(isPublishedBefore("2020-01-01T00:00:00.000Z")).toBe(false);
+    });
+
+    it("should keep documents with unparseable dates", () => {
+      expect(isPublishedBefore("not a date", since)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import type { SourceSaveResult } from "./source-revisions";
+import type { CrawlSummary } from "./types";
+
+/**
+ * Create an empty crawl summary
+ */
+export function createCrawlSummary(): CrawlSummary {
+  return { saved: 0, updated: 0, skipped: 0, failed: 0, errors: [] };
+}
+
+/**
+ * Count a failed document and remember why it failed
+ */
+export function recordCrawlFailure(
+  summary: CrawlSummary,
+  url: string,
+  error: unknown
+): void {
+  const message = error instanceof Error ? error.message : String(error);
+  summary.failed++;
+  summary.errors.push(`${url}: ${message}`);
+}
+
+/**
+ * Count the outcome of an upsert: new documents as saved, changed ones as
+ * updated and unchanged ones as skipped
+ */
+export function recordSaveResult(
+  summary: CrawlSummary,
+  result: SourceSaveResult
+): void {
+  if (result === "new") {
+    summary.saved++;
+  } else if (result === "updated") {
+    summary.updated++;
+  } else {
+    summary.skipped++;
+  }
+}
+
+/**
+ * Add the counts of several summaries together
+ */
+export function mergeCrawlSummaries(summaries: CrawlSummary[]): CrawlSummary {
+  return summaries.reduce<CrawlSummary>(
+    (total, summary) => ({
+      saved: total.saved + summary.saved,
+      updated: total.updated + summary.updated,
+      skipped: total.skipped + summary.skipped,
+      failed: total.failed + summary.failed,
+      errors: [...total.errors, ...summary.errors],
+    }),
+    createCrawlSummary()
+  );
+}
+
+/**
+ * Whether a crawl produced nothing but failures
+ */
+export function hasOnlyFailures(summary: CrawlSummary): boolean {
+  return (
+    summary.failed > 0 &&
+    summary.saved === 0 &&
+    summary.updated === 0 &&
+    summary.skipped === 0
+  );
+}
+
+/**
+ * Whether a document was published before the `since` cutoff.
+ * Documents with unparseable dates are never considered too old.
+ */
+export function isPublishedBefore(
+  datePublished: string,
+  since?: Date
+): boolean {
+  if (!since) {
+    return false;
+  }
+
+  const published = new Date(datePublished);
+  if (Number.isNaN(published.getTime())) {
+    return false;
+  }
+
+  return published.getTime() < since.getTime();
+}
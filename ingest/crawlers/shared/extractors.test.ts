@@ -1,5 +1,5 @@
 import { describe, expect, it, vi } from "vitest";
-import type { Page } from "playwright";
+import type { CrawlerPage } from "./browser";
 import { extractPostLinks, extractPostDetails } from "./extractors";
 
 describe("shared/extractors", () => {
@@ -20,7 +20,7 @@ describe("shared/extractors", () => {
 
       const mockPage = {
         evaluate: vi.fn().mockResolvedValue(mockPosts),
-      } as unknown as Page;
+      } as unknown as CrawlerPage;
 
       const selectors = {
         INDEX: {
@@ -65,7 +65,7 @@ describe("shared/extractors", () => {
 
       const mockPage = {
         evaluate: vi.fn().mockResolvedValue(mockPosts),
-      } as unknown as Page;
+      } as unknown as CrawlerPage;
 
       const selectors = {
         INDEX: {
@@ -92,7 +92,7 @@ describe("shared/extractors", () => {
     it("should return empty array when no posts found", async () => {
       const mockPage = {
         evaluate: vi.fn().mockResolvedValue([]),
-      } as unknown as Page;
+      } as unknown as CrawlerPage;
 
       const selectors = {
         INDEX: {
@@ -128,7 +128,7 @@ describe("shared/extractors", () => {
 
       const mockPage = {
         evaluate: vi.fn().mockResolvedValue(mockPosts),
-      } as unknown as Page;
+      } as unknown as CrawlerPage;
 
       const selectors = {
         INDEX: {
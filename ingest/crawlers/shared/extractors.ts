@@ -1,4 +1,4 @@
-import type { Page } from "playwright";
+import type { CrawlerPage } from "./browser";
 
 export interface PostLink {
   url: string;
@@ -27,7 +27,7 @@ interface Selectors {
  * @param urlFilter - Optional function to filter URLs (return false to skip)
  */
 export async function extractPostLinks(
-  page: Page,
+  page: CrawlerPage,
   selectors: Selectors,
   urlFilter?: (url: string) => boolean
 ): Promise<PostLink[]> {
@@ -1,5 +1,49 @@
-import { describe, it, expect } from "vitest";
-import { encodeDocumentId } from "./firestore";
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { Firestore } from "firebase-admin/firestore";
+import { encodeDocumentId, upsertSourceDocument } from "./firestore";
+import { CONTENT_HASH_VERSION } from "./source-revisions";
+
+/**
+ * Minimal in-memory Firestore with nested collections and batches
+ */
+function createFakeFirestore() {
+  const store = new Map<string, Record<string, any>>();
+
+  const docRef = (path: string): any => ({
+    get: async () => ({
+      exists: store.has(path),
+      data: () => store.get(path),
+    }),
+    set: async (data: Record<string, any>) => {
+      store.set(path, data);
+    },
+    update: async (data: Record<string, any>) => {
+      store.set(path, { ...store.get(path), ...data });
+    },
+    collection: (name: string) => collection(`${path}/${name}`),
+    path,
+  });
+  const collection = (path: string) => ({
+    doc: (id: string) => docRef(`${path}/${id}`),
+  });
+
+  const db = {
+    collection,
+    batch: () => {
+      const writes: Array<() => Promise<void>> = [];
+      return {
+        set: (ref: any, data: Record<string, any>) => {
+          writes.push(() => ref.set(data));
+        },
+        commit: async () => {
+          for (const write of writes) await write();
+        },
+      };
+    },
+  };
+
+  return { db: db as unknown as Firestore, store };
+}
 
 describe("firestore utilities", () => {
   describe("encodeDocumentId", () => {
@@ -47,3 +91,124 @@ describe("firestore utilities", () => {
     });
   });
 });
+
+describe("upsertSourceDocument", () => {
+  const url = "https://toplo.bg/accidents-and-maintenance/123";
+  const sourcePath = `sources/${encodeDocumentId(url)}`;
+  const baseDoc = {
+    url,
+    datePublished: "2025-12-15T08:00:00.000Z",
+    title: "Авария на ул. Оборище",
+    message: "Срок: 16.12.2025",
+    sourceType: "toplo-bg",
+    crawledAt: new Date("2025-12-15T09:00:00.000Z"),
+  };
+
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  it("should save new documents as revision 1", async () => {
+    const { db, store } = createFakeFirestore();
+
+    const result = await upsertSourceDocument(baseDoc, db);
+
+    expect(result).toBe("new");
+    expect(store.get(sourcePath)).toMatchObject({
+      title: baseDoc.title,
+      revision: 1,
+    });
+    expect(store.get(sourcePath)?.contentHash).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it("should report unchanged content", async () => {
+    const { db } = createFakeFirestore();
+    await upsertSourceDocument(baseDoc, db);
+
+    const result = await upsertSourceDocument(
+      { ...baseDoc, crawledAt: new Date() },
+      db
+    );
+
+    expect(result).toBe("unchanged");
+  });
+
+  it("should store the previous version when content changes", async () => {
+    const { db, store } = createFakeFirestore();
+    await upsertSourceDocument(baseDoc, db);
+
+    const result = await upsertSourceDocument(
+      { ...baseDoc, message: "Срок: 20.12.2025" },
+      db
+    );
+
+    expect(result).toBe("updated");
+    expect(store.get(sourcePath)).toMatchObject({
+      message: "Срок: 20.12.2025",
+      revision: 2,
+    });
+    expect(store.get(`${sourcePath}/revisions/1`)).toMatchObject({
+      revision: 1,
+      message: "Срок: 16.12.2025",
+    });
+  });
+
+  it("should backfill the hash of documents saved before change detection", async () => {
+    const { db, store } = createFakeFirestore();
+    store.set(sourcePath, { ...baseDoc });
+
+    const result = await upsertSourceDocument(baseDoc, db);
+
+    expect(result).toBe("unchanged");
+    expect(store.get(sourcePath)).toMatchObject({ revision: 1 });
+    expect(store.get(sourcePath)?.contentHash).toBeTruthy();
+  });
+
+  it("should ignore changes to the GeoJSON built from the same record", async () => {
+    const { db } = createFakeFirestore();
+    const upstream = { ContentItemId: "123", Name: "Авария" };
+    const point = (properties: Record<string, string>) => ({
+      type: "FeatureCollection",
+      features: [
+        {
+          type: "Feature",
+          geometry: { type: "Point", coordinates: [23.33, 42.69] },
+          properties,
+        },
+      ],
+    });
+
+    await upsertSourceDocument({ ...baseDoc, geoJson: point({}) }, db, {
+      upstream,
+    });
+    const result = await upsertSourceDocument(
+      {
+        ...baseDoc,
+        message: "Срок: 16.12.2025 г.",
+        geoJson: point({ endTime: "16.12.2025" }),
+      },
+      db,
+      { upstream }
+    );
+
+    expect(result).toBe("unchanged");
+  });
+
+  it("should take the hash of another version as the baseline", async () => {
+    const { db, store } = createFakeFirestore();
+    store.set(sourcePath, {
+      ...baseDoc,
+      message: "Срок: 20.12.2025",
+      contentHash: "0".repeat(64),
+      revision: 3,
+    });
+
+    const result = await upsertSourceDocument(baseDoc, db);
+
+    expect(result).toBe("unchanged");
+    expect(store.get(sourcePath)).toMatchObject({
+      revision: 3,
+      contentHashVersion: CONTENT_HASH_VERSION,
+    });
+  });
+});
@@ -1,5 +1,10 @@
 import type { Firestore } from "firebase-admin/firestore";
 import type { BaseSourceDocument } from "./types";
+import {
+  CONTENT_HASH_VERSION,
+  computeContentHash,
+  type SourceSaveResult,
+} from "./source-revisions";
 
 /**
  * Encode URL to a safe Firestore document ID
@@ -65,3 +70,88 @@ export async function saveSourceDocumentIfNew<T extends BaseSourceDocument>(
   await saveSourceDocument(doc, adminDb, options);
   return true;
 }
+
+/**
+ * Save a source document, detecting changes to already crawled URLs.
+ * New documents start at revision 1. When the content hash differs from the
+ * stored one, the previous version is copied to the `revisions` subcollection
+ * and the source is overwritten with the next revision number, so ingest can
+ * produce an updated message. Crawlers of structured feeds pass the raw
+ * record as `upstream`, so that only upstream changes count.
+ * @returns "new", "updated" or "unchanged"
+ * @throws Error if Firestore operations fail
+ */
+export async function upsertSourceDocument<T extends BaseSourceDocument>(
+  doc: T,
+  adminDb: Firestore,
+  options?: Parameters<typeof saveSourceDocument<T>>[2] & {
+    upstream?: unknown;
+  }
+): Promise<SourceSaveResult> {
+  const docRef = adminDb.collection("sources").doc(encodeDocumentId(doc.url));
+  const snapshot = await docRef.get();
+
+  const data = options?.transformData
+    ? options.transformData(doc)
+    : { ...doc, crawledAt: new Date(doc.crawledAt) };
+  const contentHash = computeContentHash({
+    title: doc.title,
+    message: doc.message,
+    upstream: options?.upstream,
+  });
+  const hashFields = { contentHash, contentHashVersion: CONTENT_HASH_VERSION };
+
+  // Snapshot crawlers reconcile the sources with resolvedAt == null
+  if (!snapshot.exists) {
+    await docRef.set({ ...data, ...hashFields, revision: 1, resolvedAt: null });
+    if (options?.logSuccess !== false) {
+      console.log(`✅ Saved document: ${doc.title.substring(0, 50)}...`);
+    }
+    return "new";
+  }
+
+  const existing = snapshot.data() ?? {};
+  const revision: number = existing.revision ?? 1;
+
+  // Documents saved before change detection, or hashed by another version,
+  // take the current hash as their baseline
+  if (
+    !existing.contentHash ||
+    existing.contentHashVersion !== CONTENT_HASH_VERSION
+  ) {
+    await docRef.update({ ...hashFields, revision });
+    return "unchanged";
+  }
+
+  const existingHash: string = existing.contentHash;
+  if (existingHash === contentHash) {
+    return "unchanged";
+  }
+
+  const batch = adminDb.batch();
+  batch.set(docRef.collection("revisions").doc(String(revision)), {
+    revision,
+    contentHash: existingHash,
+    title: existing.title ?? "",
+    message: existing.message ?? "",
+    datePublished: existing.datePublished ?? null,
+    geoJson: existing.geoJson ?? null,
+    crawledAt: existing.crawledAt ?? null,
+  });
+  batch.set(docRef, {
+    ...data,
+    ...hashFields,
+    revision: revision + 1,
+    resolvedAt: existing.resolvedAt ?? null,
+    updatedAt: new Date(),
+  });
+  await batch.commit();
+
+  console.log(
+    `🔄 Updated document (revision ${revision + 1}): ${doc.title.substring(
+      0,
+      50
+    )}...`
+  );
+  return "updated";
+}
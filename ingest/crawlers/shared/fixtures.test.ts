@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  configureFixtures,
+  getFixtureFileName,
+  getFixtureOptions,
+  loadFixture,
+  saveFixture,
+} from "./fixtures";
+
+describe("shared/fixtures", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "crawler-fixtures-"));
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+    configureFixtures({});
+    vi.unstubAllEnvs();
+  });
+
+  describe("getFixtureFileName", () => {
+    it("should be stable and prefixed with the host", () => {
+      const name = getFixtureFileName({ url: "https://toplo.bg/accidents" });
+
+      expect(name).toMatch(/^toplo\.bg-[0-9a-f]{16}\.json$/);
+      expect(getFixtureFileName({ url: "https://toplo.bg/accidents" })).toBe(
+        name
+      );
+    });
+
+    it("should distinguish POST bodies to the same URL", () => {
+      const url = "https://info.ermzapad.bg/webint/vok/avplan.php";
+
+      expect(
+        getFixtureFileName({ url, method: "POST", body: "gm_obstina=SOF15" })
+      ).not.toBe(
+        getFixtureFileName({ url, method: "POST", body: "gm_obstina=SOF16" })
+      );
+    });
+
+    it("should treat a missing method as GET", () => {
+      const url = "https://example.com/";
+      expect(getFixtureFileName({ url })).toBe(
+        getFixtureFileName({ url, method: "get" })
+      );
+    });
+  });
+
+  describe("saveFixture / loadFixture", () => {
+    it("should round-trip a response", () => {
+      const request = { url: "https://example.com/api", method: "POST", body: "a=1" };
+      saveFixture(dir, request, {
+        status: 200,
+        contentType: "application/json",
+        body: '{"ok":true}',
+      });
+
+      const fixture = loadFixture(dir, request);
+
+      expect(fixture).toMatchObject({
+        url: "https://example.com/api",
+        method: "POST",
+        requestBody: "a=1",
+        status: 200,
+        contentType: "application/json",
+        body: '{"ok":true}',
+      });
+      expect(fixture.recordedAt).toBeTruthy();
+    });
+
+    it("should throw for requests that were never recorded", () => {
+      expect(() => loadFixture(dir, { url: "https://example.com/x" })).toThrow(
+        "No fixture recorded for GET https://example.com/x"
+      );
+    });
+  });
+
+  describe("getFixtureOptions", () => {
+    it("should default to live mode", () => {
+      vi.stubEnv("CRAWLER_FIXTURES", "");
+      expect(getFixtureOptions().mode).toBe("live");
+    });
+
+    it("should read the mode and directory from env", () => {
+      vi.stubEnv("CRAWLER_FIXTURES", "replay");
+      vi.stubEnv("CRAWLER_FIXTURES_DIR", dir);
+
+      expect(getFixtureOptions()).toEqual({ mode: "replay", dir });
+    });
+
+    it("should ignore unknown modes", () => {
+      vi.stubEnv("CRAWLER_FIXTURES", "sometimes");
+      expect(getFixtureOptions().mode).toBe("live");
+    });
+
+    it("should prefer configured options over env", () => {
+      vi.stubEnv("CRAWLER_FIXTURES", "replay");
+      configureFixtures({ mode: "record", dir });
+
+      expect(getFixtureOptions()).toEqual({ mode: "record", dir });
+    });
+  });
+});
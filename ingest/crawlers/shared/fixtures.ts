@@ -0,0 +1,127 @@
+import { createHash } from "node:crypto";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { join, resolve } from "node:path";
+
+/**
+ * live: hit the network; record: hit the network and save responses;
+ * replay: serve saved responses only, never touching the network
+ */
+export type FixtureMode = "live" | "record" | "replay";
+
+export interface FixtureOptions {
+  mode: FixtureMode;
+  dir: string;
+}
+
+/**
+ * A saved response, stored as one JSON file per request
+ */
+export interface Fixture {
+  url: string;
+  method: string;
+  requestBody?: string;
+  status: number;
+  contentType: string;
+  body: string;
+  recordedAt: string;
+}
+
+export interface FixtureRequest {
+  url: string;
+  method?: string;
+  body?: string;
+}
+
+const DEFAULT_FIXTURES_DIR = "fixtures";
+
+let configuredOptions: Partial<FixtureOptions> = {};
+
+/**
+ * Override fixture settings (used by tests and the crawl CLI).
+ * Anything not set falls back to CRAWLER_FIXTURES / CRAWLER_FIXTURES_DIR.
+ */
+export function configureFixtures(options: Partial<FixtureOptions>): void {
+  configuredOptions = { ...options };
+}
+
+/**
+ * Current fixture settings. Read lazily so crawlers pick up env vars
+ * loaded by dotenv after this module was imported.
+ */
+export function getFixtureOptions(): FixtureOptions {
+  const envMode = process.env.CRAWLER_FIXTURES;
+  const mode =
+    configuredOptions.mode ??
+    (envMode === "record" || envMode === "replay" ? envMode : "live");
+
+  return {
+    mode,
+    dir: resolve(
+      configuredOptions.dir ??
+        process.env.CRAWLER_FIXTURES_DIR ??
+        DEFAULT_FIXTURES_DIR
+    ),
+  };
+}
+
+/**
+ * File name for a request: readable host prefix plus a hash of
+ * method, URL and body (POST requests to one URL differ by body)
+ */
+export function getFixtureFileName(request: FixtureRequest): string {
+  const method = (request.method ?? "GET").toUpperCase();
+  const hash = createHash("sha1")
+    .update(`${method} ${request.url}\n${request.body ?? ""}`)
+    .digest("hex")
+    .slice(0, 16);
+
+  let host = "local";
+  try {
+    host = new URL(request.url).hostname.replace(/[^a-z0-9.-]/gi, "_");
+  } catch {
+    // Keep the fallback prefix for non-URL keys
+  }
+
+  return `${host}-${hash}.json`;
+}
+
+/**
+ * Save a response to the fixtures directory
+ */
+export function saveFixture(
+  dir: string,
+  request: FixtureRequest,
+  response: { status: number; contentType: string; body: string }
+): string {
+  mkdirSync(dir, { recursive: true });
+
+  const fixture: Fixture = {
+    url: request.url,
+    method: (request.method ?? "GET").toUpperCase(),
+    ...(request.body ? { requestBody: request.body } : {}),
+    ...response,
+    recordedAt: new Date().toISOString(),
+  };
+
+  const filePath = join(dir, getFixtureFileName(request));
+  writeFileSync(filePath, JSON.stringify(fixture, null, 2) + "\n", "utf-8");
+  console.log(`💾 Recorded fixture: ${request.url}`);
+  return filePath;
+}
+
+/**
+ * Load a saved response, failing loudly when it was never recorded
+ */
+export function loadFixture(dir: string, request: FixtureRequest): Fixture {
+  const filePath = join(dir, getFixtureFileName(request));
+
+  if (!existsSync(filePath)) {
+    throw new Error(
+      `No fixture recorded for ${request.method ?? "GET"} ${
+        request.url
+      } in ${dir} (run with CRAWLER_FIXTURES=record first)`
+    );
+  }
+
+  return JSON.parse(readFileSync(filePath, "utf-8")) as Fixture;
+}
@@ -455,19 +455,139 @@ describe("geojson-validation", () => {
       });
     });
 
+    describe("multi-part geometry validation", () => {
+      const outline = [
+        [23.3, 42.6],
+        [23.4, 42.6],
+        [23.4, 42.7],
+        [23.3, 42.7],
+        [23.3, 42.6],
+      ];
+      const hole = [
+        [23.32, 42.62],
+        [23.32, 42.64],
+        [23.34, 42.64],
+        [23.34, 42.62],
+        [23.32, 42.62],
+      ];
+
+      function collection(geometry: unknown) {
+        return {
+          type: "FeatureCollection",
+          features: [{ type: "Feature", geometry, properties: {} }],
+        };
+      }
+
+      it("should validate MultiPoint", () => {
+        const result = validateAndFixGeoJSON(
+          collection({
+            type: "MultiPoint",
+            coordinates: [
+              [23.32, 42.7],
+              [23.33, 42.71],
+            ],
+          })
+        );
+        expect(result.isValid).toBe(true);
+        expect(result.geoJson?.features[0].geometry.type).toBe("MultiPoint");
+      });
+
+      it("should fix swapped MultiLineString coordinates", () => {
+        const result = validateAndFixGeoJSON(
+          collection({
+            type: "MultiLineString",
+            coordinates: [
+              [
+                [23.32, 42.7],
+                [23.33, 42.71],
+              ],
+              [
+                [42.72, 23.34], // Swapped
+                [42.73, 23.35], // Swapped
+              ],
+            ],
+          })
+        );
+        expect(result.isValid).toBe(true);
+        expect(result.warnings[0]).toContain(
+          "MultiLineString had coordinates swapped"
+        );
+        expect(result.geoJson?.features[0].geometry).toEqual({
+          type: "MultiLineString",
+          coordinates: [
+            [
+              [23.32, 42.7],
+              [23.33, 42.71],
+            ],
+            [
+              [23.34, 42.72],
+              [23.35, 42.73],
+            ],
+          ],
+        });
+      });
+
+      it("should validate MultiPolygon with holes", () => {
+        const result = validateAndFixGeoJSON(
+          collection({
+            type: "MultiPolygon",
+            coordinates: [[outline, hole], [outline]],
+          })
+        );
+        expect(result.isValid).toBe(true);
+        expect(result.geoJson?.features[0].geometry.type).toBe(
+          "MultiPolygon"
+        );
+      });
+
+      it("should reject polygons with an unclosed hole", () => {
+        const result = validateAndFixGeoJSON(
+          collection({
+            type: "MultiPolygon",
+            coordinates: [[outline, hole.slice(0, -1).concat([[23.3, 42.6]])]],
+          })
+        );
+        expect(result.isValid).toBe(false);
+      });
+
+      it("should validate every geometry of a GeometryCollection", () => {
+        const valid = validateAndFixGeoJSON(
+          collection({
+            type: "GeometryCollection",
+            geometries: [
+              { type: "Point", coordinates: [23.32, 42.7] },
+              { type: "Polygon", coordinates: [outline, hole] },
+            ],
+          })
+        );
+        expect(valid.isValid).toBe(true);
+        expect(valid.geoJson?.features[0].geometry.type).toBe(
+          "GeometryCollection"
+        );
+
+        const invalid = validateAndFixGeoJSON(
+          collection({
+            type: "GeometryCollection",
+            geometries: [
+              { type: "Point", coordinates: [23.32, 42.7] },
+              { type: "LineString", coordinates: [[23.32, 42.7]] },
+            ],
+          })
+        );
+        expect(invalid.isValid).toBe(false);
+      });
+    });
+
     describe("unsupported geometry types", () => {
-      it("should reject MultiPoint", () => {
+      it("should reject unknown geometry types", () => {
         const input = {
           type: "FeatureCollection",
           features: [
             {
               type: "Feature",
               geometry: {
-                type: "MultiPoint",
-                coordinates: [
-                  [23.32, 42.7],
-                  [23.33, 42.71],
-                ],
+                type: "Circle",
+                coordinates: [23.32, 42.7],
               },
               properties: {},
             },
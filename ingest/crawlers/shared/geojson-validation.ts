@@ -5,15 +5,26 @@ import type {
   GeoJSONPoint,
   GeoJSONLineString,
   GeoJSONPolygon,
+  GeoJSONMultiPoint,
+  GeoJSONMultiLineString,
+  GeoJSONMultiPolygon,
+  GeoJSONGeometryCollection,
 } from "../../lib/types";
+import type {
+  Geometry,
+  GeometryCollection,
+  LineString,
+  MultiLineString,
+  MultiPoint,
+  MultiPolygon,
+  Point,
+  Polygon,
+  Position,
+} from "geojson";
+import { SOFIA_BOUNDS, isWithinSofia } from "@oboapp/core";
 
 // Sofia bounds for coordinate validation
-export const SOFIA_BOUNDS = {
-  south: 42.605,
-  west: 23.188,
-  north: 42.83,
-  east: 23.528,
-};
+export { SOFIA_BOUNDS, isWithinSofia };
 
 export interface ValidationResult {
   isValid: boolean;
@@ -37,18 +48,6 @@ export function isValidCoordinate(lng: number, lat: number): boolean {
   );
 }
 
-/**
- * Check if coordinates are within Sofia bounds
- */
-export function isWithinSofia(lat: number, lng: number): boolean {
-  return (
-    lat >= SOFIA_BOUNDS.south &&
-    lat <= SOFIA_BOUNDS.north &&
-    lng >= SOFIA_BOUNDS.west &&
-    lng <= SOFIA_BOUNDS.east
-  );
-}
-
 /**
  * Detect if coordinates are swapped [lat,lng] instead of [lng,lat]
  * Returns true if they appear to be swapped
@@ -80,7 +79,7 @@ export function fixSwappedCoordinates(
  * Validate and potentially fix a Point geometry
  */
 function validateAndFixPoint(
-  geometry: any,
+  geometry: Point,
   warnings: string[]
 ): GeoJSONPoint | null {
   const coords = geometry.coordinates;
@@ -113,54 +112,118 @@ function validateAndFixPoint(
   };
 }
 
+// Whether any position of a geometry was swapped
+interface SwapState {
+  swapped: boolean;
+}
+
 /**
- * Validate and potentially fix a LineString geometry
+ * Validate a position, fixing it when swapped; null when invalid
  */
-function validateAndFixLineString(
-  geometry: any,
-  warnings: string[]
-): GeoJSONLineString | null {
-  const coords = geometry.coordinates;
+function fixPosition(
+  point: Position,
+  state: SwapState
+): [number, number] | null {
+  if (!Array.isArray(point) || point.length !== 2) {
+    return null;
+  }
 
-  if (!Array.isArray(coords) || coords.length < 2) {
+  if (typeof point[0] !== "number" || typeof point[1] !== "number") {
     return null;
   }
 
-  const fixedCoords: [number, number][] = [];
-  let hasSwaps = false;
+  let [lng, lat] = point;
 
-  for (let i = 0; i < coords.length; i++) {
-    const point = coords[i];
-    if (!Array.isArray(point) || point.length !== 2) {
-      return null;
-    }
+  // Check if coordinates are swapped
+  if (detectSwappedCoordinates(lng, lat)) {
+    [lng, lat] = fixSwappedCoordinates([lng, lat]);
+    state.swapped = true;
+  }
+
+  if (!isValidCoordinate(lng, lat)) {
+    return null;
+  }
+
+  return [lng, lat];
+}
+
+/**
+ * Fix every item of an array with at least minLength items; null when the
+ * array is too short or any item is invalid
+ */
+function fixEach<I, T>(
+  items: I[],
+  minLength: number,
+  fix: (item: I) => T | null
+): T[] | null {
+  if (!Array.isArray(items) || items.length < minLength) {
+    return null;
+  }
 
-    if (typeof point[0] !== "number" || typeof point[1] !== "number") {
+  const fixed: T[] = [];
+  for (const item of items) {
+    const fixedItem = fix(item);
+    if (!fixedItem) {
       return null;
     }
+    fixed.push(fixedItem);
+  }
+  return fixed;
+}
 
-    let [lng, lat] = point;
+function fixLine(
+  coords: Position[],
+  state: SwapState
+): [number, number][] | null {
+  return fixEach(coords, 2, (point) => fixPosition(point, state));
+}
 
-    // Check if coordinates are swapped
-    if (detectSwappedCoordinates(lng, lat)) {
-      [lng, lat] = fixSwappedCoordinates([lng, lat]);
-      hasSwaps = true;
+/**
+ * Validate the rings of a polygon, the outline and its holes: each has at
+ * least 4 positions and is closed
+ */
+function fixRings(
+  coords: Position[][],
+  state: SwapState
+): [number, number][][] | null {
+  return fixEach(coords, 1, (ring) => {
+    const fixedRing = fixEach(ring, 4, (point) => fixPosition(point, state));
+    if (!fixedRing) {
+      return null;
     }
 
-    if (!isValidCoordinate(lng, lat)) {
+    // Validate that ring is closed
+    const first = fixedRing[0];
+    const last = fixedRing[fixedRing.length - 1];
+    if (first[0] !== last[0] || first[1] !== last[1]) {
       return null;
     }
 
-    fixedCoords.push([lng, lat]);
+    return fixedRing;
+  });
+}
+
+/**
+ * Validate and potentially fix a LineString geometry
+ */
+function validateAndFixLineString(
+  geometry: LineString,
+  warnings: string[]
+): GeoJSONLineString | null {
+  const state: SwapState = { swapped: false };
+  const coordinates = fixLine(geometry.coordinates, state);
+
+  if (!coordinates) {
+    return null;
   }
 
-  if (hasSwaps) {
-    warnings.push(`LineString had ${fixedCoords.length} coordinates swapped`);
+  if (state.swapped) {
+    warnings.push(`LineString had ${coordinates.length} coordinates swapped`);
   }
 
   return {
     type: "LineString",
-    coordinates: fixedCoords,
+    coordinates,
   };
 }
 
@@ -168,67 +231,95 @@ function validateAndFixLineString(
  * Validate and potentially fix a Polygon geometry
  */
 function validateAndFixPolygon(
-  geometry: any,
+  geometry: Polygon,
   warnings: string[]
 ): GeoJSONPolygon | null {
-  const coords = geometry.coordinates;
+  const state: SwapState = { swapped: false };
+  const coordinates = fixRings(geometry.coordinates, state);
 
-  if (!Array.isArray(coords) || coords.length < 1) {
+  if (!coordinates) {
     return null;
   }
 
-  const fixedRings: [number, number][][] = [];
-  let hasSwaps = false;
+  if (state.swapped) {
+    warnings.push(`Polygon had coordinates swapped`);
+  }
 
-  for (const ring of coords) {
-    if (!Array.isArray(ring) || ring.length < 4) {
-      return null;
-    }
+  return {
+    type: "Polygon",
+    coordinates,
+  };
+}
 
-    const fixedRing: [number, number][] = [];
+/**
+ * Validate and potentially fix a MultiPoint, MultiLineString or
+ * MultiPolygon geometry: every part has to be valid
+ */
+function validateAndFixMulti(
+  geometry: MultiPoint | MultiLineString | MultiPolygon,
+  warnings: string[]
+): GeoJSONMultiPoint | GeoJSONMultiLineString | GeoJSONMultiPolygon | null {
+  const state: SwapState = { swapped: false };
+  let fixed: GeoJSONMultiPoint | GeoJSONMultiLineString | GeoJSONMultiPolygon;
 
-    for (let i = 0; i < ring.length; i++) {
-      const point = ring[i];
-      if (!Array.isArray(point) || point.length !== 2) {
+  switch (geometry.type) {
+    case "MultiPoint": {
+      const coordinates = fixEach(geometry.coordinates, 1, (p) =>
+        fixPosition(p, state)
+      );
+      if (!coordinates) {
         return null;
       }
-
-      if (typeof point[0] !== "number" || typeof point[1] !== "number") {
+      fixed = { type: "MultiPoint", coordinates };
+      break;
+    }
+    case "MultiLineString": {
+      const coordinates = fixEach(geometry.coordinates, 1, (line) =>
+        fixLine(line, state)
+      );
+      if (!coordinates) {
         return null;
       }
-
-      let [lng, lat] = point;
-
-      // Check if coordinates are swapped
-      if (detectSwappedCoordinates(lng, lat)) {
-        [lng, lat] = fixSwappedCoordinates([lng, lat]);
-        hasSwaps = true;
-      }
-
-      if (!isValidCoordinate(lng, lat)) {
+      fixed = { type: "MultiLineString", coordinates };
+      break;
+    }
+    default: {
+      const coordinates = fixEach(geometry.coordinates, 1, (rings) =>
+        fixRings(rings, state)
+      );
+      if (!coordinates) {
         return null;
       }
-
-      fixedRing.push([lng, lat]);
-    }
-
-    // Validate that ring is closed
-    const first = fixedRing[0];
-    const last = fixedRing[fixedRing.length - 1];
-    if (first[0] !== last[0] || first[1] !== last[1]) {
-      return null;
+      fixed = { type: "MultiPolygon", coordinates };
     }
+  }
 
-    fixedRings.push(fixedRing);
+  if (state.swapped) {
+    warnings.push(`${fixed.type} had coordinates swapped`);
   }
 
-  if (hasSwaps) {
-    warnings.push(`Polygon had coordinates swapped`);
+  return fixed;
+}
+
+/**
+ * Validate and potentially fix a GeometryCollection: every geometry in it
+ * has to be valid
+ */
+function validateAndFixGeometryCollection(
+  geometry: GeometryCollection,
+  warnings: string[]
+): GeoJSONGeometryCollection | null {
+  const geometries = fixEach(geometry.geometries, 1, (part) =>
+    validateAndFixGeometry(part, warnings)
+  );
+
+  if (!geometries) {
+    return null;
   }
 
   return {
-    type: "Polygon",
-    coordinates: fixedRings,
+    type: "GeometryCollection",
+    geometries,
   };
 }
 
@@ -236,7 +327,7 @@ function validateAndFixPolygon(
  * Validate and potentially fix a geometry
  */
 function validateAndFixGeometry(
-  geometry: any,
+  geometry: Geometry,
   warnings: string[]
 ): GeoJSONGeometry | null {
   if (!geometry || typeof geometry !== "object" || !geometry.type) {
@@ -250,6 +341,12 @@ function validateAndFixGeometry(
       return validateAndFixLineString(geometry, warnings);
     case "Polygon":
       return validateAndFixPolygon(geometry, warnings);
+    case "MultiPoint":
+    case "MultiLineString":
+    case "MultiPolygon":
+      return validateAndFixMulti(geometry, warnings);
+    case "GeometryCollection":
+      return validateAndFixGeometryCollection(geometry, warnings);
     default:
       return null;
   }
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { findResolvedChanges } from "./reconcile";
+
+describe("findResolvedChanges", () => {
+  const resolvedAt = new Date("2025-12-01T10:00:00.000Z");
+
+  it("should resolve stored sources missing from the live feed", () => {
+    const changes = findResolvedChanges(
+      [{ url: "https://a" }, { url: "https://b" }],
+      ["https://a"]
+    );
+
+    expect(changes).toEqual({ resolved: ["https://b"], reopened: [] });
+  });
+
+  it("should not resolve sources twice", () => {
+    const changes = findResolvedChanges(
+      [{ url: "https://a", resolvedAt }],
+      []
+    );
+
+    expect(changes).toEqual({ resolved: [], reopened: [] });
+  });
+
+  it("should reopen resolved sources that are back on the feed", () => {
+    const changes = findResolvedChanges(
+      [{ url: "https://a", resolvedAt }, { url: "https://b" }],
+      ["https://a", "https://b", "https://new"]
+    );
+
+    expect(changes).toEqual({ resolved: [], reopened: ["https://a"] });
+  });
+
+  it("should resolve everything when the feed is empty", () => {
+    const changes = findResolvedChanges(
+      [{ url: "https://a" }, { url: "https://b" }],
+      []
+    );
+
+    expect(changes.resolved).toEqual(["https://a", "https://b"]);
+  });
+});
@@ -0,0 +1,129 @@
+import { FieldValue, type Firestore } from "firebase-admin/firestore";
+import { encodeDocumentId } from "./firestore";
+
+/**
+ * Stored state of a source document relevant for reconciliation
+ */
+export interface StoredSourceState {
+  url: string;
+  resolvedAt?: unknown; // Set once the incident left the live feed
+}
+
+/**
+ * Sources whose resolved state changes after a snapshot
+ */
+export interface ReconcileChanges {
+  resolved: string[]; // Stored as active, no longer on the live feed
+  reopened: string[]; // Stored as resolved, back on the live feed
+}
+
+/**
+ * Compare stored sources with the URLs currently on the live feed
+ */
+export function findResolvedChanges(
+  stored: StoredSourceState[],
+  activeUrls: Iterable<string>
+): ReconcileChanges {
+  const active = new Set(activeUrls);
+  const changes: ReconcileChanges = { resolved: [], reopened: [] };
+
+  for (const source of stored) {
+    const isResolved = Boolean(source.resolvedAt);
+    if (!active.has(source.url) && !isResolved) {
+      changes.resolved.push(source.url);
+    } else if (active.has(source.url) && isResolved) {
+      changes.reopened.push(source.url);
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Set or clear `resolvedAt` on a source and all messages built from it.
+ * Sources keep an explicit null, which the unresolved query matches.
+ */
+async function setResolvedAt(
+  adminDb: Firestore,
+  url: string,
+  resolvedAt: Date | null
+): Promise<void> {
+  const messages = await adminDb
+    .collection("messages")
+    .where("sourceUrl", "==", url)
+    .get();
+
+  const batch = adminDb.batch();
+  batch.update(adminDb.collection("sources").doc(encodeDocumentId(url)), {
+    resolvedAt,
+  });
+  for (const doc of messages.docs) {
+    batch.update(doc.ref, { resolvedAt: resolvedAt ?? FieldValue.delete() });
+  }
+  await batch.commit();
+}
+
+/**
+ * Load the sources that can change state: the unresolved ones of the type,
+ * and the ones on the live feed (which may have been resolved before)
+ */
+async function loadStoredSources(
+  sourceType: string,
+  activeUrls: string[],
+  adminDb: Firestore
+): Promise<StoredSourceState[]> {
+  const sourcesRef = adminDb.collection("sources");
+  const stored = new Map<string, StoredSourceState>();
+
+  const unresolved = await sourcesRef
+    .where("sourceType", "==", sourceType)
+    .where("resolvedAt", "==", null)
+    .get();
+  for (const doc of unresolved.docs) {
+    stored.set(doc.data().url, { url: doc.data().url });
+  }
+
+  const active =
+    activeUrls.length > 0
+      ? await adminDb.getAll(
+          ...activeUrls.map((url) => sourcesRef.doc(encodeDocumentId(url)))
+        )
+      : [];
+  for (const doc of active) {
+    const data = doc.data();
+    if (data?.sourceType === sourceType) {
+      stored.set(data.url, { url: data.url, resolvedAt: data.resolvedAt });
+    }
+  }
+
+  return Array.from(stored.values());
+}
+
+/**
+ * Reconcile a snapshot crawler's live feed with its stored sources:
+ * incidents that disappeared get `resolvedAt`, incidents that came back
+ * have it removed. Must only be called with a complete, non-empty feed.
+ * @throws Error if Firestore operations fail
+ */
+export async function reconcileActiveSources(
+  sourceType: string,
+  activeUrls: string[],
+  adminDb: Firestore
+): Promise<ReconcileChanges> {
+  const changes = findResolvedChanges(
+    await loadStoredSources(sourceType, activeUrls, adminDb),
+    activeUrls
+  );
+
+  const now = new Date();
+  for (const url of changes.resolved) {
+    await setResolvedAt(adminDb, url, now);
+    console.log(`🏁 Resolved: ${url}`);
+  }
+  for (const url of changes.reopened) {
+    await setResolvedAt(adminDb, url, null);
+    console.log(`↩️  Reopened: ${url}`);
+  }
+
+  return changes;
+}
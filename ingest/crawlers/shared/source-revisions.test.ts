@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { computeContentHash, stableStringify } from "./source-revisions";
+
+describe("shared/source-revisions", () => {
+  describe("stableStringify", () => {
+    it("should sort object keys at every level", () => {
+      expect(
+        stableStringify({ b: 1, a: { d: [2, { f: 3, e: 4 }], c: 5 } })
+      ).toBe('{"a":{"c":5,"d":[2,{"e":4,"f":3}]},"b":1}');
+    });
+
+    it("should drop undefined properties", () => {
+      expect(stableStringify({ a: 1, b: undefined })).toBe('{"a":1}');
+    });
+  });
+
+  describe("computeContentHash", () => {
+    const source = {
+      title: "Спиране на водата",
+      message: "До 18:00 ч.",
+    };
+    const upstream = {
+      attributes: { OBJECTID: 7, START_: 1765785600000 },
+      geometry: { x: 23.33, y: 42.69 },
+    };
+
+    it("should ignore surrounding whitespace", () => {
+      expect(
+        computeContentHash({
+          title: ` ${source.title}`,
+          message: `${source.message}\n`,
+        })
+      ).toBe(computeContentHash(source));
+    });
+
+    it("should hash only the upstream record when there is one", () => {
+      expect(
+        computeContentHash({
+          title: "Планирано спиране",
+          message: "Друг текст",
+          upstream: {
+            geometry: { y: 42.69, x: 23.33 },
+            attributes: { START_: 1765785600000, OBJECTID: 7 },
+          },
+        })
+      ).toBe(computeContentHash({ ...source, upstream }));
+    });
+
+    it("should change when the upstream record changes", () => {
+      expect(
+        computeContentHash({
+          ...source,
+          upstream: { ...upstream, geometry: { x: 23.34, y: 42.69 } },
+        })
+      ).not.toBe(computeContentHash({ ...source, upstream }));
+    });
+
+    it("should change when the message changes", () => {
+      expect(
+        computeContentHash({ ...source, message: "До 20:00 ч." })
+      ).not.toBe(computeContentHash(source));
+    });
+  });
+});
@@ -0,0 +1,57 @@
+import { createHash } from "node:crypto";
+
+/**
+ * Content of a source document as published upstream.
+ * `crawledAt` and `datePublished` are left out: some crawlers fall back to
+ * the current time for them, which would make every crawl look like a change.
+ * The GeoJSON and the texts built from feed records are left out too, so a
+ * change to a builder doesn't turn every live document into a new revision.
+ */
+export interface HashableSource {
+  title: string;
+  message: string;
+  upstream?: unknown; // Raw feed record (attributes and geometry), hashed instead of title and message
+}
+
+/**
+ * Version of the content hash. Stored hashes of another version are
+ * replaced without a new revision, so a change to what is hashed (or a
+ * bump after a builder change) is not taken for a content change.
+ */
+export const CONTENT_HASH_VERSION = 2;
+
+/**
+ * Status of a source document after an upsert
+ */
+export type SourceSaveResult = "new" | "updated" | "unchanged";
+
+/**
+ * JSON.stringify with sorted object keys, so objects read back from
+ * Firestore (which does not preserve key order) hash the same
+ */
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => stableStringify(item)).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, v]) => `${JSON.stringify(key)}:${stableStringify(v)}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * Compute a content hash of a source document: its raw feed record when
+ * the crawler passes one, otherwise its title and message
+ */
+export function computeContentHash(source: HashableSource): string {
+  const content =
+    source.upstream === undefined
+      ? { title: source.title.trim(), message: source.message.trim() }
+      : { upstream: source.upstream };
+
+  return createHash("sha256").update(stableStringify(content)).digest("hex");
+}
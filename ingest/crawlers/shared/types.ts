@@ -6,9 +6,78 @@ export interface BaseSourceDocument {
   sourceType: string;
   crawledAt: Date;
   markdownText?: string; // Optional markdown-formatted message for display
+  activeFrom?: string; // ISO start of the incident, when the source publishes it
+  activeUntil?: string; // ISO end of the incident
 }
 
 export interface SourceDocumentWithGeoJson extends BaseSourceDocument {
   geoJson: import("../../lib/types").GeoJSONFeatureCollection;
   markdownText: string; // Required for crawlers with precomputed GeoJSON
 }
+
+/**
+ * Options accepted by every crawler's crawl() function
+ */
+export interface CrawlOptions {
+  dryRun?: boolean; // Fetch and parse, but don't write to Firestore
+  since?: Date; // Skip documents published before this date
+  limit?: number; // Maximum number of documents to process
+  headless?: boolean; // Browser mode for Playwright-based crawlers (default: true)
+}
+
+/**
+ * Result of a single crawl run
+ */
+export interface CrawlSummary {
+  saved: number;
+  updated: number; // Already crawled documents whose content changed
+  skipped: number;
+  failed: number;
+  errors: string[]; // Error messages of failed documents
+  activeUrls?: string[]; // Snapshot crawlers: every incident on the live feed
+}
+
+/**
+ * Static description of a crawler, used for listing and scheduling
+ */
+export interface CrawlerMetadata {
+  id: string; // Matches the sourceType of saved documents
+  displayName: string;
+  description: string;
+  schedule: string; // Cron expression hint (see terraform/variables.tf)
+  output: "geojson" | "text"; // Precomputed GeoJSON or text for AI extraction
+}
+
+export interface Crawler extends CrawlerMetadata {
+  crawl(options?: CrawlOptions): Promise<CrawlSummary>;
+}
+
+/**
+ * Outcome of one crawler within a multi-crawler run
+ */
+export interface CrawlerRunResult extends Omit<CrawlSummary, "activeUrls"> {
+  source: string; // Crawler id
+  status: "success" | "failed"; // failed: the crawler threw before finishing
+  durationMs: number;
+  resolved?: number; // Sources marked resolved after reconciling the feed
+  reopened?: number; // Resolved sources that are back on the feed
+}
+
+/**
+ * Combined report of a crawl run (stored in the crawlRuns collection)
+ */
+export interface CrawlRunReport {
+  startedAt: Date;
+  finishedAt: Date;
+  durationMs: number;
+  dryRun: boolean;
+  concurrency: number;
+  sources: CrawlerRunResult[];
+  totals: {
+    saved: number;
+    updated: number;
+    skipped: number;
+    failed: number;
+  };
+  failedSources: string[];
+}
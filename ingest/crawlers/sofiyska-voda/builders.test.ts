@@ -7,9 +7,22 @@ import {
   buildSourceDocument,
   getFeatureUrl,
   createFeatureCollection,
+  pathsToGeometry,
+  ringsToGeometry,
 } from "./builders";
 import type { ArcGisFeature, LayerConfig } from "./types";
 
+// Clockwise, as ArcGIS outer rings are
+function box(lng: number, lat: number, size: number): number[][] {
+  return [
+    [lng, lat],
+    [lng, lat + size],
+    [lng + size, lat + size],
+    [lng + size, lat],
+    [lng, lat],
+  ];
+}
+
 const mockLayer: LayerConfig = {
   id: 2,
   name: "Текущи спирания",
@@ -166,10 +179,10 @@ describe("sofiyska-voda/builders", () => {
 
       const collection = buildGeoJsonFeatureCollection(feature, mockLayer);
       expect(collection?.type).toBe("FeatureCollection");
-      expect(collection?.features[0].geometry.type).toBe("Point");
-      expect(collection?.features[0].geometry.coordinates).toEqual([
-        23.32, 42.69,
-      ]);
+      expect(collection?.features[0].geometry).toEqual({
+        type: "Point",
+        coordinates: [23.32, 42.69],
+      });
     });
 
     it("should build Polygon geometry", () => {
@@ -228,6 +241,88 @@ describe("sofiyska-voda/builders", () => {
 
       expect(buildGeoJsonFeatureCollection(feature, mockLayer)).toBeNull();
     });
+
+    it("should keep every part of the geometry", () => {
+      const feature: ArcGisFeature = {
+        attributes: { OBJECTID: 1 },
+        geometry: {
+          paths: [
+            [
+              [23.32, 42.69],
+              [23.33, 42.7],
+            ],
+            [
+              [23.34, 42.69],
+              [23.35, 42.7],
+            ],
+          ],
+        },
+      };
+
+      const collection = buildGeoJsonFeatureCollection(feature, mockLayer);
+      expect(collection?.features[0].geometry.type).toBe("MultiLineString");
+    });
+  });
+
+  describe("ringsToGeometry", () => {
+    it("should put holes into the outer ring they lie in", () => {
+      const outer = box(23.3, 42.6, 0.1);
+      const hole = box(23.32, 42.62, 0.01).reverse();
+
+      expect(ringsToGeometry([outer, hole])).toEqual({
+        type: "Polygon",
+        coordinates: [outer, hole],
+      });
+    });
+
+    it("should build a MultiPolygon from several outer rings", () => {
+      const first = box(23.3, 42.6, 0.1);
+      const second = box(23.5, 42.6, 0.1);
+      const hole = box(23.52, 42.62, 0.01).reverse();
+
+      expect(ringsToGeometry([first, second, hole])).toEqual({
+        type: "MultiPolygon",
+        coordinates: [[first], [second, hole]],
+      });
+    });
+
+    it("should take every ring as a part without clockwise rings", () => {
+      const first = box(23.3, 42.6, 0.1).reverse();
+      const second = box(23.5, 42.6, 0.1).reverse();
+
+      expect(ringsToGeometry([first, second])?.type).toBe("MultiPolygon");
+    });
+
+    it("should return null without valid rings", () => {
+      expect(
+        ringsToGeometry([
+          [
+            [23.3, 42.6],
+            [23.3, 42.6],
+          ],
+        ])
+      ).toBeNull();
+    });
+  });
+
+  describe("pathsToGeometry", () => {
+    it("should build a LineString from a single path", () => {
+      expect(
+        pathsToGeometry([
+          [[23.3, 42.6]],
+          [
+            [23.3, 42.6],
+            [23.4, 42.6],
+          ],
+        ])
+      ).toEqual({
+        type: "LineString",
+        coordinates: [
+          [23.3, 42.6],
+          [23.4, 42.6],
+        ],
+      });
+    });
   });
 
   describe("buildSourceDocument", () => {
@@ -280,5 +375,31 @@ describe("sofiyska-voda/builders", () => {
       const doc = buildSourceDocument(feature, mockLayer);
       expect(doc?.datePublished).toContain("2025-12-29");
     });
+
+    it("should add the outage period in ISO format", () => {
+      const feature: ArcGisFeature = {
+        attributes: {
+          OBJECTID: 12345,
+          START_: Date.parse("2025-12-29T08:00:00.000Z"),
+          ALERTEND: Date.parse("2025-12-29T16:00:00.000Z"),
+        },
+        geometry: { x: 23.32, y: 42.69 },
+      };
+
+      const doc = buildSourceDocument(feature, mockLayer);
+      expect(doc?.activeFrom).toBe("2025-12-29T08:00:00.000Z");
+      expect(doc?.activeUntil).toBe("2025-12-29T16:00:00.000Z");
+    });
+
+    it("should leave out an unknown outage period", () => {
+      const feature: ArcGisFeature = {
+        attributes: { OBJECTID: 12345 },
+        geometry: { x: 23.32, y: 42.69 },
+      };
+
+      const doc = buildSourceDocument(feature, mockLayer);
+      expect(doc).not.toHaveProperty("activeFrom");
+      expect(doc).not.toHaveProperty("activeUntil");
+    });
   });
 });
@@ -3,7 +3,15 @@ import type {
   LayerConfig,
   SofiyskaVodaSourceDocument,
 } from "./types";
-import type { GeoJSONFeature, GeoJSONFeatureCollection } from "@/lib/types";
+import { booleanPointInPolygon, polygon as turfPolygon } from "@turf/turf";
+import type {
+  GeoJSONFeature,
+  GeoJSONFeatureCollection,
+  GeoJSONLineString,
+  GeoJSONMultiLineString,
+  GeoJSONMultiPolygon,
+  GeoJSONPolygon,
+} from "@/lib/types";
 import { sanitizeText, ensureDate, buildMessage } from "./formatters";
 
 // Re-export for backward compatibility
@@ -92,6 +100,72 @@ export function createFeatureCollection(
   };
 }
 
+type Ring = [number, number][];
+
+// Twice the signed area of a ring, negative when it is clockwise
+function getSignedArea(ring: Ring): number {
+  let area = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    const [x1, y1] = ring[i];
+    const [x2, y2] = ring[i + 1];
+    area += x1 * y2 - x2 * y1;
+  }
+  return area;
+}
+
+/**
+ * Convert ArcGIS rings to a Polygon, or a MultiPolygon when there are
+ * several parts. ArcGIS outer rings are clockwise and holes counterclockwise;
+ * each hole goes to the outer ring it lies in.
+ */
+export function ringsToGeometry(
+  rings: number[][][]
+): GeoJSONPolygon | GeoJSONMultiPolygon | null {
+  const validRings = (rings as Ring[]).filter((ring) => ring.length >= 4);
+  let outers = validRings.filter((ring) => getSignedArea(ring) < 0);
+  let holes = validRings.filter((ring) => getSignedArea(ring) >= 0);
+
+  // Rings that don't follow the ArcGIS winding are all parts
+  if (outers.length === 0) {
+    outers = validRings;
+    holes = [];
+  }
+
+  const polygons: Ring[][] = outers.map((outer) => [outer]);
+  for (const hole of holes) {
+    const polygon = polygons.find(([outer]) =>
+      booleanPointInPolygon(hole[0], turfPolygon([outer]))
+    );
+    polygon?.push(hole);
+  }
+
+  if (polygons.length === 0) {
+    return null;
+  }
+  return polygons.length === 1
+    ? { type: "Polygon", coordinates: polygons[0] }
+    : { type: "MultiPolygon", coordinates: polygons };
+}
+
+/**
+ * Convert ArcGIS paths to a LineString, or a MultiLineString when there are
+ * several; single-point paths are skipped
+ */
+export function pathsToGeometry(
+  paths: number[][][]
+): GeoJSONLineString | GeoJSONMultiLineString | null {
+  const lines = (paths as [number, number][][]).filter(
+    (path) => path.length > 1
+  );
+
+  if (lines.length === 0) {
+    return null;
+  }
+  return lines.length === 1
+    ? { type: "LineString", coordinates: lines[0] }
+    : { type: "MultiLineString", coordinates: lines };
+}
+
 /**
  * Build GeoJSON FeatureCollection from ArcGIS feature
  */
@@ -106,29 +180,26 @@ export function buildGeoJsonFeatureCollection(
 
   const properties = buildFeatureProperties(feature.attributes ?? {}, layer);
 
-  if (geometry.rings?.length) {
+  const areaGeometry = geometry.rings?.length
+    ? ringsToGeometry(geometry.rings)
+    : null;
+  if (areaGeometry) {
     return createFeatureCollection({
       type: "Feature",
-      geometry: {
-        type: "Polygon",
-        coordinates: geometry.rings as [number, number][][],
-      },
+      geometry: areaGeometry,
       properties,
     });
   }
 
-  if (geometry.paths?.length) {
-    const firstPath = geometry.paths.find((path) => path.length > 1);
-    if (firstPath) {
-      return createFeatureCollection({
-        type: "Feature",
-        geometry: {
-          type: "LineString",
-          coordinates: firstPath as [number, number][],
-        },
-        properties,
-      });
-    }
+  const lineGeometry = geometry.paths?.length
+    ? pathsToGeometry(geometry.paths)
+    : null;
+  if (lineGeometry) {
+    return createFeatureCollection({
+      type: "Feature",
+      geometry: lineGeometry,
+      properties,
+    });
   }
 
   if (typeof geometry.x === "number" && typeof geometry.y === "number") {
@@ -170,10 +241,10 @@ export function buildSourceDocument(
     console.warn(`⚠️ Skipping feature without geometry: ${url}`);
     return null;
   }
+  const start = ensureDate(feature.attributes?.START_);
+  const end = ensureDate(feature.attributes?.ALERTEND);
   const lastUpdate =
-    ensureDate(feature.attributes?.LASTUPDATE) ??
-    ensureDate(feature.attributes?.START_) ??
-    new Date();
+    ensureDate(feature.attributes?.LASTUPDATE) ?? start ?? new Date();
 
   return {
     url,
@@ -184,5 +255,8 @@ export function buildSourceDocument(
     sourceType: SOURCE_TYPE,
     crawledAt: new Date(),
     geoJson,
+    // Outage period, for the validity window of the message
+    ...(start ? { activeFrom: start.toISOString() } : {}),
+    ...(end ? { activeUntil: end.toISOString() } : {}),
   };
 }
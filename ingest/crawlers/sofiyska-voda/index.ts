@@ -9,11 +9,17 @@ import {
   LayerConfig,
   SofiyskaVodaSourceDocument,
 } from "./types";
+import { upsertSourceDocument } from "../shared/firestore";
+import type { SourceSaveResult } from "../shared/source-revisions";
+import { buildSourceDocument, getFeatureUrl } from "./builders";
+import { fetchWithFixtures } from "../shared/browser";
 import {
-  isUrlProcessed,
-  saveSourceDocument as saveSourceDocumentShared,
-} from "../shared/firestore";
-import { buildSourceDocument } from "./builders";
+  createCrawlSummary,
+  isPublishedBefore,
+  recordCrawlFailure,
+  recordSaveResult,
+} from "../shared/crawl-summary";
+import type { CrawlOptions, CrawlSummary, Crawler } from "../shared/types";
 
 // Load environment variables to match the rest of the crawlers
 dotenv.config({ path: resolve(process.cwd(), ".env.local") });
@@ -49,9 +55,7 @@ const LAYERS: LayerConfig[] = [
   },
 ];
 
-interface CrawlSummary {
-  saved: number;
-  skipped: number;
+interface SofiyskaVodaCrawlSummary extends CrawlSummary {
   emptyLayers: number;
 }
 
@@ -101,7 +105,7 @@ async function callArcGis(url: string): Promise<ArcGisQueryResponse> {
   const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
 
   try {
-    const response = await fetch(url, {
+    const response = await fetchWithFixtures(url, {
       headers: REQUEST_HEADERS,
       signal: controller.signal,
     });
@@ -120,9 +124,11 @@ async function callArcGis(url: string): Promise<ArcGisQueryResponse> {
 
 async function saveSourceDocument(
   doc: SofiyskaVodaSourceDocument,
+  feature: ArcGisFeature,
   adminDb: Firestore
-): Promise<void> {
-  await saveSourceDocumentShared(doc, adminDb, {
+): Promise<SourceSaveResult> {
+  const result = await upsertSourceDocument(doc, adminDb, {
+    upstream: { attributes: feature.attributes, geometry: feature.geometry },
     transformData: (d) => ({
       ...d,
       geoJson: JSON.stringify(d.geoJson),
@@ -130,51 +136,89 @@ async function saveSourceDocument(
     }),
     logSuccess: false,
   });
-  console.log(`✅ Записано събитие: ${doc.title}`);
+  if (result === "new") {
+    console.log(`✅ Записано събитие: ${doc.title}`);
+  }
+  return result;
 }
 
-export async function crawl(): Promise<void> {
+export async function crawl(options: CrawlOptions = {}): Promise<CrawlSummary> {
   console.log("🚰 Стартиране на crawler за Sofiyska Voda...\n");
 
-  const summary: CrawlSummary = { saved: 0, skipped: 0, emptyLayers: 0 };
+  const summary: SofiyskaVodaCrawlSummary = {
+    ...createCrawlSummary(),
+    emptyLayers: 0,
+  };
   const seenUrls = new Set<string>();
-  const adminDb = await maybeInitFirestore();
+  const activeUrls = new Set<string>();
+  const adminDb = await maybeInitFirestore(options.dryRun);
 
   for (const layer of LAYERS) {
-    const layerSummary = await processLayer(layer, seenUrls, adminDb);
-    summary.saved += layerSummary.saved;
-    summary.skipped += layerSummary.skipped;
-    summary.emptyLayers += layerSummary.emptyLayers;
+    await processLayer(layer, seenUrls, activeUrls, adminDb, options, summary);
   }
 
   logSummary(summary);
+
+  // The layers hold current outages only; the rest are resolved. A failed
+  // layer fetch throws before this point, so the list is never partial.
+  const { emptyLayers, ...crawlSummary } = summary;
+  return { ...crawlSummary, activeUrls: [...activeUrls] };
 }
 
-async function maybeInitFirestore(): Promise<Firestore | null> {
+async function maybeInitFirestore(dryRun = false): Promise<Firestore | null> {
+  if (dryRun) {
+    return null;
+  }
   const firebase = await import("@/lib/firebase-admin");
   return firebase.adminDb;
 }
 
+function hasReachedLimit(seenUrls: Set<string>, options: CrawlOptions) {
+  return options.limit !== undefined && seenUrls.size >= options.limit;
+}
+
 async function processLayer(
   layer: LayerConfig,
   seenUrls: Set<string>,
-  adminDb: Firestore | null
-): Promise<CrawlSummary> {
+  activeUrls: Set<string>,
+  adminDb: Firestore | null,
+  options: CrawlOptions,
+  summary: SofiyskaVodaCrawlSummary
+): Promise<void> {
+  if (hasReachedLimit(seenUrls, options)) {
+    return;
+  }
+
   console.log(`\n📡 Зареждане на слой ${layer.id} – ${layer.name}`);
   const features = await fetchLayerFeatures(layer);
   console.log(`   ➜ Получени записи: ${features.length}`);
 
-  if (features.length === 0) {
-    return { saved: 0, skipped: 0, emptyLayers: 1 };
+  // Every incident on the feed is active, also the ones not saved below
+  for (const feature of features) {
+    const objectId = feature.attributes?.OBJECTID;
+    if (typeof objectId === "number") {
+      activeUrls.add(getFeatureUrl(layer.id, objectId));
+    }
   }
 
-  const result: CrawlSummary = { saved: 0, skipped: 0, emptyLayers: 0 };
+  if (features.length === 0) {
+    summary.emptyLayers += 1;
+    return;
+  }
 
   for (const feature of features) {
-    await handleFeature(feature, layer, seenUrls, adminDb, result);
-  }
+    if (hasReachedLimit(seenUrls, options)) {
+      break;
+    }
 
-  return result;
+    try {
+      await handleFeature(feature, layer, seenUrls, adminDb, options, summary);
+    } catch (error) {
+      const id = feature.attributes?.OBJECTID ?? "unknown";
+      console.error(`❌ Грешка при обработка на запис ${id}:`, error);
+      recordCrawlFailure(summary, `${layer.id}/${id}`, error);
+    }
+  }
 }
 
 async function handleFeature(
@@ -182,6 +226,7 @@ async function handleFeature(
   layer: LayerConfig,
   seenUrls: Set<string>,
   adminDb: Firestore | null,
+  options: CrawlOptions,
   summary: CrawlSummary
 ): Promise<void> {
   const document = buildSourceDocument(feature, layer, DATE_FORMATTER);
@@ -194,28 +239,45 @@ async function handleFeature(
   }
   seenUrls.add(document.url);
 
-  if (!adminDb) {
-    throw new Error("Firestore is not initialized");
+  if (isPublishedBefore(document.datePublished, options.since)) {
+    summary.skipped += 1;
+    return;
   }
 
-  const exists = await isUrlProcessed(document.url, adminDb);
-  if (exists) {
-    summary.skipped += 1;
+  if (!adminDb) {
+    console.log(`📝 [dry-run] ${document.title}`);
+    summary.saved += 1;
     return;
   }
 
-  await saveSourceDocument(document, adminDb);
-  summary.saved += 1;
+  const result = await saveSourceDocument(document, feature, adminDb);
+  recordSaveResult(summary, result);
 }
 
-function logSummary(summary: CrawlSummary): void {
+function logSummary(summary: SofiyskaVodaCrawlSummary): void {
   console.log("\n" + "=".repeat(60));
   console.log("📊 Резюме на обработката");
   console.log(`✅ Нови записи: ${summary.saved}`);
+  if (summary.updated > 0) {
+    console.log(`🔄 Обновени записи: ${summary.updated}`);
+  }
+  console.log(`⏭️ Пропуснати: ${summary.skipped}`);
+  if (summary.failed > 0) {
+    console.log(`❌ Неуспешни: ${summary.failed}`);
+  }
   console.log(`ℹ️ Празни слоеве: ${summary.emptyLayers}`);
   console.log("=".repeat(60));
 }
 
+export const crawler: Crawler = {
+  id: SOURCE_TYPE,
+  displayName: "Софийска вода",
+  description: "Current and planned water supply interruptions from the ArcGIS API",
+  schedule: "10 10,14,16 * * *",
+  output: "geojson",
+  crawl,
+};
+
 // Run only when executed directly
 if (require.main === module) {
   // eslint-disable-next-line unicorn/prefer-top-level-await
@@ -1,5 +1,11 @@
 import { describe, expect, it } from "vitest";
-import { formatDate, buildMessage, buildUrl, buildTitle } from "./builders";
+import {
+  buildActivePeriod,
+  formatDate,
+  buildMessage,
+  buildUrl,
+  buildTitle,
+} from "./builders";
 import type { ToploIncidentInfo } from "./types";
 
 describe("toplo-bg/builders", () => {
@@ -60,6 +66,29 @@ describe("toplo-bg/builders", () => {
     });
   });
 
+  describe("buildActivePeriod", () => {
+    it("should build the period in ISO format, parsed as Sofia time", () => {
+      const period = buildActivePeriod({
+        FromDate: "2025-12-29T10:00:00",
+        UntilDate: "2025-12-30T18:00:00",
+      });
+
+      expect(period).toEqual({
+        activeFrom: "2025-12-29T08:00:00.000Z",
+        activeUntil: "2025-12-30T16:00:00.000Z",
+      });
+    });
+
+    it("should leave out the end when there is no UntilDate", () => {
+      const period = buildActivePeriod({
+        FromDate: "2025-12-29T10:00:00",
+        UntilDate: null,
+      });
+
+      expect(period).toEqual({ activeFrom: "2025-12-29T08:00:00.000Z" });
+    });
+  });
+
   describe("buildUrl", () => {
     it("should build URL from contentItemId", () => {
       const url = buildUrl("12345");
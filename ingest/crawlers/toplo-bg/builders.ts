@@ -1,3 +1,5 @@
+import { parseSofiaDateTime } from "@/lib/sofia-time";
+import type { BaseSourceDocument } from "../shared/types";
 import type { ToploIncidentInfo } from "./types";
 
 /**
@@ -32,6 +34,24 @@ export function buildMessage(
   return parts.join("\n");
 }
 
+/**
+ * Build the incident period in ISO format
+ * (FromDate and UntilDate are Sofia local time without offset)
+ */
+export function buildActivePeriod(
+  info: Pick<ToploIncidentInfo, "FromDate" | "UntilDate">
+): Pick<BaseSourceDocument, "activeFrom" | "activeUntil"> {
+  const activeFrom = parseSofiaDateTime(info.FromDate)?.toISOString();
+  const activeUntil = info.UntilDate
+    ? parseSofiaDateTime(info.UntilDate)?.toISOString()
+    : undefined;
+
+  return {
+    ...(activeFrom ? { activeFrom } : {}),
+    ...(activeUntil ? { activeUntil } : {}),
+  };
+}
+
 /**
  * Build URL for an incident
  */
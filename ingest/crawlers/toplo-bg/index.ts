@@ -2,10 +2,27 @@
 import dotenv from "dotenv";
 import { resolve } from "node:path";
 import { parseIncidents } from "./parser";
-import { buildMessage, buildUrl, buildTitle } from "./builders";
+import {
+  buildActivePeriod,
+  buildMessage,
+  buildUrl,
+  buildTitle,
+} from "./builders";
 import { launchBrowser } from "../shared/browser";
-import { saveSourceDocumentIfNew } from "../shared/firestore";
-import type { SourceDocumentWithGeoJson } from "../shared/types";
+import { upsertSourceDocument } from "../shared/firestore";
+import {
+  createCrawlSummary,
+  hasOnlyFailures,
+  isPublishedBefore,
+  recordCrawlFailure,
+  recordSaveResult,
+} from "../shared/crawl-summary";
+import type {
+  CrawlOptions,
+  CrawlSummary,
+  Crawler,
+  SourceDocumentWithGeoJson,
+} from "../shared/types";
 
 dotenv.config({ path: resolve(process.cwd(), ".env.local") });
 
@@ -18,19 +35,13 @@ interface ToploBgSourceDocument extends SourceDocumentWithGeoJson {
 
 type SourceDocument = ToploBgSourceDocument;
 
-interface CrawlSummary {
-  saved: number;
-  skipped: number;
-  failed: number;
-}
-
-export async function crawl(dryRun = false): Promise<void> {
-  const summary: CrawlSummary = { saved: 0, skipped: 0, failed: 0 };
+export async function crawl(options: CrawlOptions = {}): Promise<CrawlSummary> {
+  const summary = createCrawlSummary();
 
   console.log(`🔥 Fetching incidents from ${TARGET_URL}...`);
 
   // Launch browser and fetch HTML
-  const browser = await launchBrowser();
+  const browser = await launchBrowser({ headless: options.headless });
   const page = await browser.newPage();
   await page.goto(TARGET_URL, { waitUntil: "networkidle" });
   const html = await page.content();
@@ -39,17 +50,22 @@ export async function crawl(dryRun = false): Promise<void> {
   console.log(`📄 Parsing incidents...`);
 
   // Parse incidents from HTML
-  const incidents = parseIncidents(html);
+  const allIncidents = parseIncidents(html);
 
-  if (incidents.length === 0) {
-    console.error("❌ No incidents found in HTML");
-    process.exit(1);
+  if (allIncidents.length === 0) {
+    throw new Error("No incidents found in HTML");
   }
 
-  console.log(`📊 Found ${incidents.length} incidents`);
+  console.log(`📊 Found ${allIncidents.length} incidents`);
+  const incidents = allIncidents.slice(0, options.limit);
+
+  // The page lists active incidents only; the rest are resolved
+  summary.activeUrls = allIncidents.map((incident) =>
+    buildUrl(incident.info.ContentItemId)
+  );
 
   // Load Firebase Admin (lazy)
-  const adminDb = dryRun
+  const adminDb = options.dryRun
     ? null
     : (await import("@/lib/firebase-admin")).adminDb;
 
@@ -74,13 +90,17 @@ export async function crawl(dryRun = false): Promise<void> {
         sourceType: SOURCE_TYPE,
         crawledAt: new Date(),
         geoJson,
+        ...buildActivePeriod(info),
       };
 
-      if (dryRun) {
+      if (isPublishedBefore(doc.datePublished, options.since)) {
+        summary.skipped++;
+      } else if (!adminDb) {
         console.log(`📝 [dry-run] ${doc.title}`);
         summary.saved++;
-      } else if (adminDb) {
-        const saved = await saveSourceDocumentIfNew(doc, adminDb, {
+      } else {
+        const result = await upsertSourceDocument(doc, adminDb, {
+          upstream: incident,
           transformData: (d) => ({
             ...d,
             geoJson: JSON.stringify(d.geoJson),
@@ -88,16 +108,14 @@ export async function crawl(dryRun = false): Promise<void> {
           }),
           logSuccess: false,
         });
-        if (saved) {
+        if (result === "new") {
           console.log(`✅ Saved: ${doc.title}`);
-          summary.saved++;
-        } else {
-          summary.skipped++;
         }
+        recordSaveResult(summary, result);
       }
     } catch (error) {
       console.warn(`⚠️  Failed to process incident:`, error);
-      summary.failed++;
+      recordCrawlFailure(summary, incident.info.ContentItemId, error);
     }
   }
 
@@ -106,16 +124,26 @@ export async function crawl(dryRun = false): Promise<void> {
     `\n📈 Saved: ${summary.saved}; Skipped: ${summary.skipped}; Failed: ${summary.failed}`
   );
 
-  // Exit with error if all failed
-  if (summary.failed > 0 && summary.saved === 0 && summary.skipped === 0) {
-    console.error("\n❌ All incidents failed to process");
-    process.exit(1);
+  // Fail the crawl if every incident failed
+  if (hasOnlyFailures(summary)) {
+    throw new Error("All incidents failed to process");
   }
+
+  return summary;
 }
 
+export const crawler: Crawler = {
+  id: SOURCE_TYPE,
+  displayName: "Топлофикация София",
+  description: "Heating network accidents and maintenance from toplo.bg",
+  schedule: "15 10,14,16 * * *",
+  output: "geojson",
+  crawl,
+};
+
 // Run if called directly
 if (require.main === module) {
-  crawl(false).catch((error) => {
+  crawl().catch((error) => {
     console.error("Fatal error:", error);
     process.exit(1);
   });
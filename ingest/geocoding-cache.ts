@@ -0,0 +1,189 @@
+#!/usr/bin/env node
+
+import { Command, InvalidArgumentError } from "commander";
+import dotenv from "dotenv";
+import { resolve } from "node:path";
+import {
+  GEOCODING_CACHE_KINDS,
+  deleteCacheEntries,
+  getCacheEntryId,
+  isEntryExpired,
+  listCacheEntries,
+  setCacheOverride,
+  type CacheEntryWithId,
+  type GeocodingCacheKind,
+} from "./lib/geocoding-cache";
+
+dotenv.config({ path: resolve(process.cwd(), ".env.local") });
+
+const program = new Command();
+
+function parseKind(value: string): GeocodingCacheKind {
+  if (!GEOCODING_CACHE_KINDS.includes(value as GeocodingCacheKind)) {
+    throw new InvalidArgumentError(
+      `Available: ${GEOCODING_CACHE_KINDS.join(", ")}`
+    );
+  }
+  return value as GeocodingCacheKind;
+}
+
+function parseCoordinate(value: string): number {
+  const coordinate = Number.parseFloat(value);
+  if (Number.isNaN(coordinate)) {
+    throw new InvalidArgumentError("Not a number.");
+  }
+  return coordinate;
+}
+
+function formatEntry(entry: CacheEntryWithId): string {
+  const status = entry.override
+    ? "override"
+    : entry.result === null
+    ? "not found"
+    : "found";
+  const expires = entry.expiresAt
+    ? entry.expiresAt.toISOString().slice(0, 10)
+    : "never";
+  return `  ${entry.id.slice(0, 10)}  [${entry.kind}] ${
+    entry.query
+  } - ${status}, ${entry.hits} hit(s), expires ${expires}`;
+}
+
+/**
+ * Run a command, exiting with a non-zero code on failure
+ */
+function run(action: () => Promise<void>): Promise<void> {
+  return action()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error("❌ Geocoding cache command failed:", error);
+      process.exit(1);
+    });
+}
+
+program
+  .name("geocoding-cache")
+  .description("Inspect and manage the geocoding cache shared across ingests")
+  .addHelpText(
+    "after",
+    `
+Kinds: ${GEOCODING_CACHE_KINDS.join(", ")}
+
+Examples:
+  $ npx tsx geocoding-cache stats
+  $ npx tsx geocoding-cache list --kind overpass-intersection
+  $ npx tsx geocoding-cache list --search "шипка"
+  $ npx tsx geocoding-cache purge --expired
+  $ npx tsx geocoding-cache purge --not-found --kind google-address
+  $ npx tsx geocoding-cache override overpass-intersection "бул. Васил Левски ∩ ул. Шипка" --lat 42.6935 --lng 23.3358
+  $ npx tsx geocoding-cache remove overpass-intersection "бул. Васил Левски ∩ ул. Шипка"
+`
+  );
+
+program
+  .command("stats")
+  .description("Show entry counts, hits and expired entries per kind")
+  .action(() =>
+    run(async () => {
+      const entries = await listCacheEntries();
+
+      console.log(`📦 Geocoding cache: ${entries.length} entries`);
+      const kinds = [...new Set(entries.map((entry) => entry.kind))].sort();
+      for (const kind of kinds) {
+        const ofKind = entries.filter((entry) => entry.kind === kind);
+        const hits = ofKind.reduce((sum, entry) => sum + entry.hits, 0);
+        const notFound = ofKind.filter((entry) => entry.result === null);
+        const expired = ofKind.filter((entry) => isEntryExpired(entry));
+        const overrides = ofKind.filter((entry) => entry.override);
+        console.log(
+          `   • ${kind}: ${ofKind.length} entries, ${hits} hit(s), ` +
+            `${notFound.length} not found, ${expired.length} expired, ` +
+            `${overrides.length} override(s)`
+        );
+      }
+    })
+  );
+
+program
+  .command("list")
+  .description("List cache entries")
+  .option("--kind <kind>", "Only entries of this kind", parseKind)
+  .option("--search <text>", "Only entries whose query contains the text")
+  .option("--overrides", "Only manual overrides")
+  .option("--limit <number>", "Limit number of entries", parseInt)
+  .action((options) =>
+    run(async () => {
+      const search = options.search?.toLowerCase();
+      const entries = (await listCacheEntries(options.kind))
+        .filter((entry) => !search || entry.query.includes(search))
+        .filter((entry) => !options.overrides || entry.override)
+        .sort((a, b) => b.hits - a.hits);
+
+      const shown = options.limit ? entries.slice(0, options.limit) : entries;
+      shown.forEach((entry) => console.log(formatEntry(entry)));
+      console.log(`\n📦 ${shown.length}/${entries.length} entries`);
+    })
+  );
+
+program
+  .command("purge")
+  .description("Delete cache entries (overrides are kept unless --all)")
+  .option("--kind <kind>", "Only entries of this kind", parseKind)
+  .option("--expired", "Only expired entries")
+  .option("--not-found", "Only cached not-found results")
+  .option("--all", "Also delete manual overrides")
+  .option("--dry-run", "Only list the entries that would be deleted")
+  .action((options) =>
+    run(async () => {
+      const entries = (await listCacheEntries(options.kind))
+        .filter((entry) => options.all || !entry.override)
+        .filter((entry) => !options.expired || isEntryExpired(entry))
+        .filter((entry) => !options.notFound || entry.result === null);
+
+      if (options.dryRun) {
+        entries.forEach((entry) => console.log(formatEntry(entry)));
+        console.log(
+          `\n💡 Dry-run mode: ${entries.length} entries would be deleted.`
+        );
+        return;
+      }
+
+      await deleteCacheEntries(entries.map((entry) => entry.id));
+      console.log(`🗑️  Deleted ${entries.length} entries`);
+    })
+  );
+
+program
+  .command("override")
+  .description("Set the coordinates of a point lookup manually")
+  .argument("<kind>", "Kind of the lookup", parseKind)
+  .argument("<query>", "Address or intersection as used in messages")
+  .requiredOption("--lat <number>", "Latitude", parseCoordinate)
+  .requiredOption("--lng <number>", "Longitude", parseCoordinate)
+  .action((kind: GeocodingCacheKind, query: string, options) =>
+    run(async () => {
+      const id = await setCacheOverride(kind, query, {
+        lat: options.lat,
+        lng: options.lng,
+      });
+      console.log(
+        `📌 Override ${id.slice(0, 10)}: "${query}" → [${options.lat}, ${
+          options.lng
+        }]`
+      );
+    })
+  );
+
+program
+  .command("remove")
+  .description("Delete the entry (or override) of a single query")
+  .argument("<kind>", "Kind of the lookup", parseKind)
+  .argument("<query>", "Address or intersection as used in messages")
+  .action((kind: GeocodingCacheKind, query: string) =>
+    run(async () => {
+      await deleteCacheEntries([getCacheEntryId(kind, query)]);
+      console.log(`🗑️  Deleted the entry of "${query}"`);
+    })
+  );
+
+program.parse();
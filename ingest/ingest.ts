@@ -24,6 +24,14 @@ program
     "Optional: Path to GeoJSON boundaries file for additional geographic filtering"
   )
   .option("--limit <number>", "Limit number of sources to process", parseInt)
+  .option(
+    "--resume",
+    "Resume messages stuck mid-pipeline from their failed stage (with --dry-run: only list them)"
+  )
+  .option(
+    "--backfill-query-fields",
+    "Compute ingestStatus, activeFrom/activeUntil, categories, geohashes and notificationsSent for messages, resolvedAt for sources, and geohashes for interests, stored before they existed"
+  )
   .addHelpText(
     "after",
     `
@@ -32,10 +40,53 @@ Examples:
   $ npx tsx ingest --source-name rayon-oborishte-bg
   $ npx tsx ingest --since 2025-01-01 --until 2025-12-31
   $ npx tsx ingest --limit 10 --dry-run
+  $ npx tsx ingest --resume --dry-run
+  $ npx tsx ingest --resume --source-name sofia-bg
+  $ npx tsx ingest --backfill-query-fields --dry-run
 `
   )
   .action(async (options) => {
     try {
+      if (options.resume) {
+        const { resume } = await import("./messageIngest/resume");
+        const summary = await resume({
+          dryRun: options.dryRun,
+          sourceType: options.sourceName,
+          boundariesPath: options.boundaries,
+          limit: options.limit,
+        });
+        process.exit(summary.failed > 0 ? 1 : 0);
+      }
+
+      if (options.backfillQueryFields) {
+        const {
+          backfillIngestStatus,
+          backfillQueryFields,
+          backfillInterestGeohashes,
+          backfillSourceResolvedAt,
+        } = await import("./messageIngest/backfill-query-fields");
+        await backfillIngestStatus({
+          dryRun: options.dryRun,
+          sourceType: options.sourceName,
+          limit: options.limit,
+        });
+        await backfillQueryFields({
+          dryRun: options.dryRun,
+          sourceType: options.sourceName,
+          limit: options.limit,
+        });
+        await backfillSourceResolvedAt({
+          dryRun: options.dryRun,
+          sourceType: options.sourceName,
+          limit: options.limit,
+        });
+        await backfillInterestGeohashes({
+          dryRun: options.dryRun,
+          limit: options.limit,
+        });
+        process.exit(0);
+      }
+
       // Dynamically import to avoid loading dependencies at parse time
       const { ingest } = await import("./messageIngest/from-sources");
 
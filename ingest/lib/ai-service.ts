@@ -2,6 +2,7 @@ import { GoogleGenAI } from "@google/genai";
 import { readFileSync } from "node:fs";
 import { join } from "node:path";
 import { ExtractedData } from "./types";
+import { parseExtractedData } from "./extracted-data";
 
 const ai = new GoogleGenAI({ apiKey: process.env.GOOGLE_AI_API_KEY || "" });
 
@@ -148,66 +149,8 @@ export async function extractStructuredData(
     const jsonMatch = responseText.match(/\{[\s\S]*\}/);
     if (jsonMatch) {
       try {
-        const parsedResponse = JSON.parse(jsonMatch[0]);
-
-        // Validate and filter pins array
-        const validPins = Array.isArray(parsedResponse.pins)
-          ? parsedResponse.pins
-              .filter(
-                (pin: any) =>
-                  pin &&
-                  typeof pin === "object" &&
-                  typeof pin.address === "string" &&
-                  pin.address.trim().length > 0 &&
-                  Array.isArray(pin.timespans)
-              )
-              .map((pin: any) => ({
-                address: pin.address,
-                timespans: pin.timespans.filter(
-                  (time: any) =>
-                    time &&
-                    typeof time === "object" &&
-                    typeof time.start === "string" &&
-                    typeof time.end === "string"
-                ),
-              }))
-          : [];
-
-        // Validate and filter streets array
-        const validStreets = Array.isArray(parsedResponse.streets)
-          ? parsedResponse.streets
-              .filter(
-                (street: any) =>
-                  street &&
-                  typeof street === "object" &&
-                  typeof street.street === "string" &&
-                  typeof street.from === "string" &&
-                  typeof street.to === "string" &&
-                  Array.isArray(street.timespans)
-              )
-              .map((street: any) => ({
-                street: street.street,
-                from: street.from,
-                to: street.to,
-                timespans: street.timespans.filter(
-                  (time: any) =>
-                    time &&
-                    typeof time === "object" &&
-                    typeof time.start === "string" &&
-                    typeof time.end === "string"
-                ),
-              }))
-          : [];
-
-        // Return the full structured data
-        const extractedData: ExtractedData = {
-          responsible_entity: parsedResponse.responsible_entity || "",
-          pins: validPins,
-          streets: validStreets,
-          markdown_text: parsedResponse.markdown_text || "",
-        };
-
-        return extractedData;
+        // Keep the valid locations of the full structured data
+        return parseExtractedData(JSON.parse(jsonMatch[0]));
       } catch (parseError) {
         console.error("Failed to parse JSON response from AI:", parseError);
         console.error("Raw JSON that failed to parse:", jsonMatch[0]);
@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import type { ResidentialComplex } from "./building-blocks";
+import { getLargestRing, normalizeAreaName, resolveArea } from "./areas";
+
+function box(lng: number, lat: number, size: number): [number, number][] {
+  return [
+    [lng, lat],
+    [lng + size, lat],
+    [lng + size, lat + size],
+    [lng, lat + size],
+    [lng, lat],
+  ];
+}
+
+// The complex and the larger district named after it
+const iztokComplex: ResidentialComplex = {
+  names: ["ж.к. Изток"],
+  outline: box(23.35, 42.67, 0.005),
+  center: { lat: 42.6725, lng: 23.3525 },
+};
+const iztokDistrict: ResidentialComplex = {
+  names: ["Район Изток"],
+  outline: box(23.34, 42.66, 0.03),
+  center: { lat: 42.675, lng: 23.355 },
+};
+const lozenetsPoint: ResidentialComplex = {
+  names: ["Лозенец"],
+  center: { lat: 42.68, lng: 23.32 },
+};
+
+describe("normalizeAreaName", () => {
+  it("should drop complex, quarter and district prefixes", () => {
+    expect(normalizeAreaName("ж.к. „Изток“")).toBe("изток");
+    expect(normalizeAreaName("кв. Лозенец")).toBe("лозенец");
+    expect(normalizeAreaName("район „Красно село“")).toBe("красно село");
+    expect(normalizeAreaName("р-н Младост")).toBe("младост");
+  });
+});
+
+describe("getLargestRing", () => {
+  it("should join the ways of a ring in any direction", () => {
+    const ring = getLargestRing([
+      [
+        [23.3, 42.6],
+        [23.4, 42.6],
+      ],
+      [
+        [23.3, 42.6],
+        [23.3, 42.7],
+      ],
+      [
+        [23.4, 42.7],
+        [23.4, 42.6],
+      ],
+      [
+        [23.3, 42.7],
+        [23.4, 42.7],
+      ],
+    ]);
+
+    expect(ring).toHaveLength(5);
+    expect(ring![0]).toEqual(ring!.at(-1));
+  });
+
+  it("should keep the largest of several rings", () => {
+    expect(
+      getLargestRing([box(23.3, 42.6, 0.01), box(23.4, 42.6, 0.05)])
+    ).toEqual(box(23.4, 42.6, 0.05));
+  });
+
+  it("should return null for lines that make up no ring", () => {
+    expect(
+      getLargestRing([
+        [
+          [23.3, 42.6],
+          [23.4, 42.6],
+        ],
+      ])
+    ).toBeNull();
+  });
+});
+
+describe("resolveArea", () => {
+  const candidates = [iztokComplex, iztokDistrict, lozenetsPoint];
+
+  it("should geocode the largest area with the name", () => {
+    const address = resolveArea("ж.к. Изток", candidates);
+
+    expect(address?.area).toEqual({
+      type: "Polygon",
+      coordinates: [iztokDistrict.outline],
+    });
+    expect(address?.coordinates).toEqual(iztokDistrict.center);
+    expect(address?.geocoding).toEqual({
+      method: "osm-area",
+      confidence: 0.8,
+    });
+  });
+
+  it("should geocode an area mapped as a point to its center", () => {
+    const address = resolveArea("кв. Лозенец", candidates);
+
+    expect(address?.area).toBeUndefined();
+    expect(address?.coordinates).toEqual(lozenetsPoint.center);
+    expect(address?.geocoding?.confidence).toBe(0.3);
+  });
+
+  it("should return null for unknown areas and bare prefixes", () => {
+    expect(resolveArea("ж.к. Дружба", candidates)).toBeNull();
+    expect(resolveArea("ж.к.", candidates)).toBeNull();
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Whole neighbourhoods, complexes and districts ("в целия ж.к. Изток",
+ * "район Красно село"). The Overpass and offline (gazetteer) geocoders find
+ * the OSM areas with the name (place=suburb|quarter|neighbourhood,
+ * landuse=residential and administrative districts), the area is chosen
+ * among them here.
+ */
+
+import * as turf from "@turf/turf";
+import type { Position } from "geojson";
+import type { Address } from "./types";
+import { AREA_CONFIDENCE } from "./geocoding-quality";
+import { createPointAddress } from "./geocoding-utils";
+import {
+  type ResidentialComplex,
+  isClosedRing,
+  normalizeComplexName,
+} from "./building-blocks";
+import { joinLines } from "./street-geometry";
+
+const DISTRICT_PREFIX = /^\s*(?:район|р-н)(?:\.\s*|\s+)/i;
+
+/**
+ * Area name without the "ж.к."/"кв."/"район" prefix ("район „Красно
+ * село“" → "красно село")
+ */
+export function normalizeAreaName(name: string): string {
+  return normalizeComplexName(name.replace(DISTRICT_PREFIX, ""));
+}
+
+function getRingArea(ring: Position[]): number {
+  return turf.area(turf.polygon([ring]));
+}
+
+/**
+ * The largest closed ring the lines make up once joined (the outer ways of
+ * a relation), null when they make up none
+ */
+export function getLargestRing(lines: Position[][]): Position[] | null {
+  const rings = joinLines(lines).filter(isClosedRing);
+  if (rings.length === 0) {
+    return null;
+  }
+  return rings.reduce((largest, ring) =>
+    getRingArea(ring) > getRingArea(largest) ? ring : largest
+  );
+}
+
+/**
+ * Resolve an area by name among candidate OSM areas: the largest of those
+ * with the name and an outline (a district covers the complex it is named
+ * after), or the center of one mapped only as a point. Null when no area
+ * has the name.
+ */
+export function resolveArea(
+  text: string,
+  candidates: ResidentialComplex[]
+): Address | null {
+  const name = normalizeAreaName(text);
+  if (!name) {
+    return null;
+  }
+
+  const matching = candidates.filter((area) =>
+    area.names.some((candidate) => normalizeAreaName(candidate) === name)
+  );
+  if (matching.length === 0) {
+    return null;
+  }
+
+  const outlined = matching.filter((area) => area.outline);
+  if (outlined.length === 0) {
+    return createPointAddress(text, matching[0].center, {
+      method: "osm-area",
+      confidence: AREA_CONFIDENCE.point,
+    });
+  }
+
+  const largest = outlined.reduce((a, b) =>
+    getRingArea(b.outline!) > getRingArea(a.outline!) ? b : a
+  );
+  return {
+    ...createPointAddress(text, largest.center, {
+      method: "osm-area",
+      confidence: AREA_CONFIDENCE.outline,
+    }),
+    area: {
+      type: "Polygon",
+      coordinates: [largest.outline as [number, number][]],
+    },
+  };
+}
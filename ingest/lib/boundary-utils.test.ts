@@ -256,6 +256,70 @@ describe("boundary-utils", () => {
       expect(result).not.toBeNull();
     });
 
+    it("should handle MultiPolygon boundaries and features", () => {
+      const square = (lng: number, lat: number) => [
+        [
+          [lng, lat],
+          [lng + 0.001, lat],
+          [lng + 0.001, lat + 0.001],
+          [lng, lat + 0.001],
+          [lng, lat],
+        ],
+      ];
+      const boundaries = createFeatureCollection([
+        {
+          type: "Feature",
+          geometry: {
+            type: "MultiPolygon",
+            coordinates: [square(23.3, 42.6), square(23.32, 42.69)],
+          },
+          properties: {},
+        },
+      ]);
+      const features = createFeatureCollection([
+        {
+          type: "Feature",
+          geometry: {
+            type: "MultiPolygon",
+            coordinates: [square(25.0, 43.0), square(23.3202, 42.6902)],
+          },
+          properties: { name: "Second part inside" },
+        },
+        {
+          type: "Feature",
+          geometry: {
+            type: "MultiPolygon",
+            coordinates: [square(25.0, 43.0)],
+          },
+          properties: { name: "Outside" },
+        },
+      ]);
+
+      const result = filterFeaturesByBoundaries(features, boundaries);
+
+      expect(result!.features.map((f) => f.properties.name)).toEqual([
+        "Second part inside",
+      ]);
+    });
+
+    it("should handle GeometryCollection features", () => {
+      const collection = {
+        type: "Feature",
+        geometry: {
+          type: "GeometryCollection",
+          geometries: [
+            { type: "Point", coordinates: [25.0, 43.0] },
+            { type: "Point", coordinates: [23.325, 42.695] },
+          ],
+        },
+        properties: {},
+      };
+
+      const features = createFeatureCollection([collection]);
+
+      expect(isWithinBoundaries(features, testBoundary)).toBe(true);
+    });
+
     it("should handle features partially overlapping boundary", () => {
       const partialOverlap = {
         type: "Feature",
@@ -1,7 +1,7 @@
 import * as turf from "@turf/turf";
 import { readFileSync } from "node:fs";
 import { resolve } from "node:path";
-import type { GeoJSONFeatureCollection } from "./types";
+import type { GeoJSONFeature, GeoJSONFeatureCollection } from "./types";
 
 let cachedBoundary: GeoJSONFeatureCollection | null = null;
 
@@ -31,6 +31,24 @@ export function loadBoundaries(
   }
 }
 
+/**
+ * Whether a feature has a geometry to check: coordinates, or the geometries
+ * of a GeometryCollection
+ */
+function hasGeometry(feature: GeoJSONFeature): boolean {
+  const geometry: any = feature.geometry;
+  return Boolean(geometry?.coordinates || geometry?.geometries?.length);
+}
+
+/**
+ * Single-part features of a feature: the parts of Multi* geometries and the
+ * geometries of a GeometryCollection, so that each is compared on its own
+ */
+function getParts(feature: any) {
+  return turf.flatten(turf.feature(feature.geometry, feature.properties))
+    .features;
+}
+
 /**
  * Check if bounding boxes overlap (fallback method)
  */
@@ -80,35 +98,34 @@ export function checkFeatureIntersection(
   feature: any,
   boundaries: GeoJSONFeatureCollection
 ): boolean {
-  const turfFeature = turf.feature(feature.geometry, feature.properties);
+  const featureParts = getParts(feature);
 
   for (const boundaryFeature of boundaries.features) {
-    const turfBoundary = turf.feature(
-      boundaryFeature.geometry,
-      boundaryFeature.properties
-    );
-
-    try {
-      // Check if geometries intersect
-      if (
-        turf.booleanIntersects(turfFeature, turfBoundary) ||
-        turf.booleanWithin(turfFeature, turfBoundary) ||
-        turf.booleanContains(turfBoundary, turfFeature)
-      ) {
-        return true;
-      }
-    } catch (intersectError) {
-      // Some geometry types might not support all comparison operations
-      // Try a simpler bounding box check instead
-      if (
-        checkBoundingBoxOverlap(
-          turfFeature,
-          turfBoundary,
-          feature.geometry.type,
-          intersectError
-        )
-      ) {
-        return true;
+    for (const turfBoundary of getParts(boundaryFeature)) {
+      for (const turfFeature of featureParts) {
+        try {
+          // Check if geometries intersect
+          if (
+            turf.booleanIntersects(turfFeature, turfBoundary) ||
+            turf.booleanWithin(turfFeature, turfBoundary) ||
+            turf.booleanContains(turfBoundary, turfFeature)
+          ) {
+            return true;
+          }
+        } catch (intersectError) {
+          // Some geometry types might not support all comparison operations
+          // Try a simpler bounding box check instead
+          if (
+            checkBoundingBoxOverlap(
+              turfFeature,
+              turfBoundary,
+              turfFeature.geometry.type,
+              intersectError
+            )
+          ) {
+            return true;
+          }
+        }
       }
     }
   }
@@ -130,7 +147,7 @@ export function filterFeaturesByBoundaries(
   }
 
   const filteredFeatures = sourceGeoJson.features.filter((feature) => {
-    if (!feature.geometry?.coordinates) {
+    if (!hasGeometry(feature)) {
       console.warn("⚠️  Skipping feature without valid geometry");
       return false;
     }
@@ -158,7 +175,7 @@ export function isWithinBoundaries(
   try {
     // Check if any feature in source intersects with boundaries
     for (const feature of sourceGeoJson.features) {
-      if (!feature.geometry?.coordinates) {
+      if (!hasGeometry(feature)) {
         console.warn("⚠️  Skipping feature without valid geometry");
         continue;
       }
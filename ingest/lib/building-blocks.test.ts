@@ -0,0 +1,185 @@
+import { describe, expect, it } from "vitest";
+import {
+  type BlockBuilding,
+  type ResidentialComplex,
+  findBuildingOfEntrance,
+  formatBlockReference,
+  getBlockNumbers,
+  normalizeBlockNumber,
+  normalizeComplexName,
+  normalizeEntrance,
+  parseBlockReference,
+  resolveBlockReference,
+} from "./building-blocks";
+
+function box(lng: number, lat: number, size: number): [number, number][] {
+  return [
+    [lng, lat],
+    [lng + size, lat],
+    [lng + size, lat + size / 2],
+    [lng, lat + size / 2],
+    [lng, lat],
+  ];
+}
+
+const block215: BlockBuilding = {
+  numbers: ["215"],
+  outline: box(23.3748, 42.6499, 0.0004),
+  entrances: [{ ref: "б", coordinates: { lat: 42.6499, lng: 23.375 } }],
+};
+
+// A block with the same number in another complex
+const otherBlock215: BlockBuilding = {
+  numbers: ["215"],
+  outline: box(23.3, 42.7, 0.0004),
+  entrances: [],
+};
+
+const mladost1: ResidentialComplex = {
+  names: ["Младост 1"],
+  outline: box(23.37, 42.645, 0.02),
+  center: { lat: 42.65, lng: 23.38 },
+};
+
+const buildings = [block215, otherBlock215];
+const complexes = [mladost1];
+
+describe("block references", () => {
+  it("should format and parse a reference", () => {
+    const reference = {
+      complex: "ж.к. Младост 1",
+      block: "215",
+      entrance: "Б",
+    };
+
+    expect(formatBlockReference(reference)).toBe(
+      "ж.к. Младост 1, бл. 215, вх. Б"
+    );
+    expect(parseBlockReference("ж.к. Младост 1, бл. 215, вх. Б")).toEqual(
+      reference
+    );
+    expect(formatBlockReference({ ...reference, complex: "" })).toBe(
+      "бл. 215, вх. Б"
+    );
+  });
+
+  it("should normalize numbers, entrances and complex names", () => {
+    expect(normalizeBlockNumber("бл. 215 А")).toBe("215а");
+    expect(normalizeBlockNumber("Блок 12a")).toBe("12а");
+    expect(normalizeEntrance("вх. B")).toBe("в");
+    expect(normalizeComplexName("ж.к. „Младост-1“")).toBe("младост 1");
+    expect(normalizeComplexName("жк Младост1")).toBe("младост 1");
+    expect(normalizeComplexName("кв. Лозенец")).toBe("лозенец");
+  });
+
+  it("should read block numbers from OSM tags", () => {
+    expect(
+      getBlockNumbers({ building: "yes", "addr:housenumber": "215" })
+    ).toEqual(["215"]);
+    expect(getBlockNumbers({ building: "yes", name: "бл. 12А" })).toEqual([
+      "12а",
+    ]);
+    expect(
+      getBlockNumbers({
+        building: "yes",
+        "addr:street": "улица Шипка",
+        "addr:housenumber": "6",
+      })
+    ).toEqual([]);
+  });
+
+  it("should find the building an entrance lies on", () => {
+    expect(
+      findBuildingOfEntrance(buildings, { lat: 42.6499, lng: 23.3751 })
+    ).toBe(block215);
+    expect(
+      findBuildingOfEntrance(buildings, { lat: 42.66, lng: 23.3751 })
+    ).toBeUndefined();
+  });
+});
+
+describe("resolveBlockReference", () => {
+  it("should geocode an entrance to its node", () => {
+    const address = resolveBlockReference(
+      "ж.к. Младост 1, бл. 215, вх. Б",
+      buildings,
+      complexes
+    );
+
+    expect(address?.coordinates).toEqual({ lat: 42.6499, lng: 23.375 });
+    expect(address?.geocoding).toEqual({
+      method: "osm-block",
+      confidence: 0.95,
+    });
+    expect(address?.area).toBeUndefined();
+  });
+
+  it("should geocode a block of the complex with its outline", () => {
+    const address = resolveBlockReference(
+      "ж.к. Младост-1, бл. 215",
+      buildings,
+      complexes
+    );
+
+    expect(address?.area).toEqual({
+      type: "Polygon",
+      coordinates: [block215.outline],
+    });
+    expect(address?.coordinates.lat).toBeCloseTo(42.65, 3);
+    expect(address?.geocoding?.confidence).toBe(0.9);
+  });
+
+  it("should fall back to the block when the entrance is not mapped", () => {
+    const address = resolveBlockReference(
+      "ж.к. Младост 1, бл. 215, вх. Г",
+      buildings,
+      complexes
+    );
+
+    expect(address?.area?.coordinates[0]).toEqual(block215.outline);
+  });
+
+  it("should cover the parts of a block together", () => {
+    const part: BlockBuilding = {
+      numbers: ["215"],
+      outline: box(23.3753, 42.6499, 0.0004),
+      entrances: [],
+    };
+    const address = resolveBlockReference(
+      "ж.к. Младост 1, бл. 215",
+      [block215, part],
+      complexes
+    );
+
+    const lngs = address!.area!.coordinates[0].map(([lng]) => lng);
+    expect(Math.min(...lngs)).toBe(23.3748);
+    expect(Math.max(...lngs)).toBeCloseTo(23.3757, 6);
+  });
+
+  it("should geocode a whole complex", () => {
+    const address = resolveBlockReference(
+      "ж.к. Младост 1",
+      buildings,
+      complexes
+    );
+
+    expect(address?.area?.coordinates[0]).toEqual(mladost1.outline);
+    expect(address?.geocoding?.confidence).toBe(0.5);
+  });
+
+  it("should not guess between blocks with the same number", () => {
+    expect(resolveBlockReference("бл. 215", buildings, complexes)).toBeNull();
+    expect(
+      resolveBlockReference("бл. 215", [otherBlock215], complexes)?.geocoding
+    ).toEqual({ method: "osm-block", confidence: 0.7 });
+  });
+
+  it("should return null for unknown complexes and blocks", () => {
+    expect(
+      resolveBlockReference("ж.к. Дружба 2, бл. 215", buildings, complexes)
+    ).toBeNull();
+    expect(
+      resolveBlockReference("ж.к. Младост 1, бл. 999", buildings, complexes)
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,346 @@
+/**
+ * Blocks (бл.), entrances (вх.) and residential complexes (ж.к.). In the
+ * panel-block neighbourhoods of Sofia buildings are known by their block
+ * number within a complex rather than by a street address. The Overpass and
+ * offline (gazetteer) geocoders find the candidate buildings and complexes,
+ * the reference is resolved among them here.
+ */
+
+import * as turf from "@turf/turf";
+import type { Position } from "geojson";
+import type { Address, BlockReference } from "./types";
+import { BLOCK_CONFIDENCE } from "./geocoding-quality";
+import { createPointAddress } from "./geocoding-utils";
+
+// Complexes mapped as a point (e.g. a place=suburb node) contain the blocks
+// within this distance
+const COMPLEX_RADIUS_METERS = 1500;
+
+// Buildings with the same number within this distance are parts of one
+// block; farther apart they are different blocks
+const SAME_BLOCK_METERS = 150;
+
+// Entrance nodes lie on the outline of their building
+const ENTRANCE_TOLERANCE_METERS = 2;
+
+const BLOCK_PREFIX = /^\s*(?:блок|бл)(?:\.\s*|\s+|(?=\d))/i;
+const ENTRANCE_PREFIX = /^\s*(?:вход|вх)(?:\.\s*|\s+)/i;
+const COMPLEX_PREFIX =
+  /^\s*(?:жилищен комплекс|квартал|ж\.\s*к\.|жк|кв\.)(?:\s+|(?<=\.))/i;
+
+const QUOTES = /["“”„'`‘’‚«»‹›]/g;
+
+// Latin letters typed for their Cyrillic lookalikes ("вх. B")
+const LATIN_LOOKALIKES: Record<string, string> = {
+  a: "а",
+  b: "в",
+  c: "с",
+  e: "е",
+  h: "н",
+  k: "к",
+  m: "м",
+  o: "о",
+  p: "р",
+  t: "т",
+  x: "х",
+  y: "у",
+};
+
+export type BlockQuery = Omit<BlockReference, "timespans">;
+
+export interface BlockEntrance {
+  ref: string; // Normalized (see normalizeEntrance)
+  coordinates: { lat: number; lng: number };
+}
+
+// A building known by a block number, with its mapped entrances
+export interface BlockBuilding {
+  numbers: string[]; // Normalized (see normalizeBlockNumber)
+  outline: Position[]; // Closed outer ring, [lng, lat]
+  entrances: BlockEntrance[];
+}
+
+// A residential complex or quarter
+export interface ResidentialComplex {
+  names: string[];
+  outline?: Position[]; // Closed outer ring, when mapped as an area
+  center: { lat: number; lng: number };
+}
+
+/**
+ * Text of a block reference, used as its query and as the location of its
+ * feature ("ж.к. Младост 1, бл. 215, вх. Б")
+ */
+export function formatBlockReference(reference: BlockQuery): string {
+  const complex = reference.complex.trim();
+  const block = reference.block.trim();
+  const entrance = reference.entrance.trim();
+
+  return [complex, block && `бл. ${block}`, entrance && `вх. ${entrance}`]
+    .filter(Boolean)
+    .join(", ");
+}
+
+/**
+ * Read a block reference back from its text
+ */
+export function parseBlockReference(text: string): BlockQuery {
+  const reference: BlockQuery = { complex: "", block: "", entrance: "" };
+
+  for (const part of text.split(",").map((p) => p.trim())) {
+    if (BLOCK_PREFIX.test(part)) {
+      reference.block = part.replace(BLOCK_PREFIX, "");
+    } else if (ENTRANCE_PREFIX.test(part)) {
+      reference.entrance = part.replace(ENTRANCE_PREFIX, "");
+    } else if (part && !reference.complex) {
+      reference.complex = part;
+    }
+  }
+
+  return reference;
+}
+
+function normalizeLabel(value: string): string {
+  return [...value.toLowerCase().replaceAll(/\s+/g, "")]
+    .map((char) => LATIN_LOOKALIKES[char] ?? char)
+    .join("");
+}
+
+/**
+ * Block number without the "бл." prefix and spaces ("бл. 215 А" → "215а")
+ */
+export function normalizeBlockNumber(block: string): string {
+  return normalizeLabel(block.replace(BLOCK_PREFIX, ""));
+}
+
+/**
+ * Entrance without the "вх." prefix ("вх. Б" → "б")
+ */
+export function normalizeEntrance(entrance: string): string {
+  return normalizeLabel(entrance.replace(ENTRANCE_PREFIX, ""));
+}
+
+/**
+ * Complex name without the "ж.к."/"кв." prefix ("ж.к. Младост-1" →
+ * "младост 1")
+ */
+export function normalizeComplexName(name: string): string {
+  return name
+    .toLowerCase()
+    .replaceAll(QUOTES, "")
+    .replace(COMPLEX_PREFIX, "")
+    .replaceAll(/([^\d\s-])(\d)/g, "$1 $2")
+    .replaceAll(/[\s-]+/g, " ")
+    .trim();
+}
+
+/**
+ * Block numbers of an OSM building: its addr:housenumber when it has no
+ * street, or a "бл. 215" housenumber or name
+ */
+export function getBlockNumbers(tags: Record<string, string>): string[] {
+  const values: string[] = [];
+
+  const housenumber = tags["addr:housenumber"];
+  if (housenumber && (!tags["addr:street"] || BLOCK_PREFIX.test(housenumber))) {
+    values.push(housenumber);
+  }
+  for (const name of [tags.name, tags["name:bg"]]) {
+    if (name && BLOCK_PREFIX.test(name)) {
+      values.push(name);
+    }
+  }
+
+  return [...new Set(values.map(normalizeBlockNumber))];
+}
+
+/**
+ * Entrance of an OSM entrance node (ref, addr:unit or a "вх. Б" name),
+ * null when it has none
+ */
+export function getEntranceRef(tags: Record<string, string>): string | null {
+  const ref =
+    tags.ref ??
+    tags["addr:unit"] ??
+    (tags.name && ENTRANCE_PREFIX.test(tags.name) ? tags.name : undefined);
+  return ref ? normalizeEntrance(ref) : null;
+}
+
+function toPoint({ lat, lng }: { lat: number; lng: number }) {
+  return turf.point([lng, lat]);
+}
+
+function distanceMeters(
+  a: { lat: number; lng: number },
+  b: { lat: number; lng: number }
+): number {
+  return turf.distance(toPoint(a), toPoint(b), { units: "meters" });
+}
+
+/**
+ * Whether a ring is closed and can be used as a polygon outline
+ */
+export function isClosedRing(ring: Position[]): boolean {
+  if (ring.length < 4) {
+    return false;
+  }
+  const [firstLng, firstLat] = ring[0];
+  const [lastLng, lastLat] = ring.at(-1)!;
+  return firstLng === lastLng && firstLat === lastLat;
+}
+
+export function getOutlineCenter(outline: Position[]): {
+  lat: number;
+  lng: number;
+} {
+  const [lng, lat] = turf.centroid(turf.lineString(outline)).geometry
+    .coordinates;
+  // 6 decimal places (≈ 0.1m accuracy)
+  return {
+    lat: Math.round(lat * 1000000) / 1000000,
+    lng: Math.round(lng * 1000000) / 1000000,
+  };
+}
+
+/**
+ * The building whose outline an entrance lies on
+ */
+export function findBuildingOfEntrance(
+  buildings: BlockBuilding[],
+  coordinates: { lat: number; lng: number }
+): BlockBuilding | undefined {
+  const point = toPoint(coordinates);
+  return buildings.find(
+    (building) =>
+      turf.pointToLineDistance(point, turf.lineString(building.outline), {
+        units: "meters",
+      }) <= ENTRANCE_TOLERANCE_METERS
+  );
+}
+
+function isInComplex(
+  building: BlockBuilding,
+  complex: ResidentialComplex
+): boolean {
+  const center = getOutlineCenter(building.outline);
+  if (complex.outline) {
+    return turf.booleanPointInPolygon(
+      toPoint(center),
+      turf.polygon([complex.outline])
+    );
+  }
+  return distanceMeters(center, complex.center) <= COMPLEX_RADIUS_METERS;
+}
+
+function createBlockAddress(
+  text: string,
+  coordinates: { lat: number; lng: number },
+  confidence: number,
+  outline?: Position[]
+): Address {
+  const address = createPointAddress(text, coordinates, {
+    method: "osm-block",
+    confidence,
+  });
+  return outline
+    ? {
+        ...address,
+        area: {
+          type: "Polygon",
+          coordinates: [outline as [number, number][]],
+        },
+      }
+    : address;
+}
+
+/**
+ * Resolve a block reference among candidate buildings and complexes:
+ * - a whole complex: its center, with its outline when mapped as an area
+ * - a block: the buildings with its number (within the complex, when one is
+ *   given) with their outline, or its entrance when one is given and mapped
+ * Null when nothing matches, or when the number matches blocks in different
+ * places and no complex tells them apart
+ */
+export function resolveBlockReference(
+  text: string,
+  buildings: BlockBuilding[],
+  complexes: ResidentialComplex[]
+): Address | null {
+  const reference = parseBlockReference(text);
+  const complexName = normalizeComplexName(reference.complex);
+  const matchingComplexes = complexName
+    ? complexes.filter((complex) =>
+        complex.names.some((name) => normalizeComplexName(name) === complexName)
+      )
+    : [];
+
+  // A block of an unknown complex could be any block with that number
+  if (matchingComplexes.length === 0 && (complexName || !reference.block)) {
+    return null;
+  }
+
+  if (!reference.block) {
+    const complex =
+      matchingComplexes.find((c) => c.outline) ?? matchingComplexes[0];
+    return createBlockAddress(
+      text,
+      complex.center,
+      BLOCK_CONFIDENCE.complex,
+      complex.outline
+    );
+  }
+
+  const number = normalizeBlockNumber(reference.block);
+  const candidates = buildings.filter(
+    (building) =>
+      building.numbers.includes(number) &&
+      (matchingComplexes.length === 0 ||
+        matchingComplexes.some((complex) => isInComplex(building, complex)))
+  );
+  if (candidates.length === 0) {
+    return null;
+  }
+
+  const centers = candidates.map((b) => getOutlineCenter(b.outline));
+  if (centers.some((c) => distanceMeters(c, centers[0]) > SAME_BLOCK_METERS)) {
+    console.warn(
+      `   ⚠️  "${text}" matches ${candidates.length} blocks in different places`
+    );
+    return null;
+  }
+
+  if (reference.entrance) {
+    const ref = normalizeEntrance(reference.entrance);
+    const entrance = candidates
+      .flatMap((building) => building.entrances)
+      .find((e) => e.ref === ref);
+    if (entrance) {
+      return createBlockAddress(
+        text,
+        entrance.coordinates,
+        complexName
+          ? BLOCK_CONFIDENCE.entrance
+          : BLOCK_CONFIDENCE.withoutComplex
+      );
+    }
+  }
+
+  // Parts of a block mapped as separate buildings are covered together
+  const outline =
+    candidates.length === 1
+      ? candidates[0].outline
+      : turf.convex(
+          turf.featureCollection(
+            candidates.flatMap((b) => b.outline.map((p) => turf.point(p)))
+          )
+        )!.geometry.coordinates[0];
+
+  return createBlockAddress(
+    text,
+    getOutlineCenter(outline),
+    complexName
+      ? BLOCK_CONFIDENCE.inComplex
+      : BLOCK_CONFIDENCE.withoutComplex,
+    outline
+  );
+}
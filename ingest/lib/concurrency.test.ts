@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import { mapWithConcurrency } from "./concurrency";
+import { delay } from "./delay";
+
+describe("mapWithConcurrency", () => {
+  it("should keep the order of the input items", async () => {
+    const results = await mapWithConcurrency([30, 10, 20], 3, async (ms) => {
+      await delay(ms);
+      return ms * 2;
+    });
+
+    expect(results).toEqual([60, 20, 40]);
+  });
+
+  it("should never run more than the given number of calls at once", async () => {
+    let running = 0;
+    let maxRunning = 0;
+
+    await mapWithConcurrency([1, 2, 3, 4, 5], 2, async () => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await delay(5);
+      running--;
+    });
+
+    expect(maxRunning).toBe(2);
+  });
+
+  it("should treat a concurrency below 1 as sequential", async () => {
+    const order: number[] = [];
+
+    await mapWithConcurrency([1, 2, 3], 0, async (item) => {
+      order.push(item);
+    });
+
+    expect(order).toEqual([1, 2, 3]);
+  });
+
+  it("should run every item when the concurrency is not a number", async () => {
+    await expect(
+      mapWithConcurrency([1, 2, 3], Number.NaN, async (item) => item * 2)
+    ).resolves.toEqual([2, 4, 6]);
+  });
+
+  it("should return an empty array for no items", async () => {
+    await expect(mapWithConcurrency([], 4, async () => 1)).resolves.toEqual([]);
+  });
+});
@@ -0,0 +1,26 @@
+/**
+ * Map over items with at most `concurrency` calls in flight at once.
+ * Results keep the order of the input items.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+
+  const worker = async (): Promise<void> => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  // NaN (e.g. a bad CLI value) would start no workers at all
+  const limit = Number.isInteger(concurrency) ? Math.max(1, concurrency) : 1;
+  const workerCount = Math.min(limit, items.length);
+  await Promise.all(Array.from({ length: workerCount }, worker));
+
+  return results;
+}
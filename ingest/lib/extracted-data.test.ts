@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { parseExtractedData } from "./extracted-data";
+
+const timespans = [{ start: "02.12.2025 08:00", end: "02.12.2025 18:00" }];
+
+describe("parseExtractedData", () => {
+  it("should parse every kind of location", () => {
+    const data = {
+      responsible_entity: "Софийска вода",
+      pins: [{ address: "ул. Шипка 12", timespans }],
+      streets: [
+        {
+          street: "ул. Оборище",
+          from: "ул. Шипка",
+          to: "бул. Васил Левски",
+          side: "even",
+          timespans,
+        },
+      ],
+      blocks: [{ complex: "ж.к. Младост 1", block: "215", timespans }],
+      whole_streets: [{ street: "ул. Оборище", timespans }],
+      areas: [{ name: "ж.к. Изток", timespans }],
+      markdown_text: "**Авария**",
+    };
+
+    expect(parseExtractedData(data)).toEqual({
+      ...data,
+      blocks: [
+        { complex: "ж.к. Младост 1", block: "215", entrance: "", timespans },
+      ],
+    });
+  });
+
+  it("should drop invalid locations and timespans", () => {
+    const result = parseExtractedData({
+      pins: [
+        { address: " ", timespans },
+        { address: "ул. Шипка 12" },
+        { address: "ул. Шипка 14", timespans: [{ start: "днес" }, null] },
+        "ул. Шипка 16",
+      ],
+      streets: [{ street: "ул. Оборище", from: "ул. Шипка", timespans }],
+      blocks: [{ complex: "", block: "", timespans }],
+      whole_streets: [{ street: 12, timespans }],
+      areas: [{ name: "", timespans }],
+    });
+
+    expect(result).toEqual({
+      responsible_entity: "",
+      pins: [{ address: "ул. Шипка 14", timespans: [] }],
+      streets: [],
+      blocks: [],
+      whole_streets: [],
+      areas: [],
+      markdown_text: "",
+    });
+  });
+
+  it("should keep only a known side of the street", () => {
+    const result = parseExtractedData({
+      streets: [
+        { street: "ул. Оборище", from: "1", to: "9", side: "left", timespans },
+      ],
+    });
+
+    expect(result?.streets[0]).not.toHaveProperty("side");
+  });
+
+  it("should reject a response that is not an object", () => {
+    expect(parseExtractedData(null)).toBeNull();
+    expect(parseExtractedData([])).toBeNull();
+  });
+});
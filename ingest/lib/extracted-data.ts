@@ -0,0 +1,140 @@
+/**
+ * Runtime validation of the data the AI extracts from a message. Each parser
+ * returns the typed location, or null when a required field is missing or
+ * has the wrong type, so that the location is skipped.
+ */
+
+import type {
+  AreaReference,
+  BlockReference,
+  ExtractedData,
+  Pin,
+  StreetSection,
+  Timespan,
+  WholeStreet,
+} from "./types";
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0;
+}
+
+// Parse each item of an array, dropping the invalid ones
+function parseList<T>(
+  value: unknown,
+  parseItem: (item: JsonObject) => T | null
+): T[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value
+    .filter(isObject)
+    .map(parseItem)
+    .filter((item): item is T => item !== null);
+}
+
+function parseTimespan(value: JsonObject): Timespan | null {
+  if (typeof value.start !== "string" || typeof value.end !== "string") {
+    return null;
+  }
+  return { start: value.start, end: value.end };
+}
+
+// Locations without a timespans array are dropped, invalid timespans only
+function parseTimespans(value: JsonObject): Timespan[] | null {
+  return Array.isArray(value.timespans)
+    ? parseList(value.timespans, parseTimespan)
+    : null;
+}
+
+function parsePin(value: JsonObject): Pin | null {
+  const timespans = parseTimespans(value);
+  if (!isNonEmptyString(value.address) || !timespans) {
+    return null;
+  }
+  return { address: value.address, timespans };
+}
+
+function parseStreetSection(value: JsonObject): StreetSection | null {
+  const timespans = parseTimespans(value);
+  if (
+    typeof value.street !== "string" ||
+    typeof value.from !== "string" ||
+    typeof value.to !== "string" ||
+    !timespans
+  ) {
+    return null;
+  }
+  return {
+    street: value.street,
+    from: value.from,
+    to: value.to,
+    ...(value.side === "even" || value.side === "odd"
+      ? { side: value.side }
+      : {}),
+    timespans,
+  };
+}
+
+// A block or a complex is needed
+function parseBlockReference(value: JsonObject): BlockReference | null {
+  const timespans = parseTimespans(value);
+  if (
+    typeof value.complex !== "string" ||
+    typeof value.block !== "string" ||
+    !(isNonEmptyString(value.complex) || isNonEmptyString(value.block)) ||
+    !timespans
+  ) {
+    return null;
+  }
+  return {
+    complex: value.complex,
+    block: value.block,
+    entrance: typeof value.entrance === "string" ? value.entrance : "",
+    timespans,
+  };
+}
+
+function parseWholeStreet(value: JsonObject): WholeStreet | null {
+  const timespans = parseTimespans(value);
+  if (!isNonEmptyString(value.street) || !timespans) {
+    return null;
+  }
+  return { street: value.street, timespans };
+}
+
+function parseAreaReference(value: JsonObject): AreaReference | null {
+  const timespans = parseTimespans(value);
+  if (!isNonEmptyString(value.name) || !timespans) {
+    return null;
+  }
+  return { name: value.name, timespans };
+}
+
+/**
+ * Parse the JSON response of the data extraction prompt, keeping the valid
+ * locations. Returns null when the response is not an object.
+ */
+export function parseExtractedData(value: unknown): ExtractedData | null {
+  if (!isObject(value)) {
+    return null;
+  }
+  return {
+    responsible_entity:
+      typeof value.responsible_entity === "string"
+        ? value.responsible_entity
+        : "",
+    pins: parseList(value.pins, parsePin),
+    streets: parseList(value.streets, parseStreetSection),
+    blocks: parseList(value.blocks, parseBlockReference),
+    whole_streets: parseList(value.whole_streets, parseWholeStreet),
+    areas: parseList(value.areas, parseAreaReference),
+    markdown_text:
+      typeof value.markdown_text === "string" ? value.markdown_text : "",
+  };
+}
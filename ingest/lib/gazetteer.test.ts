@@ -0,0 +1,334 @@
+import { describe, expect, it } from "vitest";
+import {
+  GAZETTEER_VERSION,
+  buildGazetteer,
+  findAddress,
+  findArea,
+  findBlock,
+  findStreetGeometry,
+} from "./gazetteer";
+
+// Small GeoJSON extract in the shape of `osmium export`
+const geoJsonExtract = {
+  type: "FeatureCollection",
+  features: [
+    {
+      type: "Feature",
+      properties: {
+        highway: "residential",
+        name: "улица Шипка",
+        old_name: "улица Стара;улица Друга",
+      },
+      geometry: {
+        type: "LineString",
+        coordinates: [
+          [23.3358, 42.6925],
+          [23.3358, 42.6945],
+        ],
+      },
+    },
+    {
+      type: "Feature",
+      properties: { highway: "primary", name: "булевард Васил Левски" },
+      geometry: {
+        type: "LineString",
+        coordinates: [
+          [23.3348, 42.6935],
+          [23.3368, 42.6935],
+        ],
+      },
+    },
+    {
+      type: "Feature",
+      properties: { highway: "footway", name: "алея Шипка" },
+      geometry: {
+        type: "LineString",
+        coordinates: [
+          [23.33, 42.69],
+          [23.331, 42.69],
+        ],
+      },
+    },
+    {
+      type: "Feature",
+      properties: { place: "square", name: "площад Народно събрание" },
+      geometry: { type: "Point", coordinates: [23.3329, 42.6939] },
+    },
+    {
+      type: "Feature",
+      properties: { "addr:street": "улица Шипка", "addr:housenumber": "6А" },
+      geometry: {
+        type: "Polygon",
+        coordinates: [
+          [
+            [23.3359, 42.693],
+            [23.3361, 42.693],
+            [23.3361, 42.6932],
+            [23.3359, 42.6932],
+            [23.3359, 42.693],
+          ],
+        ],
+      },
+    },
+    {
+      type: "Feature",
+      properties: { highway: "primary", name: "булевард Пловдив" },
+      geometry: {
+        type: "LineString",
+        coordinates: [
+          [24.75, 42.15],
+          [24.76, 42.15],
+        ],
+      },
+    },
+  ],
+};
+
+describe("buildGazetteer", () => {
+  const gazetteer = buildGazetteer(geoJsonExtract, "sofia.geojson");
+
+  it("should keep named streets and squares within Sofia", () => {
+    expect(gazetteer.version).toBe(GAZETTEER_VERSION);
+    expect(gazetteer.source).toBe("sofia.geojson");
+    expect(gazetteer.streets.map((street) => street.names[0])).toEqual([
+      "улица Шипка",
+      "булевард Васил Левски",
+      "площад Народно събрание",
+    ]);
+  });
+
+  it("should split aliases of a street", () => {
+    expect(gazetteer.streets[0].names).toEqual([
+      "улица Шипка",
+      "улица Стара",
+      "улица Друга",
+    ]);
+  });
+
+  it("should store addresses at the center of their building", () => {
+    expect(gazetteer.addresses).toHaveLength(1);
+    expect(gazetteer.addresses[0].housenumber).toBe("6А");
+    expect(gazetteer.addresses[0].coordinates.lat).toBeCloseTo(42.69308, 4);
+    expect(gazetteer.addresses[0].coordinates.lng).toBeCloseTo(23.33598, 4);
+  });
+
+  it("should read Overpass JSON", () => {
+    const overpassGazetteer = buildGazetteer(
+      {
+        elements: [
+          {
+            type: "way",
+            tags: { highway: "tertiary", "name:bg": "улица Оборище" },
+            geometry: [
+              { lat: 42.695, lon: 23.34 },
+              { lat: 42.696, lon: 23.345 },
+            ],
+          },
+        ],
+      },
+      "overpass.json"
+    );
+
+    expect(overpassGazetteer.streets).toEqual([
+      {
+        names: ["улица Оборище"],
+        highway: "tertiary",
+        geometry: [
+          [23.34, 42.695],
+          [23.345, 42.696],
+        ],
+      },
+    ]);
+  });
+
+  it("should reject unknown formats", () => {
+    expect(() => buildGazetteer({ foo: [] }, "foo.json")).toThrow(
+      "Unsupported extract"
+    );
+  });
+});
+
+describe("findStreetGeometry", () => {
+  const gazetteer = buildGazetteer(geoJsonExtract, "sofia.geojson");
+
+  it("should find a street by a part of its name", () => {
+    const geometry = findStreetGeometry(gazetteer, 'ул. "Шипка"');
+
+    expect(geometry?.geometry.coordinates).toEqual([
+      [
+        [23.3358, 42.6925],
+        [23.3358, 42.6945],
+      ],
+    ]);
+    expect(geometry?.properties).toEqual({ name: 'ул. "Шипка"' });
+  });
+
+  it("should find a street by an alias", () => {
+    expect(findStreetGeometry(gazetteer, "ул. Стара")).not.toBeNull();
+  });
+
+  it("should only match main roads for names without ул.", () => {
+    expect(findStreetGeometry(gazetteer, "бул. Васил Левски")).not.toBeNull();
+    expect(findStreetGeometry(gazetteer, "Шипка")).toBeNull();
+  });
+
+  it("should turn squares mapped as points into a small box", () => {
+    const geometry = findStreetGeometry(gazetteer, "пл. Народно събрание");
+
+    expect(geometry?.geometry.coordinates[0]).toHaveLength(2);
+    expect(geometry?.geometry.coordinates[0][0][0]).toBeCloseTo(23.3328, 4);
+  });
+
+  it("should return null for unknown streets", () => {
+    expect(findStreetGeometry(gazetteer, "ул. Несъществуваща")).toBeNull();
+  });
+});
+
+describe("findAddress", () => {
+  const gazetteer = buildGazetteer(geoJsonExtract, "sofia.geojson");
+
+  it("should find an address by street and house number", () => {
+    expect(findAddress(gazetteer, "ул. Шипка 6а")).toEqual(
+      gazetteer.addresses[0].coordinates
+    );
+    expect(findAddress(gazetteer, "ул. Шипка № 6А, София")).toEqual(
+      gazetteer.addresses[0].coordinates
+    );
+  });
+
+  it("should return null for unknown numbers", () => {
+    expect(findAddress(gazetteer, "ул. Шипка 8")).toBeNull();
+    expect(findAddress(gazetteer, "ул. Шипка")).toBeNull();
+  });
+});
+
+// A complex with a block and one of its entrances
+const blocksExtract = {
+  type: "FeatureCollection",
+  features: [
+    {
+      type: "Feature",
+      properties: { place: "suburb", name: "Младост 1" },
+      geometry: {
+        type: "Polygon",
+        coordinates: [
+          [
+            [23.37, 42.645],
+            [23.39, 42.645],
+            [23.39, 42.655],
+            [23.37, 42.655],
+            [23.37, 42.645],
+          ],
+        ],
+      },
+    },
+    {
+      type: "Feature",
+      properties: { building: "apartments", "addr:housenumber": "215" },
+      geometry: {
+        type: "Polygon",
+        coordinates: [
+          [
+            [23.3748, 42.6499],
+            [23.3752, 42.6499],
+            [23.3752, 42.6501],
+            [23.3748, 42.6501],
+            [23.3748, 42.6499],
+          ],
+        ],
+      },
+    },
+    {
+      type: "Feature",
+      properties: { entrance: "staircase", ref: "Б" },
+      geometry: { type: "Point", coordinates: [23.375, 42.6499] },
+    },
+  ],
+};
+
+describe("findBlock", () => {
+  const gazetteer = buildGazetteer(blocksExtract, "sofia.geojson");
+
+  it("should store blocks with their entrances and complexes", () => {
+    expect(gazetteer.blocks).toHaveLength(1);
+    expect(gazetteer.blocks[0].numbers).toEqual(["215"]);
+    expect(gazetteer.blocks[0].entrances).toEqual([
+      { ref: "б", coordinates: { lat: 42.6499, lng: 23.375 } },
+    ]);
+    expect(gazetteer.complexes.map((complex) => complex.names)).toEqual([
+      ["Младост 1"],
+    ]);
+  });
+
+  it("should find a block, its entrance and its complex", () => {
+    expect(
+      findBlock(gazetteer, "ж.к. Младост 1, бл. 215, вх. Б")?.coordinates
+    ).toEqual({ lat: 42.6499, lng: 23.375 });
+    expect(findBlock(gazetteer, "ж.к. Младост 1, бл. 215")?.area).toEqual({
+      type: "Polygon",
+      coordinates: [gazetteer.blocks[0].outline],
+    });
+    expect(findBlock(gazetteer, "ж.к. Младост 1")?.geocoding?.method).toBe(
+      "osm-block"
+    );
+    expect(findBlock(gazetteer, "ж.к. Младост 2, бл. 215")).toBeNull();
+  });
+});
+
+// A district mapped as a relation with two outer ways, in Overpass JSON
+const districtExtract = {
+  elements: [
+    {
+      type: "relation",
+      tags: {
+        boundary: "administrative",
+        admin_level: "9",
+        name: "Район Изгрев",
+      },
+      members: [
+        {
+          type: "way",
+          role: "outer",
+          geometry: [
+            { lon: 23.34, lat: 42.66 },
+            { lon: 23.37, lat: 42.66 },
+            { lon: 23.37, lat: 42.68 },
+          ],
+        },
+        {
+          type: "way",
+          role: "outer",
+          geometry: [
+            { lon: 23.34, lat: 42.66 },
+            { lon: 23.34, lat: 42.68 },
+            { lon: 23.37, lat: 42.68 },
+          ],
+        },
+      ],
+    },
+    {
+      type: "relation",
+      tags: { boundary: "administrative", admin_level: "4", name: "София" },
+      members: [],
+    },
+  ],
+};
+
+describe("findArea", () => {
+  const gazetteer = buildGazetteer(districtExtract, "sofia.json");
+
+  it("should store districts with the ring of their outer ways", () => {
+    expect(gazetteer.complexes).toHaveLength(1);
+    expect(gazetteer.complexes[0].outline).toHaveLength(5);
+  });
+
+  it("should find a district with its outline", () => {
+    const address = findArea(gazetteer, "район „Изгрев“");
+
+    expect(address?.area?.coordinates[0]).toEqual(
+      gazetteer.complexes[0].outline
+    );
+    expect(address?.geocoding?.method).toBe("osm-area");
+    expect(findArea(gazetteer, "район Лозенец")).toBeNull();
+  });
+});
@@ -0,0 +1,461 @@
+/**
+ * Local gazetteer of Sofia streets, squares, house numbers, blocks,
+ * complexes and districts, built from an OSM extract (see build-gazetteer.ts). Lets the
+ * offline geocoder resolve streets the same way the Overpass queries do,
+ * without network access.
+ */
+
+import { readFile } from "node:fs/promises";
+import { resolve } from "node:path";
+import type {
+  Feature,
+  FeatureCollection,
+  Geometry,
+  MultiLineString,
+  Position,
+} from "geojson";
+import type { Address } from "./types";
+import { isWithinSofia } from "./geocoding-utils";
+import {
+  type OverpassElement,
+  type OverpassResponse,
+  toPositions,
+} from "./overpass-elements";
+import {
+  type BlockBuilding,
+  type BlockEntrance,
+  type ResidentialComplex,
+  findBuildingOfEntrance,
+  getBlockNumbers,
+  getEntranceRef,
+  getOutlineCenter,
+  isClosedRing,
+  resolveBlockReference,
+} from "./building-blocks";
+import { getLargestRing, resolveArea } from "./areas";
+import {
+  MIN_STREET_MATCH_SCORE,
+  getStreetNameVariants,
+  normalizeHouseNumber,
+  normalizeStreetName,
+  parseNumberedAddress,
+  scoreStreetName,
+  selectBestStreetMatches,
+} from "./street-names";
+
+export const GAZETTEER_VERSION = 3;
+
+export const DEFAULT_GAZETTEER_PATH = "data/sofia-gazetteer.json";
+
+// Same highway classes as the Overpass queries: streets (ул.) match all of
+// them, boulevards and other names only the main roads
+const MAIN_HIGHWAYS = ["primary", "secondary", "tertiary", "trunk"];
+const STREET_HIGHWAYS = [
+  ...MAIN_HIGHWAYS,
+  "residential",
+  "unclassified",
+  "living_street",
+];
+
+// Areas a complex (ж.к.) or quarter is mapped as
+const COMPLEX_PLACES = ["suburb", "quarter", "neighbourhood"];
+
+// Sofia districts (райони) and the areas within them
+const DISTRICT_ADMIN_LEVELS = ["9", "10"];
+
+// OSM name tags a street can be mentioned by (values may be ";"-separated)
+const NAME_TAGS = [
+  "name",
+  "name:bg",
+  "alt_name",
+  "old_name",
+  "official_name",
+  "short_name",
+  "loc_name",
+];
+
+/**
+ * A street way (or a square) with all the names it is known by.
+ * Squares mapped as nodes have a single-point geometry.
+ */
+export interface GazetteerStreet {
+  names: string[];
+  highway?: string;
+  place?: string;
+  geometry: Position[]; // [lng, lat]
+}
+
+export interface GazetteerAddress {
+  street: string; // addr:street
+  housenumber: string;
+  coordinates: { lat: number; lng: number };
+}
+
+export interface Gazetteer {
+  version: number;
+  builtAt: string;
+  source: string; // Name of the extract it was built from
+  streets: GazetteerStreet[];
+  addresses: GazetteerAddress[];
+  blocks: BlockBuilding[];
+  complexes: ResidentialComplex[]; // Complexes, quarters and districts
+}
+
+// An OSM object reduced to its tags and geometry
+interface OsmElement {
+  tags: Record<string, string>;
+  lines: Position[][];
+}
+
+// A parsed extract: GeoJSON features with OSM tags as properties, or
+// Overpass JSON
+type OsmExtract = Partial<
+  FeatureCollection<Geometry | null, Record<string, string> | null> &
+    OverpassResponse
+>;
+
+let configuredGazetteer: Gazetteer | null = null;
+let loadingGazetteer: Promise<Gazetteer> | null = null;
+
+/**
+ * Use the given gazetteer instead of loading it from disk (used by tests).
+ * Pass null to load from GAZETTEER_PATH again.
+ */
+export function configureGazetteer(gazetteer: Gazetteer | null): void {
+  configuredGazetteer = gazetteer;
+  loadingGazetteer = null;
+}
+
+/**
+ * Load the gazetteer from GAZETTEER_PATH (default data/sofia-gazetteer.json
+ * relative to the working directory). Loaded once per process.
+ */
+export function loadGazetteer(): Promise<Gazetteer> {
+  if (configuredGazetteer) {
+    return Promise.resolve(configuredGazetteer);
+  }
+
+  if (!loadingGazetteer) {
+    const path = resolve(
+      process.cwd(),
+      process.env.GAZETTEER_PATH || DEFAULT_GAZETTEER_PATH
+    );
+    loadingGazetteer = readFile(path, "utf-8")
+      .catch(() => {
+        throw new Error(
+          `Gazetteer not found at ${path}, run "npm run build-gazetteer" first`
+        );
+      })
+      .then((content) => {
+        const gazetteer = JSON.parse(content) as Gazetteer;
+        if (gazetteer.version !== GAZETTEER_VERSION) {
+          throw new Error(
+            `Gazetteer at ${path} has version ${gazetteer.version}, expected ${GAZETTEER_VERSION}; rebuild it`
+          );
+        }
+        return gazetteer;
+      });
+
+    // Allow a retry after the file is built
+    loadingGazetteer.catch(() => {
+      loadingGazetteer = null;
+    });
+  }
+
+  return loadingGazetteer;
+}
+
+function roundCoordinate(value: number): number {
+  // 6 decimal places (≈ 0.1m accuracy), as for Overpass geometries
+  return Math.round(value * 1000000) / 1000000;
+}
+
+function toPosition(lng: number, lat: number): Position {
+  return [roundCoordinate(lng), roundCoordinate(lat)];
+}
+
+function geoJsonToLines(geometry: Geometry | null): Position[][] {
+  switch (geometry?.type) {
+    case "Point":
+      return [[geometry.coordinates]];
+    case "LineString":
+      return [geometry.coordinates];
+    case "MultiLineString":
+      return geometry.coordinates;
+    case "Polygon":
+      return geometry.coordinates.slice(0, 1);
+    case "MultiPolygon":
+      return geometry.coordinates.map((polygon) => polygon[0]);
+    default:
+      return [];
+  }
+}
+
+function overpassToLines(element: OverpassElement): Position[][] {
+  if (element.type === "node") {
+    return [[[element.lon, element.lat]]];
+  }
+  if (element.type === "way" && element.geometry) {
+    return [toPositions(element.geometry)];
+  }
+  if (element.type === "relation" && element.members) {
+    // Outer ways of a relation
+    return element.members
+      .filter((member) => member.geometry && member.role !== "inner")
+      .map((member) => toPositions(member.geometry));
+  }
+  if (element.center) {
+    return [[[element.center.lon, element.center.lat]]];
+  }
+  return [];
+}
+
+/**
+ * Read the elements of an extract: a GeoJSON FeatureCollection with OSM tags
+ * as properties (e.g. `osmium export`) or an Overpass JSON with `out geom`
+ */
+function readOsmElements(extract: OsmExtract | null): OsmElement[] {
+  if (Array.isArray(extract?.features)) {
+    return extract.features.map((feature) => ({
+      tags: feature.properties ?? {},
+      lines: geoJsonToLines(feature.geometry),
+    }));
+  }
+
+  if (Array.isArray(extract?.elements)) {
+    return extract.elements.map((element) => ({
+      tags: element.tags ?? {},
+      lines: overpassToLines(element),
+    }));
+  }
+
+  throw new Error(
+    "Unsupported extract: expected a GeoJSON FeatureCollection or Overpass JSON"
+  );
+}
+
+function getNames(tags: Record<string, string>): string[] {
+  const names = NAME_TAGS.flatMap((tag) => (tags[tag] ?? "").split(";"))
+    .map((name) => name.trim())
+    .filter(Boolean);
+  return [...new Set(names)];
+}
+
+function isInSofia(line: Position[]): boolean {
+  return line.some(([lng, lat]) => isWithinSofia(lat, lng));
+}
+
+function getCentroid(lines: Position[][]): { lat: number; lng: number } {
+  const points = lines.flat();
+  const sum = points.reduce(
+    (total, [lng, lat]) => ({ lat: total.lat + lat, lng: total.lng + lng }),
+    { lat: 0, lng: 0 }
+  );
+  return {
+    lat: roundCoordinate(sum.lat / points.length),
+    lng: roundCoordinate(sum.lng / points.length),
+  };
+}
+
+function isComplex(tags: Record<string, string>): boolean {
+  return (
+    COMPLEX_PLACES.includes(tags.place) ||
+    tags.landuse === "residential" ||
+    (tags.boundary === "administrative" &&
+      DISTRICT_ADMIN_LEVELS.includes(tags.admin_level))
+  );
+}
+
+/**
+ * Build a gazetteer from a parsed OSM extract, keeping named streets,
+ * squares, complexes and districts, addressed objects, blocks and their
+ * entrances within Sofia
+ */
+export function buildGazetteer(extract: unknown, source: string): Gazetteer {
+  const streets: GazetteerStreet[] = [];
+  const addresses: GazetteerAddress[] = [];
+  const blocks: BlockBuilding[] = [];
+  const complexes: ResidentialComplex[] = [];
+  const entrances: BlockEntrance[] = [];
+
+  for (const element of readOsmElements(extract as OsmExtract | null)) {
+    const { tags } = element;
+    const lines = element.lines
+      .filter((line) => line.length > 0)
+      .map((line) => line.map(([lng, lat]) => toPosition(lng, lat)));
+
+    if (lines.length === 0 || !lines.some(isInSofia)) {
+      continue;
+    }
+
+    const names = getNames(tags);
+    const isStreet = STREET_HIGHWAYS.includes(tags.highway);
+    const isSquare = tags.place === "square";
+
+    if (names.length > 0 && (isStreet || isSquare)) {
+      for (const line of lines) {
+        streets.push({
+          names,
+          ...(tags.highway ? { highway: tags.highway } : {}),
+          ...(isSquare ? { place: "square" } : {}),
+          geometry: line,
+        });
+      }
+    }
+
+    if (tags["addr:street"] && tags["addr:housenumber"]) {
+      addresses.push({
+        street: tags["addr:street"],
+        housenumber: tags["addr:housenumber"],
+        coordinates: getCentroid(lines),
+      });
+    }
+
+    const blockNumbers = tags.building ? getBlockNumbers(tags) : [];
+    if (blockNumbers.length > 0 && isClosedRing(lines[0])) {
+      blocks.push({ numbers: blockNumbers, outline: lines[0], entrances: [] });
+    }
+
+    const entranceRef = tags.entrance ? getEntranceRef(tags) : null;
+    if (entranceRef) {
+      entrances.push({ ref: entranceRef, coordinates: getCentroid(lines) });
+    }
+
+    if (names.length > 0 && isComplex(tags)) {
+      // Areas mapped as relations have several outer rings
+      const outline = getLargestRing(lines);
+      complexes.push(
+        outline
+          ? { names, outline, center: getOutlineCenter(outline) }
+          : { names, center: getCentroid(lines) }
+      );
+    }
+  }
+
+  // Entrances are nodes on the outline of their block
+  for (const entrance of entrances) {
+    const building = findBuildingOfEntrance(blocks, entrance.coordinates);
+    building?.entrances.push(entrance);
+  }
+
+  return {
+    version: GAZETTEER_VERSION,
+    builtAt: new Date().toISOString(),
+    source,
+    streets,
+    addresses,
+    blocks,
+    complexes,
+  };
+}
+
+function containsAnyVariant(names: string[], variants: string[]): boolean {
+  return names.some((name) => {
+    const normalized = normalizeStreetName(name);
+    return variants.some((variant) => normalized.includes(variant));
+  });
+}
+
+/**
+ * Find the geometry of a street by name, matching like the Overpass query:
+ * any name containing a spelling of the name (see getStreetNameVariants),
+ * squares (площад/пл.) by place, streets (ул.) among all street classes,
+ * other names among main roads; then only the best matching street is kept
+ */
+export function findStreetGeometry(
+  gazetteer: Gazetteer,
+  streetName: string
+): Feature<MultiLineString> | null {
+  const variants = getStreetNameVariants(streetName);
+  if (variants.length === 0) {
+    return null;
+  }
+
+  const isSquare = /^(площад|пл\.)\s*/.test(streetName.toLowerCase());
+  const highways = streetName.toLowerCase().includes("ул.")
+    ? STREET_HIGHWAYS
+    : MAIN_HIGHWAYS;
+
+  const candidates = gazetteer.streets.filter(
+    (street) =>
+      (isSquare
+        ? street.place === "square"
+        : highways.includes(street.highway ?? "")) &&
+      containsAnyVariant(street.names, variants)
+  );
+  const matches = selectBestStreetMatches(
+    streetName,
+    candidates,
+    (street) => street.names
+  );
+
+  // Squares mapped as points become a small box, as for Overpass nodes
+  const lineStrings = matches.map((street): Position[] => {
+    if (street.geometry.length > 1) {
+      return street.geometry;
+    }
+    const [lng, lat] = street.geometry[0];
+    const offset = 0.0001; // ~10 meters
+    return [
+      [lng - offset, lat - offset],
+      [lng + offset, lat + offset],
+    ];
+  });
+
+  if (lineStrings.length === 0) {
+    return null;
+  }
+
+  return {
+    type: "Feature",
+    properties: { name: streetName },
+    geometry: { type: "MultiLineString", coordinates: lineStrings },
+  };
+}
+
+/**
+ * Find the coordinates of a numbered address ("ул. Шипка 6", "бул. Витоша
+ * № 12А") among the addr:* tags of the extract
+ */
+export function findAddress(
+  gazetteer: Gazetteer,
+  address: string
+): { lat: number; lng: number } | null {
+  const parsed = parseNumberedAddress(address);
+  if (!parsed) {
+    return null;
+  }
+  const { street, housenumber } = parsed;
+
+  // The best matching street among those with this number
+  const found = gazetteer.addresses
+    .filter((entry) => normalizeHouseNumber(entry.housenumber) === housenumber)
+    .map((entry) => ({ entry, score: scoreStreetName(street, entry.street) }))
+    .filter(({ score }) => score >= MIN_STREET_MATCH_SCORE)
+    .sort((a, b) => b.score - a.score)[0];
+
+  return found ? found.entry.coordinates : null;
+}
+
+/**
+ * Find a block, its entrance or a whole complex ("ж.к. Младост 1, бл. 215,
+ * вх. Б") among the blocks and complexes of the extract
+ */
+export function findBlock(
+  gazetteer: Gazetteer,
+  reference: string
+): Address | null {
+  return resolveBlockReference(
+    reference,
+    gazetteer.blocks,
+    gazetteer.complexes
+  );
+}
+
+/**
+ * Find a neighbourhood, complex or district ("ж.к. Изток", "район Красно
+ * село") with its outline among the areas of the extract
+ */
+export function findArea(gazetteer: Gazetteer, name: string): Address | null {
+  return resolveArea(name, gazetteer.complexes);
+}
@@ -0,0 +1,246 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  buildOverrideResult,
+  computeExpiresAt,
+  configureGeocodingCache,
+  getCacheEntryId,
+  getGeocodingCacheStats,
+  isEntryExpired,
+  normalizeCacheQuery,
+  resetGeocodingCacheStats,
+  trackGeocodingCache,
+  withGeocodingCache,
+  type GeocodingCacheEntry,
+  type GeocodingCacheStore,
+} from "./geocoding-cache";
+
+function createMemoryStore() {
+  const entries = new Map<string, GeocodingCacheEntry>();
+  const store: GeocodingCacheStore = {
+    get: vi.fn(async (id: string) => entries.get(id) ?? null),
+    set: vi.fn(async (id: string, entry: GeocodingCacheEntry) => {
+      entries.set(id, entry);
+    }),
+    recordHit: vi.fn(async () => {}),
+  };
+  return { entries, store };
+}
+
+describe("normalizeCacheQuery", () => {
+  it("should ignore case, quotes and whitespace", () => {
+    expect(normalizeCacheQuery("google-address", '  ул.  „Шипка"  6 ')).toBe(
+      normalizeCacheQuery("google-address", "УЛ. Шипка 6")
+    );
+  });
+
+  it("should sort the streets of an intersection", () => {
+    expect(
+      normalizeCacheQuery(
+        "overpass-intersection",
+        "бул. Васил Левски ∩ ул. Шипка"
+      )
+    ).toBe(
+      normalizeCacheQuery(
+        "overpass-intersection",
+        "ул. Шипка ∩ бул. Васил Левски"
+      )
+    );
+  });
+
+  it("should keep different kinds apart", () => {
+    expect(getCacheEntryId("google-address", "ул. Шипка")).not.toBe(
+      getCacheEntryId("nominatim-address", "ул. Шипка")
+    );
+  });
+});
+
+describe("computeExpiresAt", () => {
+  const now = new Date("2025-03-01T00:00:00Z");
+
+  afterEach(() => {
+    delete process.env.GEOCODING_CACHE_TTL_DAYS;
+  });
+
+  it("should cache not found results for a shorter time", () => {
+    expect(computeExpiresAt(true, now).toISOString()).toBe(
+      "2025-05-30T00:00:00.000Z"
+    );
+    expect(computeExpiresAt(false, now).toISOString()).toBe(
+      "2025-03-08T00:00:00.000Z"
+    );
+  });
+
+  it("should read the TTL from the environment", () => {
+    process.env.GEOCODING_CACHE_TTL_DAYS = "1";
+    expect(computeExpiresAt(true, now).toISOString()).toBe(
+      "2025-03-02T00:00:00.000Z"
+    );
+  });
+
+  it("should never expire overrides", () => {
+    const entry: GeocodingCacheEntry = {
+      kind: "overpass-intersection",
+      query: "a ∩ b",
+      result: "{}",
+      createdAt: now,
+      expiresAt: now,
+      override: true,
+      hits: 0,
+    };
+    expect(isEntryExpired(entry, new Date("2030-01-01"))).toBe(false);
+    expect(isEntryExpired({ ...entry, override: false }, now)).toBe(true);
+  });
+});
+
+describe("withGeocodingCache", () => {
+  beforeEach(() => {
+    resetGeocodingCacheStats();
+  });
+
+  afterEach(() => {
+    configureGeocodingCache({});
+  });
+
+  it("should look up once and serve repeated queries from the cache", async () => {
+    const { store } = createMemoryStore();
+    configureGeocodingCache({ enabled: true, store });
+    const lookup = vi.fn(async () => ({ lat: 42.6935, lng: 23.3358 }));
+
+    const first = await withGeocodingCache(
+      "overpass-intersection",
+      "бул. Васил Левски ∩ ул. Шипка",
+      lookup
+    );
+    const second = await withGeocodingCache(
+      "overpass-intersection",
+      "ул. Шипка ∩ бул. Васил Левски",
+      lookup
+    );
+
+    expect(first).toEqual({ lat: 42.6935, lng: 23.3358 });
+    expect(second).toEqual(first);
+    expect(lookup).toHaveBeenCalledTimes(1);
+    expect(store.recordHit).toHaveBeenCalledTimes(1);
+    expect(getGeocodingCacheStats()).toMatchObject({ hits: 1, misses: 1 });
+  });
+
+  it("should cache not found results", async () => {
+    const { store } = createMemoryStore();
+    configureGeocodingCache({ enabled: true, store });
+    const lookup = vi.fn(async () => null);
+
+    await withGeocodingCache("google-address", "ул. Несъществуваща", lookup);
+    const result = await withGeocodingCache(
+      "google-address",
+      "ул. Несъществуваща",
+      lookup
+    );
+
+    expect(result).toBeNull();
+    expect(lookup).toHaveBeenCalledTimes(1);
+  });
+
+  it("should look up again when the entry expired", async () => {
+    const { entries, store } = createMemoryStore();
+    configureGeocodingCache({ enabled: true, store });
+    entries.set(getCacheEntryId("nominatim-address", "ул. Шипка 6"), {
+      kind: "nominatim-address",
+      query: "ул. шипка 6",
+      result: JSON.stringify({ lat: 1, lng: 1 }),
+      createdAt: new Date("2020-01-01"),
+      expiresAt: new Date("2020-04-01"),
+      override: false,
+      hits: 3,
+    });
+
+    const result = await withGeocodingCache(
+      "nominatim-address",
+      "ул. Шипка 6",
+      async () => ({ lat: 42.69, lng: 23.33 })
+    );
+
+    expect(result).toEqual({ lat: 42.69, lng: 23.33 });
+    expect(getGeocodingCacheStats()).toMatchObject({ expired: 1, misses: 1 });
+  });
+
+  it("should fall back to the lookup when the store fails", async () => {
+    const { store } = createMemoryStore();
+    vi.mocked(store.get).mockRejectedValue(new Error("unavailable"));
+    configureGeocodingCache({ enabled: true, store });
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    const result = await withGeocodingCache(
+      "google-address",
+      "ул. Шипка 6",
+      async () => null
+    );
+
+    expect(result).toBeNull();
+    expect(getGeocodingCacheStats().errors).toBe(1);
+  });
+
+  it("should bypass the store when disabled", async () => {
+    const { store } = createMemoryStore();
+    configureGeocodingCache({ enabled: false, store });
+
+    await withGeocodingCache("google-address", "ул. Шипка 6", async () => null);
+
+    expect(store.get).not.toHaveBeenCalled();
+  });
+});
+
+describe("buildOverrideResult", () => {
+  it("should build an address for Google lookups", () => {
+    expect(
+      buildOverrideResult("google-address", "ул. Шипка 6", {
+        lat: 42.69,
+        lng: 23.33,
+      })
+    ).toMatchObject({
+      formattedAddress: "ул. Шипка 6",
+      coordinates: { lat: 42.69, lng: 23.33 },
+      geoJson: { type: "Point", coordinates: [23.33, 42.69] },
+    });
+  });
+
+  it("should reject overrides of street sections", () => {
+    expect(() =>
+      buildOverrideResult("overpass-street-section", "ул. Шипка", {
+        lat: 42.69,
+        lng: 23.33,
+      })
+    ).toThrow("Overrides are not supported for overpass-street-section");
+  });
+});
+
+describe("trackGeocodingCache", () => {
+  afterEach(() => {
+    configureGeocodingCache({});
+  });
+
+  it("should tell results served from the cache from looked up ones", async () => {
+    const { store } = createMemoryStore();
+    configureGeocodingCache({ enabled: true, store });
+    const lookup = vi.fn(async () => ({ lat: 42.6935, lng: 23.3358 }));
+    const geocode = () =>
+      withGeocodingCache("nominatim-address", "ул. Шипка 6", lookup);
+
+    const first = await trackGeocodingCache(geocode);
+    const second = await trackGeocodingCache(geocode);
+
+    expect(first).toEqual({ value: second.value, cached: false });
+    expect(second.cached).toBe(true);
+  });
+
+  it("should count geocoding outside the cache as uncached", async () => {
+    configureGeocodingCache({ enabled: false });
+
+    const direct = await trackGeocodingCache(async () => "ул. Шипка");
+    const uncached = await trackGeocodingCache(() =>
+      withGeocodingCache("nominatim-address", "ул. Шипка 6", async () => null)
+    );
+
+    expect(direct.cached).toBe(false);
+    expect(uncached.cached).toBe(false);
+  });
+});
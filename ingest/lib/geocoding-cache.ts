@@ -0,0 +1,416 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { createHash } from "node:crypto";
+import type { Query } from "firebase-admin/firestore";
+
+/**
+ * What was looked up. The cached result type depends on the kind:
+ * - google-address, overpass-block, overpass-area: Address
+ * - nominatim-address, photon-address, overpass-intersection: { lat, lng }
+ * - overpass-street-section: [lng, lat][]
+ * - overpass-street: [lng, lat][][] (all the ways of a street)
+ */
+export type GeocodingCacheKind =
+  | "google-address"
+  | "nominatim-address"
+  | "photon-address"
+  | "overpass-intersection"
+  | "overpass-street-section"
+  | "overpass-block"
+  | "overpass-street"
+  | "overpass-area";
+
+export const GEOCODING_CACHE_KINDS: GeocodingCacheKind[] = [
+  "google-address",
+  "nominatim-address",
+  "photon-address",
+  "overpass-intersection",
+  "overpass-street-section",
+  "overpass-block",
+  "overpass-street",
+  "overpass-area",
+];
+
+// Kinds whose result is a point, and so can be overridden by coordinates
+export const POINT_CACHE_KINDS: GeocodingCacheKind[] = [
+  "google-address",
+  "nominatim-address",
+  "photon-address",
+  "overpass-intersection",
+  "overpass-block",
+];
+
+/**
+ * A cached lookup. `result` is the JSON of the value, null when nothing
+ * was found (not-found results are cached too, with a shorter TTL).
+ * Overrides are set manually, never expire and are never replaced.
+ */
+export interface GeocodingCacheEntry {
+  kind: GeocodingCacheKind;
+  query: string; // Normalized query
+  result: string | null;
+  createdAt: Date;
+  expiresAt: Date | null;
+  override: boolean;
+  hits: number;
+  lastHitAt?: Date;
+}
+
+/**
+ * Storage of the cache. Firestore (`geocodingCache` collection) by default,
+ * tests use an in-memory store.
+ */
+export interface GeocodingCacheStore {
+  get(id: string): Promise<GeocodingCacheEntry | null>;
+  set(id: string, entry: GeocodingCacheEntry): Promise<void>;
+  recordHit(id: string): Promise<void>;
+}
+
+export interface GeocodingCacheStats {
+  hits: number;
+  misses: number;
+  expired: number;
+  overrides: number; // Hits served by a manual override
+  errors: number; // Store failures; the lookup ran uncached
+}
+
+interface GeocodingCacheOptions {
+  enabled: boolean;
+  store: GeocodingCacheStore;
+}
+
+const COLLECTION = "geocodingCache";
+const DEFAULT_TTL_DAYS = 90;
+const DEFAULT_NOT_FOUND_TTL_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let configuredOptions: Partial<GeocodingCacheOptions> = {};
+let stats: GeocodingCacheStats = createEmptyStats();
+
+// Cache hits and lookups of the geocoding run by trackGeocodingCache
+const cacheUsage = new AsyncLocalStorage<{ hits: number; lookups: number }>();
+
+function createEmptyStats(): GeocodingCacheStats {
+  return { hits: 0, misses: 0, expired: 0, overrides: 0, errors: 0 };
+}
+
+/**
+ * Override cache settings (used by tests). Anything not set falls back to
+ * GEOCODING_CACHE ("off" disables it) and the Firestore store.
+ */
+export function configureGeocodingCache(
+  options: Partial<GeocodingCacheOptions>
+): void {
+  configuredOptions = { ...options };
+}
+
+function isCacheEnabled(): boolean {
+  return configuredOptions.enabled ?? process.env.GEOCODING_CACHE !== "off";
+}
+
+function getStore(): GeocodingCacheStore {
+  return configuredOptions.store ?? firestoreStore;
+}
+
+/**
+ * Hit/miss counters since the process started (or the last reset)
+ */
+export function getGeocodingCacheStats(): GeocodingCacheStats {
+  return { ...stats };
+}
+
+export function resetGeocodingCacheStats(): void {
+  stats = createEmptyStats();
+}
+
+function readDays(name: string, fallback: number): number {
+  const value = Number.parseFloat(process.env[name] ?? "");
+  return Number.isNaN(value) || value <= 0 ? fallback : value;
+}
+
+/**
+ * Normalize a query so that spelling variants share an entry:
+ * case, quote styles and whitespace are ignored, and the two streets of an
+ * intersection are sorted ("A ∩ B" and "B ∩ A" are the same point).
+ */
+export function normalizeCacheQuery(
+  kind: GeocodingCacheKind,
+  query: string
+): string {
+  const normalized = query
+    .toLowerCase()
+    .replaceAll(/["“”„'`‘’‚«»‹›]/g, "")
+    .replaceAll(/\s+/g, " ")
+    .trim();
+
+  if (kind !== "overpass-intersection") {
+    return normalized;
+  }
+
+  return normalized
+    .split("∩")
+    .map((part) => part.trim())
+    .sort((a, b) => a.localeCompare(b, "bg"))
+    .join(" ∩ ");
+}
+
+/**
+ * Document id of an entry: a hash of the kind and the normalized query
+ */
+export function getCacheEntryId(
+  kind: GeocodingCacheKind,
+  query: string
+): string {
+  return createHash("sha256")
+    .update(`${kind}:${normalizeCacheQuery(kind, query)}`)
+    .digest("hex")
+    .slice(0, 40);
+}
+
+/**
+ * When a new entry expires: GEOCODING_CACHE_TTL_DAYS (default 90) for found
+ * results, GEOCODING_CACHE_NOT_FOUND_TTL_DAYS (default 7) for not found ones
+ */
+export function computeExpiresAt(found: boolean, now: Date = new Date()): Date {
+  const days = found
+    ? readDays("GEOCODING_CACHE_TTL_DAYS", DEFAULT_TTL_DAYS)
+    : readDays(
+        "GEOCODING_CACHE_NOT_FOUND_TTL_DAYS",
+        DEFAULT_NOT_FOUND_TTL_DAYS
+      );
+  return new Date(now.getTime() + days * DAY_MS);
+}
+
+export function isEntryExpired(
+  entry: GeocodingCacheEntry,
+  now: Date = new Date()
+): boolean {
+  return !entry.override && entry.expiresAt !== null && entry.expiresAt <= now;
+}
+
+/**
+ * Run geocoding and tell whether it was served from the cache alone: at
+ * least one hit, and no lookup ran. Geocoding that doesn't go through the
+ * cache counts as uncached.
+ */
+export async function trackGeocodingCache<T>(
+  run: () => Promise<T>
+): Promise<{ value: T; cached: boolean }> {
+  const usage = { hits: 0, lookups: 0 };
+  const value = await cacheUsage.run(usage, run);
+  return { value, cached: usage.hits > 0 && usage.lookups === 0 };
+}
+
+/**
+ * Run a lookup through the cache: a valid entry is returned without calling
+ * `lookup`; otherwise the result of `lookup` (also null) is stored.
+ * Store failures never fail the lookup itself.
+ */
+export async function withGeocodingCache<T>(
+  kind: GeocodingCacheKind,
+  query: string,
+  lookup: () => Promise<T | null>
+): Promise<T | null> {
+  const usage = cacheUsage.getStore();
+  const runLookup = () => {
+    if (usage) {
+      usage.lookups++;
+    }
+    return lookup();
+  };
+
+  if (!isCacheEnabled()) {
+    return runLookup();
+  }
+
+  const store = getStore();
+  const id = getCacheEntryId(kind, query);
+
+  let entry: GeocodingCacheEntry | null = null;
+  try {
+    entry = await store.get(id);
+  } catch (error) {
+    stats.errors++;
+    console.warn(`⚠️  Geocoding cache read failed for "${query}":`, error);
+    return runLookup();
+  }
+
+  if (entry && !isEntryExpired(entry)) {
+    stats.hits++;
+    if (usage) {
+      usage.hits++;
+    }
+    if (entry.override) {
+      stats.overrides++;
+    }
+    store.recordHit(id).catch(() => {
+      stats.errors++;
+    });
+    return entry.result === null ? null : (JSON.parse(entry.result) as T);
+  }
+
+  if (entry) {
+    stats.expired++;
+  }
+  stats.misses++;
+
+  const result = await runLookup();
+  const now = new Date();
+
+  try {
+    await store.set(id, {
+      kind,
+      query: normalizeCacheQuery(kind, query),
+      result: result === null ? null : JSON.stringify(result),
+      createdAt: now,
+      expiresAt: computeExpiresAt(result !== null, now),
+      override: false,
+      hits: 0,
+    });
+  } catch (error) {
+    stats.errors++;
+    console.warn(`⚠️  Geocoding cache write failed for "${query}":`, error);
+  }
+
+  return result;
+}
+
+/**
+ * Result stored by a manual override of a point lookup
+ */
+export function buildOverrideResult(
+  kind: GeocodingCacheKind,
+  query: string,
+  coordinates: { lat: number; lng: number }
+): unknown {
+  if (!POINT_CACHE_KINDS.includes(kind)) {
+    throw new Error(`Overrides are not supported for ${kind}`);
+  }
+
+  if (kind === "google-address" || kind === "overpass-block") {
+    return {
+      originalText: query,
+      formattedAddress: query,
+      coordinates,
+      geoJson: {
+        type: "Point",
+        coordinates: [coordinates.lng, coordinates.lat],
+      },
+      geocoding: { method: "manual", confidence: 1 },
+    };
+  }
+
+  if (kind === "overpass-intersection") {
+    return { ...coordinates, confidence: 1 };
+  }
+
+  return coordinates;
+}
+
+function entryFromDocument(data: Record<string, any>): GeocodingCacheEntry {
+  return {
+    kind: data.kind,
+    query: data.query,
+    result: data.result ?? null,
+    createdAt: data.createdAt.toDate(),
+    expiresAt: data.expiresAt ? data.expiresAt.toDate() : null,
+    override: Boolean(data.override),
+    hits: data.hits ?? 0,
+    lastHitAt: data.lastHitAt ? data.lastHitAt.toDate() : undefined,
+  };
+}
+
+function entryToDocument(entry: GeocodingCacheEntry) {
+  return {
+    ...entry,
+    lastHitAt: entry.lastHitAt ?? null,
+  };
+}
+
+const firestoreStore: GeocodingCacheStore = {
+  async get(id) {
+    const { adminDb } = await import("@/lib/firebase-admin");
+    const doc = await adminDb.collection(COLLECTION).doc(id).get();
+    return doc.exists ? entryFromDocument(doc.data()!) : null;
+  },
+
+  async set(id, entry) {
+    const { adminDb } = await import("@/lib/firebase-admin");
+    const ref = adminDb.collection(COLLECTION).doc(id);
+
+    // Never replace a manual override with a looked up result
+    await adminDb.runTransaction(async (transaction) => {
+      const existing = await transaction.get(ref);
+      if (existing.exists && existing.data()?.override && !entry.override) {
+        return;
+      }
+      transaction.set(ref, entryToDocument(entry));
+    });
+  },
+
+  async recordHit(id) {
+    const { adminDb } = await import("@/lib/firebase-admin");
+    const { FieldValue } = await import("firebase-admin/firestore");
+    await adminDb
+      .collection(COLLECTION)
+      .doc(id)
+      .update({ hits: FieldValue.increment(1), lastHitAt: new Date() });
+  },
+};
+
+export interface CacheEntryWithId extends GeocodingCacheEntry {
+  id: string;
+}
+
+/**
+ * List cache entries (CLI), optionally of a single kind
+ */
+export async function listCacheEntries(
+  kind?: GeocodingCacheKind
+): Promise<CacheEntryWithId[]> {
+  const { adminDb } = await import("@/lib/firebase-admin");
+  let query = adminDb.collection(COLLECTION) as Query;
+  if (kind) {
+    query = query.where("kind", "==", kind);
+  }
+  const snapshot = await query.get();
+  return snapshot.docs.map((doc) => ({
+    id: doc.id,
+    ...entryFromDocument(doc.data()),
+  }));
+}
+
+/**
+ * Store a manual override for a point lookup (CLI)
+ */
+export async function setCacheOverride(
+  kind: GeocodingCacheKind,
+  query: string,
+  coordinates: { lat: number; lng: number }
+): Promise<string> {
+  const id = getCacheEntryId(kind, query);
+  await firestoreStore.set(id, {
+    kind,
+    query: normalizeCacheQuery(kind, query),
+    result: JSON.stringify(buildOverrideResult(kind, query, coordinates)),
+    createdAt: new Date(),
+    expiresAt: null,
+    override: true,
+    hits: 0,
+  });
+  return id;
+}
+
+/**
+ * Delete entries by id (CLI purge)
+ */
+export async function deleteCacheEntries(ids: string[]): Promise<void> {
+  const { adminDb } = await import("@/lib/firebase-admin");
+  // Firestore allows at most 500 writes per batch
+  for (let i = 0; i < ids.length; i += 500) {
+    const batch = adminDb.batch();
+    for (const id of ids.slice(i, i + 500)) {
+      batch.delete(adminDb.collection(COLLECTION).doc(id));
+    }
+    await batch.commit();
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * Geocoding providers and their fallback chains. Each kind of request is
+ * tried with the providers of its chain in order, until one finds it; a
+ * provider that fails (e.g. is down) is skipped like one that found nothing.
+ */
+
+import type { Position } from "geojson";
+import type { Address, GeocodingProviderName } from "./types";
+
+/**
+ * What is looked up:
+ * - address: pins and numbered addresses ("ул. Шипка 6")
+ * - street: a point on a street by its name (a street endpoint)
+ * - intersection: the crossing of two streets ("ул. A ∩ ул. B")
+ * - street-section: the geometry of a street between two points
+ * - block: a block, its entrance or a complex ("ж.к. Младост 1, бл. 215")
+ * - whole-street: the geometry of all the ways of a street
+ * - area: a neighbourhood, complex or district with its outline
+ */
+export type GeocodingRequestType =
+  | "address"
+  | "street"
+  | "intersection"
+  | "street-section"
+  | "block"
+  | "whole-street"
+  | "area";
+
+export const GEOCODING_REQUEST_TYPES: GeocodingRequestType[] = [
+  "address",
+  "street",
+  "intersection",
+  "street-section",
+  "block",
+  "whole-street",
+  "area",
+];
+
+/**
+ * A geocoding service. Methods resolve to null when nothing was found and
+ * reject when the service could not be queried. Requests a provider can't
+ * handle have no method.
+ */
+export interface GeocodingProvider {
+  name: GeocodingProviderName;
+  delayMs: number; // Pause after each uncached lookup, for rate limits
+  geocodeAddress?(address: string): Promise<Address | null>;
+  geocodeStreet?(streetName: string): Promise<Address | null>;
+  geocodeIntersection?(intersection: string): Promise<Address | null>;
+  getStreetSection?(
+    streetName: string,
+    startCoords: { lat: number; lng: number },
+    endCoords: { lat: number; lng: number }
+  ): Promise<Position[] | null>;
+  geocodeBlock?(reference: string): Promise<Address | null>;
+  getWholeStreet?(streetName: string): Promise<Position[][] | null>;
+  geocodeArea?(name: string): Promise<Address | null>;
+}
+
+// Method of a provider handling each request type
+export const REQUEST_METHODS = {
+  address: "geocodeAddress",
+  street: "geocodeStreet",
+  intersection: "geocodeIntersection",
+  "street-section": "getStreetSection",
+  block: "geocodeBlock",
+  "whole-street": "getWholeStreet",
+  area: "geocodeArea",
+} as const satisfies Record<GeocodingRequestType, keyof GeocodingProvider>;
+
+/**
+ * Environment variable with the chain of a request type,
+ * e.g. GEOCODING_CHAIN_STREET_SECTION
+ */
+export function getChainVariable(type: GeocodingRequestType): string {
+  return `GEOCODING_CHAIN_${type.toUpperCase().replaceAll("-", "_")}`;
+}
+
+/**
+ * Parse a comma-separated chain ("google,nominatim,photon"), checking that
+ * every provider exists and handles the request type
+ */
+export function parseProviderChain(
+  type: GeocodingRequestType,
+  value: string,
+  providers: Record<GeocodingProviderName, GeocodingProvider>
+): GeocodingProvider[] {
+  const names = value
+    .split(",")
+    .map((name) => name.trim())
+    .filter(Boolean);
+
+  if (names.length === 0) {
+    throw new Error(`Invalid ${getChainVariable(type)}: no providers`);
+  }
+
+  return names.map((name) => {
+    const provider = providers[name as GeocodingProviderName];
+    if (!provider) {
+      throw new Error(
+        `Invalid ${getChainVariable(type)}: unknown provider "${name}", expected one of ${Object.keys(
+          providers
+        ).join(", ")}`
+      );
+    }
+    if (!provider[REQUEST_METHODS[type]]) {
+      throw new Error(
+        `Invalid ${getChainVariable(type)}: provider "${name}" does not support ${type} requests`
+      );
+    }
+    return provider;
+  });
+}
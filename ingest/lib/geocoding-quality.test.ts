@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import {
+  getAddressConfidence,
+  getGoogleGeocodingQuality,
+} from "./geocoding-quality";
+
+describe("getGoogleGeocodingQuality", () => {
+  it("should tell rooftop results from approximate ones", () => {
+    expect(getGoogleGeocodingQuality("ROOFTOP", false, true)).toEqual({
+      method: "google-rooftop",
+      confidence: 0.95,
+    });
+    expect(getGoogleGeocodingQuality("GEOMETRIC_CENTER", false, true)).toEqual({
+      method: "google-approx",
+      confidence: 0.5,
+    });
+  });
+
+  it("should lower the confidence of partial matches on another street", () => {
+    expect(getGoogleGeocodingQuality("ROOFTOP", true, false)).toEqual({
+      method: "google-rooftop",
+      confidence: 0.53,
+    });
+  });
+
+  it("should treat unknown location types as approximate", () => {
+    expect(getGoogleGeocodingQuality(undefined, false, null)).toEqual({
+      method: "google-approx",
+      confidence: 0.3,
+    });
+  });
+});
+
+describe("getAddressConfidence", () => {
+  it("should count addresses geocoded before scoring as exact", () => {
+    expect(
+      getAddressConfidence({
+        originalText: "ул. Шипка 6",
+        formattedAddress: "ул. Шипка 6",
+        coordinates: { lat: 42.69, lng: 23.33 },
+      })
+    ).toBe(1);
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Confidence of geocoded addresses: each geocoder tags its results with the
+ * method used and a 0-1 confidence, so exact hits can be told apart from
+ * street centers and fallbacks (see messageIngest/geocoding-review.ts).
+ */
+
+import type { Address, GeocodingMethod, GeocodingQuality } from "./types";
+
+// Google location_type → method and base confidence
+const GOOGLE_LOCATION_TYPES: Record<string, GeocodingQuality> = {
+  ROOFTOP: { method: "google-rooftop", confidence: 0.95 },
+  RANGE_INTERPOLATED: { method: "google-rooftop", confidence: 0.8 },
+  GEOMETRIC_CENTER: { method: "google-approx", confidence: 0.5 },
+  APPROXIMATE: { method: "google-approx", confidence: 0.3 },
+};
+
+// How an intersection point was found (see findGeometricIntersection)
+export const INTERSECTION_CONFIDENCE = {
+  exact: 0.95, // The streets cross once
+  buffered: 0.8, // The streets come within a few meters
+  closestToCenter: 0.7, // The streets cross several times
+  nearest: 0.6, // The streets come within 200m
+  unknown: 0.8, // Cached before confidence was stored
+};
+
+export const CENTERLINE_CONFIDENCE = 0.3;
+// A numbered address found by an OSM search (Nominatim, Photon, gazetteer)
+export const NOMINATIM_CONFIDENCE = 0.7;
+
+// A block (бл.) found among OSM buildings (see building-blocks.ts)
+export const BLOCK_CONFIDENCE = {
+  entrance: 0.95, // The entrance (вх.) of the block
+  inComplex: 0.9, // The building with the number, within the complex
+  withoutComplex: 0.7, // The only building with the number, no complex given
+  complex: 0.5, // A whole complex (ж.к.)
+};
+
+// A whole street or area found among OSM ways and areas (see areas.ts)
+export const AREA_CONFIDENCE = {
+  outline: 0.8, // An area with its outline
+  point: 0.3, // An area mapped only as a point
+  street: 0.8, // All the ways of a street
+};
+
+// A street endpoint geocoded on its own lands on the center of the cross
+// street, not on the crossing
+export const FALLBACK_CONFIDENCE = 0.4;
+
+const PARTIAL_MATCH_FACTOR = 0.8;
+const OTHER_STREET_FACTOR = 0.7;
+
+function round(confidence: number): number {
+  return Math.round(confidence * 100) / 100;
+}
+
+/**
+ * Quality of a Google result, from its location_type, whether it only
+ * partially matched the query and whether it lies on the requested street
+ * (null when the result has no route to compare)
+ */
+export function getGoogleGeocodingQuality(
+  locationType: string | undefined,
+  partialMatch: boolean,
+  onStreet: boolean | null
+): GeocodingQuality {
+  const base = GOOGLE_LOCATION_TYPES[locationType ?? ""] ?? {
+    method: "google-approx",
+    confidence: 0.3,
+  };
+
+  let confidence = base.confidence;
+  if (partialMatch) {
+    confidence *= PARTIAL_MATCH_FACTOR;
+  }
+  if (onStreet === false) {
+    confidence *= OTHER_STREET_FACTOR;
+  }
+
+  return { method: base.method, confidence: round(confidence) };
+}
+
+/**
+ * Tag an address with the method and confidence of its geocoding
+ */
+export function withGeocodingQuality(
+  address: Address,
+  method: GeocodingMethod,
+  confidence: number
+): Address {
+  return { ...address, geocoding: { method, confidence: round(confidence) } };
+}
+
+/**
+ * Confidence of an address; addresses geocoded before confidence was
+ * stored count as exact
+ */
+export function getAddressConfidence(address: Address): number {
+  return address.geocoding?.confidence ?? 1;
+}
@@ -0,0 +1,255 @@
+// @vitest-environment node
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest";
+import { configureGeocodingCache } from "./geocoding-cache";
+import {
+  geocodeAddresses,
+  geocodeAreas,
+  geocodeBlocks,
+  getProviderChain,
+} from "./geocoding-router";
+
+/**
+ * Local stand-in for a geocoding service, answering every request with the
+ * given status and body
+ */
+async function startStandIn(
+  status: number,
+  body: unknown
+): Promise<{ server: Server; url: string; requests: string[] }> {
+  const requests: string[] = [];
+  const server = createServer((request, response) => {
+    requests.push(request.url ?? "");
+    response.writeHead(status, { "Content-Type": "application/json" });
+    response.end(JSON.stringify(body));
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return { server, url: `http://127.0.0.1:${port}`, requests };
+}
+
+const ENV_VARIABLES = [
+  "GEOCODING_BACKEND",
+  "GEOCODING_CHAIN_ADDRESS",
+  "GEOCODING_CHAIN_INTERSECTION",
+  "NOMINATIM_URL",
+  "OVERPASS_URL",
+  "PHOTON_URL",
+];
+
+afterEach(() => {
+  for (const name of ENV_VARIABLES) {
+    delete process.env[name];
+  }
+});
+
+describe("getProviderChain", () => {
+  it("should default to Google for pins and Overpass for streets", () => {
+    expect(getProviderChain("address").map((p) => p.name)).toEqual([
+      "google",
+      "nominatim",
+    ]);
+    expect(getProviderChain("street").map((p) => p.name)).toEqual([
+      "overpass",
+      "nominatim",
+    ]);
+    expect(getProviderChain("intersection").map((p) => p.name)).toEqual([
+      "overpass",
+    ]);
+  });
+
+  it("should use the gazetteer with GEOCODING_BACKEND=offline", () => {
+    process.env.GEOCODING_BACKEND = "offline";
+
+    expect(getProviderChain("address").map((p) => p.name)).toEqual([
+      "google",
+      "offline",
+    ]);
+    expect(getProviderChain("street").map((p) => p.name)).toEqual([
+      "offline",
+    ]);
+    expect(getProviderChain("street-section").map((p) => p.name)).toEqual([
+      "offline",
+    ]);
+  });
+
+  it("should read the chain of a request type from the environment", () => {
+    process.env.GEOCODING_CHAIN_ADDRESS = "nominatim, photon,google";
+
+    expect(getProviderChain("address").map((p) => p.name)).toEqual([
+      "nominatim",
+      "photon",
+      "google",
+    ]);
+  });
+
+  it("should reject unknown and unsupported providers", () => {
+    process.env.GEOCODING_CHAIN_ADDRESS = "google,bing";
+    expect(() => getProviderChain("address")).toThrow(
+      'Invalid GEOCODING_CHAIN_ADDRESS: unknown provider "bing"'
+    );
+
+    process.env.GEOCODING_CHAIN_INTERSECTION = "google";
+    expect(() => getProviderChain("intersection")).toThrow(
+      'provider "google" does not support intersection requests'
+    );
+  });
+});
+
+describe("geocodeAddresses", () => {
+  let photon: Awaited<ReturnType<typeof startStandIn>>;
+  let nominatim: Awaited<ReturnType<typeof startStandIn>>;
+
+  beforeAll(async () => {
+    configureGeocodingCache({ enabled: false });
+    // Photon is down, Nominatim answers
+    photon = await startStandIn(503, { message: "Service Unavailable" });
+    nominatim = await startStandIn(200, [
+      { lat: "42.6935", lon: "23.3358", display_name: "6, улица Шипка" },
+    ]);
+  });
+
+  afterAll(async () => {
+    configureGeocodingCache({});
+    await new Promise((resolve) => photon.server.close(resolve));
+    await new Promise((resolve) => nominatim.server.close(resolve));
+  });
+
+  it("should fall back to the next provider when one is down", async () => {
+    process.env.GEOCODING_CHAIN_ADDRESS = "photon,nominatim";
+    process.env.PHOTON_URL = photon.url;
+    process.env.NOMINATIM_URL = nominatim.url;
+
+    const [address] = await geocodeAddresses(["ул. Шипка 6"]);
+
+    expect(photon.requests).toHaveLength(1);
+    expect(nominatim.requests[0]).toMatch(/^\/search\?q=/);
+    expect(address).toMatchObject({
+      originalText: "ул. Шипка 6",
+      coordinates: { lat: 42.6935, lng: 23.3358 },
+      geocoding: { method: "fallback", confidence: 0.7, provider: "nominatim" },
+    });
+  });
+});
+
+describe("geocodeBlocks", () => {
+  let overpass: Awaited<ReturnType<typeof startStandIn>>;
+
+  beforeAll(async () => {
+    configureGeocodingCache({ enabled: false });
+    // Block 215 with entrance Б, and Младост 1 mapped as a point
+    overpass = await startStandIn(200, {
+      elements: [
+        {
+          type: "way",
+          id: 10,
+          nodes: [1, 2, 3, 4, 1],
+          tags: { building: "apartments", "addr:housenumber": "215" },
+          geometry: [
+            { lat: 42.6499, lon: 23.3748 },
+            { lat: 42.6499, lon: 23.375 },
+            { lat: 42.6501, lon: 23.3752 },
+            { lat: 42.6501, lon: 23.3748 },
+            { lat: 42.6499, lon: 23.3748 },
+          ],
+        },
+        {
+          type: "node",
+          id: 2,
+          lat: 42.6499,
+          lon: 23.375,
+          tags: { entrance: "staircase", ref: "Б" },
+        },
+        {
+          type: "node",
+          id: 20,
+          lat: 42.65,
+          lon: 23.38,
+          tags: { place: "suburb", name: "Младост 1" },
+        },
+      ],
+    });
+  });
+
+  afterAll(async () => {
+    configureGeocodingCache({});
+    await new Promise((resolve) => overpass.server.close(resolve));
+  });
+
+  it("should geocode an entrance of a block with Overpass", async () => {
+    process.env.OVERPASS_URL = overpass.url;
+
+    const [address] = await geocodeBlocks(["ж.к. Младост 1, бл. 215, вх. Б"]);
+
+    expect(overpass.requests).toHaveLength(1);
+    expect(address).toMatchObject({
+      originalText: "ж.к. Младост 1, бл. 215, вх. Б",
+      coordinates: { lat: 42.6499, lng: 23.375 },
+      geocoding: { method: "osm-block", confidence: 0.95, provider: "overpass" },
+    });
+  });
+});
+
+describe("geocodeAreas", () => {
+  let overpass: Awaited<ReturnType<typeof startStandIn>>;
+
+  beforeAll(async () => {
+    configureGeocodingCache({ enabled: false });
+    // Изток as a district relation of two outer ways
+    overpass = await startStandIn(200, {
+      elements: [
+        {
+          type: "relation",
+          id: 30,
+          tags: {
+            boundary: "administrative",
+            admin_level: "9",
+            name: "Район Изток",
+          },
+          members: [
+            {
+              type: "way",
+              ref: 31,
+              role: "outer",
+              geometry: [
+                { lat: 42.66, lon: 23.34 },
+                { lat: 42.66, lon: 23.37 },
+                { lat: 42.68, lon: 23.37 },
+              ],
+            },
+            {
+              type: "way",
+              ref: 32,
+              role: "outer",
+              geometry: [
+                { lat: 42.68, lon: 23.37 },
+                { lat: 42.68, lon: 23.34 },
+                { lat: 42.66, lon: 23.34 },
+              ],
+            },
+          ],
+        },
+      ],
+    });
+  });
+
+  afterAll(async () => {
+    configureGeocodingCache({});
+    await new Promise((resolve) => overpass.server.close(resolve));
+  });
+
+  it("should geocode a district with its outline with Overpass", async () => {
+    process.env.OVERPASS_URL = overpass.url;
+
+    const [address] = await geocodeAreas(["ж.к. Изток"]);
+
+    expect(overpass.requests).toHaveLength(1);
+    expect(address.area?.coordinates[0]).toHaveLength(5);
+    expect(address.geocoding).toEqual({
+      method: "osm-area",
+      confidence: 0.8,
+      provider: "overpass",
+    });
+  });
+});
@@ -1,93 +1,324 @@
 /**
- * Unified geocoding interface - FIXED HYBRID APPROACH
+ * Unified geocoding interface
  *
- * Google Geocoding API for pins (specific addresses)
- * OpenStreetMap Overpass API for streets (intersections and geometries)
+ * Every kind of request goes through a chain of providers (see
+ * geocoding-provider.ts), set with GEOCODING_CHAIN_* variables. By default
+ * Google for pins and OpenStreetMap for streets: the Overpass API, or the
+ * local gazetteer with GEOCODING_BACKEND=offline; Nominatim is the fallback.
  */
 
-import { Address, StreetSection } from "./types";
-import { geocodeAddresses as geocodeAddressesTraditional } from "./geocoding-service";
+import * as turf from "@turf/turf";
+import type { Position } from "geojson";
+import { Address, GeocodingProviderName, StreetSection } from "./types";
+import { delay } from "./delay";
+import { trackGeocodingCache } from "./geocoding-cache";
 import {
-  overpassGeocodeAddresses,
-  overpassGeocodeIntersections,
-} from "./overpass-geocoding-service";
+  GeocodingProvider,
+  GeocodingRequestType,
+  getChainVariable,
+  parseProviderChain,
+} from "./geocoding-provider";
+import { googleProvider } from "./geocoding-service";
+import { overpassProvider } from "./overpass-geocoding-service";
+import { offlineProvider } from "./offline-geocoding-service";
+import { nominatimProvider } from "./nominatim-geocoding-service";
+import { photonProvider } from "./photon-geocoding-service";
+import { getEndpointHouseNumber } from "./house-numbers";
+import { createPointAddress } from "./geocoding-utils";
+import { AREA_CONFIDENCE } from "./geocoding-quality";
+
+const PROVIDERS: Record<GeocodingProviderName, GeocodingProvider> = {
+  google: googleProvider,
+  overpass: overpassProvider,
+  offline: offlineProvider,
+  nominatim: nominatimProvider,
+  photon: photonProvider,
+};
+
+export type StreetGeocodingBackend = "overpass" | "offline";
+
+/**
+ * Backend used for streets, from GEOCODING_BACKEND (default "overpass")
+ */
+export function getStreetGeocodingBackend(): StreetGeocodingBackend {
+  const backend = process.env.GEOCODING_BACKEND || "overpass";
+  if (backend !== "overpass" && backend !== "offline") {
+    throw new Error(
+      `Invalid GEOCODING_BACKEND "${backend}", expected "overpass" or "offline"`
+    );
+  }
+  return backend;
+}
+
+function getDefaultChain(type: GeocodingRequestType): string {
+  const backend = getStreetGeocodingBackend();
+  switch (type) {
+    case "address":
+      return backend === "offline" ? "google,offline" : "google,nominatim";
+    case "street":
+      // The gazetteer stays deterministic, without network fallbacks
+      return backend === "offline" ? "offline" : "overpass,nominatim";
+    default:
+      return backend;
+  }
+}
+
+/**
+ * Providers of a request type, in order: GEOCODING_CHAIN_<TYPE>
+ * (comma-separated names, e.g. "nominatim,photon,google") or the default
+ */
+export function getProviderChain(
+  type: GeocodingRequestType
+): GeocodingProvider[] {
+  return parseProviderChain(
+    type,
+    process.env[getChainVariable(type)] || getDefaultChain(type),
+    PROVIDERS
+  );
+}
+
+/**
+ * Run a lookup with each provider of the chain until one finds something.
+ * Failing providers are logged and skipped. The rate limit pause of a
+ * provider follows its network calls only, not results from the cache.
+ */
+async function runChain<T>(
+  type: GeocodingRequestType,
+  query: string,
+  lookup: (provider: GeocodingProvider) => Promise<T | null>
+): Promise<{ result: T; provider: GeocodingProvider } | null> {
+  const chain = getProviderChain(type);
+
+  for (let i = 0; i < chain.length; i++) {
+    const provider = chain[i];
+    let result: T | null = null;
+    let cached = false;
+
+    try {
+      ({ value: result, cached } = await trackGeocodingCache(() =>
+        lookup(provider)
+      ));
+    } catch (error) {
+      console.warn(
+        `   ⚠️  ${provider.name} failed for "${query}": ${
+          error instanceof Error ? error.message : error
+        }`
+      );
+    }
+
+    // Rate limiting between requests
+    if (!cached) {
+      await delay(provider.delayMs);
+    }
+
+    if (result) {
+      return { result, provider };
+    }
+    if (i < chain.length - 1) {
+      console.log(`   ↪️  Trying ${chain[i + 1].name} for "${query}"`);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Geocode points with the chain of a request type, recording the provider
+ * that found each of them
+ */
+async function geocodeWithChain(
+  type: "address" | "street" | "intersection" | "block" | "area",
+  queries: string[]
+): Promise<Address[]> {
+  const results: Address[] = [];
+
+  for (const query of queries) {
+    const found = await runChain(type, query, (provider) => {
+      switch (type) {
+        case "address":
+          return provider.geocodeAddress!(query);
+        case "street":
+          return provider.geocodeStreet!(query);
+        case "intersection":
+          return provider.geocodeIntersection!(query);
+        case "block":
+          return provider.geocodeBlock!(query);
+        case "area":
+          return provider.geocodeArea!(query);
+      }
+    });
+
+    if (!found) {
+      console.warn(`   ⚠️  Failed to geocode: ${query}`);
+      continue;
+    }
+
+    const { result, provider } = found;
+    results.push(
+      result.geocoding
+        ? {
+            ...result,
+            geocoding: { ...result.geocoding, provider: provider.name },
+          }
+        : result
+    );
+  }
+
+  return results;
+}
 
 /**
- * Geocode a list of addresses (pins) using Google Geocoding API
+ * Geocode a list of addresses (pins)
  */
 export async function geocodeAddresses(
   addresses: string[]
 ): Promise<Address[]> {
-  return geocodeAddressesTraditional(addresses);
+  return geocodeWithChain("address", addresses);
 }
 
 /**
- * Geocode street sections using Overpass (geocode endpoints)
+ * Geocode street sections (geocode endpoints): numbered endpoints as
+ * addresses, the others as streets
  */
 export async function geocodeStreets(
   streets: StreetSection[]
 ): Promise<Address[]> {
   const endpointAddresses = streets.flatMap((s) => [s.from, s.to]);
-  return overpassGeocodeAddresses(endpointAddresses);
+  const numbered = endpointAddresses.filter((a) => /\d+/.test(a));
+  const named = endpointAddresses.filter((a) => !/\d+/.test(a));
+
+  return [
+    ...(await geocodeWithChain("address", numbered)),
+    ...(await geocodeWithChain("street", named)),
+  ];
+}
+
+/**
+ * Geocode blocks, entrances and complexes (see lib/building-blocks.ts)
+ */
+export async function geocodeBlocks(references: string[]): Promise<Address[]> {
+  return geocodeWithChain("block", references);
+}
+
+/**
+ * Geocode neighbourhoods, complexes and districts with their outline (see
+ * lib/areas.ts)
+ */
+export async function geocodeAreas(names: string[]): Promise<Address[]> {
+  return geocodeWithChain("area", names);
 }
 
 /**
- * Get street geometry (centerline) using Overpass for real OSM geometries
+ * Geocode whole streets: the center of all their ways, once the ways are
+ * found (the geometry itself is fetched again for the GeoJSON, as for
+ * street sections)
+ */
+export async function geocodeWholeStreets(
+  streetNames: string[]
+): Promise<Address[]> {
+  const results: Address[] = [];
+
+  for (const streetName of streetNames) {
+    const found = await runChain("whole-street", streetName, (provider) =>
+      provider.getWholeStreet!(streetName)
+    );
+
+    if (!found) {
+      console.warn(`   ⚠️  Failed to geocode: ${streetName}`);
+      continue;
+    }
+
+    const [lng, lat] = turf.center(turf.multiLineString(found.result)).geometry
+      .coordinates;
+    results.push(
+      createPointAddress(
+        streetName,
+        { lat, lng },
+        {
+          method: "osm-area",
+          confidence: AREA_CONFIDENCE.street,
+          provider: found.provider.name,
+        }
+      )
+    );
+  }
+
+  return results;
+}
+
+/**
+ * Get the geometry of all the ways of a street
+ */
+export async function getWholeStreetGeometry(
+  streetName: string
+): Promise<Position[][] | null> {
+  const found = await runChain("whole-street", streetName, (provider) =>
+    provider.getWholeStreet!(streetName)
+  );
+  return found?.result ?? null;
+}
+
+/**
+ * Get street geometry (centerline) from real OSM geometries
  */
 export async function getStreetGeometry(
   streetName: string,
   startCoords: { lat: number; lng: number },
   endCoords: { lat: number; lng: number }
 ): Promise<[number, number][] | null> {
-  const { getStreetSectionGeometry } = await import(
-    "./overpass-geocoding-service"
-  );
-  const geometry = await getStreetSectionGeometry(
-    streetName,
-    startCoords,
-    endCoords
+  const found = await runChain("street-section", streetName, (provider) =>
+    provider.getStreetSection!(streetName, startCoords, endCoords)
   );
-  return geometry as [number, number][] | null;
+  return (found?.result as [number, number][] | undefined) ?? null;
 }
 
 /**
- * Geocode street section intersections using Overpass
+ * Geocode street section intersections. Results keep their geocoding
+ * method and confidence. Endpoints that are house numbers are not
+ * intersections and are left out.
  */
 export async function geocodeIntersectionsForStreets(
   streets: StreetSection[]
-): Promise<Map<string, { lat: number; lng: number }>> {
-  const geocodedMap = new Map<string, { lat: number; lng: number }>();
+): Promise<Map<string, Address>> {
+  const geocodedMap = new Map<string, Address>();
 
   // Extract unique intersections
   const intersectionSet = new Set<string>();
   const intersections: string[] = [];
 
   streets.forEach((street) => {
-    const fromIntersection = `${street.street} ∩ ${street.from}`;
-    if (!intersectionSet.has(fromIntersection)) {
-      intersectionSet.add(fromIntersection);
-      intersections.push(fromIntersection);
-    }
+    for (const endpoint of [street.from, street.to]) {
+      if (getEndpointHouseNumber(street, endpoint) !== null) {
+        continue;
+      }
 
-    const toIntersection = `${street.street} ∩ ${street.to}`;
-    if (!intersectionSet.has(toIntersection)) {
-      intersectionSet.add(toIntersection);
-      intersections.push(toIntersection);
+      const intersection = `${street.street} ∩ ${endpoint}`;
+      if (!intersectionSet.has(intersection)) {
+        intersectionSet.add(intersection);
+        intersections.push(intersection);
+      }
     }
   });
 
-  const geocoded = await overpassGeocodeIntersections(intersections);
+  const geocoded = await geocodeWithChain("intersection", intersections);
 
   geocoded.forEach((address) => {
     // Store with the full intersection key (for completeness)
-    geocodedMap.set(address.formattedAddress, address.coordinates);
+    geocodedMap.set(address.formattedAddress, {
+      ...address,
+      originalText: address.formattedAddress,
+    });
 
     // ALSO store with just the cross street name (what GeoJSON service expects)
     // Extract the cross street from "ул. A ∩ ул. B" format
     const parts = address.formattedAddress.split(" ∩ ");
     if (parts.length === 2) {
       const crossStreet = parts[1].trim();
-      geocodedMap.set(crossStreet, address.coordinates);
+      geocodedMap.set(crossStreet, {
+        ...address,
+        originalText: crossStreet,
+        formattedAddress: crossStreet,
+      });
     }
   });
 
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { rankResultsByStreet } from "./geocoding-service";
+
+function result(route: string | null, formattedAddress: string) {
+  return {
+    formatted_address: formattedAddress,
+    address_components: route
+      ? [{ long_name: route, short_name: route, types: ["route"] }]
+      : [],
+    geometry: { location: { lat: 42.69, lng: 23.33 } },
+  };
+}
+
+describe("rankResultsByStreet", () => {
+  it("should put results on the street of the address first", () => {
+    // Google returned ул. Шипченски проход before ул. Шипка
+    const results = [
+      result("бул. „Шипченски проход“", "бул. „Шипченски проход“ 6, София"),
+      result("ул. „Шипка“", "ул. „Шипка“ 6, София"),
+    ];
+
+    expect(rankResultsByStreet("ул. Шипка 6", results)).toEqual([
+      results[1],
+      results[0],
+    ]);
+  });
+
+  it("should match routes spelled in Latin", () => {
+    const results = [
+      result("ulitsa Oborishte", "ulitsa Oborishte 12, Sofia"),
+      result("ulitsa Shipka", "ulitsa Shipka 12, Sofia"),
+    ];
+
+    expect(rankResultsByStreet("ул. Шипка № 12", results)[0]).toBe(results[1]);
+  });
+
+  it("should keep the order of Google otherwise", () => {
+    const results = [
+      result(null, "София"),
+      result("ул. „Оборище“", "ул. „Оборище“ 1, София"),
+    ];
+
+    expect(rankResultsByStreet("ул. Шипка 6", results)).toEqual(results);
+  });
+});
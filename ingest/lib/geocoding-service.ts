@@ -1,86 +1,166 @@
 import { Address } from "./types";
 import { isWithinSofia } from "./geocoding-utils";
-import { delay } from "./delay";
+import { withGeocodingCache } from "./geocoding-cache";
+import type { GeocodingProvider } from "./geocoding-provider";
+import { getGoogleGeocodingQuality } from "./geocoding-quality";
+import {
+  MIN_STREET_MATCH_SCORE,
+  canonicalizeStreetAddress,
+  scoreStreetName,
+} from "./street-names";
 
 // Constants for API rate limiting
 const GEOCODING_BATCH_DELAY_MS = 200;
 
+// GOOGLE_GEOCODING_URL points the provider to a stand-in server
+const DEFAULT_GOOGLE_GEOCODING_URL =
+  "https://maps.googleapis.com/maps/api/geocode/json";
+
 interface GeocodeResult {
   formatted_address: string;
+  address_components?: {
+    long_name: string;
+    short_name: string;
+    types: string[];
+  }[];
+  partial_match?: boolean;
   geometry: {
     location: {
       lat: number;
       lng: number;
     };
+    location_type?: string;
   };
 }
 
+/**
+ * Geocode an address with Google, through the geocoding cache.
+ * Streets are spelled by their canonical name (see street-names.ts), so
+ * aliases share a cache entry and Google gets the name it knows best.
+ */
 export async function geocodeAddress(address: string): Promise<Address | null> {
-  try {
-    const apiKey = process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY;
-    const encodedAddress = encodeURIComponent(`${address}, Sofia, Bulgaria`);
-    // Use components parameter to restrict to Sofia (locality)
-    const url = `https://maps.googleapis.com/maps/api/geocode/json?address=${encodedAddress}&components=locality:Sofia|country:BG&key=${apiKey}`;
+  const query = canonicalizeStreetAddress(address);
+  const cached = await withGeocodingCache("google-address", query, () =>
+    geocodeAddressWithGoogle(query)
+  );
+  // Cached results may come from a differently spelled query
+  return cached ? { ...cached, originalText: address } : null;
+}
 
-    const response = await fetch(url);
-    const data = await response.json();
+/**
+ * Query Google. Errors other than ZERO_RESULTS (quota, invalid key, network)
+ * are thrown, so they are not cached as not found.
+ */
+async function geocodeAddressWithGoogle(
+  address: string
+): Promise<Address | null> {
+  const apiKey = process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY;
+  const baseUrl =
+    process.env.GOOGLE_GEOCODING_URL || DEFAULT_GOOGLE_GEOCODING_URL;
+  const encodedAddress = encodeURIComponent(`${address}, Sofia, Bulgaria`);
+  // Use components parameter to restrict to Sofia (locality)
+  const url = `${baseUrl}?address=${encodedAddress}&components=locality:Sofia|country:BG&key=${apiKey}`;
 
-    if (data.status === "OK" && data.results && data.results.length > 0) {
-      // Try to find a result within Sofia's boundaries
-      for (const result of data.results) {
-        const lat = result.geometry.location.lat;
-        const lng = result.geometry.location.lng;
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Google Geocoding API error: HTTP ${response.status}`);
+  }
+  const data = await response.json();
+
+  if (data.status === "ZERO_RESULTS") {
+    return null;
+  }
+  if (data.status !== "OK") {
+    throw new Error(`Google Geocoding API error: ${data.status}`);
+  }
 
-        // Validate that the result is actually within Sofia
-        if (isWithinSofia(lat, lng)) {
-          return {
-            originalText: address,
-            formattedAddress: result.formatted_address,
-            coordinates: { lat, lng },
-            geoJson: {
-              type: "Point",
-              coordinates: [lng, lat],
-            },
-          };
-        } else {
-          console.warn(
-            `⚠️  Result for "${address}" is outside Sofia: [${lat.toFixed(
-              6
-            )}, ${lng.toFixed(6)}]`
-          );
-        }
-      }
+  // Try to find a result within Sofia's boundaries, on the street of the
+  // address first
+  for (const result of rankResultsByStreet(address, data.results ?? [])) {
+    const lat = result.geometry.location.lat;
+    const lng = result.geometry.location.lng;
 
-      // All results were outside Sofia
+    // Validate that the result is actually within Sofia
+    if (isWithinSofia(lat, lng)) {
+      return {
+        originalText: address,
+        formattedAddress: result.formatted_address,
+        coordinates: { lat, lng },
+        geoJson: {
+          type: "Point",
+          coordinates: [lng, lat],
+        },
+        geocoding: getGoogleGeocodingQuality(
+          result.geometry.location_type,
+          Boolean(result.partial_match),
+          isResultOnStreet(getStreetOfAddress(address), result)
+        ),
+      };
+    } else {
       console.warn(
-        `❌ No results for "${address}" found within Sofia boundaries`
+        `⚠️  Result for "${address}" is outside Sofia: [${lat.toFixed(
+          6
+        )}, ${lng.toFixed(6)}]`
       );
-      return null;
     }
-
-    return null;
-  } catch (error) {
-    console.error("Error geocoding address:", error);
-    return null;
   }
-}
 
-export async function geocodeAddresses(
-  addresses: string[]
-): Promise<Address[]> {
-  const geocodedAddresses: Address[] = [];
+  // All results were outside Sofia
+  console.warn(`❌ No results for "${address}" found within Sofia boundaries`);
+  return null;
+}
 
-  for (const address of addresses) {
-    const geocoded = await geocodeAddress(address);
+function getStreetOfAddress(address: string): string {
+  return address.split(",")[0].replace(/\s*(?:№\s*)?\d.*$/, "");
+}
 
-    if (geocoded) {
-      geocodedAddresses.push(geocoded);
-    } else {
-      console.warn(`Failed to geocode address: ${address}`);
-    }
-    // Add a small delay to avoid hitting rate limits
-    await delay(GEOCODING_BATCH_DELAY_MS);
+/**
+ * Whether a result lies on the given street, null when it has no route
+ */
+function isResultOnStreet(
+  street: string,
+  result: GeocodeResult
+): boolean | null {
+  const route = result.address_components?.find((component) =>
+    component.types.includes("route")
+  );
+  if (!route) {
+    return null;
   }
+  const score = Math.max(
+    scoreStreetName(street, route.long_name),
+    scoreStreetName(street, route.short_name)
+  );
+  return score >= MIN_STREET_MATCH_SCORE;
+}
 
-  return geocodedAddresses;
+/**
+ * Put the results on the street of the address first: Google sometimes
+ * returns a similarly named street ahead of the right one
+ */
+export function rankResultsByStreet(
+  address: string,
+  results: GeocodeResult[]
+): GeocodeResult[] {
+  const street = getStreetOfAddress(address);
+  const scored = results.map((result) => ({
+    result,
+    onStreet: isResultOnStreet(street, result) === true,
+  }));
+
+  // Stable sort, so the order of Google is kept otherwise
+  return scored
+    .sort((a, b) => Number(b.onStreet) - Number(a.onStreet))
+    .map(({ result }) => result);
 }
+
+/**
+ * Google handles numbered addresses and street names alike (the latter
+ * resolve to the center of the street)
+ */
+export const googleProvider: GeocodingProvider = {
+  name: "google",
+  delayMs: GEOCODING_BATCH_DELAY_MS,
+  geocodeAddress,
+  geocodeStreet: geocodeAddress,
+};
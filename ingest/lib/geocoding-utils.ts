@@ -2,19 +2,11 @@
  * Shared utilities for geocoding services
  */
 
-// Sofia bounding box (approximate administrative boundaries)
-// southwest: [23.188, 42.605], northeast: [23.528, 42.788]
-export const SOFIA_BOUNDS = {
-  south: 42.605,
-  west: 23.188,
-  north: 42.83,
-  east: 23.528,
-};
+import { SOFIA_BOUNDS, SOFIA_CENTER, isWithinSofia } from "@oboapp/core";
+import type { Address, GeocodingQuality } from "./types";
 
-/**
- * Sofia city center coordinates (used as reference point)
- */
-export const SOFIA_CENTER = { lat: 42.6977, lng: 23.3219 };
+// Sofia bounds and center, shared with web (see core/src/sofia.ts)
+export { SOFIA_BOUNDS, SOFIA_CENTER, isWithinSofia };
 
 /**
  * Sofia bounding box in bbox format (south,west,north,east)
@@ -22,13 +14,21 @@ export const SOFIA_CENTER = { lat: 42.6977, lng: 23.3219 };
 export const SOFIA_BBOX = `${SOFIA_BOUNDS.south},${SOFIA_BOUNDS.west},${SOFIA_BOUNDS.north},${SOFIA_BOUNDS.east}`;
 
 /**
- * Check if coordinates are within Sofia's administrative boundaries
+ * Address of a point found for a query (the query is kept as its text)
  */
-export function isWithinSofia(lat: number, lng: number): boolean {
-  return (
-    lat >= SOFIA_BOUNDS.south &&
-    lat <= SOFIA_BOUNDS.north &&
-    lng >= SOFIA_BOUNDS.west &&
-    lng <= SOFIA_BOUNDS.east
-  );
+export function createPointAddress(
+  text: string,
+  coordinates: { lat: number; lng: number },
+  geocoding: GeocodingQuality
+): Address {
+  return {
+    originalText: text,
+    formattedAddress: text,
+    coordinates,
+    geoJson: {
+      type: "Point",
+      coordinates: [coordinates.lng, coordinates.lat],
+    },
+    geocoding,
+  };
 }
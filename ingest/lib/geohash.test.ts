@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest";
+import { encodeGeohash } from "@oboapp/core";
+import { geohashesForGeoJson } from "./geohash";
+import type { GeoJSONFeatureCollection } from "./types";
+
+describe("geohashesForGeoJson", () => {
+  it("should index points at every stored precision", () => {
+    const geoJson: GeoJSONFeatureCollection = {
+      type: "FeatureCollection",
+      features: [
+        {
+          type: "Feature",
+          geometry: { type: "Point", coordinates: [23.3219, 42.6977] },
+          properties: {},
+        },
+      ],
+    };
+
+    const hash = encodeGeohash(42.6977, 23.3219, 6);
+    expect(geohashesForGeoJson(geoJson)).toEqual([
+      hash.slice(0, 4),
+      hash.slice(0, 5),
+      hash,
+    ]);
+  });
+
+  it("should cover cells between the vertices of a line", () => {
+    const geoJson: GeoJSONFeatureCollection = {
+      type: "FeatureCollection",
+      features: [
+        {
+          type: "Feature",
+          geometry: {
+            type: "LineString",
+            coordinates: [
+              [23.3, 42.69],
+              [23.35, 42.69],
+            ],
+          },
+          properties: {},
+        },
+      ],
+    };
+
+    const hashes = geohashesForGeoJson(geoJson);
+    expect(hashes).toContain(encodeGeohash(42.69, 23.325, 6));
+  });
+
+  it("should cover the interior of polygons", () => {
+    const geoJson: GeoJSONFeatureCollection = {
+      type: "FeatureCollection",
+      features: [
+        {
+          type: "Feature",
+          geometry: {
+            type: "Polygon",
+            coordinates: [
+              [
+                [23.3, 42.68],
+                [23.34, 42.68],
+                [23.34, 42.7],
+                [23.3, 42.7],
+                [23.3, 42.68],
+              ],
+            ],
+          },
+          properties: {},
+        },
+      ],
+    };
+
+    const hashes = geohashesForGeoJson(geoJson);
+    expect(hashes).toContain(encodeGeohash(42.69, 23.32, 6));
+  });
+
+  it("should cover every part of multi-part geometries", () => {
+    const geoJson: GeoJSONFeatureCollection = {
+      type: "FeatureCollection",
+      features: [
+        {
+          type: "Feature",
+          geometry: {
+            type: "GeometryCollection",
+            geometries: [
+              {
+                type: "MultiLineString",
+                coordinates: [
+                  [
+                    [23.3, 42.68],
+                    [23.31, 42.68],
+                  ],
+                  [
+                    [23.4, 42.75],
+                    [23.41, 42.75],
+                  ],
+                ],
+              },
+              {
+                type: "MultiPolygon",
+                coordinates: [
+                  [
+                    [
+                      [23.2, 42.6],
+                      [23.24, 42.6],
+                      [23.24, 42.62],
+                      [23.2, 42.62],
+                      [23.2, 42.6],
+                    ],
+                  ],
+                ],
+              },
+            ],
+          },
+          properties: {},
+        },
+      ],
+    };
+
+    const hashes = geohashesForGeoJson(geoJson);
+    expect(hashes).toContain(encodeGeohash(42.75, 23.405, 6));
+    expect(hashes).toContain(encodeGeohash(42.61, 23.22, 6));
+  });
+
+  it("should return no cells without GeoJSON", () => {
+    expect(geohashesForGeoJson(undefined)).toEqual([]);
+  });
+});
@@ -0,0 +1,106 @@
+import {
+  GEOHASH_PRECISIONS,
+  encodeGeohash,
+  geohashesForBbox,
+  getGeohashCellSize,
+  type Bbox,
+} from "@oboapp/core";
+import type { GeoJSONFeatureCollection, GeoJSONGeometry } from "./types";
+
+type Position = [number, number];
+
+/**
+ * Points along a line, at most `step` degrees apart, so that no cell the
+ * line passes through is skipped
+ */
+function sampleLine(coordinates: Position[], step: number): Position[] {
+  const points: Position[] = coordinates.slice(0, 1);
+  for (let i = 1; i < coordinates.length; i++) {
+    const [lng1, lat1] = coordinates[i - 1];
+    const [lng2, lat2] = coordinates[i];
+    const count = Math.max(
+      1,
+      Math.ceil(Math.max(Math.abs(lng2 - lng1), Math.abs(lat2 - lat1)) / step)
+    );
+    for (let j = 1; j <= count; j++) {
+      const t = j / count;
+      points.push([lng1 + (lng2 - lng1) * t, lat1 + (lat2 - lat1) * t]);
+    }
+  }
+  return points;
+}
+
+function getBbox(points: Position[]): Bbox {
+  const lngs = points.map(([lng]) => lng);
+  const lats = points.map(([, lat]) => lat);
+  return [
+    Math.min(...lngs),
+    Math.min(...lats),
+    Math.max(...lngs),
+    Math.max(...lats),
+  ];
+}
+
+function geometryGeohashes(
+  geometry: GeoJSONGeometry,
+  precision: number
+): string[] {
+  const cell = getGeohashCellSize(precision);
+  const step = Math.min(cell.width, cell.height) / 2;
+  const toHashes = (points: Position[]) =>
+    points.map(([lng, lat]) => encodeGeohash(lat, lng, precision));
+
+  // Cover the whole bounding box of a polygon, the interior may span cells
+  // none of the vertices are in
+  const polygonHashes = (rings: Position[][]) => {
+    const outerRing = rings[0] ?? [];
+    return outerRing.length > 0
+      ? geohashesForBbox(getBbox(outerRing), precision)
+      : [];
+  };
+
+  switch (geometry.type) {
+    case "Point":
+      return toHashes([geometry.coordinates]);
+    case "MultiPoint":
+      return toHashes(geometry.coordinates);
+    case "LineString":
+      return toHashes(sampleLine(geometry.coordinates, step));
+    case "MultiLineString":
+      return geometry.coordinates.flatMap((line) =>
+        toHashes(sampleLine(line, step))
+      );
+    case "Polygon":
+      return polygonHashes(geometry.coordinates);
+    case "MultiPolygon":
+      return geometry.coordinates.flatMap(polygonHashes);
+    case "GeometryCollection":
+      return geometry.geometries.flatMap((part) =>
+        geometryGeohashes(part, precision)
+      );
+    default:
+      return [];
+  }
+}
+
+/**
+ * Geohashes of the cells covered by the features of a message, at every
+ * precision in GEOHASH_PRECISIONS. Stored as `geohashes` on the message
+ * for `array-contains-any` bounding box queries.
+ */
+export function geohashesForGeoJson(
+  geoJson: GeoJSONFeatureCollection | null | undefined
+): string[] {
+  const hashes = new Set<string>();
+  for (const feature of geoJson?.features ?? []) {
+    if (!feature.geometry) {
+      continue;
+    }
+    for (const precision of GEOHASH_PRECISIONS) {
+      for (const hash of geometryGeohashes(feature.geometry, precision)) {
+        hashes.add(hash);
+      }
+    }
+  }
+  return [...hashes].sort();
+}
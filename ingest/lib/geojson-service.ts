@@ -1,4 +1,6 @@
 import {
+  AreaReference,
+  BlockReference,
   ExtractedData,
   StreetSection,
   GeoJSONFeatureCollection,
@@ -6,8 +8,15 @@ import {
   GeoJSONLineString,
   GeoJSONPolygon,
   IntersectionCoordinates,
+  WholeStreet,
 } from "./types";
-import { getStreetGeometry } from "./geocoding-router";
+import {
+  getStreetGeometry,
+  getWholeStreetGeometry,
+} from "./geocoding-router";
+import { joinLines } from "./street-geometry";
+import { formatBlockReference } from "./building-blocks";
+import { getAffectedSide } from "./house-numbers";
 
 // Constants for street buffer widths (in meters)
 const BUFFER_WIDTH_BOULEVARD = 13; // 12-14m average
@@ -90,9 +99,12 @@ async function getStreetCenterline(
 }
 
 // Step 3 — Line-to-Polygon Conversion
+// With a side (1 left, -1 right of the line direction) only that side of
+// the line is covered
 function bufferLineString(
   lineString: GeoJSONLineString,
-  bufferMeters: number = 8
+  bufferMeters: number = 8,
+  side?: 1 | -1
 ): GeoJSONPolygon | null {
   const coordinates = lineString.coordinates;
   if (coordinates.length < 2) return null;
@@ -138,14 +150,16 @@ function bufferLineString(
     }
 
     // Apply buffer with proper longitude/latitude scaling
-    leftSide.push([
-      lon + perpLon * bufferDegreesLon,
-      lat + perpLat * bufferDegreesLat,
-    ]);
-    rightSide.push([
-      lon - perpLon * bufferDegreesLon,
-      lat - perpLat * bufferDegreesLat,
-    ]);
+    leftSide.push(
+      side === -1
+        ? [lon, lat]
+        : [lon + perpLon * bufferDegreesLon, lat + perpLat * bufferDegreesLat]
+    );
+    rightSide.push(
+      side === 1
+        ? [lon, lat]
+        : [lon - perpLon * bufferDegreesLon, lat - perpLat * bufferDegreesLat]
+    );
   }
 
   // Create polygon by combining left side, reversed right side, and closing
@@ -206,9 +220,13 @@ async function createClosureFeature(
     street.street
   );
 
-  // Convert to polygon
+  // Convert to polygon, on the affected side of the street only when known
   const bufferWidth = getBufferWidth(street.street);
-  const polygon = bufferLineString(centerline, bufferWidth);
+  const side = getAffectedSide(street, centerline.coordinates, {
+    from: startCoords,
+    to: endCoords,
+  });
+  const polygon = bufferLineString(centerline, bufferWidth, side ?? undefined);
 
   if (!polygon) {
     throw new Error(`Failed to buffer linestring for: ${street.street}`);
@@ -223,6 +241,7 @@ async function createClosureFeature(
       street: street.street,
       from: street.from,
       to: street.to,
+      ...(street.side ? { side: street.side } : {}),
       start_time: street.timespans[0]?.start || "",
       end_time: street.timespans[0]?.end || "",
       timespans: JSON.stringify(street.timespans), // Store all timespans as JSON string
@@ -230,10 +249,109 @@ async function createClosureFeature(
   };
 }
 
+// Blocks and complexes: their outline when known, a point otherwise
+function createBlockFeature(
+  block: BlockReference,
+  preGeocodedAddresses: Map<string, IntersectionCoordinates>,
+  areas: Map<string, GeoJSONPolygon>
+): GeoJSONFeature {
+  const reference = formatBlockReference(block);
+  const coords = preGeocodedAddresses.get(reference);
+
+  if (!coords) {
+    throw new Error(
+      `Missing pre-geocoded coordinates for block: "${reference}"`
+    );
+  }
+
+  return {
+    type: "Feature",
+    geometry: areas.get(reference) ?? {
+      type: "Point",
+      coordinates: [coords.lng, coords.lat],
+    },
+    properties: {
+      feature_type: "block",
+      address: reference,
+      complex: block.complex,
+      block: block.block,
+      entrance: block.entrance,
+      start_time: block.timespans[0]?.start || "",
+      end_time: block.timespans[0]?.end || "",
+      timespans: JSON.stringify(block.timespans), // Store all timespans as JSON string
+    },
+  };
+}
+
+// Whole streets: every stretch of the street buffered like a section
+async function createWholeStreetFeatures(
+  street: WholeStreet
+): Promise<GeoJSONFeature[]> {
+  const lines = await getWholeStreetGeometry(street.street);
+  if (!lines) {
+    throw new Error(`No geometry found for street: ${street.street}`);
+  }
+
+  const bufferWidth = getBufferWidth(street.street);
+  return joinLines(lines).map((line): GeoJSONFeature => {
+    const polygon = bufferLineString(
+      { type: "LineString", coordinates: line as [number, number][] },
+      bufferWidth
+    );
+    if (!polygon) {
+      throw new Error(`Failed to buffer linestring for: ${street.street}`);
+    }
+
+    return {
+      type: "Feature",
+      geometry: polygon,
+      properties: {
+        feature_type: "whole_street",
+        street: street.street,
+        start_time: street.timespans[0]?.start || "",
+        end_time: street.timespans[0]?.end || "",
+        timespans: JSON.stringify(street.timespans), // Store all timespans as JSON string
+      },
+    };
+  });
+}
+
+// Neighbourhoods, complexes and districts: their outline when known, a
+// point otherwise
+function createAreaFeature(
+  area: AreaReference,
+  preGeocodedAddresses: Map<string, IntersectionCoordinates>,
+  areas: Map<string, GeoJSONPolygon>
+): GeoJSONFeature {
+  const coords = preGeocodedAddresses.get(area.name);
+
+  if (!coords) {
+    throw new Error(
+      `Missing pre-geocoded coordinates for area: "${area.name}"`
+    );
+  }
+
+  return {
+    type: "Feature",
+    geometry: areas.get(area.name) ?? {
+      type: "Point",
+      coordinates: [coords.lng, coords.lat],
+    },
+    properties: {
+      feature_type: "area",
+      address: area.name,
+      start_time: area.timespans[0]?.start || "",
+      end_time: area.timespans[0]?.end || "",
+      timespans: JSON.stringify(area.timespans), // Store all timespans as JSON string
+    },
+  };
+}
+
 // Step 5 — Feature Collection Assembly
 export async function convertToGeoJSON(
   extractedData: ExtractedData,
-  preGeocodedAddresses: Map<string, IntersectionCoordinates>
+  preGeocodedAddresses: Map<string, IntersectionCoordinates>,
+  areas: Map<string, GeoJSONPolygon> = new Map()
 ): Promise<GeoJSONFeatureCollection> {
   const features: GeoJSONFeature[] = [];
   const fallbackPins: typeof extractedData.pins = [];
@@ -280,6 +398,24 @@ export async function convertToGeoJSON(
     }
   }
 
+  // Whole streets, as a pin at the center of the street when their ways
+  // can't be fetched
+  for (const street of extractedData.whole_streets ?? []) {
+    try {
+      features.push(...(await createWholeStreetFeatures(street)));
+    } catch (error) {
+      console.warn(
+        `⚠️  Failed to create whole street "${street.street}": ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+      fallbackPins.push({
+        address: street.street,
+        timespans: street.timespans,
+      });
+    }
+  }
+
   // Process all pins (including fallback pins from failed streets)
   const allPins = [...extractedData.pins, ...fallbackPins];
   for (const pin of allPins) {
@@ -295,6 +431,30 @@ export async function convertToGeoJSON(
     }
   }
 
+  for (const block of extractedData.blocks ?? []) {
+    try {
+      features.push(createBlockFeature(block, preGeocodedAddresses, areas));
+    } catch (error) {
+      console.error(
+        `Failed to create block for "${formatBlockReference(block)}": ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
+  for (const area of extractedData.areas ?? []) {
+    try {
+      features.push(createAreaFeature(area, preGeocodedAddresses, areas));
+    } catch (error) {
+      console.error(
+        `Failed to create area for "${area.name}": ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
   return {
     type: "FeatureCollection",
     features,
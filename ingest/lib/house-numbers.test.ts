@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import type { Position } from "geojson";
+import type { StreetSection } from "./types";
+import {
+  getAffectedSide,
+  getEndpointHouseNumber,
+  getHouseNumberEndpoints,
+  getSideOfLine,
+} from "./house-numbers";
+
+// A street running east along a parallel
+const centerline: Position[] = [
+  [23.33, 42.69],
+  [23.34, 42.69],
+];
+
+const north = { lat: 42.6902, lng: 23.335 };
+const south = { lat: 42.6898, lng: 23.335 };
+
+function section(overrides: Partial<StreetSection> = {}): StreetSection {
+  return {
+    street: "ул. Оборище",
+    from: "ул. Оборище 10",
+    to: "ул. Оборище 40",
+    timespans: [],
+    ...overrides,
+  };
+}
+
+describe("getEndpointHouseNumber", () => {
+  it("should read house numbers on the section's street", () => {
+    expect(getEndpointHouseNumber(section(), "ул. Оборище 10")).toBe(10);
+    expect(getEndpointHouseNumber(section(), "Оборище № 15А")).toBe(15);
+  });
+
+  it("should return null for cross streets", () => {
+    expect(getEndpointHouseNumber(section(), "ул. Шипка")).toBeNull();
+    expect(getEndpointHouseNumber(section(), "ул. Шипка 6")).toBeNull();
+  });
+});
+
+describe("getHouseNumberEndpoints", () => {
+  it("should list the house-number endpoints once", () => {
+    expect(
+      getHouseNumberEndpoints([
+        section(),
+        section({ from: "ул. Шипка", to: "ул. Оборище 40" }),
+      ])
+    ).toEqual(["ул. Оборище 10", "ул. Оборище 40"]);
+  });
+});
+
+describe("getSideOfLine", () => {
+  it("should tell left from right along the line", () => {
+    expect(getSideOfLine(centerline, north)).toBe(1);
+    expect(getSideOfLine(centerline, south)).toBe(-1);
+    expect(getSideOfLine([...centerline].reverse(), north)).toBe(-1);
+  });
+
+  it("should return 0 for points on the line", () => {
+    expect(getSideOfLine(centerline, { lat: 42.69, lng: 23.335 })).toBe(0);
+  });
+});
+
+describe("getAffectedSide", () => {
+  it("should return the side of a house with the affected parity", () => {
+    expect(
+      getAffectedSide(section({ side: "even" }), centerline, {
+        from: north,
+        to: north,
+      })
+    ).toBe(1);
+  });
+
+  it("should return the opposite side of a house with the other parity", () => {
+    expect(
+      getAffectedSide(
+        section({ from: "ул. Оборище 11", side: "even" }),
+        centerline,
+        { from: north, to: north }
+      )
+    ).toBe(-1);
+  });
+
+  it("should fall back to the other endpoint", () => {
+    expect(
+      getAffectedSide(
+        section({ from: "ул. Шипка", side: "odd" }),
+        centerline,
+        { from: north, to: south }
+      )
+    ).toBe(1);
+  });
+
+  it("should return null when no house tells the side", () => {
+    expect(
+      getAffectedSide(section(), centerline, { from: north, to: south })
+    ).toBeNull();
+    expect(
+      getAffectedSide(
+        section({ from: "ул. Шипка", to: "ул. Гладстон", side: "even" }),
+        centerline,
+        { from: north, to: south }
+      )
+    ).toBeNull();
+  });
+});
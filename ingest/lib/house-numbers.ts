@@ -0,0 +1,109 @@
+/**
+ * House-number ranges of street sections ("ул. Оборище от № 10 до № 40,
+ * четна страна"): the endpoints are numbered addresses on the street itself
+ * and the section may be limited to its even or odd side
+ */
+
+import * as turf from "@turf/turf";
+import type { Position } from "geojson";
+import type { StreetSection, StreetSide } from "./types";
+import {
+  MIN_STREET_MATCH_SCORE,
+  parseNumberedAddress,
+  scoreStreetName,
+} from "./street-names";
+
+// Houses geocoded closer than this to the centerline tell no side
+const ON_LINE_METERS = 2;
+
+/**
+ * House number of a section endpoint given as an address on the section's
+ * own street ("ул. Оборище 10" on ул. Оборище); null for cross streets
+ */
+export function getEndpointHouseNumber(
+  section: Pick<StreetSection, "street">,
+  endpoint: string
+): number | null {
+  const parsed = parseNumberedAddress(endpoint);
+  if (
+    !parsed ||
+    scoreStreetName(section.street, parsed.street) < MIN_STREET_MATCH_SCORE
+  ) {
+    return null;
+  }
+  return Number.parseInt(parsed.housenumber, 10);
+}
+
+/**
+ * Endpoints of the sections that are house numbers, without duplicates
+ */
+export function getHouseNumberEndpoints(sections: StreetSection[]): string[] {
+  const endpoints = sections.flatMap((section) =>
+    [section.from, section.to].filter(
+      (endpoint) => getEndpointHouseNumber(section, endpoint) !== null
+    )
+  );
+  return [...new Set(endpoints)];
+}
+
+/**
+ * Side of a line a point lies on, looking along the line: 1 left, -1 right,
+ * 0 on the line
+ */
+export function getSideOfLine(
+  line: Position[],
+  point: { lat: number; lng: number }
+): 1 | -1 | 0 {
+  const snapped = turf.nearestPointOnLine(
+    turf.lineString(line),
+    turf.point([point.lng, point.lat]),
+    { units: "meters" }
+  );
+  if (snapped.properties.dist < ON_LINE_METERS) {
+    return 0;
+  }
+
+  const index = Math.min(snapped.properties.index, line.length - 2);
+  const [x1, y1] = line[index];
+  const [x2, y2] = line[index + 1];
+  const cross = (x2 - x1) * (point.lat - y1) - (y2 - y1) * (point.lng - x1);
+  return cross > 0 ? 1 : -1;
+}
+
+function getParity(houseNumber: number): StreetSide {
+  return houseNumber % 2 === 0 ? "even" : "odd";
+}
+
+/**
+ * Side of the centerline (1 left, -1 right) the affected houses are on,
+ * told by the endpoints that are house numbers: a house of the affected
+ * parity lies on that side, one of the other parity across the street.
+ * Null without a side, or when no house tells it (cross-street endpoints,
+ * houses geocoded onto the centerline).
+ */
+export function getAffectedSide(
+  section: StreetSection,
+  centerline: Position[],
+  endpoints: {
+    from: { lat: number; lng: number };
+    to: { lat: number; lng: number };
+  }
+): 1 | -1 | null {
+  if (!section.side) {
+    return null;
+  }
+
+  for (const key of ["from", "to"] as const) {
+    const houseNumber = getEndpointHouseNumber(section, section[key]);
+    if (houseNumber === null) {
+      continue;
+    }
+    const side = getSideOfLine(centerline, endpoints[key]);
+    if (side === 0) {
+      continue;
+    }
+    return getParity(houseNumber) === section.side ? side : side === 1 ? -1 : 1;
+  }
+
+  return null;
+}
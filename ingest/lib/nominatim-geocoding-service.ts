@@ -0,0 +1,110 @@
+import { Address } from "./types";
+import {
+  SOFIA_BOUNDS,
+  createPointAddress,
+  isWithinSofia,
+} from "./geocoding-utils";
+import { withGeocodingCache } from "./geocoding-cache";
+import type { GeocodingProvider } from "./geocoding-provider";
+import {
+  CENTERLINE_CONFIDENCE,
+  NOMINATIM_CONFIDENCE,
+} from "./geocoding-quality";
+
+// Usage policy of the public instance: at most 1 request per second
+const NOMINATIM_DELAY_MS = 1000;
+
+// NOMINATIM_URL points the provider to a self-hosted or stand-in server
+const DEFAULT_NOMINATIM_URL = "https://nominatim.openstreetmap.org";
+
+/**
+ * Geocode an address (with or without a house number) using Nominatim,
+ * through the geocoding cache
+ */
+export async function nominatimGeocodeAddress(
+  address: string
+): Promise<Address | null> {
+  const coords = await withGeocodingCache("nominatim-address", address, () =>
+    fetchNominatimCoordinates(address)
+  );
+  if (!coords) {
+    return null;
+  }
+
+  // Street names resolve to a point of the street
+  return createPointAddress(
+    address,
+    coords,
+    /\d+/.test(address)
+      ? { method: "fallback", confidence: NOMINATIM_CONFIDENCE }
+      : { method: "fallback", confidence: CENTERLINE_CONFIDENCE }
+  );
+}
+
+async function fetchNominatimCoordinates(
+  address: string
+): Promise<{ lat: number; lng: number } | null> {
+  // Ensure address includes Sofia context
+  const fullAddress =
+    address.includes("София") || address.includes("Sofia")
+      ? address
+      : `${address}, София, България`;
+
+  // Add bounded search to Sofia area and increase limit to filter results
+  const baseUrl = process.env.NOMINATIM_URL || DEFAULT_NOMINATIM_URL;
+  const url = `${baseUrl}/search?q=${encodeURIComponent(
+    fullAddress
+  )}&format=json&limit=5&addressdetails=1&bounded=1&viewbox=${
+    SOFIA_BOUNDS.west
+  },${SOFIA_BOUNDS.south},${SOFIA_BOUNDS.east},${SOFIA_BOUNDS.north}`;
+
+  const response = await fetch(url, {
+    headers: {
+      "User-Agent": "OborishteMap/1.0",
+    },
+  });
+
+  // Thrown, so that a failing instance is not cached as not found
+  if (!response.ok) {
+    throw new Error(`Nominatim API error: ${response.status}`);
+  }
+
+  const data = await response.json();
+
+  if (data && data.length > 0) {
+    // Find first result that is actually within Sofia boundaries
+    for (const result of data) {
+      const coords = {
+        lat: Number.parseFloat(result.lat),
+        lng: Number.parseFloat(result.lon),
+      };
+
+      // Validate coordinates are within Sofia
+      if (isWithinSofia(coords.lat, coords.lng)) {
+        console.log(
+          `   ✅ Nominatim geocoded: "${address}" → [${coords.lat}, ${coords.lng}]`
+        );
+        return coords;
+      } else {
+        console.warn(
+          `   ⚠️  Nominatim result for "${address}" outside Sofia: [${coords.lat}, ${coords.lng}]`
+        );
+      }
+    }
+
+    console.warn(
+      `   ❌ All Nominatim results for "${address}" are outside Sofia`
+    );
+    return null;
+  }
+
+  console.warn(`   ❌ Nominatim found no results for: "${address}"`);
+  return null;
+}
+
+export const nominatimProvider: GeocodingProvider = {
+  name: "nominatim",
+  delayMs: NOMINATIM_DELAY_MS,
+  geocodeAddress: nominatimGeocodeAddress,
+  geocodeStreet: nominatimGeocodeAddress,
+};
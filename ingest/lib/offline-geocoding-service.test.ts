@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { buildGazetteer, configureGazetteer } from "./gazetteer";
+import {
+  getOfflineStreetSectionGeometry,
+  offlineGeocodeAddress,
+  offlineGeocodeIntersection,
+} from "./offline-geocoding-service";
+
+function street(highway: string, name: string, coordinates: number[][]) {
+  return {
+    type: "Feature",
+    properties: { highway, name },
+    geometry: { type: "LineString", coordinates },
+  };
+}
+
+// ул. Шипка runs north, crossed by two east-west streets
+const extract = {
+  type: "FeatureCollection",
+  features: [
+    street("residential", "улица Шипка", [
+      [23.3358, 42.692],
+      [23.3358, 42.6935],
+      [23.3358, 42.695],
+    ]),
+    street("primary", "булевард Васил Левски", [
+      [23.3348, 42.6935],
+      [23.3368, 42.6935],
+    ]),
+    street("residential", "улица Оборище", [
+      [23.3348, 42.6948],
+      [23.3368, 42.6948],
+    ]),
+  ],
+};
+
+describe("offline-geocoding-service", () => {
+  beforeEach(() => {
+    configureGazetteer(buildGazetteer(extract, "test.geojson"));
+  });
+
+  afterEach(() => {
+    configureGazetteer(null);
+  });
+
+  it("should geocode intersections from the gazetteer", async () => {
+    const address = await offlineGeocodeIntersection(
+      "ул. Шипка ∩ бул. Васил Левски"
+    );
+
+    expect(address?.formattedAddress).toBe("ул. Шипка ∩ бул. Васил Левски");
+    expect(address?.coordinates.lat).toBeCloseTo(42.6935, 5);
+    expect(address?.coordinates.lng).toBeCloseTo(23.3358, 5);
+    expect(address?.geoJson).toEqual({
+      type: "Point",
+      coordinates: [address?.coordinates.lng, address?.coordinates.lat],
+    });
+  });
+
+  it("should skip intersections of unknown streets", async () => {
+    expect(
+      await offlineGeocodeIntersection("ул. Шипка ∩ ул. Несъществуваща")
+    ).toBeNull();
+    expect(await offlineGeocodeIntersection("ул. Шипка")).toBeNull();
+  });
+
+  it("should extract a street section between two points", async () => {
+    const section = await getOfflineStreetSectionGeometry(
+      "ул. Шипка",
+      { lat: 42.6935, lng: 23.3358 },
+      { lat: 42.6948, lng: 23.3358 }
+    );
+
+    expect(section?.[0]).toEqual([23.3358, 42.6935]);
+    expect(section?.[section.length - 1]).toEqual([23.3358, 42.695]);
+  });
+
+  it("should geocode a street name to its center", async () => {
+    const address = await offlineGeocodeAddress("ул. Оборище");
+
+    expect(address?.coordinates.lat).toBeCloseTo(42.6948, 5);
+    expect(address?.coordinates.lng).toBeCloseTo(23.3358, 5);
+  });
+
+  it("should reject loading a missing gazetteer file", async () => {
+    configureGazetteer(null);
+    process.env.GAZETTEER_PATH = "does-not-exist.json";
+
+    await expect(offlineGeocodeAddress("ул. Шипка")).rejects.toThrow(
+      "Gazetteer not found"
+    );
+
+    delete process.env.GAZETTEER_PATH;
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * Offline counterpart of overpass-geocoding-service.ts: resolves streets,
+ * intersections, numbered addresses, blocks and areas from the local
+ * gazetteer, so results are deterministic and need no network access
+ */
+
+import * as turf from "@turf/turf";
+import type { Position } from "geojson";
+import { Address } from "./types";
+import {
+  findAddress,
+  findArea,
+  findBlock,
+  findStreetGeometry,
+  loadGazetteer,
+} from "./gazetteer";
+import { createPointAddress } from "./geocoding-utils";
+import type { GeocodingProvider } from "./geocoding-provider";
+import {
+  CENTERLINE_CONFIDENCE,
+  NOMINATIM_CONFIDENCE,
+} from "./geocoding-quality";
+import {
+  extractStreetSection,
+  findGeometricIntersection,
+} from "./street-geometry";
+
+/**
+ * Geocode a "street ∩ street" intersection from the gazetteer
+ */
+export async function offlineGeocodeIntersection(
+  intersection: string
+): Promise<Address | null> {
+  const gazetteer = await loadGazetteer();
+  const [street1Name, street2Name] = intersection
+    .split("∩")
+    .map((s) => s.trim());
+
+  if (!street1Name || !street2Name) {
+    console.error(`Invalid intersection format: ${intersection}`);
+    return null;
+  }
+
+  const geom1 = findStreetGeometry(gazetteer, street1Name);
+  const geom2 = findStreetGeometry(gazetteer, street2Name);
+  if (!geom1 || !geom2) {
+    console.log(
+      `❌ Couldn't find in gazetteer: "${!geom1 ? street1Name : street2Name}"`
+    );
+    return null;
+  }
+
+  const intersectionPoint = findGeometricIntersection(geom1, geom2);
+  if (!intersectionPoint) {
+    console.error(`❌ Could not find intersection`);
+    return null;
+  }
+
+  const { lat, lng, confidence } = intersectionPoint;
+  return createPointAddress(
+    intersection,
+    { lat, lng },
+    { method: "overpass-intersection", confidence }
+  );
+}
+
+/**
+ * Get street section geometry between two points from the gazetteer
+ */
+export async function getOfflineStreetSectionGeometry(
+  streetName: string,
+  startCoords: { lat: number; lng: number },
+  endCoords: { lat: number; lng: number }
+): Promise<Position[] | null> {
+  const gazetteer = await loadGazetteer();
+  const streetGeometry = findStreetGeometry(gazetteer, streetName);
+  if (!streetGeometry) {
+    console.warn(`   No geometry found for street: ${streetName}`);
+    return null;
+  }
+
+  try {
+    return extractStreetSection(streetGeometry, startCoords, endCoords);
+  } catch (error) {
+    console.error(`Error getting street section geometry:`, error);
+    return null;
+  }
+}
+
+/**
+ * Geocode an address from the gazetteer: numbered addresses by the addr:*
+ * tags of buildings, street names by the center of the street
+ */
+export async function offlineGeocodeAddress(
+  address: string
+): Promise<Address | null> {
+  const gazetteer = await loadGazetteer();
+
+  if (/\d+/.test(address)) {
+    const coords = findAddress(gazetteer, address);
+    // addr:* of OSM buildings, as exact as Nominatim
+    return coords
+      ? createPointAddress(address, coords, {
+          method: "fallback",
+          confidence: NOMINATIM_CONFIDENCE,
+        })
+      : null;
+  }
+
+  const geom = findStreetGeometry(gazetteer, address);
+  if (!geom) {
+    return null;
+  }
+
+  const [lng, lat] = turf.center(geom).geometry.coordinates;
+  return createPointAddress(
+    address,
+    { lat, lng },
+    { method: "overpass-centerline", confidence: CENTERLINE_CONFIDENCE }
+  );
+}
+
+/**
+ * Geocode a block, its entrance or a whole complex from the gazetteer
+ */
+export async function offlineGeocodeBlock(
+  reference: string
+): Promise<Address | null> {
+  const gazetteer = await loadGazetteer();
+  const address = findBlock(gazetteer, reference);
+  if (!address) {
+    console.log(`❌ Couldn't find in gazetteer: "${reference}"`);
+  }
+  return address;
+}
+
+/**
+ * Get the geometry of all the ways of a street from the gazetteer
+ */
+export async function getOfflineWholeStreet(
+  streetName: string
+): Promise<Position[][] | null> {
+  const gazetteer = await loadGazetteer();
+  const geom = findStreetGeometry(gazetteer, streetName);
+  if (!geom) {
+    console.log(`❌ Couldn't find in gazetteer: "${streetName}"`);
+  }
+  return geom ? geom.geometry.coordinates : null;
+}
+
+/**
+ * Geocode a neighbourhood, complex or district from the gazetteer
+ */
+export async function offlineGeocodeArea(
+  name: string
+): Promise<Address | null> {
+  const gazetteer = await loadGazetteer();
+  const address = findArea(gazetteer, name);
+  if (!address) {
+    console.log(`❌ Couldn't find in gazetteer: "${name}"`);
+  }
+  return address;
+}
+
+/**
+ * The gazetteer handles everything Overpass and Nominatim do, without
+ * network access or rate limits
+ */
+export const offlineProvider: GeocodingProvider = {
+  name: "offline",
+  delayMs: 0,
+  geocodeAddress: offlineGeocodeAddress,
+  geocodeStreet: offlineGeocodeAddress,
+  geocodeIntersection: offlineGeocodeIntersection,
+  getStreetSection: getOfflineStreetSectionGeometry,
+  geocodeBlock: offlineGeocodeBlock,
+  getWholeStreet: getOfflineWholeStreet,
+  geocodeArea: offlineGeocodeArea,
+};
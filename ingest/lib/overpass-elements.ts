@@ -0,0 +1,53 @@
+/**
+ * Elements of Overpass JSON (`out geom` / `out center`), as returned by the
+ * Overpass API and stored in OSM extracts for the gazetteer.
+ */
+
+import type { Position } from "geojson";
+
+export interface OverpassPoint {
+  lat: number;
+  lon: number;
+}
+
+export interface OverpassMember {
+  type: "node" | "way" | "relation";
+  ref: number;
+  role: string;
+  geometry?: OverpassPoint[]; // Ways of a relation with `out geom`
+}
+
+interface OverpassElementBase {
+  id: number;
+  tags?: Record<string, string>;
+}
+
+export interface OverpassNode extends OverpassElementBase, OverpassPoint {
+  type: "node";
+}
+
+export interface OverpassWay extends OverpassElementBase {
+  type: "way";
+  nodes?: number[]; // Ids of the nodes of the way
+  geometry?: OverpassPoint[]; // `out geom`
+  center?: OverpassPoint; // `out center`
+}
+
+export interface OverpassRelation extends OverpassElementBase {
+  type: "relation";
+  members?: OverpassMember[];
+  center?: OverpassPoint; // `out center`
+}
+
+export type OverpassElement = OverpassNode | OverpassWay | OverpassRelation;
+
+export interface OverpassResponse {
+  elements?: OverpassElement[];
+}
+
+/**
+ * Positions of an Overpass geometry, [lng, lat] as in GeoJSON
+ */
+export function toPositions(geometry: OverpassPoint[] = []): Position[] {
+  return geometry.map((point) => [point.lon, point.lat]);
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { selectPhotonFeature } from "./photon-geocoding-service";
+
+function feature(lng: number, lat: number, properties: Record<string, string>) {
+  const coordinates: [number, number] = [lng, lat];
+  return { geometry: { type: "Point" as const, coordinates }, properties };
+}
+
+describe("selectPhotonFeature", () => {
+  const features = [
+    // Same number on another street, ranked first by Photon
+    feature(23.33, 42.69, {
+      street: "улица Шипченски проход",
+      housenumber: "6",
+    }),
+    feature(23.3358, 42.6935, { street: "улица Шипка", housenumber: "6" }),
+    feature(23.3358, 42.694, { name: "улица Шипка", osm_key: "highway" }),
+    // Outside Sofia
+    feature(24.75, 42.15, { name: "улица Шипка", osm_key: "highway" }),
+  ];
+
+  it("should pick the building with the number on the street", () => {
+    expect(selectPhotonFeature("ул. Шипка № 6", features)).toBe(features[1]);
+  });
+
+  it("should pick the street for street names", () => {
+    expect(selectPhotonFeature("ул. Шипка", features)).toBe(features[2]);
+  });
+
+  it("should not accept other numbers or places outside Sofia", () => {
+    expect(selectPhotonFeature("ул. Шипка 8", features)).toBeNull();
+    expect(selectPhotonFeature("ул. Шипка", features.slice(3))).toBeNull();
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Photon (https://photon.komoot.io): OSM search with typo tolerance, free
+ * of API keys and usable self-hosted
+ */
+
+import { Address } from "./types";
+import {
+  SOFIA_BOUNDS,
+  SOFIA_CENTER,
+  createPointAddress,
+  isWithinSofia,
+} from "./geocoding-utils";
+import { withGeocodingCache } from "./geocoding-cache";
+import type { GeocodingProvider } from "./geocoding-provider";
+import {
+  CENTERLINE_CONFIDENCE,
+  NOMINATIM_CONFIDENCE,
+} from "./geocoding-quality";
+import {
+  MIN_STREET_MATCH_SCORE,
+  normalizeHouseNumber,
+  parseNumberedAddress,
+  scoreStreetName,
+} from "./street-names";
+
+const PHOTON_DELAY_MS = 500;
+
+// PHOTON_URL points the provider to a self-hosted or stand-in server
+const DEFAULT_PHOTON_URL = "https://photon.komoot.io";
+
+interface PhotonFeature {
+  geometry: { type: "Point"; coordinates: [number, number] };
+  properties: {
+    name?: string;
+    street?: string;
+    housenumber?: string;
+    osm_key?: string;
+  };
+}
+
+/**
+ * Pick the feature matching the query: a building with the same number on
+ * the street for numbered addresses, the street itself otherwise
+ */
+export function selectPhotonFeature(
+  address: string,
+  features: PhotonFeature[]
+): PhotonFeature | null {
+  const numbered = parseNumberedAddress(address);
+  const street = numbered?.street ?? address.split(",")[0];
+  const housenumber = numbered?.housenumber;
+
+  const matches = features.filter(({ geometry, properties }) => {
+    const [lng, lat] = geometry.coordinates;
+    if (!isWithinSofia(lat, lng)) {
+      return false;
+    }
+
+    if (housenumber) {
+      return (
+        properties.housenumber !== undefined &&
+        normalizeHouseNumber(properties.housenumber) === housenumber &&
+        scoreStreetName(street, properties.street ?? "") >=
+          MIN_STREET_MATCH_SCORE
+      );
+    }
+
+    return (
+      properties.osm_key === "highway" &&
+      scoreStreetName(street, properties.name ?? "") >= MIN_STREET_MATCH_SCORE
+    );
+  });
+
+  return matches[0] ?? null;
+}
+
+/**
+ * Geocode an address (with or without a house number) using Photon,
+ * through the geocoding cache
+ */
+export async function photonGeocodeAddress(
+  address: string
+): Promise<Address | null> {
+  const coords = await withGeocodingCache("photon-address", address, () =>
+    fetchPhotonCoordinates(address)
+  );
+  if (!coords) {
+    return null;
+  }
+
+  return createPointAddress(
+    address,
+    coords,
+    parseNumberedAddress(address)
+      ? { method: "fallback", confidence: NOMINATIM_CONFIDENCE }
+      : { method: "fallback", confidence: CENTERLINE_CONFIDENCE }
+  );
+}
+
+async function fetchPhotonCoordinates(
+  address: string
+): Promise<{ lat: number; lng: number } | null> {
+  const baseUrl = process.env.PHOTON_URL || DEFAULT_PHOTON_URL;
+  // Results are biased to the center and limited to the Sofia bounds
+  const url = `${baseUrl}/api?q=${encodeURIComponent(
+    `${address}, София`
+  )}&limit=10&lat=${SOFIA_CENTER.lat}&lon=${SOFIA_CENTER.lng}&bbox=${
+    SOFIA_BOUNDS.west
+  },${SOFIA_BOUNDS.south},${SOFIA_BOUNDS.east},${SOFIA_BOUNDS.north}`;
+
+  const response = await fetch(url, {
+    headers: {
+      "User-Agent": "OborishteMap/1.0",
+    },
+  });
+
+  // Thrown, so that a failing instance is not cached as not found
+  if (!response.ok) {
+    throw new Error(`Photon API error: ${response.status}`);
+  }
+
+  const data = await response.json();
+  const feature = selectPhotonFeature(address, data?.features ?? []);
+  if (!feature) {
+    console.warn(`   ❌ Photon found no matching results for: "${address}"`);
+    return null;
+  }
+
+  const [lng, lat] = feature.geometry.coordinates;
+  console.log(`   ✅ Photon geocoded: "${address}" → [${lat}, ${lng}]`);
+  return { lat, lng };
+}
+
+export const photonProvider: GeocodingProvider = {
+  name: "photon",
+  delayMs: PHOTON_DELAY_MS,
+  geocodeAddress: photonGeocodeAddress,
+  geocodeStreet: photonGeocodeAddress,
+};
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { parseSofiaDateTime, sofiaLocalTimeToDate } from "./sofia-time";
+
+describe("sofiaLocalTimeToDate", () => {
+  it("should apply the winter offset (UTC+2)", () => {
+    expect(sofiaLocalTimeToDate(2025, 12, 19, 10, 30)?.toISOString()).toBe(
+      "2025-12-19T08:30:00.000Z"
+    );
+  });
+
+  it("should apply the summer offset (UTC+3)", () => {
+    expect(sofiaLocalTimeToDate(2025, 7, 17, 18, 48)?.toISOString()).toBe(
+      "2025-07-17T15:48:00.000Z"
+    );
+  });
+
+  it("should handle times right after the DST switch", () => {
+    // Clocks moved from 03:00 to 04:00 on 30.03.2025
+    expect(sofiaLocalTimeToDate(2025, 3, 30, 4, 0)?.toISOString()).toBe(
+      "2025-03-30T01:00:00.000Z"
+    );
+    expect(sofiaLocalTimeToDate(2025, 3, 30, 2, 0)?.toISOString()).toBe(
+      "2025-03-30T00:00:00.000Z"
+    );
+  });
+
+  it("should reject invalid dates", () => {
+    expect(sofiaLocalTimeToDate(2025, 2, 31)).toBeNull();
+    expect(sofiaLocalTimeToDate(2025, 1, 1, 24, 0)).toBeNull();
+  });
+});
+
+describe("parseSofiaDateTime", () => {
+  it("should parse the Bulgarian format used in timespans", () => {
+    expect(parseSofiaDateTime("29.12.2025 10:51")?.toISOString()).toBe(
+      "2025-12-29T08:51:00.000Z"
+    );
+    expect(parseSofiaDateTime("29.12.2025")?.toISOString()).toBe(
+      "2025-12-28T22:00:00.000Z"
+    );
+  });
+
+  it("should parse ISO strings without offset as Sofia time", () => {
+    expect(parseSofiaDateTime("2025-07-01T10:00:00")?.toISOString()).toBe(
+      "2025-07-01T07:00:00.000Z"
+    );
+  });
+
+  it("should keep explicit offsets", () => {
+    expect(parseSofiaDateTime("2025-07-01T10:00:00.000Z")?.toISOString()).toBe(
+      "2025-07-01T10:00:00.000Z"
+    );
+  });
+
+  it("should return null for unparseable values", () => {
+    expect(parseSofiaDateTime("")).toBeNull();
+    expect(parseSofiaDateTime("скоро")).toBeNull();
+    expect(parseSofiaDateTime("32.01.2025 10:00")).toBeNull();
+  });
+});
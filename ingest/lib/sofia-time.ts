@@ -0,0 +1,113 @@
+export const SOFIA_TIME_ZONE = "Europe/Sofia";
+
+const SOFIA_FORMATTER = new Intl.DateTimeFormat("en-US", {
+  timeZone: SOFIA_TIME_ZONE,
+  hourCycle: "h23",
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+  hour: "2-digit",
+  minute: "2-digit",
+  second: "2-digit",
+});
+
+// "DD.MM.YYYY HH:MM" or "DD.MM.YYYY"
+const BULGARIAN_DATE_TIME =
+  /^(\d{1,2})\.(\d{1,2})\.(\d{4})(?:\s+(\d{1,2}):(\d{2}))?$/;
+
+// "YYYY-MM-DDTHH:MM:SS" without offset (e.g. toplo.bg FromDate)
+const LOCAL_ISO_DATE_TIME =
+  /^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2})(?::\d{2}(?:\.\d+)?)?)?$/;
+
+/**
+ * Offset of Sofia local time from UTC at the given instant, in milliseconds
+ * (+2h in winter, +3h in summer)
+ */
+function getSofiaOffsetMs(instant: number): number {
+  const parts = Object.fromEntries(
+    SOFIA_FORMATTER.formatToParts(new Date(instant)).map((part) => [
+      part.type,
+      part.value,
+    ])
+  );
+  const localAsUtc = Date.UTC(
+    Number(parts.year),
+    Number(parts.month) - 1,
+    Number(parts.day),
+    Number(parts.hour),
+    Number(parts.minute),
+    Number(parts.second)
+  );
+  return localAsUtc - Math.floor(instant / 1000) * 1000;
+}
+
+/**
+ * Convert a Sofia wall-clock time to a Date, independent of the timezone
+ * of the machine running the code
+ * @returns null if the components don't form a valid date (e.g. 31.02)
+ */
+export function sofiaLocalTimeToDate(
+  year: number,
+  month: number, // 1-12
+  day: number,
+  hour = 0,
+  minute = 0
+): Date | null {
+  const localAsUtc = Date.UTC(year, month - 1, day, hour, minute);
+  const check = new Date(localAsUtc);
+  if (
+    Number.isNaN(localAsUtc) ||
+    check.getUTCFullYear() !== year ||
+    check.getUTCMonth() !== month - 1 ||
+    check.getUTCDate() !== day ||
+    check.getUTCHours() !== hour ||
+    check.getUTCMinutes() !== minute
+  ) {
+    return null;
+  }
+
+  // The offset depends on the instant itself; re-check around DST changes
+  const offset = getSofiaOffsetMs(localAsUtc);
+  const correctedOffset = getSofiaOffsetMs(localAsUtc - offset);
+  return new Date(localAsUtc - correctedOffset);
+}
+
+/**
+ * Parse a date/time string as Sofia local time. Supported formats:
+ * "DD.MM.YYYY HH:MM", "DD.MM.YYYY", "YYYY-MM-DDTHH:MM[:SS]" without offset,
+ * and any ISO string with an explicit offset or "Z".
+ * @returns null if the string can't be parsed
+ */
+export function parseSofiaDateTime(value: string): Date | null {
+  const trimmed = value?.trim();
+  if (!trimmed) {
+    return null;
+  }
+
+  const bulgarian = BULGARIAN_DATE_TIME.exec(trimmed);
+  if (bulgarian) {
+    const [, day, month, year, hour = "0", minute = "0"] = bulgarian;
+    return sofiaLocalTimeToDate(
+      Number(year),
+      Number(month),
+      Number(day),
+      Number(hour),
+      Number(minute)
+    );
+  }
+
+  const localIso = LOCAL_ISO_DATE_TIME.exec(trimmed);
+  if (localIso) {
+    const [, year, month, day, hour = "0", minute = "0"] = localIso;
+    return sofiaLocalTimeToDate(
+      Number(year),
+      Number(month),
+      Number(day),
+      Number(hour),
+      Number(minute)
+    );
+  }
+
+  const date = new Date(trimmed);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
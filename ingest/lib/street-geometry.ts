@@ -0,0 +1,374 @@
+/**
+ * Street geometry helpers shared by the Overpass and the offline
+ * (gazetteer) geocoders
+ */
+
+import * as turf from "@turf/turf";
+import type { Feature, MultiLineString, Position } from "geojson";
+import { SOFIA_CENTER } from "./geocoding-utils";
+import { INTERSECTION_CONFIDENCE } from "./geocoding-quality";
+
+const BUFFER_DISTANCE_METERS = 30; // Buffer distance for street geometries
+
+/**
+ * Crossing of two streets, with the confidence of how it was found
+ */
+export interface IntersectionPoint {
+  lat: number;
+  lng: number;
+  confidence: number;
+}
+
+/**
+ * Find geometric intersection between two street geometries
+ */
+export function findGeometricIntersection(
+  street1: Feature<MultiLineString>,
+  street2: Feature<MultiLineString>
+): IntersectionPoint | null {
+  try {
+    // First, try exact intersection using turf.lineIntersect
+    const intersections = turf.lineIntersect(street1, street2);
+
+    if (intersections.features.length > 0) {
+      console.log(
+        `   Found ${intersections.features.length} exact intersection(s)`
+      );
+
+      if (intersections.features.length === 1) {
+        const point = intersections.features[0].geometry.coordinates;
+        console.log(
+          `   ✅ Intersection at: [${point[1].toFixed(6)}, ${point[0].toFixed(
+            6
+          )}]`
+        );
+        return {
+          lng: point[0],
+          lat: point[1],
+          confidence: INTERSECTION_CONFIDENCE.exact,
+        };
+      }
+
+      // Multiple intersections - use Sofia city center as reference point
+      const target = SOFIA_CENTER;
+      const targetPoint = turf.point([target.lng, target.lat]);
+
+      const intersectionsWithDistance = intersections.features.map(
+        (feature) => {
+          const coords = feature.geometry.coordinates;
+          const distance = turf.distance(targetPoint, feature, {
+            units: "meters",
+          });
+          return {
+            lat: coords[1],
+            lng: coords[0],
+            distance: distance,
+          };
+        }
+      );
+
+      // Sort by distance from Sofia center
+      intersectionsWithDistance.sort((a, b) => a.distance - b.distance);
+
+      const best = intersectionsWithDistance[0];
+      console.log(
+        `   ✅ Using closest to Sofia center: [${best.lat.toFixed(
+          6
+        )}, ${best.lng.toFixed(6)}] (${best.distance.toFixed(0)}m away)`
+      );
+
+      return {
+        lng: best.lng,
+        lat: best.lat,
+        confidence: INTERSECTION_CONFIDENCE.closestToCenter,
+      };
+    }
+
+    // If no exact intersection, find nearest points
+    console.log(`   No exact intersections, finding nearest points...`);
+
+    // Buffer the streets slightly to account for small gaps
+    const buffered1 = turf.buffer(street1, BUFFER_DISTANCE_METERS, {
+      units: "meters",
+    });
+    const buffered2 = turf.buffer(street2, BUFFER_DISTANCE_METERS, {
+      units: "meters",
+    });
+
+    if (!buffered1 || !buffered2) {
+      console.warn(`   Could not create buffers`);
+      return null;
+    }
+
+    // Try intersection on buffered geometries
+    const bufferedIntersection = turf.intersect(
+      turf.featureCollection([buffered1, buffered2])
+    );
+
+    if (bufferedIntersection) {
+      const center = turf.center(bufferedIntersection);
+      const coords = center.geometry.coordinates;
+      console.log(`   Found buffered intersection`);
+      return {
+        lng: coords[0],
+        lat: coords[1],
+        confidence: INTERSECTION_CONFIDENCE.buffered,
+      };
+    }
+
+    // Last resort: find nearest point between the two lines
+    let minDistance = Number.POSITIVE_INFINITY;
+    let bestPoint: IntersectionPoint | null = null;
+
+    for (const line1 of street1.geometry.coordinates) {
+      for (const line2 of street2.geometry.coordinates) {
+        const lineString1 = turf.lineString(line1);
+        const lineString2 = turf.lineString(line2);
+
+        // Sample points along both lines
+        for (const point1 of line1) {
+          const pt1 = turf.point(point1);
+          const nearest = turf.nearestPointOnLine(lineString2, pt1);
+          const dist = turf.distance(pt1, nearest, { units: "meters" });
+
+          if (dist < minDistance) {
+            minDistance = dist;
+            const coords = nearest.geometry.coordinates;
+            bestPoint = {
+              lng: coords[0],
+              lat: coords[1],
+              confidence: INTERSECTION_CONFIDENCE.nearest,
+            };
+          }
+        }
+      }
+    }
+
+    if (bestPoint && minDistance < 200) {
+      // 200m threshold
+      console.log(
+        `✅ Found nearest point at: [${bestPoint.lat.toFixed(
+          6
+        )}, ${bestPoint.lng.toFixed(6)}] (${minDistance.toFixed(1)}m gap)`
+      );
+      return bestPoint;
+    }
+
+    console.warn(
+      `   Streets too far apart (${minDistance.toFixed(
+        1
+      )}m), no valid intersection`
+    );
+    return null;
+  } catch (error) {
+    console.error(`Error finding intersection:`, error);
+    return null;
+  }
+}
+
+/**
+ * Extract the section of a street between two points (usually geocoded
+ * intersections), preserving the start → end direction
+ */
+export function extractStreetSection(
+  streetGeometry: Feature<MultiLineString>,
+  startCoords: { lat: number; lng: number },
+  endCoords: { lat: number; lng: number }
+): Position[] | null {
+  // Create points from coordinates
+  const startPoint = turf.point([startCoords.lng, startCoords.lat]);
+  const endPoint = turf.point([endCoords.lng, endCoords.lat]);
+
+  // Find which segments contain or are near our start/end points
+  const allSegments = streetGeometry.geometry.coordinates;
+  let bestSection: Position[] | null = null;
+  let minTotalDistance = Infinity;
+
+  // Try each segment as a potential section
+  for (const segment of allSegments) {
+    if (segment.length < 2) continue;
+
+    const line = turf.lineString(segment);
+
+    // Check if both points are close to this segment
+    const startSnapped = turf.nearestPointOnLine(line, startPoint);
+    const endSnapped = turf.nearestPointOnLine(line, endPoint);
+
+    const startDist = turf.distance(startPoint, startSnapped, {
+      units: "meters",
+    });
+    const endDist = turf.distance(endPoint, endSnapped, { units: "meters" });
+
+    // If both points are within 50m of this segment, it might be our section
+    if (startDist < 50 && endDist < 50) {
+      const totalDist = startDist + endDist;
+
+      if (totalDist < minTotalDistance) {
+        minTotalDistance = totalDist;
+
+        // Extract the subsection between the two snapped points
+        const startIndex = startSnapped.properties.index || 0;
+        const endIndex = endSnapped.properties.index || segment.length - 1;
+
+        const minIndex = Math.min(startIndex, endIndex);
+        const maxIndex = Math.max(startIndex, endIndex);
+
+        // Extract coordinates between the indices
+        let section = segment.slice(minIndex, maxIndex + 2);
+
+        // CRITICAL: Preserve directionality from start→end
+        // If startIndex > endIndex, we need to reverse the section
+        // to maintain the semantic order (from start coords to end coords)
+        if (startIndex > endIndex) {
+          section = section.slice().reverse();
+        }
+
+        bestSection = section;
+      }
+    }
+  }
+
+  if (bestSection && bestSection.length >= 2) {
+    console.log(`   ✅ Found street section with ${bestSection.length} points`);
+    return bestSection;
+  }
+
+  // Fallback: try to connect multiple segments
+  console.log(`   ⚠️  No single segment found, trying to connect segments...`);
+
+  // Build a path by connecting segments
+  const connectedPath: Position[] = [];
+  let currentPoint = startPoint;
+  const usedSegments = new Set<number>();
+
+  while (
+    connectedPath.length === 0 ||
+    turf.distance(
+      turf.point(connectedPath[connectedPath.length - 1]),
+      endPoint,
+      { units: "meters" }
+    ) > 10
+  ) {
+    // Find nearest unused segment to current point
+    let nearestSegmentIdx = -1;
+    let nearestDist = Infinity;
+
+    for (let i = 0; i < allSegments.length; i++) {
+      if (usedSegments.has(i)) continue;
+
+      const segment = allSegments[i];
+      if (segment.length < 2) continue;
+
+      const line = turf.lineString(segment);
+      const snapped = turf.nearestPointOnLine(line, currentPoint);
+      const dist = turf.distance(currentPoint, snapped, { units: "meters" });
+
+      if (dist < nearestDist) {
+        nearestDist = dist;
+        nearestSegmentIdx = i;
+      }
+    }
+
+    if (nearestSegmentIdx === -1 || nearestDist > 50) {
+      console.log(`   ❌ Cannot connect segments (min dist: ${nearestDist}m)`);
+      break;
+    }
+
+    // Add this segment
+    usedSegments.add(nearestSegmentIdx);
+    const segment = allSegments[nearestSegmentIdx];
+
+    // Determine direction and add coordinates
+    if (connectedPath.length === 0) {
+      connectedPath.push(...segment);
+    } else {
+      // Check if we need to reverse
+      const lastPoint = turf.point(connectedPath[connectedPath.length - 1]);
+      const segmentStart = turf.point(segment[0]);
+      const segmentEnd = turf.point(segment[segment.length - 1]);
+
+      const distToStart = turf.distance(lastPoint, segmentStart, {
+        units: "meters",
+      });
+      const distToEnd = turf.distance(lastPoint, segmentEnd, {
+        units: "meters",
+      });
+
+      if (distToEnd < distToStart) {
+        // Reverse and add
+        connectedPath.push(...segment.slice().reverse());
+      } else {
+        connectedPath.push(...segment);
+      }
+    }
+
+    currentPoint = turf.point(connectedPath[connectedPath.length - 1]);
+
+    // Safety check
+    if (usedSegments.size > 10) {
+      console.log(`   ❌ Too many segments, giving up`);
+      break;
+    }
+  }
+
+  if (connectedPath.length >= 2) {
+    console.log(
+      `   ✅ Connected ${usedSegments.size} segments into path with ${connectedPath.length} points`
+    );
+    return connectedPath;
+  }
+
+  console.log(`   ❌ Could not extract street section`);
+  return null;
+}
+
+function samePosition(a: Position, b: Position): boolean {
+  return a[0] === b[0] && a[1] === b[1];
+}
+
+// Two lines joined where their ends meet, null when they don't
+function joinAtEnds(a: Position[], b: Position[]): Position[] | null {
+  if (samePosition(a.at(-1)!, b[0])) {
+    return [...a, ...b.slice(1)];
+  }
+  if (samePosition(a.at(-1)!, b.at(-1)!)) {
+    return [...a, ...b.slice(0, -1).reverse()];
+  }
+  if (samePosition(a[0], b.at(-1)!)) {
+    return [...b, ...a.slice(1)];
+  }
+  if (samePosition(a[0], b[0])) {
+    return [...b.slice(1).reverse(), ...a];
+  }
+  return null;
+}
+
+/**
+ * Join ways that share their end nodes into as few lines as possible: the
+ * ways of a street into its stretches, the outer ways of a relation into
+ * closed rings
+ */
+export function joinLines(lines: Position[][]): Position[][] {
+  const remaining = lines.filter((line) => line.length >= 2);
+  const joined: Position[][] = [];
+
+  while (remaining.length > 0) {
+    let line = remaining.shift()!;
+
+    let index = 0;
+    while (index < remaining.length && !samePosition(line[0], line.at(-1)!)) {
+      const merged = joinAtEnds(line, remaining[index]);
+      if (merged) {
+        line = merged;
+        remaining.splice(index, 1);
+        index = 0; // The new ends may meet ways already passed
+      } else {
+        index++;
+      }
+    }
+
+    joined.push(line);
+  }
+
+  return joined;
+}
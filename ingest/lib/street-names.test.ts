@@ -0,0 +1,195 @@
+import { describe, expect, it } from "vitest";
+import {
+  MIN_STREET_MATCH_SCORE,
+  STREET_ALIASES_VERSION,
+  canonicalizeStreetAddress,
+  findStreetAlias,
+  getStreetNameVariants,
+  normalizeStreetName,
+  rankStreetNames,
+  scoreStreetName,
+  selectBestStreetMatches,
+  transliterateToCyrillic,
+} from "./street-names";
+
+describe("normalizeStreetName", () => {
+  it("should give the same name for spellings seen in messages", () => {
+    const spellings = [
+      "ул. Шипка",
+      "Шипка",
+      "ул.“Шипка”",
+      "ул. „Шипка“",
+      'ул."Шипка"',
+      "улица Шипка",
+      "ул Шипка",
+      "  УЛ.   Шипка ",
+      "Shipka",
+      "ul. Shipka",
+    ];
+
+    for (const spelling of spellings) {
+      expect(normalizeStreetName(spelling)).toBe("шипка");
+    }
+  });
+
+  it("should strip boulevard and square prefixes", () => {
+    expect(normalizeStreetName("бул. Витоша")).toBe("витоша");
+    expect(normalizeStreetName("булевард „Витоша“")).toBe("витоша");
+    expect(normalizeStreetName("пл. Славейков")).toBe("славейков");
+    expect(normalizeStreetName("площад Славейков")).toBe("славейков");
+  });
+
+  it("should not strip prefixes that are part of a word", () => {
+    expect(normalizeStreetName("Улан Батор")).toBe("улан батор");
+    expect(normalizeStreetName("Пловдив")).toBe("пловдив");
+  });
+});
+
+describe("transliterateToCyrillic", () => {
+  it("should reverse the official transliteration", () => {
+    expect(transliterateToCyrillic("Tsar")).toBe("цар");
+    expect(transliterateToCyrillic("Shtaston")).toBe("щастон");
+    expect(transliterateToCyrillic("Zhivovo")).toBe("живово");
+    expect(transliterateToCyrillic("Evtimiy")).toBe("евтимий");
+  });
+
+  it("should keep Cyrillic words and Roman numerals", () => {
+    expect(transliterateToCyrillic("Шипка")).toBe("шипка");
+    expect(transliterateToCyrillic("III")).toBe("iii");
+  });
+});
+
+describe("findStreetAlias", () => {
+  it("should have a version", () => {
+    expect(STREET_ALIASES_VERSION).toBeGreaterThan(0);
+  });
+
+  it("should resolve abbreviations of names", () => {
+    expect(findStreetAlias("ул. Г. С. Раковски")?.name).toBe(
+      "Георги Сава Раковски"
+    );
+    expect(findStreetAlias("ул.Г.С.Раковски")?.name).toBe(
+      "Георги Сава Раковски"
+    );
+    expect(findStreetAlias("бул. Д-р Г. М. Димитров")?.name).toBe(
+      "Доктор Г. М. Димитров"
+    );
+  });
+
+  it("should resolve short, former and Latin names", () => {
+    expect(findStreetAlias("бул. Дондуков")?.name).toBe(
+      "Княз Александър Дондуков"
+    );
+    expect(findStreetAlias("бул. Евлоги Георгиев")?.name).toBe(
+      "Евлоги и Христо Георгиеви"
+    );
+    expect(findStreetAlias("Rakovski")?.name).toBe("Георги Сава Раковски");
+  });
+
+  it("should return null for unknown streets", () => {
+    expect(findStreetAlias("ул. Шипка")).toBeNull();
+  });
+});
+
+describe("getStreetNameVariants", () => {
+  it("should include aliases and the longest word", () => {
+    const variants = getStreetNameVariants("ул. Г. С. Раковски");
+
+    expect(variants).toContain("г. с. раковски");
+    expect(variants).toContain("георги сава раковски");
+    expect(variants).toContain("раковски");
+  });
+
+  it("should not search by short words", () => {
+    expect(getStreetNameVariants("ул. Оп")).toEqual(["оп"]);
+  });
+});
+
+describe("scoreStreetName", () => {
+  it("should score spellings of the same street 1", () => {
+    expect(scoreStreetName("ул.“Шипка”", "улица Шипка")).toBe(1);
+    expect(
+      scoreStreetName("Г. С. Раковски", "улица Георги Сава Раковски")
+    ).toBe(1);
+    expect(
+      scoreStreetName(
+        "бул. Евлоги Георгиев",
+        "булевард Евлоги и Христо Георгиеви"
+      )
+    ).toBe(1);
+  });
+
+  it("should allow initials and typos", () => {
+    expect(
+      scoreStreetName("ул. Хр. Белчев", "улица Христо Белчев")
+    ).toBeGreaterThan(MIN_STREET_MATCH_SCORE);
+    expect(scoreStreetName("ул. Оборишде", "улица Оборище")).toBeGreaterThan(
+      MIN_STREET_MATCH_SCORE
+    );
+  });
+
+  it("should not match streets sharing only the beginning of a word", () => {
+    expect(scoreStreetName("ул. Шипка", "улица Шипченски проход")).toBeLessThan(
+      MIN_STREET_MATCH_SCORE
+    );
+    expect(scoreStreetName("ул. Искър", "улица Искърско шосе")).toBeLessThan(
+      1
+    );
+  });
+});
+
+describe("rankStreetNames", () => {
+  it("should put the exact street before longer names containing it", () => {
+    // Regex "contains" matching used to pick all three
+    const ranked = rankStreetNames("бул. Левски", [
+      "булевард Васил Левски",
+      "улица Левски",
+      "улица Левскиград",
+    ]);
+
+    expect(ranked.map(({ name }) => name)).toEqual([
+      "улица Левски",
+      "булевард Васил Левски",
+    ]);
+  });
+});
+
+describe("selectBestStreetMatches", () => {
+  it("should keep all ways of the best matching street", () => {
+    const ways = [
+      { id: 1, name: "улица Георги Сава Раковски" },
+      { id: 2, name: "улица Раковска" },
+      { id: 3, name: "улица Георги Сава Раковски" },
+    ];
+
+    expect(
+      selectBestStreetMatches("ул. Г. С. Раковски", ways, (way) => [way.name])
+    ).toEqual([ways[0], ways[2]]);
+  });
+
+  it("should return nothing when no name matches", () => {
+    const ways = [{ name: "улица Оборище" }];
+
+    expect(
+      selectBestStreetMatches("ул. Шипка", ways, (way) => [way.name])
+    ).toEqual([]);
+  });
+});
+
+describe("canonicalizeStreetAddress", () => {
+  it("should spell the street by its canonical name", () => {
+    expect(canonicalizeStreetAddress("ул. Г. С. Раковски 112")).toBe(
+      "ул. Георги Сава Раковски 112"
+    );
+    expect(canonicalizeStreetAddress("бул. Дондуков № 5, вх. Б")).toBe(
+      "бул. Княз Александър Дондуков № 5, вх. Б"
+    );
+  });
+
+  it("should keep addresses without an alias", () => {
+    expect(canonicalizeStreetAddress("ул. Шипка 6")).toBe("ул. Шипка 6");
+    expect(canonicalizeStreetAddress("ул. Георги Сава Раковски 112")).toBe(
+      "ул. Георги Сава Раковски 112"
+    );
+  });
+});
@@ -0,0 +1,318 @@
+/**
+ * Normalization and fuzzy matching of Bulgarian street names, shared by the
+ * Overpass, offline (gazetteer) and Google geocoders.
+ *
+ * Aliases (short and historic names, abbreviations, Latin spellings) are
+ * curated in street-aliases.json; bump its version when changing it.
+ */
+
+import aliasTable from "./street-aliases.json";
+
+export const STREET_ALIASES_VERSION = aliasTable.version;
+
+// Names scoring lower than this are not considered the same street
+export const MIN_STREET_MATCH_SCORE = 0.75;
+
+// Street type prefixes, with or without a dot ("ул.", "ул ", "улица")
+const STREET_PREFIX =
+  /^(?:булевард|улица|площад|бул|ул|пл|bulevard|ulitsa|ploshtad|boulevard|street|square|blvd|bul|ul|pl|str)(?:\.|(?=[\s"“”„'`‘’‚«»‹›]))\s*/;
+
+const QUOTES = /["“”„'`‘’‚«»‹›]/g;
+
+const ROMAN_NUMERAL = /^[ivxlc]+$/;
+
+// Streamlined System (official Bulgarian transliteration), reversed.
+// Longer sequences first.
+const LATIN_TO_CYRILLIC: [string, string][] = [
+  ["sht", "щ"],
+  ["zh", "ж"],
+  ["ts", "ц"],
+  ["ch", "ч"],
+  ["sh", "ш"],
+  ["yu", "ю"],
+  ["ya", "я"],
+  ["a", "а"],
+  ["b", "б"],
+  ["c", "ц"],
+  ["d", "д"],
+  ["e", "е"],
+  ["f", "ф"],
+  ["g", "г"],
+  ["h", "х"],
+  ["i", "и"],
+  ["j", "дж"],
+  ["k", "к"],
+  ["l", "л"],
+  ["m", "м"],
+  ["n", "н"],
+  ["o", "о"],
+  ["p", "п"],
+  ["q", "к"],
+  ["r", "р"],
+  ["s", "с"],
+  ["t", "т"],
+  ["u", "у"],
+  ["v", "в"],
+  ["w", "в"],
+  ["x", "кс"],
+  ["y", "й"],
+  ["z", "з"],
+];
+
+export interface StreetAlias {
+  name: string; // Canonical name, as in OSM without the street type
+  aliases: string[];
+}
+
+const ABBREVIATIONS: Record<string, string> = aliasTable.abbreviations;
+
+/**
+ * Transliterate a Latin word to Cyrillic ("Shipka" → "шипка").
+ * Roman numerals ("Цар Борис III") are kept.
+ */
+export function transliterateToCyrillic(word: string): string {
+  const lower = word.toLowerCase();
+  if (!/[a-z]/.test(lower) || ROMAN_NUMERAL.test(lower)) {
+    return lower;
+  }
+
+  let result = "";
+  let i = 0;
+  while (i < lower.length) {
+    const match = LATIN_TO_CYRILLIC.find(([latin]) =>
+      lower.startsWith(latin, i)
+    );
+    result += match ? match[1] : lower[i];
+    i += match ? match[0].length : 1;
+  }
+  return result;
+}
+
+/**
+ * Normalize street name for better OSM matching
+ * - Removes street type prefixes (бул., ул., площад, пл., also without a dot)
+ * - Removes all quote styles (ASCII and Unicode)
+ * - Transliterates Latin spellings to Cyrillic
+ * - Normalizes whitespace
+ */
+export function normalizeStreetName(streetName: string): string {
+  return streetName
+    .toLowerCase()
+    .replaceAll(QUOTES, " ")
+    .trim()
+    .replace(STREET_PREFIX, "")
+    .split(/\s+/)
+    .map(transliterateToCyrillic)
+    .join(" ")
+    .trim();
+}
+
+/**
+ * Words of a normalized name, with abbreviations expanded
+ * ("Г. С. Раковски" → ["г", "с", "раковски"], "д-р" → "доктор")
+ */
+function getTokens(streetName: string): string[] {
+  return normalizeStreetName(streetName)
+    .split(/[\s.,]+/)
+    .map((token) => ABBREVIATIONS[token] ?? token)
+    .flatMap((token) => token.split("-"))
+    .filter(Boolean);
+}
+
+function toKey(streetName: string): string {
+  return getTokens(streetName).join(" ");
+}
+
+const aliasIndex = new Map<string, StreetAlias>();
+for (const street of aliasTable.streets) {
+  for (const name of [street.name, ...street.aliases]) {
+    aliasIndex.set(toKey(name), street);
+  }
+}
+
+/**
+ * The curated entry a street name refers to, if any
+ */
+export function findStreetAlias(streetName: string): StreetAlias | null {
+  return aliasIndex.get(toKey(streetName)) ?? null;
+}
+
+function getCanonicalTokens(streetName: string): string[] {
+  const alias = findStreetAlias(streetName);
+  return getTokens(alias ? alias.name : streetName);
+}
+
+/**
+ * Normalized names to search OSM for: the name itself, the names of its
+ * alias entry and its longest word, so abbreviated names are still found
+ * (the results are ranked with rankStreetNames afterwards)
+ */
+export function getStreetNameVariants(streetName: string): string[] {
+  const alias = findStreetAlias(streetName);
+  const names = [streetName, ...(alias ? [alias.name, ...alias.aliases] : [])];
+  const longestToken = getCanonicalTokens(streetName).reduce(
+    (longest, token) => (token.length > longest.length ? token : longest),
+    ""
+  );
+
+  return [
+    ...new Set([
+      ...names.map(normalizeStreetName),
+      ...(longestToken.length >= 4 ? [longestToken] : []),
+    ]),
+  ].filter(Boolean);
+}
+
+function getEditDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function scoreToken(a: string, b: string): number {
+  if (a === b) {
+    return 1;
+  }
+  // Initials and short abbreviations ("г" or "хр" for "георги", "христо")
+  if (
+    (a.length <= 3 && b.startsWith(a)) ||
+    (b.length <= 3 && a.startsWith(b))
+  ) {
+    return 0.9;
+  }
+  const similarity = 1 - getEditDistance(a, b) / Math.max(a.length, b.length);
+  return similarity >= MIN_STREET_MATCH_SCORE ? similarity : 0;
+}
+
+/**
+ * How well a candidate name (e.g. from OSM) matches a street name from a
+ * message, between 0 and 1. Words of the query are matched to the closest
+ * words of the candidate (typos and initials allowed); candidate words left
+ * unmatched lower the score slightly, so "Левски" prefers "Левски" over
+ * "Васил Левски" unless an alias says otherwise.
+ */
+export function scoreStreetName(query: string, candidate: string): number {
+  const queryTokens = getCanonicalTokens(query);
+  const candidateTokens = getCanonicalTokens(candidate);
+  if (queryTokens.length === 0 || candidateTokens.length === 0) {
+    return 0;
+  }
+
+  if (queryTokens.join(" ") === candidateTokens.join(" ")) {
+    return 1;
+  }
+
+  const used = new Set<number>();
+  let total = 0;
+  for (const token of queryTokens) {
+    let best = 0;
+    let bestIndex = -1;
+    candidateTokens.forEach((candidateToken, index) => {
+      const score = used.has(index) ? 0 : scoreToken(token, candidateToken);
+      if (score > best) {
+        best = score;
+        bestIndex = index;
+      }
+    });
+    if (bestIndex >= 0) {
+      used.add(bestIndex);
+    }
+    total += best;
+  }
+
+  const queryScore = total / queryTokens.length;
+  const coverage = used.size / candidateTokens.length;
+  return queryScore * 0.9 + coverage * 0.1;
+}
+
+/**
+ * Candidates matching a street name, best first
+ */
+export function rankStreetNames(
+  query: string,
+  candidates: string[]
+): { name: string; score: number }[] {
+  return candidates
+    .map((name) => ({ name, score: scoreStreetName(query, name) }))
+    .filter((match) => match.score >= MIN_STREET_MATCH_SCORE)
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Items (OSM ways) whose best name has the top score for a street name.
+ * A street is usually split into many ways with the same name, all kept;
+ * ways of other, worse matching streets are dropped.
+ */
+export function selectBestStreetMatches<T>(
+  query: string,
+  items: T[],
+  getNames: (item: T) => string[]
+): T[] {
+  const scored = items.map((item) => ({
+    item,
+    score: Math.max(
+      0,
+      ...getNames(item).map((name) => scoreStreetName(query, name))
+    ),
+  }));
+  const topScore = Math.max(0, ...scored.map(({ score }) => score));
+  if (topScore < MIN_STREET_MATCH_SCORE) {
+    return [];
+  }
+
+  return scored
+    .filter(({ score }) => score >= topScore - 1e-9)
+    .map(({ item }) => item);
+}
+
+/**
+ * Spell the street of an address by its canonical name, so the Google
+ * query and the cache key don't depend on the spelling used in a message
+ * ("ул. Г. С. Раковски 112" → "ул. Георги Сава Раковски 112")
+ */
+export function canonicalizeStreetAddress(address: string): string {
+  const match = address.match(
+    /^(\s*(?:булевард|улица|площад|бул|ул|пл)(?:\.\s*|\s+))?(.*?)(\s*(?:№\s*)?\d.*|\s*,.*)?$/i
+  );
+  if (!match) {
+    return address;
+  }
+
+  const [, prefix = "", street, rest = ""] = match;
+  const alias = findStreetAlias(street);
+  if (!alias || toKey(street) === toKey(alias.name)) {
+    return address;
+  }
+
+  return `${prefix}${alias.name}${rest}`;
+}
+
+/**
+ * Split a numbered address ("ул. Шипка 6", "бул. Витоша № 12А") into its
+ * street and house number (lowercase, without spaces); null without one
+ */
+export function parseNumberedAddress(
+  address: string
+): { street: string; housenumber: string } | null {
+  const match = address
+    .split(",")[0]
+    .match(/^(.*?)\s*(?:№\s*)?(\d+\s*[а-яa-z]?)\s*$/i);
+  if (!match) {
+    return null;
+  }
+  return { street: match[1], housenumber: normalizeHouseNumber(match[2]) };
+}
+
+export function normalizeHouseNumber(housenumber: string): string {
+  return housenumber.replaceAll(/\s+/g, "").toLowerCase();
+}
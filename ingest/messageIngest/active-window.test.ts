@@ -0,0 +1,147 @@
+import { describe, expect, it } from "vitest";
+import type { ExtractedData, GeoJSONFeatureCollection } from "@/lib/types";
+import {
+  computeActiveWindow,
+  computeActiveWindowFromDocument,
+} from "./active-window";
+
+const fallback = new Date("2025-12-01T12:00:00.000Z");
+
+function pointCollection(
+  properties: Record<string, unknown>
+): GeoJSONFeatureCollection {
+  return {
+    type: "FeatureCollection",
+    features: [
+      {
+        type: "Feature",
+        geometry: { type: "Point", coordinates: [23.33, 42.69] },
+        properties,
+      },
+    ],
+  };
+}
+
+describe("computeActiveWindow", () => {
+  it("should span all timespans of pins and streets in Sofia time", () => {
+    const extractedData: ExtractedData = {
+      responsible_entity: "Столична община",
+      pins: [
+        {
+          address: "ул. Шипка 12",
+          timespans: [{ start: "02.12.2025 08:00", end: "02.12.2025 18:00" }],
+        },
+      ],
+      streets: [
+        {
+          street: "ул. Оборище",
+          from: "ул. Шипка",
+          to: "бул. Васил Левски",
+          timespans: [{ start: "01.12.2025 09:00", end: "05.12.2025 17:00" }],
+        },
+      ],
+    };
+
+    const window = computeActiveWindow(extractedData, null, fallback);
+
+    expect(window.activeFrom.toISOString()).toBe("2025-12-01T07:00:00.000Z");
+    expect(window.activeUntil.toISOString()).toBe("2025-12-05T15:00:00.000Z");
+  });
+
+  it("should use the period of the source", () => {
+    const window = computeActiveWindow(
+      null,
+      {
+        activeFrom: "2025-07-01T06:00:00.000Z",
+        activeUntil: "2025-07-01T14:00:00.000Z",
+      },
+      fallback
+    );
+
+    expect(window.activeFrom.toISOString()).toBe("2025-07-01T06:00:00.000Z");
+    expect(window.activeUntil.toISOString()).toBe("2025-07-01T14:00:00.000Z");
+  });
+
+  it("should fall back to a point in time without dates", () => {
+    const window = computeActiveWindow(null, {}, fallback);
+
+    expect(window).toEqual({ activeFrom: fallback, activeUntil: fallback });
+  });
+
+  it("should keep activeUntil at the start when only the start is known", () => {
+    const window = computeActiveWindow(
+      null,
+      { activeFrom: "2025-12-03T08:00:00Z" },
+      fallback
+    );
+
+    expect(window.activeUntil).toEqual(window.activeFrom);
+  });
+
+  it("should ignore unparseable timespans", () => {
+    const extractedData: ExtractedData = {
+      responsible_entity: "",
+      pins: [{ address: "x", timespans: [{ start: "днес", end: "утре" }] }],
+      streets: [],
+    };
+
+    const window = computeActiveWindow(extractedData, null, fallback);
+
+    expect(window.activeFrom).toEqual(fallback);
+  });
+});
+
+describe("computeActiveWindowFromDocument", () => {
+  const timestamp = (iso: string) => ({ toDate: () => new Date(iso) });
+
+  it("should parse stored JSON fields", () => {
+    const window = computeActiveWindowFromDocument({
+      extractedData: JSON.stringify({
+        responsible_entity: "",
+        pins: [
+          {
+            address: "ул. Шипка 12",
+            timespans: [{ start: "02.12.2025 08:00", end: "02.12.2025 18:00" }],
+          },
+        ],
+        streets: [],
+      }),
+      geoJson: "not json",
+      createdAt: timestamp("2025-12-01T10:00:00.000Z"),
+    });
+
+    expect(window.activeUntil.toISOString()).toBe("2025-12-02T16:00:00.000Z");
+  });
+
+  it("should use the period in the feature properties", () => {
+    const window = computeActiveWindowFromDocument({
+      geoJson: JSON.stringify(
+        pointCollection({
+          startTimeISO: "2025-07-01T06:00:00.000Z",
+          endTimeISO: "2025-07-01T14:00:00.000Z",
+        })
+      ),
+      createdAt: timestamp("2025-12-01T10:00:00.000Z"),
+    });
+
+    expect(window.activeFrom.toISOString()).toBe("2025-07-01T06:00:00.000Z");
+    expect(window.activeUntil.toISOString()).toBe("2025-07-01T14:00:00.000Z");
+  });
+
+  it("should fall back to crawledAt, then createdAt", () => {
+    const crawledAt = "2025-11-30T10:00:00.000Z";
+    const createdAt = "2025-12-01T10:00:00.000Z";
+
+    expect(
+      computeActiveWindowFromDocument({
+        crawledAt: timestamp(crawledAt),
+        createdAt: timestamp(createdAt),
+      }).activeFrom.toISOString()
+    ).toBe(crawledAt);
+    expect(
+      computeActiveWindowFromDocument({
+        createdAt: timestamp(createdAt),
+      }).activeFrom.toISOString()
+    ).toBe(createdAt);
+  });
+});
@@ -0,0 +1,127 @@
+import type {
+  ExtractedData,
+  GeoJSONFeatureCollection,
+  Timespan,
+} from "@/lib/types";
+import { parseSofiaDateTime } from "@/lib/sofia-time";
+
+/**
+ * Period in which a message is relevant
+ */
+export interface ActiveWindow {
+  activeFrom: Date;
+  activeUntil: Date;
+}
+
+function collectTimespans(extractedData?: ExtractedData | null): Timespan[] {
+  if (!extractedData) {
+    return [];
+  }
+  return [...(extractedData.pins ?? []), ...(extractedData.streets ?? [])]
+    .flatMap((location) => location.timespans ?? [])
+    .filter(Boolean);
+}
+
+function parseDates(values: unknown[]): Date[] {
+  return values
+    .filter((value): value is string => typeof value === "string")
+    .map((value) => parseSofiaDateTime(value))
+    .filter((date): date is Date => date !== null);
+}
+
+/**
+ * Period of the incident published by the source, in ISO format
+ * (see `activeFrom` / `activeUntil` of crawler source documents)
+ */
+export interface SourcePeriod {
+  activeFrom?: string;
+  activeUntil?: string;
+}
+
+/**
+ * Span from the earliest start to the latest end of the parseable values
+ */
+function spanDates(
+  startValues: unknown[],
+  endValues: unknown[],
+  fallback: Date
+): ActiveWindow {
+  const starts = parseDates(startValues);
+  const ends = parseDates(endValues);
+
+  const activeFrom =
+    starts.length > 0
+      ? new Date(Math.min(...starts.map((date) => date.getTime())))
+      : fallback;
+  const latestEnd =
+    ends.length > 0 ? Math.max(...ends.map((date) => date.getTime())) : null;
+
+  return {
+    activeFrom,
+    activeUntil: new Date(Math.max(latestEnd ?? 0, activeFrom.getTime())),
+  };
+}
+
+/**
+ * Compute when a message is active from the timespans of its pins and
+ * streets ("DD.MM.YYYY HH:MM", Sofia time) and the period of its source.
+ * Without a known start the fallback (crawl or ingest time) is used.
+ * Without a known end the message is a point in time: activeUntil = activeFrom,
+ * and the relevance period of the API applies.
+ */
+export function computeActiveWindow(
+  extractedData: ExtractedData | null | undefined,
+  period: SourcePeriod | null | undefined,
+  fallback: Date
+): ActiveWindow {
+  const timespans = collectTimespans(extractedData);
+
+  return spanDates(
+    [...timespans.map((timespan) => timespan.start), period?.activeFrom],
+    [...timespans.map((timespan) => timespan.end), period?.activeUntil],
+    fallback
+  );
+}
+
+function parseStoredJson<T>(value: unknown): T | null {
+  if (typeof value === "string") {
+    try {
+      return JSON.parse(value) as T;
+    } catch {
+      return null;
+    }
+  }
+  return (value as T) ?? null;
+}
+
+/**
+ * Compute the window of an already stored message document, where
+ * extractedData and geoJson are JSON strings. Messages don't keep the period
+ * of their source, so the `startTimeISO` / `endTimeISO` feature properties
+ * that erm-zapad puts on its GeoJSON are used instead.
+ * Falls back to crawledAt, then createdAt.
+ */
+export function computeActiveWindowFromDocument(
+  data: Record<string, any>
+): ActiveWindow {
+  const fallback: Date =
+    data.crawledAt?.toDate?.() ?? data.createdAt?.toDate?.() ?? new Date();
+  const timespans = collectTimespans(
+    parseStoredJson<ExtractedData>(data.extractedData)
+  );
+  const properties = (
+    parseStoredJson<GeoJSONFeatureCollection>(data.geoJson)?.features ?? []
+  ).map((feature) => feature.properties ?? {});
+
+  return spanDates(
+    [
+      ...timespans.map((timespan) => timespan.start),
+      ...properties.map((props) => props.startTimeISO),
+    ],
+    [
+      ...timespans.map((timespan) => timespan.end),
+      ...properties.map((props) => props.endTimeISO),
+    ],
+    fallback
+  );
+}
@@ -0,0 +1,301 @@
+import {
+  FieldValue,
+  Timestamp,
+  type Firestore,
+  type Query,
+} from "firebase-admin/firestore";
+import { computeActiveWindowFromDocument } from "./active-window";
+import { getMessageCategories } from "./category";
+import { isIngestUnfinished } from "./pipeline-state";
+import { geohashesForCircle } from "@oboapp/core";
+import { geohashesForGeoJson } from "@/lib/geohash";
+
+interface BackfillOptions {
+  dryRun?: boolean;
+  sourceType?: string;
+  limit?: number;
+}
+
+interface BackfillSummary {
+  total: number;
+  updated: number;
+}
+
+// Firestore allows at most 500 writes per batch
+const BATCH_SIZE = 500;
+
+/**
+ * Check whether a message misses any of the fields the web API and the
+ * notify script query by
+ */
+function isMissingQueryFields(data: Record<string, any>): boolean {
+  return (
+    !data.activeUntil ||
+    !Array.isArray(data.categories) ||
+    data.notificationsSent === undefined ||
+    (Boolean(data.geoJson) && !Array.isArray(data.geohashes))
+  );
+}
+
+/**
+ * Compute the query fields of a stored message: the validity window,
+ * the categories, the geohash cells of its GeoJSON and the notification flag
+ */
+function computeQueryFields(data: Record<string, any>) {
+  const { activeFrom, activeUntil } = computeActiveWindowFromDocument(data);
+  const fields: Record<string, any> = {
+    activeFrom: Timestamp.fromDate(activeFrom),
+    activeUntil: Timestamp.fromDate(activeUntil),
+    categories: getMessageCategories({
+      text: data.text ?? "",
+      source: data.source,
+      extractedData: data.extractedData ? JSON.parse(data.extractedData) : null,
+    }),
+    // Replaced by categories
+    category: FieldValue.delete(),
+  };
+
+  // Messages without the flag were not processed by the notify script yet
+  if (data.notificationsSent === undefined) {
+    fields.notificationsSent = false;
+  }
+
+  if (data.geoJson) {
+    const geohashes = geohashesForGeoJson(JSON.parse(data.geoJson));
+    if (geohashes.length > 0) {
+      fields.geohashes = geohashes;
+    }
+  }
+
+  return fields;
+}
+
+/**
+ * Fetch finalized messages stored before the query fields existed
+ */
+async function fetchMessagesWithoutQueryFields(
+  adminDb: Firestore,
+  options: BackfillOptions
+) {
+  let query = adminDb.collection("messages") as Query;
+  if (options.sourceType) {
+    query = query.where("source", "==", options.sourceType);
+  }
+
+  const snapshot = await query.get();
+  const docs = snapshot.docs.filter((doc) => {
+    const data = doc.data();
+    return isMissingQueryFields(data) && !isIngestUnfinished(data);
+  });
+
+  return options.limit ? docs.slice(0, options.limit) : docs;
+}
+
+/**
+ * Compute and store activeFrom/activeUntil, categories and geohashes of
+ * messages that don't have them yet
+ */
+export async function backfillQueryFields(
+  options: BackfillOptions = {}
+): Promise<BackfillSummary> {
+  console.log(
+    `🕒 Backfilling message query fields (${
+      options.dryRun ? "dry-run" : "production"
+    })`
+  );
+
+  const { adminDb } = await import("@/lib/firebase-admin");
+  const docs = await fetchMessagesWithoutQueryFields(adminDb, options);
+  console.log(`📡 Found ${docs.length} message(s) without query fields`);
+
+  const summary: BackfillSummary = { total: docs.length, updated: 0 };
+
+  for (let i = 0; i < docs.length; i += BATCH_SIZE) {
+    const batch = adminDb.batch();
+
+    for (const doc of docs.slice(i, i + BATCH_SIZE)) {
+      const fields = computeQueryFields(doc.data());
+
+      if (options.dryRun) {
+        const activeFrom = fields.activeFrom.toDate().toISOString();
+        const activeUntil = fields.activeUntil.toDate().toISOString();
+        console.log(
+          `   • ${
+            doc.id
+          }: ${activeFrom} → ${activeUntil}, ${fields.categories.join("/")}, ` +
+            `${fields.geohashes?.length ?? 0} geohash(es)`
+        );
+        continue;
+      }
+
+      batch.update(doc.ref, fields);
+      summary.updated++;
+    }
+
+    if (!options.dryRun) {
+      await batch.commit();
+    }
+  }
+
+  console.log(`✅ Updated: ${summary.updated}/${summary.total}`);
+  if (options.dryRun) {
+    console.log(
+      "\n💡 Dry-run mode: no messages were updated. Run without --dry-run to backfill."
+    );
+  }
+
+  return summary;
+}
+
+/**
+ * Store `ingestStatus` on the messages saved before the checkpoints, so that
+ * `--resume` queries the unfinished ones instead of reading every message
+ */
+export async function backfillIngestStatus(
+  options: Pick<BackfillOptions, "dryRun" | "sourceType" | "limit"> = {}
+): Promise<BackfillSummary> {
+  console.log(
+    `🚦 Backfilling message ingestStatus (${
+      options.dryRun ? "dry-run" : "production"
+    })`
+  );
+
+  const { adminDb } = await import("@/lib/firebase-admin");
+  let query = adminDb.collection("messages") as Query;
+  if (options.sourceType) {
+    query = query.where("source", "==", options.sourceType);
+  }
+
+  const snapshot = await query.get();
+  const missing = snapshot.docs.filter(
+    (doc) => doc.data().ingestStatus === undefined
+  );
+  const docs = options.limit ? missing.slice(0, options.limit) : missing;
+  console.log(`📡 Found ${docs.length} message(s) without ingestStatus`);
+
+  const summary: BackfillSummary = { total: docs.length, updated: 0 };
+
+  if (!options.dryRun) {
+    for (let i = 0; i < docs.length; i += BATCH_SIZE) {
+      const batch = adminDb.batch();
+      for (const doc of docs.slice(i, i + BATCH_SIZE)) {
+        // Legacy messages are unfinished until finalized
+        batch.update(doc.ref, {
+          ingestStatus: doc.data().finalizedAt ? "completed" : "processing",
+        });
+        summary.updated++;
+      }
+      await batch.commit();
+    }
+  }
+
+  console.log(`✅ Updated: ${summary.updated}/${summary.total}`);
+
+  return summary;
+}
+
+/**
+ * Compute and store the geohash cells of the interests created before they
+ * existed, by which the notify script loads the interests near new messages
+ */
+export async function backfillInterestGeohashes(
+  options: Pick<BackfillOptions, "dryRun" | "limit"> = {}
+): Promise<BackfillSummary> {
+  console.log(
+    `📍 Backfilling interest geohashes (${
+      options.dryRun ? "dry-run" : "production"
+    })`
+  );
+
+  const { adminDb } = await import("@/lib/firebase-admin");
+  const snapshot = await adminDb.collection("interests").get();
+  const missing = snapshot.docs.filter(
+    (doc) => !Array.isArray(doc.data().geohashes)
+  );
+  const docs = options.limit ? missing.slice(0, options.limit) : missing;
+  console.log(`📡 Found ${docs.length} interest(s) without geohashes`);
+
+  const summary: BackfillSummary = { total: docs.length, updated: 0 };
+
+  for (let i = 0; i < docs.length; i += BATCH_SIZE) {
+    const batch = adminDb.batch();
+
+    for (const doc of docs.slice(i, i + BATCH_SIZE)) {
+      const { coordinates, radius } = doc.data();
+      if (
+        typeof coordinates?.lat !== "number" ||
+        typeof coordinates?.lng !== "number" ||
+        typeof radius !== "number"
+      ) {
+        console.warn(`   ⚠️  Skipping invalid interest ${doc.id}`);
+        continue;
+      }
+
+      const geohashes = geohashesForCircle(
+        coordinates.lat,
+        coordinates.lng,
+        radius
+      );
+
+      if (options.dryRun) {
+        console.log(`   • ${doc.id}: ${geohashes.length} geohash(es)`);
+        continue;
+      }
+
+      batch.update(doc.ref, { geohashes });
+      summary.updated++;
+    }
+
+    if (!options.dryRun) {
+      await batch.commit();
+    }
+  }
+
+  console.log(`✅ Updated: ${summary.updated}/${summary.total}`);
+
+  return summary;
+}
+
+/**
+ * Store `resolvedAt: null` on the sources saved before reconciliation, so
+ * the snapshot crawlers find them among the unresolved sources
+ */
+export async function backfillSourceResolvedAt(
+  options: Pick<BackfillOptions, "dryRun" | "sourceType" | "limit"> = {}
+): Promise<BackfillSummary> {
+  console.log(
+    `🏁 Backfilling source resolvedAt (${
+      options.dryRun ? "dry-run" : "production"
+    })`
+  );
+
+  const { adminDb } = await import("@/lib/firebase-admin");
+  let query = adminDb.collection("sources") as Query;
+  if (options.sourceType) {
+    query = query.where("sourceType", "==", options.sourceType);
+  }
+
+  const snapshot = await query.get();
+  const missing = snapshot.docs.filter(
+    (doc) => doc.data().resolvedAt === undefined
+  );
+  const docs = options.limit ? missing.slice(0, options.limit) : missing;
+  console.log(`📡 Found ${docs.length} source(s) without resolvedAt`);
+
+  const summary: BackfillSummary = { total: docs.length, updated: 0 };
+
+  if (!options.dryRun) {
+    for (let i = 0; i < docs.length; i += BATCH_SIZE) {
+      const batch = adminDb.batch();
+      for (const doc of docs.slice(i, i + BATCH_SIZE)) {
+        batch.update(doc.ref, { resolvedAt: null });
+        summary.updated++;
+      }
+      await batch.commit();
+    }
+  }
+
+  console.log(`✅ Updated: ${summary.updated}/${summary.total}`);
+
+  return summary;
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { getMessageCategories } from "./category";
+
+// Announcements in the wording of sofia.bg and the district sites
+const roadWorks = {
+  source: "sofia-bg",
+  text:
+    "Временна организация на движението по бул. „Цар Борис III“ във връзка " +
+    "с ремонт на пътната настилка в участъка между ул. „Ген. Суворов“ и " +
+    "бул. „Овча купел“",
+};
+const waterOutage = {
+  source: "mladost-bg",
+  text:
+    "„Софийска вода“ АД уведомява, че поради авария на водопровод ще бъде " +
+    "прекъснато водоподаването в ж.к. „Младост 1“, бл. 5 - 15",
+};
+const reconstruction = {
+  source: "rayon-oborishte-bg",
+  text:
+    "Започва реконструкция на ул. „Оборище“ в участъка между ул. „Шипка“ и " +
+    "бул. „Васил Левски“. По време на строителните дейности движението ще " +
+    "бъде затворено.",
+};
+
+describe("getMessageCategories", () => {
+  it("should classify municipal messages by their text", () => {
+    expect(getMessageCategories(roadWorks)).toEqual(["roads"]);
+    expect(getMessageCategories(waterOutage)).toEqual(["water"]);
+    expect(getMessageCategories(reconstruction)).toEqual([
+      "roads",
+      "construction",
+    ]);
+  });
+
+  it("should take the category of utility sources", () => {
+    expect(
+      getMessageCategories({
+        source: "toplo-bg",
+        text: "ж.к. Люлин 5, бл. 520, вх. А",
+      })
+    ).toEqual(["heating"]);
+  });
+
+  it("should classify by the extracted entity and locations", () => {
+    const text = "Съобщение за ул. „Шипка“";
+
+    expect(
+      getMessageCategories({
+        source: "sofia-bg",
+        text,
+        extractedData: {
+          responsible_entity: "Топлофикация София",
+          pins: [],
+          streets: [],
+        },
+      })
+    ).toEqual(["heating"]);
+    expect(
+      getMessageCategories({
+        source: "sofia-bg",
+        text,
+        extractedData: {
+          responsible_entity: "",
+          pins: [{ address: "трафопост на ул. „Шипка“ 6", timespans: [] }],
+          streets: [],
+        },
+      })
+    ).toEqual(["electricity"]);
+  });
+
+  it("should return other when nothing applies", () => {
+    expect(
+      getMessageCategories({
+        source: "sofia-bg",
+        text: "Покана за обществено обсъждане на бюджета на Столична община",
+      })
+    ).toEqual(["other"]);
+  });
+});
@@ -0,0 +1,62 @@
+import { MESSAGE_CATEGORIES } from "@oboapp/core";
+import type { ExtractedData, Message, MessageCategory } from "@/lib/types";
+
+// Utility companies that publish only about their own network
+const SOURCE_CATEGORIES: Record<string, MessageCategory> = {
+  "sofiyska-voda": "water",
+  "toplo-bg": "heating",
+  "erm-zapad": "electricity",
+};
+
+// Matched against the lowercased text and locations of a message
+const CATEGORY_PATTERNS: Record<Exclude<MessageCategory, "other">, RegExp> = {
+  water:
+    /водоснабд|водопровод|канализац|спиране на водата|без вода|софийска вода/,
+  heating: /топлоснабд|топлопровод|топлофикац|парно|гореща вода/,
+  electricity:
+    /електрозахр|електроснабд|електропровод|спиране на тока|без ток|трафопост|електрохолд|ерм запад/,
+  roads: /асфалт|пътн|настилк|тротоар|паваж|кръстовищ|движението|спирк/,
+  construction: /строител|строеж|изкоп|разкоп|реконструкц|събаряне|скеле/,
+};
+
+/**
+ * Texts of a message that tell what it is about: the message itself, the
+ * extracted markdown, the responsible entity and the described locations
+ */
+function getClassifiedText(
+  message: Pick<Message, "text"> & { extractedData?: ExtractedData | null }
+): string {
+  const data = message.extractedData;
+  const parts = [message.text];
+  if (data) {
+    parts.push(data.markdown_text ?? "", data.responsible_entity ?? "");
+    for (const pin of data.pins ?? []) {
+      parts.push(pin.address);
+    }
+    for (const street of data.streets ?? []) {
+      parts.push(street.street, street.from, street.to);
+    }
+  }
+  return parts.join("\n").toLowerCase();
+}
+
+/**
+ * Categories of a message: the one of its source for utility companies,
+ * plus every category its text and locations mention. "other" when none
+ * applies.
+ */
+export function getMessageCategories(
+  message: Pick<Message, "text" | "source"> & {
+    extractedData?: ExtractedData | null;
+  }
+): MessageCategory[] {
+  const text = getClassifiedText(message);
+  const sourceCategory = message.source && SOURCE_CATEGORIES[message.source];
+
+  const categories = MESSAGE_CATEGORIES.filter(
+    (category) =>
+      category === sourceCategory ||
+      (category !== "other" && CATEGORY_PATTERNS[category].test(text))
+  );
+  return categories.length > 0 ? categories : ["other"];
+}
@@ -3,7 +3,7 @@ import {
   validateAllAddressesGeocoded,
   convertMessageGeocodingToGeoJson,
 } from "./convert-to-geojson";
-import type { ExtractedData } from "@/lib/types";
+import type { Address, ExtractedData, GeoJSONPolygon } from "@/lib/types";
 
 // Mock dependencies
 vi.mock("@/lib/geojson-service");
@@ -147,6 +147,31 @@ describe(validateAllAddressesGeocoded, () => {
     ]);
   });
 
+  it("should return missing blocks by their reference", () => {
+    const extractedData: ExtractedData = {
+      responsible_entity: "Test",
+      pins: [],
+      streets: [],
+      blocks: [
+        {
+          complex: "ж.к. Младост 1",
+          block: "215",
+          entrance: "Б",
+          timespans: [],
+        },
+        { complex: "ж.к. Младост 1", block: "12", entrance: "", timespans: [] },
+      ],
+    };
+
+    const geocodedMap = new Map([
+      ["ж.к. Младост 1, бл. 215, вх. Б", { lat: 42.65, lng: 23.37 }],
+    ]);
+
+    expect(validateAllAddressesGeocoded(extractedData, geocodedMap)).toEqual([
+      "ж.к. Младост 1, бл. 12",
+    ]);
+  });
+
   it("should handle empty pins and streets", () => {
     const extractedData: ExtractedData = {
       responsible_entity: "Test Entity",
@@ -247,7 +272,8 @@ describe("convertMessageGeocodingToGeoJson", () => {
         pins: [{ address: "Address 1", timespans: [] }],
         streets: [{ street: "Main St", from: "A", to: "B", timespans: [] }],
       }),
-      geocodedMap
+      geocodedMap,
+      new Map()
     );
   });
 
@@ -311,7 +337,125 @@ describe("convertMessageGeocodingToGeoJson", () => {
         pins: [{ address: "Address 1", timespans: [] }],
         streets: [],
       }),
-      geocodedMap
+      geocodedMap,
+      new Map()
+    );
+  });
+
+  it("should pass the outlines of geocoded blocks", async () => {
+    const { convertToGeoJSON } = await import("@/lib/geojson-service");
+    const { validateAndFixGeoJSON } = await import(
+      "../crawlers/shared/geojson-validation"
+    );
+
+    const block = {
+      complex: "ж.к. Младост 1",
+      block: "215",
+      entrance: "",
+      timespans: [],
+    };
+    const extractedData: ExtractedData = {
+      responsible_entity: "Test",
+      pins: [],
+      streets: [],
+      blocks: [block],
+    };
+
+    const outline: GeoJSONPolygon = {
+      type: "Polygon",
+      coordinates: [
+        [
+          [23.37, 42.65],
+          [23.371, 42.65],
+          [23.371, 42.651],
+          [23.37, 42.65],
+        ],
+      ],
+    };
+    const geocodedMap = new Map([
+      ["ж.к. Младост 1, бл. 215", { lat: 42.6503, lng: 23.3707 }],
+    ]);
+    const addresses: Address[] = [
+      {
+        originalText: "ж.к. Младост 1, бл. 215",
+        formattedAddress: "ж.к. Младост 1, бл. 215",
+        coordinates: { lat: 42.6503, lng: 23.3707 },
+        area: outline,
+      },
+    ];
+
+    const mockGeoJson = {
+      type: "FeatureCollection" as const,
+      features: [],
+    };
+
+    vi.mocked(convertToGeoJSON).mockResolvedValue(mockGeoJson);
+    vi.mocked(validateAndFixGeoJSON).mockReturnValue({
+      isValid: true,
+      geoJson: mockGeoJson,
+      errors: [],
+      warnings: [],
+      fixedCoordinates: false,
+    });
+
+    await convertMessageGeocodingToGeoJson(
+      extractedData,
+      geocodedMap,
+      addresses
+    );
+
+    expect(vi.mocked(convertToGeoJSON)).toHaveBeenCalledWith(
+      expect.objectContaining({ blocks: [block] }),
+      geocodedMap,
+      new Map([["ж.к. Младост 1, бл. 215", outline]])
+    );
+  });
+
+  it("should keep geocoded whole streets and areas only", async () => {
+    const { convertToGeoJSON } = await import("@/lib/geojson-service");
+    const { validateAndFixGeoJSON } = await import(
+      "../crawlers/shared/geojson-validation"
+    );
+
+    const extractedData: ExtractedData = {
+      responsible_entity: "Test",
+      pins: [],
+      streets: [],
+      whole_streets: [{ street: "ул. Оборище", timespans: [] }],
+      areas: [
+        { name: "ж.к. Изток", timespans: [] },
+        { name: "кв. Непознат", timespans: [] },
+      ],
+    };
+
+    const geocodedMap = new Map([
+      ["ул. Оборище", { lat: 42.695, lng: 23.34 }],
+      ["ж.к. Изток", { lat: 42.67, lng: 23.35 }],
+    ]);
+
+    const mockGeoJson = {
+      type: "FeatureCollection" as const,
+      features: [],
+    };
+
+    vi.mocked(convertToGeoJSON).mockResolvedValue(mockGeoJson);
+    vi.mocked(validateAndFixGeoJSON).mockReturnValue({
+      isValid: true,
+      geoJson: mockGeoJson,
+      errors: [],
+      warnings: [],
+      fixedCoordinates: false,
+    });
+
+    await convertMessageGeocodingToGeoJson(extractedData, geocodedMap);
+
+    expect(vi.mocked(convertToGeoJSON)).toHaveBeenCalledWith(
+      expect.objectContaining({
+        whole_streets: [{ street: "ул. Оборище", timespans: [] }],
+        areas: [{ name: "ж.к. Изток", timespans: [] }],
+      }),
+      geocodedMap,
+      new Map()
     );
   });
 });
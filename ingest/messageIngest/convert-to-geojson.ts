@@ -1,5 +1,11 @@
 import { convertToGeoJSON } from "@/lib/geojson-service";
-import { ExtractedData, GeoJSONFeatureCollection } from "@/lib/types";
+import { formatBlockReference } from "@/lib/building-blocks";
+import {
+  Address,
+  ExtractedData,
+  GeoJSONFeatureCollection,
+  GeoJSONPolygon,
+} from "@/lib/types";
 import { validateAndFixGeoJSON } from "../crawlers/shared/geojson-validation";
 
 /**
@@ -27,16 +33,37 @@ export function validateAllAddressesGeocoded(
     }
   });
 
+  (extractedData.blocks ?? []).forEach((block) => {
+    const reference = formatBlockReference(block);
+    if (!preGeocodedMap.has(reference)) {
+      missingAddresses.push(reference);
+    }
+  });
+
+  (extractedData.whole_streets ?? []).forEach((street) => {
+    if (!preGeocodedMap.has(street.street)) {
+      missingAddresses.push(street.street);
+    }
+  });
+
+  (extractedData.areas ?? []).forEach((area) => {
+    if (!preGeocodedMap.has(area.name)) {
+      missingAddresses.push(area.name);
+    }
+  });
+
   return missingAddresses;
 }
 
 /**
  * Step 6: Convert geocoded data to GeoJSON
- * Pure function that creates GeoJSON from extracted data and coordinates
+ * Pure function that creates GeoJSON from extracted data and coordinates;
+ * blocks, complexes and areas geocoded with their outline become polygons
  */
 export async function convertMessageGeocodingToGeoJson(
   extractedData: ExtractedData | null,
-  preGeocodedMap: Map<string, { lat: number; lng: number }>
+  preGeocodedMap: Map<string, { lat: number; lng: number }>,
+  addresses: Address[] = []
 ): Promise<GeoJSONFeatureCollection | null> {
   if (!extractedData) {
     return null;
@@ -56,11 +83,27 @@ export async function convertMessageGeocodingToGeoJson(
       (street) =>
         preGeocodedMap.has(street.from) && preGeocodedMap.has(street.to)
     ),
+    blocks: (extractedData.blocks ?? []).filter((block) =>
+      preGeocodedMap.has(formatBlockReference(block))
+    ),
+    whole_streets: (extractedData.whole_streets ?? []).filter((street) =>
+      preGeocodedMap.has(street.street)
+    ),
+    areas: (extractedData.areas ?? []).filter((area) =>
+      preGeocodedMap.has(area.name)
+    ),
   };
+  const blockCount = filteredData.blocks?.length ?? 0;
+  const areaCount =
+    (filteredData.whole_streets?.length ?? 0) +
+    (filteredData.areas?.length ?? 0);
 
   // Check if we have ANY features to display
   const hasFeatures =
-    filteredData.pins.length > 0 || filteredData.streets.length > 0;
+    filteredData.pins.length > 0 ||
+    filteredData.streets.length > 0 ||
+    blockCount > 0 ||
+    areaCount > 0;
 
   if (!hasFeatures) {
     console.error(
@@ -74,12 +117,19 @@ export async function convertMessageGeocodingToGeoJson(
   // Log partial failures as warnings
   if (missingAddresses.length > 0) {
     console.warn(
-      `⚠️  Partial geocoding: ${missingAddresses.length} addresses failed (showing ${filteredData.pins.length} pins + ${filteredData.streets.length} streets):`,
+      `⚠️  Partial geocoding: ${missingAddresses.length} addresses failed (showing ${filteredData.pins.length} pins + ${filteredData.streets.length} streets + ${blockCount} blocks + ${areaCount} whole streets and areas):`,
       missingAddresses
     );
   }
 
-  const geoJson = await convertToGeoJSON(filteredData, preGeocodedMap);
+  const areas = new Map<string, GeoJSONPolygon>();
+  for (const address of addresses) {
+    if (address.area) {
+      areas.set(address.originalText, address.area);
+    }
+  }
+
+  const geoJson = await convertToGeoJSON(filteredData, preGeocodedMap, areas);
 
   // Validate the generated geoJson
   if (geoJson) {
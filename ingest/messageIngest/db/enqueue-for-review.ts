@@ -0,0 +1,34 @@
+import { adminDb } from "@/lib/firebase-admin";
+import { FieldValue } from "firebase-admin/firestore";
+import type { Address, ReviewReason } from "@/lib/types";
+
+/**
+ * Add a message to the review queue (keyed by message ID, so resuming a
+ * message does not queue it twice)
+ */
+export async function enqueueForReview(
+  messageId: string,
+  review: {
+    text: string;
+    source?: string;
+    confidence: number;
+    reasons: ReviewReason[];
+    addresses: Address[];
+    outliers: Address[];
+  }
+): Promise<void> {
+  await adminDb
+    .collection("reviewQueue")
+    .doc(messageId)
+    .set({
+      messageId,
+      text: review.text,
+      ...(review.source ? { source: review.source } : {}),
+      confidence: review.confidence,
+      reasons: JSON.stringify(review.reasons),
+      addresses: JSON.stringify(review.addresses),
+      outliers: JSON.stringify(review.outliers),
+      status: "pending",
+      createdAt: FieldValue.serverTimestamp(),
+    });
+}
@@ -0,0 +1,58 @@
+import { adminDb } from "@/lib/firebase-admin";
+import type {
+  Address,
+  ExtractedData,
+  IngestStages,
+  Message,
+} from "@/lib/types";
+import {
+  deriveStagesFromDocument,
+  isIngestUnfinished,
+} from "../pipeline-state";
+
+export interface IngestCheckpoint {
+  messageId: string;
+  text: string;
+  source?: string;
+  sourceUrl?: string;
+  unfinished: boolean;
+  stages: IngestStages;
+  messageFilter?: Message["messageFilter"];
+  extractedData?: ExtractedData;
+  addresses?: Address[];
+  geocodingOutliers?: Address[];
+}
+
+function parseField<T>(value: unknown): T | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  return (typeof value === "string" ? JSON.parse(value) : value) as T;
+}
+
+/**
+ * Load the stored stage outputs of a message so the pipeline can resume
+ * @returns null if the message does not exist
+ */
+export async function getIngestCheckpoint(
+  messageId: string
+): Promise<IngestCheckpoint | null> {
+  const doc = await adminDb.collection("messages").doc(messageId).get();
+  if (!doc.exists) {
+    return null;
+  }
+
+  const data = doc.data() ?? {};
+  return {
+    messageId: doc.id,
+    text: data.text,
+    source: data.source,
+    sourceUrl: data.sourceUrl,
+    unfinished: isIngestUnfinished(data),
+    stages: deriveStagesFromDocument(data),
+    messageFilter: parseField(data.messageFilter),
+    extractedData: parseField(data.extractedData),
+    addresses: parseField(data.addresses),
+    geocodingOutliers: parseField(data.geocodingOutliers),
+  };
+}
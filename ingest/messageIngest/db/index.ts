@@ -1,2 +1,10 @@
-export { storeIncomingMessage } from "./store-incoming-message";
+export {
+  storeIncomingMessage,
+  type MessageRevision,
+} from "./store-incoming-message";
 export { updateMessage } from "./update-message";
+export {
+  getIngestCheckpoint,
+  type IngestCheckpoint,
+} from "./get-ingest-checkpoint";
+export { enqueueForReview } from "./enqueue-for-review";
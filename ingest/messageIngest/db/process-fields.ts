@@ -1,8 +1,20 @@
-import { FieldValue } from "firebase-admin/firestore";
+import { FieldValue, Timestamp } from "firebase-admin/firestore";
+
+// Empty arrays are still stringified, like the addresses of a message
+// without any, which readers JSON.parse
+function isStringArray(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) &&
+    value.length > 0 &&
+    value.every((item) => typeof item === "string")
+  );
+}
 
 /**
  * Process fields for Firestore storage
  * - Converts Date objects to Firestore server timestamps
+ * - Keeps Timestamp objects, for fields that store a specific time
+ * - Keeps non-empty arrays of strings (geohashes), so they can be queried
  * - Stringifies complex objects (extractedData, geoJson, messageFilter)
  * - Passes through primitives unchanged
  */
@@ -13,6 +25,10 @@ export function processFieldsForFirestore(
   for (const [key, value] of Object.entries(fields)) {
     if (value instanceof Date) {
       processedFields[key] = FieldValue.serverTimestamp();
+    } else if (value instanceof Timestamp) {
+      processedFields[key] = value;
+    } else if (isStringArray(value)) {
+      processedFields[key] = value;
     } else if (typeof value === "object" && value !== null) {
       // Stringify objects (extractedData, geoJson, messageFilter)
       processedFields[key] = JSON.stringify(value);
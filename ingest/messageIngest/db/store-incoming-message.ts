@@ -1,5 +1,16 @@
 import { adminDb } from "@/lib/firebase-admin";
 import { FieldValue } from "firebase-admin/firestore";
+import type { Message } from "@/lib/types";
+import { createInitialStages } from "../pipeline-state";
+import { getMessageCategories } from "../category";
+
+/**
+ * Source revision fields of a message built from a crawled source
+ */
+export type MessageRevision = Pick<
+  Message,
+  "sourceRevision" | "previousMessageId" | "sourceDiff"
+>;
 
 /**
  * Step 1: Store the incoming message in the database
@@ -10,7 +21,8 @@ export async function storeIncomingMessage(
   userEmail: string | null,
   source: string = "web-interface",
   sourceUrl?: string,
-  crawledAt?: Date
+  crawledAt?: Date,
+  revision?: MessageRevision
 ): Promise<string> {
   const messagesRef = adminDb.collection("messages");
   const docData: any = {
@@ -18,14 +30,26 @@ export async function storeIncomingMessage(
     userId,
     userEmail,
     source,
+    // Completed from the extracted locations when finalizing
+    categories: getMessageCategories({ text, source }),
     createdAt: FieldValue.serverTimestamp(),
     crawledAt: crawledAt || FieldValue.serverTimestamp(),
+    ingestStatus: "processing",
+    ingestStages: JSON.stringify(createInitialStages()),
   };
 
   if (sourceUrl) {
     docData.sourceUrl = sourceUrl;
   }
 
+  if (revision?.sourceRevision) {
+    docData.sourceRevision = revision.sourceRevision;
+  }
+  if (revision?.previousMessageId) {
+    docData.previousMessageId = revision.previousMessageId;
+    docData.sourceDiff = JSON.stringify(revision.sourceDiff ?? []);
+  }
+
   const docRef = await messagesRef.add(docData);
   return docRef.id;
 }
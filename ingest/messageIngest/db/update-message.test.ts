@@ -1,6 +1,6 @@
 import { describe, it, expect } from "vitest";
 import { processFieldsForFirestore } from "./process-fields";
-import { FieldValue } from "firebase-admin/firestore";
+import { FieldValue, Timestamp } from "firebase-admin/firestore";
 
 describe("processFieldsForFirestore", () => {
   it("should pass through primitive values unchanged", () => {
@@ -38,6 +38,22 @@ describe("processFieldsForFirestore", () => {
     expect(result.finalizedAt).toBeInstanceOf(FieldValue);
   });
 
+  it("should keep Timestamp objects as they are", () => {
+    const activeUntil = Timestamp.fromDate(new Date("2025-12-05T15:00:00Z"));
+
+    const result = processFieldsForFirestore({ activeUntil });
+
+    expect(result.activeUntil).toBe(activeUntil);
+  });
+
+  it("should keep arrays of strings as they are", () => {
+    const geohashes = ["sx8d", "sx8dg", "sx8dgz"];
+
+    const result = processFieldsForFirestore({ geohashes });
+
+    expect(result.geohashes).toEqual(geohashes);
+  });
+
   it("should stringify complex objects", () => {
     const fields = {
       extractedData: {
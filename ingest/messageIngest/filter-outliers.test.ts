@@ -1,5 +1,8 @@
 import { describe, it, expect } from "vitest";
-import { filterOutlierCoordinates } from "./filter-outliers";
+import {
+  filterOutlierCoordinates,
+  partitionOutlierCoordinates,
+} from "./filter-outliers";
 import type { Address } from "@/lib/types";
 
 describe("filterOutlierCoordinates", () => {
@@ -188,3 +191,28 @@ describe("filterOutlierCoordinates", () => {
     });
   });
 });
+
+describe("partitionOutlierCoordinates", () => {
+  it("should return the outliers apart from the kept addresses", () => {
+    const near1: Address = {
+      originalText: "Near 1",
+      formattedAddress: "Near 1",
+      coordinates: { lat: 42.6977, lng: 23.3219 },
+    };
+    const near2: Address = {
+      originalText: "Near 2",
+      formattedAddress: "Near 2",
+      coordinates: { lat: 42.698, lng: 23.322 },
+    };
+    const far: Address = {
+      originalText: "Far",
+      formattedAddress: "Far",
+      coordinates: { lat: 42.75, lng: 23.4 },
+    };
+
+    expect(partitionOutlierCoordinates([near1, far, near2], 1000)).toEqual({
+      kept: [near1, near2],
+      outliers: [far],
+    });
+  });
+});
@@ -52,18 +52,16 @@ function findMinDistanceToOthers(
 }
 
 /**
- * Filter out outlier coordinates that are more than maxDistance meters
- * away from all other coordinates
- *
- * Step 4.5: Filter outlier coordinates
+ * Split addresses into those kept and outliers that are more than
+ * maxDistance meters away from all other coordinates
  */
-export function filterOutlierCoordinates(
+export function partitionOutlierCoordinates(
   addresses: Address[],
   maxDistance: number = 1000 // 1km default
-): Address[] {
+): { kept: Address[]; outliers: Address[] } {
   // Need at least 2 addresses to detect outliers
   if (addresses.length < 2) {
-    return addresses;
+    return { kept: addresses, outliers: [] };
   }
 
   const filtered: Address[] = [];
@@ -95,5 +93,21 @@ export function filterOutlierCoordinates(
     });
   }
 
-  return filtered;
+  return {
+    kept: filtered,
+    outliers: outliers.map(({ address }) => address),
+  };
+}
+
+/**
+ * Filter out outlier coordinates that are more than maxDistance meters
+ * away from all other coordinates
+ *
+ * Step 4.5: Filter outlier coordinates
+ */
+export function filterOutlierCoordinates(
+  addresses: Address[],
+  maxDistance: number = 1000 // 1km default
+): Address[] {
+  return partitionOutlierCoordinates(addresses, maxDistance).kept;
 }
@@ -5,6 +5,8 @@ vi.mock("@/lib/firebase-admin", () => ({
   adminDb: {},
 }));
 
+import { selectLatestMessage } from "./from-sources";
+
 interface SourceDocument {
   url: string;
   datePublished: string;
@@ -180,3 +182,45 @@ describe("filterByAge", () => {
     expect(result.tooOld).toBe(0);
   });
 });
+
+describe("selectLatestMessage", () => {
+  it("should return null when the source has no messages", () => {
+    expect(selectLatestMessage([])).toBeNull();
+  });
+
+  it("should pick the message with the highest source revision", () => {
+    const latest = selectLatestMessage([
+      { id: "legacy", data: { text: "v1", ingestStatus: "completed" } },
+      {
+        id: "rev-3",
+        data: {
+          text: "v3",
+          sourceRevision: 3,
+          previousMessageId: "rev-2",
+          ingestStatus: "processing",
+        },
+      },
+      {
+        id: "rev-2",
+        data: { text: "v2", sourceRevision: 2, ingestStatus: "completed" },
+      },
+    ]);
+
+    expect(latest).toEqual({
+      id: "rev-3",
+      text: "v3",
+      unfinished: true,
+      sourceRevision: 3,
+      previousMessageId: "rev-2",
+    });
+  });
+
+  it("should treat messages without a revision as revision 1", () => {
+    const latest = selectLatestMessage([
+      { id: "legacy", data: { text: "v1", ingestStatus: "completed" } },
+    ]);
+
+    expect(latest?.sourceRevision).toBe(1);
+    expect(latest?.unfinished).toBe(false);
+  });
+});
@@ -5,11 +5,14 @@ import { resolve } from "node:path";
 import type { Firestore } from "firebase-admin/firestore";
 import { GeoJSONFeatureCollection } from "@/lib/types";
 import { isWithinBoundaries, loadBoundaries } from "@/lib/boundary-utils";
+import { getGeocodingCacheStats } from "@/lib/geocoding-cache";
+import { isIngestUnfinished } from "./pipeline-state";
+import { diffLines } from "./text-diff";
 
 // Load environment variables
 dotenv.config({ path: resolve(process.cwd(), ".env.local"), debug: false });
 
-interface SourceDocument {
+export interface SourceDocument {
   url: string;
   datePublished: string;
   title: string;
@@ -18,6 +21,11 @@ interface SourceDocument {
   crawledAt: Date;
   geoJson?: string | GeoJSONFeatureCollection; // Can be stored as string in Firestore
   markdownText?: string; // Markdown-formatted message for display
+  revision?: number; // Incremented by crawlers when the content changes
+  contentHash?: string;
+  resolvedAt?: Date; // Set when the incident disappeared from the source feed
+  activeFrom?: string; // ISO period of the incident, when the source publishes it
+  activeUntil?: string;
 }
 
 interface IngestOptions {
@@ -33,6 +41,8 @@ interface IngestSummary {
   withinBounds: number;
   outsideBounds: number;
   ingested: number;
+  updated: number;
+  resumed: number;
   alreadyIngested: number;
   filtered: number;
   failed: number;
@@ -82,17 +92,7 @@ async function fetchSources(
   const sources: SourceDocument[] = [];
 
   for (const doc of snapshot.docs) {
-    const data = doc.data();
-    sources.push({
-      url: data.url,
-      datePublished: data.datePublished,
-      title: data.title,
-      message: data.message,
-      sourceType: data.sourceType,
-      crawledAt: data.crawledAt?.toDate() ?? new Date(),
-      geoJson: data.geoJson,
-      markdownText: data.markdownText,
-    });
+    sources.push(toSourceDocument(doc.data()));
   }
 
   const filterInfo = filters.length > 0 ? ` (${filters.join(", ")})` : "";
@@ -100,18 +100,106 @@ async function fetchSources(
   return sources;
 }
 
-async function isAlreadyIngested(
+/**
+ * Convert a Firestore `sources` document to a SourceDocument
+ */
+export function toSourceDocument(data: Record<string, any>): SourceDocument {
+  return {
+    url: data.url,
+    datePublished: data.datePublished,
+    title: data.title,
+    message: data.message,
+    sourceType: data.sourceType,
+    crawledAt: data.crawledAt?.toDate() ?? new Date(),
+    geoJson: data.geoJson,
+    markdownText: data.markdownText,
+    revision: data.revision,
+    contentHash: data.contentHash,
+    resolvedAt: data.resolvedAt?.toDate(),
+    activeFrom: data.activeFrom,
+    activeUntil: data.activeUntil,
+  };
+}
+
+/**
+ * Parse precomputed GeoJSON of a source (stored as string in Firestore)
+ */
+export function parseSourceGeoJson(
+  source: SourceDocument
+): GeoJSONFeatureCollection | null {
+  if (!source.geoJson) {
+    return null;
+  }
+  if (typeof source.geoJson === "string") {
+    return JSON.parse(source.geoJson) as GeoJSONFeatureCollection;
+  }
+  return source.geoJson;
+}
+
+interface ExistingMessage {
+  id: string;
+  text: string;
+  unfinished: boolean;
+  sourceRevision: number;
+  previousMessageId?: string;
+}
+
+/**
+ * Pick the message built from the latest source revision.
+ * Messages created before revisions were tracked count as revision 1.
+ */
+export function selectLatestMessage(
+  docs: Array<{ id: string; data: Record<string, any> }>
+): ExistingMessage | null {
+  let latest: ExistingMessage | null = null;
+
+  for (const { id, data } of docs) {
+    const sourceRevision: number = data.sourceRevision ?? 1;
+    if (!latest || sourceRevision > latest.sourceRevision) {
+      latest = {
+        id,
+        text: data.text ?? "",
+        unfinished: isIngestUnfinished(data),
+        sourceRevision,
+        previousMessageId: data.previousMessageId,
+      };
+    }
+  }
+
+  return latest;
+}
+
+/**
+ * Find the latest message created for a source URL.
+ * `unfinished` is true when its pipeline stopped before finalizing.
+ */
+async function findExistingMessage(
   adminDb: Firestore,
   sourceUrl: string
-): Promise<boolean> {
-  // Check if a message already exists for this source URL
+): Promise<ExistingMessage | null> {
   const messagesSnapshot = await adminDb
     .collection("messages")
     .where("sourceUrl", "==", sourceUrl)
-    .limit(1)
     .get();
 
-  return !messagesSnapshot.empty;
+  return selectLatestMessage(
+    messagesSnapshot.docs.map((doc) => ({ id: doc.id, data: doc.data() }))
+  );
+}
+
+/**
+ * Point the message of the previous source revision to its replacement,
+ * so it is no longer shown next to the updated one
+ */
+async function supersedeMessage(
+  adminDb: Firestore,
+  previousMessageId: string,
+  messageId: string
+): Promise<void> {
+  await adminDb
+    .collection("messages")
+    .doc(previousMessageId)
+    .update({ supersededBy: messageId });
 }
 
 async function ingestSource(
@@ -119,58 +207,85 @@ async function ingestSource(
   adminDb: Firestore,
   dryRun: boolean,
   boundaries: GeoJSONFeatureCollection | null
-): Promise<boolean> {
+): Promise<"ingested" | "updated" | "resumed" | "skipped"> {
   if (dryRun) {
     console.log(`   📝 [dry-run] Would ingest: ${source.title}`);
-    return true;
+    return "ingested";
   }
 
-  // Check if already ingested
-  const alreadyIngested = await isAlreadyIngested(adminDb, source.url);
-  if (alreadyIngested) {
-    return false;
+  // Check if already ingested; unfinished messages are resumed instead,
+  // and a newer source revision produces an updated message
+  const sourceRevision = source.revision ?? 1;
+  const existing = await findExistingMessage(adminDb, source.url);
+  const resume = existing?.unfinished ? existing : null;
+  const previous = existing && !existing.unfinished ? existing : null;
+  if (previous && previous.sourceRevision >= sourceRevision) {
+    return "skipped";
+  }
+  // Don't announce incidents that were already over before being ingested
+  if (!existing && source.resolvedAt) {
+    return "skipped";
   }
 
   // Prominent message header
   console.log(`\n${"=".repeat(80)}`);
-  console.log(`📄 PROCESSING MESSAGE`);
+  if (resume) {
+    console.log(`🔁 RESUMING MESSAGE`);
+  } else if (previous) {
+    console.log(`🔄 UPDATING MESSAGE (source revision ${sourceRevision})`);
+  } else {
+    console.log(`📄 PROCESSING MESSAGE`);
+  }
   console.log(`   Title: ${source.title}`);
   console.log(`   URL: ${source.url}`);
   console.log(`   Source Type: ${source.sourceType}`);
   console.log(`${"=".repeat(80)}`);
 
-  // Parse geoJson if it's a string
-  let geoJson: GeoJSONFeatureCollection | null = null;
-  if (source.geoJson) {
-    if (typeof source.geoJson === "string") {
-      geoJson = JSON.parse(source.geoJson) as GeoJSONFeatureCollection;
-    } else {
-      geoJson = source.geoJson;
-    }
-  }
-
   // Dynamically import messageIngest to avoid loading firebase-admin at startup
-  const { messageIngest } = await import("./index");
+  const { messageIngest, resumeMessageIngest } = await import("./index");
+
+  const ingestOptions = {
+    precomputedGeoJson: parseSourceGeoJson(source),
+    sourceUrl: source.url,
+    boundaryFilter: boundaries ?? undefined,
+    crawledAt: source.crawledAt,
+    markdownText: source.markdownText,
+    activePeriod: {
+      activeFrom: source.activeFrom,
+      activeUntil: source.activeUntil,
+    },
+    revision: previous
+      ? {
+          sourceRevision,
+          previousMessageId: previous.id,
+          sourceDiff: diffLines(previous.text, source.message),
+        }
+      : { sourceRevision },
+  };
 
   // Use the sourceType as the source identifier for messageIngest
-  const message = await messageIngest(
-    source.message,
-    source.sourceType,
-    SYSTEM_USER_ID,
-    SYSTEM_USER_EMAIL,
-    {
-      precomputedGeoJson: geoJson,
-      sourceUrl: source.url,
-      boundaryFilter: boundaries ?? undefined,
-      crawledAt: source.crawledAt,
-      markdownText: source.markdownText,
-    }
-  );
+  const message = resume
+    ? await resumeMessageIngest(resume.id, ingestOptions)
+    : await messageIngest(
+        source.message,
+        source.sourceType,
+        SYSTEM_USER_ID,
+        SYSTEM_USER_EMAIL,
+        ingestOptions
+      );
+
+  const previousMessageId = previous?.id ?? resume?.previousMessageId;
+  if (previousMessageId && message.id) {
+    await supersedeMessage(adminDb, previousMessageId, message.id);
+  }
 
   console.log(`\n✅ COMPLETED: ${source.title}`);
   console.log(`   Message ID: ${message.id}`);
   console.log(`${"=".repeat(80)}\n`);
-  return true;
+  if (resume) {
+    return "resumed";
+  }
+  return previous ? "updated" : "ingested";
 }
 
 async function filterByAge(
@@ -295,6 +410,8 @@ export async function ingest(
     withinBounds: withinBounds.length,
     outsideBounds,
     ingested: 0,
+    updated: 0,
+    resumed: 0,
     alreadyIngested: 0,
     filtered: 0,
     failed: 0,
@@ -303,14 +420,18 @@ export async function ingest(
 
   for (const source of withinBounds) {
     try {
-      const wasIngested = await ingestSource(
+      const result = await ingestSource(
         source,
         adminDb,
         options.dryRun ?? false,
         boundaries
       );
-      if (wasIngested) {
+      if (result === "ingested") {
         summary.ingested++;
+      } else if (result === "updated") {
+        summary.updated++;
+      } else if (result === "resumed") {
+        summary.resumed++;
       } else {
         summary.alreadyIngested++;
       }
@@ -356,6 +477,12 @@ function logSummary(summary: IngestSummary, dryRun: boolean): void {
     );
   } else {
     console.log(`✅ Successfully ingested: ${summary.ingested}`);
+    if (summary.updated > 0) {
+      console.log(`🔄 Updated from changed sources: ${summary.updated}`);
+    }
+    if (summary.resumed > 0) {
+      console.log(`🔁 Resumed unfinished: ${summary.resumed}`);
+    }
     console.log(`⏭️  Already ingested (skipped): ${summary.alreadyIngested}`);
     if (summary.filtered > 0) {
       console.log(`🚦 Filtered as irrelevant: ${summary.filtered}`);
@@ -368,6 +495,13 @@ function logSummary(summary: IngestSummary, dryRun: boolean): void {
     if (summary.failed > 0) {
       console.log(`❌ Failed: ${summary.failed}`);
     }
+    const cache = getGeocodingCacheStats();
+    if (cache.hits + cache.misses > 0) {
+      console.log(
+        `🧭 Geocoding cache: ${cache.hits} hit(s), ${cache.misses} miss(es)` +
+          (cache.errors > 0 ? `, ${cache.errors} error(s)` : "")
+      );
+    }
   }
   console.log("=".repeat(60));
 
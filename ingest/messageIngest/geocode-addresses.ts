@@ -1,7 +1,17 @@
 import {
   geocodeAddresses,
+  geocodeAreas,
+  geocodeBlocks,
   geocodeIntersectionsForStreets,
+  geocodeWholeStreets,
 } from "@/lib/geocoding-router";
+import { formatBlockReference } from "@/lib/building-blocks";
+import { getHouseNumberEndpoints } from "@/lib/house-numbers";
+import {
+  FALLBACK_CONFIDENCE,
+  getAddressConfidence,
+  withGeocodingQuality,
+} from "@/lib/geocoding-quality";
 import { Address, ExtractedData, StreetSection } from "@/lib/types";
 
 // Internal types for the geocoding pipeline
@@ -34,7 +44,8 @@ export function findMissingStreetEndpoints(
 
 /**
  * Step 4: Geocode addresses from extracted data using hybrid approach
- * Google for pins, Overpass for street intersections
+ * Google for pins, Overpass for street intersections, blocks, whole streets
+ * and areas
  */
 export async function geocodeAddressesFromExtractedData(
   extractedData: ExtractedData | null
@@ -59,41 +70,76 @@ export async function geocodeAddressesFromExtractedData(
 
   // Geocode street intersections using Overpass
   if (extractedData.streets.length > 0) {
+    // Sections between house numbers start and end at the houses
+    const houseNumberEndpoints = getHouseNumberEndpoints(extractedData.streets);
+    if (houseNumberEndpoints.length > 0) {
+      const geocodedHouses = await geocodeAddresses(houseNumberEndpoints);
+      addresses.push(...geocodedHouses);
+
+      geocodedHouses.forEach((addr) => {
+        preGeocodedMap.set(addr.originalText, addr.coordinates);
+      });
+    }
+
     const streetGeocodedMap = await geocodeIntersectionsForStreets(
       extractedData.streets
     );
 
     // Merge into preGeocodedMap and create Address objects for the addresses array
-    streetGeocodedMap.forEach((coords, key) => {
-      preGeocodedMap.set(key, coords);
+    streetGeocodedMap.forEach((address, key) => {
+      preGeocodedMap.set(key, address.coordinates);
 
       // Add to addresses array for UI display
-      addresses.push({
-        originalText: key,
-        formattedAddress: key,
-        coordinates: coords,
-        geoJson: {
-          type: "Point",
-          coordinates: [coords.lng, coords.lat],
-        },
-      });
+      addresses.push(address);
     });
 
     // Check for missing endpoints and try fallback geocoding
     const missingEndpoints = findMissingStreetEndpoints(
       extractedData.streets,
       preGeocodedMap
-    );
+    ).filter((endpoint) => !houseNumberEndpoints.includes(endpoint));
 
     if (missingEndpoints.length > 0) {
       const fallbackGeocoded = await geocodeAddresses(missingEndpoints);
 
       fallbackGeocoded.forEach((addr) => {
         preGeocodedMap.set(addr.originalText, addr.coordinates);
-        addresses.push(addr);
+        // The endpoint lands somewhere on the cross street, not on the crossing
+        addresses.push(
+          withGeocodingQuality(
+            addr,
+            "fallback",
+            Math.min(getAddressConfidence(addr), FALLBACK_CONFIDENCE)
+          )
+        );
       });
     }
   }
 
+  // Geocode blocks and complexes from OSM buildings and areas
+  if (extractedData.blocks && extractedData.blocks.length > 0) {
+    const geocodedBlocks = await geocodeBlocks(
+      extractedData.blocks.map(formatBlockReference)
+    );
+    addresses.push(...geocodedBlocks);
+
+    geocodedBlocks.forEach((addr) => {
+      preGeocodedMap.set(addr.originalText, addr.coordinates);
+    });
+  }
+
+  // Geocode whole streets and areas (neighbourhoods, districts)
+  const wholeStreets = extractedData.whole_streets ?? [];
+  const areas = extractedData.areas ?? [];
+  const geocodedAreas = [
+    ...(await geocodeWholeStreets(wholeStreets.map((s) => s.street))),
+    ...(await geocodeAreas(areas.map((area) => area.name))),
+  ];
+  addresses.push(...geocodedAreas);
+
+  geocodedAreas.forEach((addr) => {
+    preGeocodedMap.set(addr.originalText, addr.coordinates);
+  });
+
   return { preGeocodedMap, addresses };
 }
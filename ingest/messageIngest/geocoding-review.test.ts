@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import {
+  REVIEW_CONFIDENCE_THRESHOLD,
+  assessGeocodingQuality,
+} from "./geocoding-review";
+import type { Address, ExtractedData, GeocodingQuality } from "@/lib/types";
+
+function address(text: string, geocoding?: GeocodingQuality): Address {
+  return {
+    originalText: text,
+    formattedAddress: text,
+    coordinates: { lat: 42.69, lng: 23.33 },
+    ...(geocoding ? { geocoding } : {}),
+  };
+}
+
+const extractedData: ExtractedData = {
+  responsible_entity: "",
+  pins: [{ address: "ул. Шипка 6", timespans: [] }],
+  streets: [
+    {
+      street: "ул. Оборище",
+      from: "ул. Шипка",
+      to: "ул. Раковски",
+      timespans: [],
+    },
+  ],
+};
+
+describe("assessGeocodingQuality", () => {
+  it("should not flag confidently geocoded locations", () => {
+    const addresses = [
+      address("ул. Шипка 6", { method: "google-rooftop", confidence: 0.95 }),
+      address("ул. Шипка", {
+        method: "overpass-intersection",
+        confidence: 0.95,
+      }),
+      address("ул. Раковски", {
+        method: "overpass-intersection",
+        confidence: 0.8,
+      }),
+    ];
+
+    expect(assessGeocodingQuality(extractedData, addresses, [])).toEqual({
+      confidence: 0.8,
+      reasons: [],
+      needsReview: false,
+    });
+  });
+
+  it("should treat addresses without a score as exact", () => {
+    const addresses = [
+      address("ул. Шипка 6"),
+      address("ул. Шипка"),
+      address("ул. Раковски"),
+    ];
+
+    expect(assessGeocodingQuality(extractedData, addresses, [])).toEqual({
+      confidence: 1,
+      reasons: [],
+      needsReview: false,
+    });
+  });
+
+  it("should flag street centers and Google fallbacks", () => {
+    const addresses = [
+      address("ул. Шипка 6", { method: "google-approx", confidence: 0.3 }),
+      address("ул. Шипка", {
+        method: "overpass-intersection",
+        confidence: 0.95,
+      }),
+      address("ул. Раковски", { method: "fallback", confidence: 0.4 }),
+    ];
+
+    const assessment = assessGeocodingQuality(extractedData, addresses, []);
+
+    expect(assessment.needsReview).toBe(true);
+    expect(assessment.confidence).toBeLessThan(REVIEW_CONFIDENCE_THRESHOLD);
+    expect(assessment.reasons).toEqual([
+      { type: "low-confidence", location: "ул. Шипка 6", confidence: 0.3 },
+      { type: "low-confidence", location: "ул. Раковски", confidence: 0.4 },
+    ]);
+  });
+
+  it("should flag outliers and locations that were not found", () => {
+    const addresses = [address("ул. Шипка")];
+    const outliers = [address("ул. Шипка 6")];
+
+    const assessment = assessGeocodingQuality(
+      extractedData,
+      addresses,
+      outliers
+    );
+
+    expect(assessment).toEqual({
+      confidence: 0,
+      reasons: [
+        { type: "outlier", location: "ул. Шипка 6" },
+        { type: "not-found", location: "ул. Раковски" },
+      ],
+      needsReview: true,
+    });
+  });
+
+  it("should not flag messages without locations", () => {
+    expect(assessGeocodingQuality(null, [], [])).toEqual({
+      confidence: 1,
+      reasons: [],
+      needsReview: false,
+    });
+  });
+});
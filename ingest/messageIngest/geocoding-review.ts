@@ -0,0 +1,63 @@
+import { getAddressConfidence } from "@/lib/geocoding-quality";
+import { formatBlockReference } from "@/lib/building-blocks";
+import type { Address, ExtractedData, ReviewReason } from "@/lib/types";
+
+// Messages with an address below this confidence are queued for review
+export const REVIEW_CONFIDENCE_THRESHOLD = 0.5;
+
+export interface GeocodingAssessment {
+  confidence: number; // Lowest confidence of the extracted locations
+  reasons: ReviewReason[];
+  needsReview: boolean;
+}
+
+function findAddress(addresses: Address[], location: string) {
+  return addresses.find((address) => address.originalText === location);
+}
+
+/**
+ * Assess the geocoding of a message: every extracted pin, street endpoint,
+ * block, whole street and area should be geocoded, kept among the other
+ * points and confident enough.
+ * Locations that are not are the reasons to review the message.
+ */
+export function assessGeocodingQuality(
+  extractedData: ExtractedData | null,
+  addresses: Address[],
+  outliers: Address[]
+): GeocodingAssessment {
+  const locations = [
+    ...new Set([
+      ...(extractedData?.pins ?? []).map((pin) => pin.address),
+      ...(extractedData?.streets ?? []).flatMap((s) => [s.from, s.to]),
+      ...(extractedData?.blocks ?? []).map(formatBlockReference),
+      ...(extractedData?.whole_streets ?? []).map((s) => s.street),
+      ...(extractedData?.areas ?? []).map((area) => area.name),
+    ]),
+  ];
+
+  const reasons: ReviewReason[] = [];
+  let confidence = 1;
+
+  for (const location of locations) {
+    const address = findAddress(addresses, location);
+    if (!address) {
+      const type = findAddress(outliers, location) ? "outlier" : "not-found";
+      reasons.push({ type, location });
+      confidence = 0;
+      continue;
+    }
+
+    const addressConfidence = getAddressConfidence(address);
+    confidence = Math.min(confidence, addressConfidence);
+    if (addressConfidence < REVIEW_CONFIDENCE_THRESHOLD) {
+      reasons.push({
+        type: "low-confidence",
+        location,
+        confidence: addressConfidence,
+      });
+    }
+  }
+
+  return { confidence, reasons, needsReview: reasons.length > 0 };
+}
@@ -2,9 +2,31 @@ import {
   Address,
   ExtractedData,
   GeoJSONFeatureCollection,
+  IngestStage,
+  IngestStages,
   Message,
 } from "@/lib/types";
-import { storeIncomingMessage, updateMessage } from "./db";
+import {
+  enqueueForReview,
+  getIngestCheckpoint,
+  storeIncomingMessage,
+  updateMessage,
+  type MessageRevision,
+} from "./db";
+import { Timestamp } from "firebase-admin/firestore";
+import { computeActiveWindow, type SourcePeriod } from "./active-window";
+import { getMessageCategories } from "./category";
+import { geohashesForGeoJson } from "@/lib/geohash";
+import type { GeocodingAssessment } from "./geocoding-review";
+import {
+  MAX_STAGE_ATTEMPTS,
+  completeStage,
+  createInitialStages,
+  failStage,
+  getResumeStage,
+  hasExhaustedAttempts,
+  isStageDone,
+} from "./pipeline-state";
 
 export { extractAddressesFromMessage } from "./extract-addresses";
 export {
@@ -12,10 +34,18 @@ export {
   type GeocodingResult,
 } from "./geocode-addresses";
 export { convertMessageGeocodingToGeoJson } from "./convert-to-geojson";
-export { filterOutlierCoordinates } from "./filter-outliers";
+export {
+  filterOutlierCoordinates,
+  partitionOutlierCoordinates,
+} from "./filter-outliers";
+export {
+  assessGeocodingQuality,
+  type GeocodingAssessment,
+} from "./geocoding-review";
 export { verifyAuthToken, validateMessageText } from "./helpers";
 export { buildMessageResponse } from "./build-response";
 export { filterAndNormalizeMessage } from "./filter-message";
+export { diffLines } from "./text-diff";
 
 export interface MessageIngestOptions {
   /**
@@ -40,6 +70,122 @@ export interface MessageIngestOptions {
    * Optional markdown-formatted text for display (when crawler produces markdown)
    */
   markdownText?: string;
+  /**
+   * Optional period of the incident published by the source
+   */
+  activePeriod?: SourcePeriod;
+  /**
+   * Optional source revision. When `previousMessageId` is set, the message is
+   * an update of that message and `sourceDiff` lists the changed lines.
+   */
+  revision?: MessageRevision;
+}
+
+/**
+ * Outputs of already completed stages, loaded when resuming a message
+ */
+interface StageOutputs {
+  messageFilter?: Message["messageFilter"];
+  extractedData?: ExtractedData;
+  addresses?: Address[];
+  geocodingOutliers?: Address[];
+}
+
+/**
+ * Mutable pipeline state: the message being processed and its stage map
+ */
+interface PipelineContext {
+  messageId: string;
+  source?: string;
+  stages: IngestStages;
+}
+
+/**
+ * Persist the stage map together with the stage outputs in a single update,
+ * so a stage is never marked done without its output being stored
+ */
+async function saveStages(
+  ctx: PipelineContext,
+  stages: IngestStages,
+  fields: Record<string, any> = {}
+): Promise<void> {
+  ctx.stages = stages;
+  await updateMessage(ctx.messageId, { ...fields, ingestStages: stages });
+}
+
+/**
+ * Mark the message as finalized - nothing left to resume. The notify
+ * script queries the finalized messages by notificationsSent == false.
+ */
+async function finalizeMessage(
+  ctx: PipelineContext,
+  stages: IngestStages,
+  fields: Record<string, any> = {}
+): Promise<void> {
+  await saveStages(ctx, stages, {
+    ...fields,
+    ingestStatus: "completed",
+    finalizedAt: new Date(),
+    notificationsSent: false,
+  });
+}
+
+/**
+ * Mark every stage that has not run yet as skipped
+ */
+function skipRemainingStages(stages: IngestStages): IngestStages {
+  let result = stages;
+  let stage = getResumeStage(result);
+  while (stage) {
+    result = completeStage(result, stage, "skipped");
+    stage = getResumeStage(result);
+  }
+  return result;
+}
+
+/**
+ * Record a stage failure. After MAX_STAGE_ATTEMPTS the message is finalized
+ * as failed so reruns stop paying for it.
+ */
+async function recordStageFailure(
+  ctx: PipelineContext,
+  stage: IngestStage,
+  error: unknown
+): Promise<void> {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  const stages = failStage(ctx.stages, stage, errorMessage);
+
+  if (hasExhaustedAttempts(stages, stage)) {
+    console.error(
+      `❌ Stage "${stage}" failed ${MAX_STAGE_ATTEMPTS} times, giving up on message ${ctx.messageId}`
+    );
+    await saveStages(ctx, stages, {
+      ingestStatus: "failed",
+      finalizedAt: new Date(),
+    });
+    return;
+  }
+
+  console.warn(
+    `⚠️  Stage "${stage}" failed (attempt ${stages[stage].attempts}/${MAX_STAGE_ATTEMPTS}), message ${ctx.messageId} can be resumed`
+  );
+  await saveStages(ctx, stages);
+}
+
+/**
+ * Run a stage, recording its failure before re-throwing
+ */
+async function runStage<T>(
+  ctx: PipelineContext,
+  stage: IngestStage,
+  fn: () => Promise<T>
+): Promise<T> {
+  try {
+    return await fn();
+  } catch (error) {
+    await recordStageFailure(ctx, stage, error);
+    throw error;
+  }
 }
 
 /**
@@ -64,112 +210,216 @@ export async function messageIngest(
     userEmail,
     source,
     options.sourceUrl,
-    options.crawledAt
+    options.crawledAt,
+    options.revision
+  );
+
+  return runPipeline(
+    { messageId, source, stages: createInitialStages() },
+    text,
+    {},
+    options
+  );
+}
+
+/**
+ * Continue the pipeline of a stored message from its first unfinished stage.
+ * Outputs of completed stages are reused, so AI calls are not repeated.
+ * Precomputed GeoJSON is not stored on the message and must be passed again.
+ */
+export async function resumeMessageIngest(
+  messageId: string,
+  options: MessageIngestOptions = {}
+): Promise<Message> {
+  const checkpoint = await getIngestCheckpoint(messageId);
+  if (!checkpoint) {
+    throw new Error(`Message ${messageId} not found`);
+  }
+  if (!checkpoint.unfinished) {
+    throw new Error(`Message ${messageId} is already finalized`);
+  }
+
+  console.log(
+    `🔁 Resuming message ${messageId} from stage "${
+      getResumeStage(checkpoint.stages) ?? "geojson"
+    }"`
   );
 
+  return runPipeline(
+    {
+      messageId,
+      source: checkpoint.source,
+      stages: checkpoint.stages,
+    },
+    checkpoint.text,
+    {
+      messageFilter: checkpoint.messageFilter,
+      extractedData: checkpoint.extractedData,
+      addresses: checkpoint.addresses,
+      geocodingOutliers: checkpoint.geocodingOutliers,
+    },
+    options
+  );
+}
+
+async function runPipeline(
+  ctx: PipelineContext,
+  text: string,
+  outputs: StageOutputs,
+  options: MessageIngestOptions
+): Promise<Message> {
+  const { messageId } = ctx;
   const hasPrecomputedGeoJson = Boolean(options.precomputedGeoJson);
-  let extractedData: ExtractedData | null = null;
-  let addresses: Address[] = [];
+  let extractedData: ExtractedData | null = outputs.extractedData ?? null;
+  let addresses: Address[] = outputs.addresses ?? [];
+  let outliers: Address[] = outputs.geocodingOutliers ?? [];
   let geoJson: GeoJSONFeatureCollection | null =
     options.precomputedGeoJson ?? null;
-  let normalizedText = text;
+  let preGeocodedMap = new Map<string, { lat: number; lng: number }>();
 
   if (!hasPrecomputedGeoJson) {
     // Filter message to check relevance and normalize text
-    const { filterAndNormalizeMessage } = await import("./filter-message");
-    const filterResult = await filterAndNormalizeMessage(text);
+    let filterResult = outputs.messageFilter ?? null;
+    if (!filterResult || !isStageDone(ctx.stages, "filter")) {
+      filterResult = await runStage(ctx, "filter", async () => {
+        const { filterAndNormalizeMessage } = await import("./filter-message");
+        const result = await filterAndNormalizeMessage(text);
 
-    if (!filterResult) {
-      console.error("❌ Failed to filter message, marking as finalized");
-      await updateMessage(messageId, { finalizedAt: new Date() });
-      throw new Error("Message filtering failed");
-    }
+        if (!result) {
+          console.error("❌ Failed to filter message");
+          throw new Error("Message filtering failed");
+        }
+        return result;
+      });
 
-    // Store filter result
-    await updateMessage(messageId, {
-      messageFilter: filterResult,
-    });
+      // Store filter result (irrelevant messages are stored when finalizing)
+      if (filterResult.isRelevant) {
+        await saveStages(ctx, completeStage(ctx.stages, "filter"), {
+          messageFilter: filterResult,
+        });
+      }
+    }
 
     // If message is not relevant to public infrastructure, finalize and return
     if (!filterResult.isRelevant) {
       console.log(
         "ℹ️  Message filtered as irrelevant (transport-only), marking as finalized"
       );
-      await updateMessage(messageId, { finalizedAt: new Date() });
+      const stages = isStageDone(ctx.stages, "filter")
+        ? ctx.stages
+        : completeStage(ctx.stages, "filter");
+      await finalizeMessage(ctx, skipRemainingStages(stages), {
+        messageFilter: filterResult,
+      });
 
       const { buildMessageResponse } = await import("./build-response");
       return await buildMessageResponse(messageId, text, [], null, null);
     }
 
     // Use normalized text for extraction
-    normalizedText = filterResult.normalizedText || text;
+    const normalizedText = filterResult.normalizedText || text;
 
     // Extract structured data from normalized text
-    const { extractAddressesFromMessage } = await import("./extract-addresses");
-    extractedData = await extractAddressesFromMessage(normalizedText);
+    if (!extractedData || !isStageDone(ctx.stages, "extract")) {
+      extractedData = await runStage(ctx, "extract", async () => {
+        const { extractAddressesFromMessage } = await import(
+          "./extract-addresses"
+        );
+        const result = await extractAddressesFromMessage(normalizedText);
 
-    // Store extracted data and markdown text together
-    const markdownText = extractedData?.markdown_text || "";
-    await updateMessage(messageId, {
-      extractedData,
-      markdownText,
-    });
-
-    // If extraction failed, finalize and return
-    if (!extractedData) {
-      console.error(
-        "❌ Failed to extract data from message, marking as finalized"
-      );
-      await updateMessage(messageId, { finalizedAt: new Date() });
+        if (!result) {
+          console.error("❌ Failed to extract data from message");
+          throw new Error("Message extraction failed");
+        }
+        return result;
+      });
 
-      const { buildMessageResponse } = await import("./build-response");
-      return await buildMessageResponse(messageId, text, [], null, null);
+      // Store extracted data and markdown text together
+      await saveStages(ctx, completeStage(ctx.stages, "extract"), {
+        extractedData,
+        markdownText: extractedData.markdown_text || "",
+      });
     }
 
-    // Geocode addresses
-    const { geocodeAddressesFromExtractedData } = await import(
-      "./geocode-addresses"
-    );
-    const { preGeocodedMap, addresses: geocodedAddresses } =
-      await geocodeAddressesFromExtractedData(extractedData);
-
-    // Filter outlier coordinates
-    const { filterOutlierCoordinates } = await import("./filter-outliers");
-    addresses = filterOutlierCoordinates(geocodedAddresses);
-
-    // Update preGeocodedMap to remove filtered outliers
-    const filteredOriginalTexts = new Set(addresses.map((a) => a.originalText));
-    for (const [key] of preGeocodedMap) {
-      if (!filteredOriginalTexts.has(key)) {
-        preGeocodedMap.delete(key);
+    const data: ExtractedData = extractedData;
+
+    if (isStageDone(ctx.stages, "geocode")) {
+      // Rebuild the lookup from stored addresses (outliers were already removed)
+      for (const address of addresses) {
+        preGeocodedMap.set(address.originalText, address.coordinates);
       }
-    }
+    } else {
+      const geocoded = await runStage(ctx, "geocode", async () => {
+        // Geocode addresses
+        const { geocodeAddressesFromExtractedData } = await import(
+          "./geocode-addresses"
+        );
+        const result = await geocodeAddressesFromExtractedData(data);
+
+        // Filter outlier coordinates (kept aside for the review queue)
+        const { partitionOutlierCoordinates } = await import(
+          "./filter-outliers"
+        );
+        const { kept: filtered, outliers } = partitionOutlierCoordinates(
+          result.addresses
+        );
+
+        // Update preGeocodedMap to remove filtered outliers
+        const filteredOriginalTexts = new Set(
+          filtered.map((a) => a.originalText)
+        );
+        for (const [key] of result.preGeocodedMap) {
+          if (!filteredOriginalTexts.has(key)) {
+            result.preGeocodedMap.delete(key);
+          }
+        }
+
+        return {
+          addresses: filtered,
+          outliers,
+          preGeocodedMap: result.preGeocodedMap,
+        };
+      });
+      addresses = geocoded.addresses;
+      outliers = geocoded.outliers;
+      preGeocodedMap = geocoded.preGeocodedMap;
 
-    // Store geocoding results in message
-    if (addresses.length > 0) {
-      await updateMessage(messageId, { addresses });
+      // Store geocoding results in message
+      await saveStages(ctx, completeStage(ctx.stages, "geocode"), {
+        ...(addresses.length > 0 ? { addresses } : {}),
+        ...(outliers.length > 0 ? { geocodingOutliers: outliers } : {}),
+      });
     }
 
     // Convert to GeoJSON
-    const { convertMessageGeocodingToGeoJson } = await import(
-      "./convert-to-geojson"
-    );
-    geoJson = await convertMessageGeocodingToGeoJson(
-      extractedData,
-      preGeocodedMap
-    );
-  } else if (options.markdownText) {
-    // When using precomputed GeoJSON, store markdown_text if provided
-    extractedData = {
-      responsible_entity: "",
-      pins: [],
-      streets: [],
-      markdown_text: options.markdownText,
-    };
-    await updateMessage(messageId, {
-      markdownText: options.markdownText,
-      extractedData,
+    geoJson = await runStage(ctx, "geojson", async () => {
+      const { convertMessageGeocodingToGeoJson } = await import(
+        "./convert-to-geojson"
+      );
+      return convertMessageGeocodingToGeoJson(data, preGeocodedMap, addresses);
     });
+  } else if (getResumeStage(ctx.stages) !== "geojson") {
+    // Precomputed GeoJSON skips filtering, extraction and geocoding
+    let stages = ctx.stages;
+    for (const stage of ["filter", "extract", "geocode"] as const) {
+      stages = completeStage(stages, stage, "skipped");
+    }
+
+    if (options.markdownText) {
+      // When using precomputed GeoJSON, store markdown_text if provided
+      extractedData = {
+        responsible_entity: "",
+        pins: [],
+        streets: [],
+        markdown_text: options.markdownText,
+      };
+      await saveStages(ctx, stages, {
+        markdownText: options.markdownText,
+        extractedData,
+      });
+    } else {
+      await saveStages(ctx, stages);
+    }
   }
 
   // Apply boundary filtering if provided
@@ -183,23 +433,63 @@ export async function messageIngest(
     );
 
     if (!filteredGeoJson) {
-      // No features within boundaries, don't store the message
+      // No features within boundaries, don't store the GeoJSON
       console.log(
         `⏭️  Message ${messageId} has no features within boundaries, skipping storage`
       );
-      // Note: The message document already exists in Firestore from storeIncomingMessage
-      // We could delete it here, but leaving it allows for auditing
+      // The message document is kept (without geoJson) for auditing,
+      // but finalized so that reruns don't pick it up again
+      await finalizeMessage(ctx, completeStage(ctx.stages, "geojson"));
       throw new Error("No features within specified boundaries");
     }
 
     geoJson = filteredGeoJson;
   }
 
-  // Store GeoJSON and finalize message
-  if (geoJson) {
-    await updateMessage(messageId, { geoJson, finalizedAt: new Date() });
+  // Store GeoJSON with the validity window and finalize message
+  const { activeFrom, activeUntil } = computeActiveWindow(
+    extractedData,
+    options.activePeriod,
+    options.crawledAt ?? new Date()
+  );
+
+  // Precomputed GeoJSON comes from the source and is trusted
+  let review: GeocodingAssessment | null = null;
+  if (!hasPrecomputedGeoJson) {
+    const { assessGeocodingQuality } = await import("./geocoding-review");
+    review = assessGeocodingQuality(extractedData, addresses, outliers);
+  }
+
+  // Queue before finalizing, so a finalized message pending review always
+  // has its queue entry (re-queueing on resume overwrites the same entry)
+  if (review?.needsReview) {
+    console.log(
+      `🔎 Queuing message ${messageId} for geocoding review (confidence ${review.confidence})`
+    );
+    await enqueueForReview(messageId, {
+      text,
+      source: ctx.source,
+      confidence: review.confidence,
+      reasons: review.reasons,
+      addresses,
+      outliers,
+    });
   }
 
+  await finalizeMessage(ctx, completeStage(ctx.stages, "geojson"), {
+    ...(geoJson ? { geoJson } : {}),
+    activeFrom: Timestamp.fromDate(activeFrom),
+    activeUntil: Timestamp.fromDate(activeUntil),
+    ...(geoJson ? { geohashes: geohashesForGeoJson(geoJson) } : {}),
+    ...(review ? { geocodingConfidence: review.confidence } : {}),
+    ...(review?.needsReview ? { reviewStatus: "pending" } : {}),
+    categories: getMessageCategories({
+      text,
+      source: ctx.source,
+      extractedData,
+    }),
+  });
+
   // Build and return response
   const { buildMessageResponse } = await import("./build-response");
   const newMessage = await buildMessageResponse(
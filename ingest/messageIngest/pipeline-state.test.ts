@@ -0,0 +1,151 @@
+import { describe, it, expect } from "vitest";
+import {
+  MAX_STAGE_ATTEMPTS,
+  completeStage,
+  createInitialStages,
+  deriveStagesFromDocument,
+  failStage,
+  getResumeStage,
+  hasExhaustedAttempts,
+  isIngestUnfinished,
+  isStageDone,
+} from "./pipeline-state";
+
+describe(createInitialStages, () => {
+  it("should create all stages as pending with no attempts", () => {
+    const stages = createInitialStages();
+
+    expect(Object.keys(stages)).toEqual([
+      "filter",
+      "extract",
+      "geocode",
+      "geojson",
+    ]);
+    for (const state of Object.values(stages)) {
+      expect(state).toEqual({ status: "pending", attempts: 0 });
+    }
+  });
+});
+
+describe(getResumeStage, () => {
+  it("should start from the first stage for a new message", () => {
+    expect(getResumeStage(createInitialStages())).toBe("filter");
+  });
+
+  it("should return the first stage that is not done", () => {
+    let stages = createInitialStages();
+    stages = completeStage(stages, "filter");
+    stages = completeStage(stages, "extract");
+    stages = failStage(stages, "geocode", "Overpass timeout");
+
+    expect(getResumeStage(stages)).toBe("geocode");
+  });
+
+  it("should treat skipped stages as done", () => {
+    let stages = createInitialStages();
+    stages = completeStage(stages, "filter", "skipped");
+    stages = completeStage(stages, "extract", "skipped");
+    stages = completeStage(stages, "geocode", "skipped");
+
+    expect(isStageDone(stages, "geocode")).toBe(true);
+    expect(getResumeStage(stages)).toBe("geojson");
+  });
+
+  it("should return null when all stages are done", () => {
+    let stages = createInitialStages();
+    for (const stage of ["filter", "extract", "geocode", "geojson"] as const) {
+      stages = completeStage(stages, stage);
+    }
+
+    expect(getResumeStage(stages)).toBeNull();
+  });
+});
+
+describe(failStage, () => {
+  it("should count attempts and keep the last error", () => {
+    let stages = createInitialStages();
+    stages = failStage(stages, "extract", "first");
+    stages = failStage(stages, "extract", "second");
+
+    expect(stages.extract.status).toBe("failed");
+    expect(stages.extract.attempts).toBe(2);
+    expect(stages.extract.error).toBe("second");
+    expect(stages.extract.updatedAt).toBeDefined();
+  });
+
+  it("should not mutate the original stage map", () => {
+    const stages = createInitialStages();
+    failStage(stages, "filter", "boom");
+
+    expect(stages.filter).toEqual({ status: "pending", attempts: 0 });
+  });
+
+  it("should report exhausted attempts after the maximum", () => {
+    let stages = createInitialStages();
+    for (let i = 0; i < MAX_STAGE_ATTEMPTS - 1; i++) {
+      stages = failStage(stages, "geojson", "boom");
+    }
+    expect(hasExhaustedAttempts(stages, "geojson")).toBe(false);
+
+    stages = failStage(stages, "geojson", "boom");
+    expect(hasExhaustedAttempts(stages, "geojson")).toBe(true);
+  });
+});
+
+describe(completeStage, () => {
+  it("should clear the error of a previously failed stage", () => {
+    let stages = createInitialStages();
+    stages = failStage(stages, "geocode", "HTTP 504");
+    stages = completeStage(stages, "geocode");
+
+    expect(stages.geocode.status).toBe("completed");
+    expect(stages.geocode.attempts).toBe(2);
+    expect(JSON.parse(JSON.stringify(stages)).geocode.error).toBeUndefined();
+  });
+});
+
+describe(deriveStagesFromDocument, () => {
+  it("should parse stages stored as a JSON string", () => {
+    const stored = completeStage(createInitialStages(), "filter");
+
+    const stages = deriveStagesFromDocument({
+      ingestStages: JSON.stringify(stored),
+    });
+
+    expect(stages.filter.status).toBe("completed");
+    expect(stages.extract.status).toBe("pending");
+  });
+
+  it("should infer completed stages from stored outputs of legacy messages", () => {
+    const stages = deriveStagesFromDocument({
+      text: "Ремонт на ул. Оборище",
+      messageFilter: JSON.stringify({ isRelevant: true, normalizedText: "" }),
+      extractedData: JSON.stringify({ pins: [], streets: [] }),
+    });
+
+    expect(stages.filter.status).toBe("completed");
+    expect(stages.extract.status).toBe("completed");
+    expect(getResumeStage(stages)).toBe("geocode");
+  });
+
+  it("should start from the beginning when nothing was stored", () => {
+    const stages = deriveStagesFromDocument({ text: "Съобщение" });
+
+    expect(getResumeStage(stages)).toBe("filter");
+  });
+});
+
+describe(isIngestUnfinished, () => {
+  it("should use ingestStatus when present", () => {
+    expect(isIngestUnfinished({ ingestStatus: "processing" })).toBe(true);
+    expect(isIngestUnfinished({ ingestStatus: "completed" })).toBe(false);
+    expect(isIngestUnfinished({ ingestStatus: "failed" })).toBe(false);
+  });
+
+  it("should fall back to finalizedAt for legacy messages", () => {
+    expect(isIngestUnfinished({ text: "x" })).toBe(true);
+    expect(
+      isIngestUnfinished({ text: "x", finalizedAt: { _seconds: 1 } })
+    ).toBe(false);
+  });
+});
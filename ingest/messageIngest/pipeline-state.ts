@@ -0,0 +1,149 @@
+import type {
+  IngestStage,
+  IngestStages,
+  IngestStageState,
+  IngestStatus,
+} from "@/lib/types";
+
+/**
+ * Pipeline stages in execution order
+ */
+export const INGEST_STAGES: IngestStage[] = [
+  "filter",
+  "extract",
+  "geocode",
+  "geojson",
+];
+
+/**
+ * How many times a stage may fail before the message is given up on
+ */
+export const MAX_STAGE_ATTEMPTS = 3;
+
+/**
+ * Create the stage map for a freshly stored message
+ */
+export function createInitialStages(): IngestStages {
+  const stages = {} as IngestStages;
+  for (const stage of INGEST_STAGES) {
+    stages[stage] = { status: "pending", attempts: 0 };
+  }
+  return stages;
+}
+
+/**
+ * A stage is done when it either completed or was intentionally skipped
+ */
+export function isStageDone(stages: IngestStages, stage: IngestStage): boolean {
+  const status = stages[stage]?.status;
+  return status === "completed" || status === "skipped";
+}
+
+/**
+ * Return the first stage that still needs to run, or null when all are done
+ */
+export function getResumeStage(stages: IngestStages): IngestStage | null {
+  return INGEST_STAGES.find((stage) => !isStageDone(stages, stage)) ?? null;
+}
+
+/**
+ * Return a copy of the stage map with one stage updated
+ */
+export function updateStage(
+  stages: IngestStages,
+  stage: IngestStage,
+  update: Partial<IngestStageState>
+): IngestStages {
+  return {
+    ...stages,
+    [stage]: {
+      ...stages[stage],
+      ...update,
+      updatedAt: new Date().toISOString(),
+    },
+  };
+}
+
+/**
+ * Mark a stage as completed (or skipped)
+ */
+export function completeStage(
+  stages: IngestStages,
+  stage: IngestStage,
+  status: "completed" | "skipped" = "completed"
+): IngestStages {
+  return updateStage(stages, stage, {
+    status,
+    attempts: stages[stage].attempts + (status === "completed" ? 1 : 0),
+    error: undefined, // Dropped when the stage map is serialized
+  });
+}
+
+/**
+ * Mark a stage as failed and count the attempt
+ */
+export function failStage(
+  stages: IngestStages,
+  stage: IngestStage,
+  error: string
+): IngestStages {
+  return updateStage(stages, stage, {
+    status: "failed",
+    attempts: stages[stage].attempts + 1,
+    error,
+  });
+}
+
+/**
+ * Whether a failed stage has used up its retries
+ */
+export function hasExhaustedAttempts(
+  stages: IngestStages,
+  stage: IngestStage
+): boolean {
+  return stages[stage].attempts >= MAX_STAGE_ATTEMPTS;
+}
+
+/**
+ * Parse the stored stage map of a message document.
+ * Messages stored before checkpoints existed have no `ingestStages`, so
+ * stage completion is inferred from which outputs were already saved.
+ */
+export function deriveStagesFromDocument(
+  data: Record<string, any>
+): IngestStages {
+  if (data.ingestStages) {
+    const stored =
+      typeof data.ingestStages === "string"
+        ? (JSON.parse(data.ingestStages) as Partial<IngestStages>)
+        : (data.ingestStages as Partial<IngestStages>);
+    return { ...createInitialStages(), ...stored };
+  }
+
+  let stages = createInitialStages();
+  if (data.messageFilter) {
+    stages = completeStage(stages, "filter");
+  }
+  if (data.extractedData) {
+    stages = completeStage(stages, "extract");
+  }
+  if (data.addresses) {
+    stages = completeStage(stages, "geocode");
+  }
+  if (data.geoJson && data.finalizedAt) {
+    stages = completeStage(stages, "geojson");
+  }
+  return stages;
+}
+
+/**
+ * Determine whether a stored message still has pipeline work left.
+ * Legacy documents without `ingestStatus` are unfinished until finalized.
+ */
+export function isIngestUnfinished(data: Record<string, any>): boolean {
+  const status = data.ingestStatus as IngestStatus | undefined;
+  if (status) {
+    return status === "processing";
+  }
+  return !data.finalizedAt;
+}
@@ -0,0 +1,177 @@
+import type { Firestore } from "firebase-admin/firestore";
+import type { GeoJSONFeatureCollection, IngestStages } from "@/lib/types";
+import { loadBoundaries } from "@/lib/boundary-utils";
+import { encodeDocumentId } from "../crawlers/shared/firestore";
+import { parseSourceGeoJson, toSourceDocument } from "./from-sources";
+import { deriveStagesFromDocument, getResumeStage } from "./pipeline-state";
+
+interface ResumeOptions {
+  boundariesPath?: string;
+  dryRun?: boolean;
+  sourceType?: string;
+  limit?: number;
+}
+
+interface StuckMessage {
+  id: string;
+  source?: string;
+  sourceUrl?: string;
+  stages: IngestStages;
+}
+
+interface ResumeSummary {
+  total: number;
+  resumed: number;
+  failed: number;
+  errors: Array<{ messageId: string; error: string }>;
+}
+
+/**
+ * Fetch messages whose pipeline is still in progress. Messages stored
+ * before the checkpoints get their `ingestStatus` from
+ * `--backfill-query-fields` (Firestore cannot match missing fields).
+ */
+async function fetchStuckMessages(
+  adminDb: Firestore,
+  options: ResumeOptions
+): Promise<StuckMessage[]> {
+  let query = adminDb
+    .collection("messages")
+    .where("ingestStatus", "==", "processing");
+  if (options.sourceType) {
+    query = query.where("source", "==", options.sourceType);
+  }
+  if (options.limit) {
+    query = query.limit(options.limit);
+  }
+
+  const snapshot = await query.get();
+
+  return snapshot.docs.map((doc) => {
+    const data = doc.data();
+    return {
+      id: doc.id,
+      source: data.source,
+      sourceUrl: data.sourceUrl,
+      stages: deriveStagesFromDocument(data),
+    };
+  });
+}
+
+/**
+ * Describe where a message stopped, e.g. `geocode (failed 2x: HTTP 504)`
+ */
+function describeStuckMessage(message: StuckMessage): string {
+  const stage = getResumeStage(message.stages);
+  if (!stage) {
+    return "all stages done, not finalized";
+  }
+
+  const state = message.stages[stage];
+  if (state.status === "failed") {
+    return `${stage} (failed ${state.attempts}x: ${
+      state.error ?? "unknown error"
+    })`;
+  }
+  return `${stage} (${state.status})`;
+}
+
+/**
+ * Load the source document a message was created from.
+ * Needed to re-supply precomputed GeoJSON and markdown text.
+ */
+async function loadSourceForMessage(
+  adminDb: Firestore,
+  sourceUrl: string | undefined
+) {
+  if (!sourceUrl) {
+    return null;
+  }
+
+  const doc = await adminDb
+    .collection("sources")
+    .doc(encodeDocumentId(sourceUrl))
+    .get();
+
+  return doc.exists ? toSourceDocument(doc.data() ?? {}) : null;
+}
+
+/**
+ * List messages stuck mid-pipeline and resume each from its failed stage
+ */
+export async function resume(
+  options: ResumeOptions = {}
+): Promise<ResumeSummary> {
+  console.log(
+    `🔁 Resuming unfinished messages (${
+      options.dryRun ? "dry-run" : "production"
+    })`
+  );
+
+  const boundaries: GeoJSONFeatureCollection | null = loadBoundaries(
+    options.boundariesPath
+  );
+  const { adminDb } = await import("@/lib/firebase-admin");
+
+  const stuckMessages = await fetchStuckMessages(adminDb, options);
+  console.log(`📡 Found ${stuckMessages.length} unfinished message(s)`);
+
+  const summary: ResumeSummary = {
+    total: stuckMessages.length,
+    resumed: 0,
+    failed: 0,
+    errors: [],
+  };
+
+  for (const message of stuckMessages) {
+    console.log(
+      `   • ${message.id} [${
+        message.source ?? "unknown"
+      }] → ${describeStuckMessage(message)}`
+    );
+  }
+
+  if (options.dryRun) {
+    console.log(
+      "\n💡 Dry-run mode: no messages were resumed. Run without --dry-run to resume."
+    );
+    return summary;
+  }
+
+  const { resumeMessageIngest } = await import("./index");
+
+  for (const message of stuckMessages) {
+    try {
+      const source = await loadSourceForMessage(adminDb, message.sourceUrl);
+
+      await resumeMessageIngest(message.id, {
+        precomputedGeoJson: source ? parseSourceGeoJson(source) : null,
+        sourceUrl: message.sourceUrl,
+        boundaryFilter: boundaries ?? undefined,
+        markdownText: source?.markdownText,
+        activePeriod: source
+          ? { activeFrom: source.activeFrom, activeUntil: source.activeUntil }
+          : undefined,
+      });
+      summary.resumed++;
+    } catch (error) {
+      summary.failed++;
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      summary.errors.push({ messageId: message.id, error: errorMessage });
+      console.error(`   ❌ Failed to resume ${message.id}:`, errorMessage);
+    }
+  }
+
+  console.log("\n" + "=".repeat(60));
+  console.log("📊 Resume Summary");
+  console.log("=".repeat(60));
+  console.log(`📦 Unfinished messages: ${summary.total}`);
+  console.log(`✅ Resumed: ${summary.resumed}`);
+  if (summary.failed > 0) {
+    console.log(`❌ Failed: ${summary.failed}`);
+  }
+  console.log("=".repeat(60));
+
+  return summary;
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { diffLines } from "./text-diff";
+
+describe("diffLines", () => {
+  it("should return no changes for identical text", () => {
+    expect(diffLines("ул. Шипка\nдо 18:00", "ул. Шипка\nдо 18:00")).toEqual([]);
+  });
+
+  it("should report a changed line as removed and added", () => {
+    const before = "Спиране на водата\nул. Шипка 12\nдо 18:00 ч.";
+    const after = "Спиране на водата\nул. Шипка 12\nдо 22:00 ч.";
+
+    expect(diffLines(before, after)).toEqual([
+      { type: "removed", text: "до 18:00 ч." },
+      { type: "added", text: "до 22:00 ч." },
+    ]);
+  });
+
+  it("should report appended and deleted lines", () => {
+    expect(diffLines("a\nb", "a\nb\nc")).toEqual([
+      { type: "added", text: "c" },
+    ]);
+    expect(diffLines("a\nb\nc", "a\nc")).toEqual([
+      { type: "removed", text: "b" },
+    ]);
+  });
+
+  it("should ignore blank lines and surrounding whitespace", () => {
+    expect(diffLines("a\n\n  b  \r\n", "a\nb")).toEqual([]);
+  });
+});
@@ -0,0 +1,53 @@
+import type { SourceDiffLine } from "@/lib/types";
+
+function splitLines(text: string): string[] {
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+}
+
+/**
+ * Line diff between two versions of a message (longest common subsequence).
+ * Only changed lines are returned, in the order they appear; blank lines and
+ * surrounding whitespace are ignored.
+ */
+export function diffLines(before: string, after: string): SourceDiffLine[] {
+  const a = splitLines(before);
+  const b = splitLines(after);
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        a[i] === b[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const diff: SourceDiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      diff.push({ type: "removed", text: a[i++] });
+    } else {
+      diff.push({ type: "added", text: b[j++] });
+    }
+  }
+  while (i < a.length) {
+    diff.push({ type: "removed", text: a[i++] });
+  }
+  while (j < b.length) {
+    diff.push({ type: "added", text: b[j++] });
+  }
+
+  return diff;
+}
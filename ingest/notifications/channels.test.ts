@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import type { Message } from "@/lib/types";
+import {
+  createMessageNotification,
+  createSummaryNotification,
+} from "./channels";
+
+const appUrl = "https://oboapp.online";
+
+function createMessage(id: string, text: string): Message {
+  return { id, text, createdAt: "2024-01-15T12:00:00.000Z" };
+}
+
+describe("createMessageNotification", () => {
+  it("should link to the message with the data of the match", () => {
+    expect(
+      createMessageNotification(
+        createMessage("message-1", "Спиране на водата"),
+        {
+          id: "match-1",
+          userId: "user-1",
+          messageId: "message-1",
+          interestId: "interest-1",
+          matchedAt: "2024-01-15T12:00:00.000Z",
+          notified: false,
+          distance: 120,
+        },
+        appUrl
+      )
+    ).toEqual({
+      title: "Ново съобщение в Оборище",
+      text: "Спиране на водата",
+      distance: 120,
+      url: "https://oboapp.online/?messageId=message-1",
+      data: {
+        messageId: "message-1",
+        interestId: "interest-1",
+        matchId: "match-1",
+        url: "https://oboapp.online/?messageId=message-1",
+      },
+    });
+  });
+});
+
+describe("createSummaryNotification", () => {
+  it("should list the first lines of the first messages", () => {
+    const messages = [
+      createMessage("1", "Спиране на водата\nул. Оборище 5"),
+      createMessage("2", "Ремонт на улица"),
+      createMessage("3", "Затворено кръстовище"),
+      createMessage("4", "Спиране на тока"),
+      createMessage("5", "Почистване"),
+    ];
+
+    expect(createSummaryNotification(messages, appUrl)).toEqual({
+      title: "5 нови съобщения във вашите зони",
+      text:
+        "• Спиране на водата\n" +
+        "• Ремонт на улица\n" +
+        "• Затворено кръстовище\n" +
+        "…и още 2",
+      url: "https://oboapp.online/notifications",
+      data: { url: "https://oboapp.online/notifications" },
+    });
+  });
+});
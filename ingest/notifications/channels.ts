@@ -0,0 +1,161 @@
+/**
+ * Channels that deliver each match to all devices or chats of a user: FCM
+ * push, and the Telegram and Viber bots when their tokens are set. Every
+ * send is tracked in the deviceNotifications of the match. Beyond the
+ * user's hourly cap, the matches go out together as one summary.
+ */
+
+import type { Firestore } from "firebase-admin/firestore";
+import { parseChatSubscriptionDocument } from "@oboapp/core";
+import type {
+  ChatChannel,
+  ChatSubscription,
+  DeviceNotification,
+  Message,
+  NotificationChannelName,
+  NotificationMatch,
+} from "@/lib/types";
+
+const SUMMARY_MAX_LINES = 3;
+
+export interface SendResult {
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * What the channels deliver: a matched message, or a summary of several
+ */
+export interface OutgoingNotification {
+  title: string;
+  text: string; // In full, each channel shortens it
+  distance?: number; // Meters from the user's zone, for a single message
+  url: string;
+  data: Record<string, string>; // Data of push notifications
+}
+
+export interface NotificationChannel {
+  name: NotificationChannelName;
+  /**
+   * Send a notification to every device or chat of the user, with one
+   * result each (none when the user has no devices or chats on the channel)
+   */
+  send(
+    userId: string,
+    notification: OutgoingNotification
+  ): Promise<DeviceNotification[]>;
+}
+
+/**
+ * Result of a send, as stored in the match document
+ */
+export function toDeviceNotification(
+  channel: NotificationChannelName,
+  subscriptionId: string,
+  result: SendResult,
+  deviceInfo?: DeviceNotification["deviceInfo"]
+): DeviceNotification {
+  const deviceNotification: DeviceNotification = {
+    subscriptionId,
+    channel,
+    sentAt: new Date().toISOString(),
+    success: result.success,
+  };
+
+  // Only include optional fields when set (avoid undefined in Firestore)
+  if (deviceInfo) {
+    deviceNotification.deviceInfo = deviceInfo;
+  }
+  if (result.error) {
+    deviceNotification.error = result.error;
+  }
+
+  return deviceNotification;
+}
+
+/**
+ * Title of the notification of a message, on every channel
+ */
+export function getNotificationTitle(message: Message): string {
+  return message.previousMessageId
+    ? "Обновено съобщение в Оборище"
+    : "Ново съобщение в Оборище";
+}
+
+export function getPreview(text: string, length: number): string {
+  return text.length > length ? text.substring(0, length) + "..." : text;
+}
+
+/**
+ * Notification of a matched message, linking to it on the map
+ */
+export function createMessageNotification(
+  message: Message,
+  match: NotificationMatch,
+  appUrl: string
+): OutgoingNotification {
+  const url = `${appUrl}/?messageId=${match.messageId}`;
+  return {
+    title: getNotificationTitle(message),
+    text: message.text,
+    distance: match.distance,
+    url,
+    data: {
+      messageId: match.messageId,
+      interestId: match.interestId,
+      matchId: match.id || "",
+      url,
+    },
+  };
+}
+
+/**
+ * One notification for several messages, with the start of each, linking to
+ * the user's notification history
+ */
+export function createSummaryNotification(
+  messages: Message[],
+  appUrl: string
+): OutgoingNotification {
+  const lines = messages
+    .slice(0, SUMMARY_MAX_LINES)
+    .map((message) => `• ${getPreview(message.text.split("\n")[0], 80)}`);
+  if (messages.length > SUMMARY_MAX_LINES) {
+    lines.push(`…и още ${messages.length - SUMMARY_MAX_LINES}`);
+  }
+
+  const url = `${appUrl}/notifications`;
+  return {
+    title: `${messages.length} нови съобщения във вашите зони`,
+    text: lines.join("\n"),
+    url,
+    data: { url },
+  };
+}
+
+/**
+ * Chats a user linked on a channel
+ */
+export async function getChatSubscriptions(
+  adminDb: Firestore,
+  userId: string,
+  channel: ChatChannel
+): Promise<ChatSubscription[]> {
+  const snapshot = await adminDb
+    .collection("chatSubscriptions")
+    .where("userId", "==", userId)
+    .where("channel", "==", channel)
+    .get();
+
+  const chats: ChatSubscription[] = [];
+  snapshot.forEach((doc) => {
+    const chat = parseChatSubscriptionDocument(doc.id, doc.data());
+    if (!chat) {
+      console.warn(`   ⚠️  Skipping invalid chat subscription ${doc.id}`);
+      return;
+    }
+    chats.push(chat);
+  });
+
+  return chats;
+}
@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest";
+import type { NotificationPreferences } from "@/lib/types";
+import {
+  getRecentSends,
+  getSofiaMinutes,
+  isInQuietHours,
+  planDelivery,
+} from "./delivery-plan";
+
+// 23:30 in Sofia (UTC+2 in winter)
+const now = new Date("2024-01-15T21:30:00.000Z");
+
+const preferences: NotificationPreferences = {
+  userId: "user-1",
+  maxPerHour: 3,
+  recentSends: [],
+};
+
+describe("getSofiaMinutes", () => {
+  it("should follow the Sofia time zone with daylight saving time", () => {
+    expect(getSofiaMinutes(now)).toBe(23 * 60 + 30);
+    expect(getSofiaMinutes(new Date("2024-07-15T21:30:00.000Z"))).toBe(30);
+  });
+});
+
+describe("isInQuietHours", () => {
+  it("should span midnight when the end is before the start", () => {
+    const quietHours = { start: "22:00", end: "07:00" };
+
+    expect(isInQuietHours(quietHours, now)).toBe(true);
+    expect(
+      isInQuietHours(quietHours, new Date("2024-01-15T04:59:00.000Z"))
+    ).toBe(true);
+    expect(
+      isInQuietHours(quietHours, new Date("2024-01-15T05:00:00.000Z"))
+    ).toBe(false);
+  });
+
+  it("should handle quiet hours within a day", () => {
+    const quietHours = { start: "13:00", end: "15:00" };
+
+    expect(isInQuietHours(quietHours, now)).toBe(false);
+    expect(
+      isInQuietHours(quietHours, new Date("2024-01-15T11:00:00.000Z"))
+    ).toBe(true);
+  });
+
+  it("should never be quiet without quiet hours", () => {
+    expect(isInQuietHours(undefined, now)).toBe(false);
+  });
+});
+
+describe("getRecentSends", () => {
+  it("should keep the sends of the last hour", () => {
+    expect(
+      getRecentSends(
+        {
+          ...preferences,
+          recentSends: ["2024-01-15T20:00:00.000Z", "2024-01-15T21:00:00.000Z"],
+        },
+        now
+      )
+    ).toEqual([new Date("2024-01-15T21:00:00.000Z")]);
+  });
+});
+
+describe("planDelivery", () => {
+  it("should send each match within the cap", () => {
+    expect(planDelivery(["a", "b", "c"], preferences, now)).toEqual({
+      send: ["a", "b", "c"],
+      summary: [],
+      hold: [],
+    });
+  });
+
+  it("should collapse the matches beyond the cap into a summary", () => {
+    expect(planDelivery(["a", "b", "c", "d", "e"], preferences, now)).toEqual({
+      send: ["a", "b"],
+      summary: ["c", "d", "e"],
+      hold: [],
+    });
+  });
+
+  it("should count the sends of the last hour", () => {
+    expect(
+      planDelivery(
+        ["a", "b"],
+        { ...preferences, recentSends: ["2024-01-15T21:00:00.000Z"] },
+        now
+      )
+    ).toEqual({ send: ["a", "b"], summary: [], hold: [] });
+    expect(
+      planDelivery(
+        ["a", "b", "c"],
+        {
+          ...preferences,
+          recentSends: ["2024-01-15T21:00:00.000Z", "2024-01-15T21:10:00.000Z"],
+        },
+        now
+      )
+    ).toEqual({ send: [], summary: ["a", "b", "c"], hold: [] });
+  });
+
+  it("should hold the matches once the cap is reached", () => {
+    const recentSends = Array(3).fill("2024-01-15T21:00:00.000Z");
+
+    expect(planDelivery(["a"], { ...preferences, recentSends }, now)).toEqual({
+      send: [],
+      summary: [],
+      hold: ["a"],
+      reason: "rate-limit",
+    });
+  });
+
+  it("should hold the matches during the quiet hours", () => {
+    expect(
+      planDelivery(
+        ["a", "b"],
+        { ...preferences, quietHours: { start: "22:00", end: "07:00" } },
+        now
+      )
+    ).toEqual({
+      send: [],
+      summary: [],
+      hold: ["a", "b"],
+      reason: "quiet-hours",
+    });
+  });
+});
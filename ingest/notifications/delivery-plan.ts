@@ -0,0 +1,101 @@
+/**
+ * When the matches of a user go out, by their notification preferences:
+ * held during the quiet hours (Sofia time) and while the hourly cap is
+ * reached, and collapsed into one summary beyond the cap. Held matches stay
+ * unnotified and go out on a later run.
+ */
+
+import type { NotificationPreferences, QuietHours } from "@/lib/types";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const sofiaTimeFormat = new Intl.DateTimeFormat("en-GB", {
+  timeZone: "Europe/Sofia",
+  hour: "2-digit",
+  minute: "2-digit",
+  hourCycle: "h23",
+});
+
+export interface DeliveryPlan<T> {
+  send: T[]; // Each on its own
+  summary: T[]; // Together in one notification
+  hold: T[]; // For a later run
+  reason?: "quiet-hours" | "rate-limit"; // Why matches are held
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Minutes since midnight in Sofia
+ */
+export function getSofiaMinutes(date: Date): number {
+  const parts = sofiaTimeFormat.formatToParts(date);
+  const part = (type: string) =>
+    Number(parts.find((p) => p.type === type)?.value);
+  return part("hour") * 60 + part("minute");
+}
+
+/**
+ * Whether it is within the quiet hours, from the start (inclusive) to the
+ * end, which is on the next day when it is earlier than the start
+ */
+export function isInQuietHours(
+  quietHours: QuietHours | undefined,
+  now: Date
+): boolean {
+  if (!quietHours) {
+    return false;
+  }
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+  const minutes = getSofiaMinutes(now);
+
+  return start < end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end;
+}
+
+/**
+ * The sends of the last hour
+ */
+export function getRecentSends(
+  preferences: NotificationPreferences,
+  now: Date
+): Date[] {
+  return preferences.recentSends
+    .map((sentAt) => new Date(sentAt))
+    .filter((sentAt) => now.getTime() - sentAt.getTime() < HOUR_MS);
+}
+
+/**
+ * Plan the delivery of a user's matches, oldest first: the ones within the
+ * hourly cap on their own, and the rest in a summary that takes the last
+ * send of the hour
+ */
+export function planDelivery<T>(
+  matches: T[],
+  preferences: NotificationPreferences,
+  now: Date
+): DeliveryPlan<T> {
+  if (isInQuietHours(preferences.quietHours, now)) {
+    return { send: [], summary: [], hold: matches, reason: "quiet-hours" };
+  }
+
+  const remaining =
+    preferences.maxPerHour - getRecentSends(preferences, now).length;
+  if (remaining <= 0) {
+    return { send: [], summary: [], hold: matches, reason: "rate-limit" };
+  }
+  if (matches.length <= remaining) {
+    return { send: matches, summary: [], hold: [] };
+  }
+
+  return {
+    send: matches.slice(0, remaining - 1),
+    summary: matches.slice(remaining - 1),
+    hold: [],
+  };
+}
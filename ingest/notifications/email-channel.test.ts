@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import type { EmailPreference } from "@/lib/types";
+import { getUnsubscribeUrl, isDigestDue } from "./email-channel";
+
+function preference(overrides: Partial<EmailPreference>): EmailPreference {
+  return {
+    userId: "user-1",
+    email: "user@example.com",
+    frequency: "daily",
+    unsubscribeToken: "a/b",
+    createdAt: "2024-01-01T08:00:00.000Z",
+    updatedAt: "2024-01-01T08:00:00.000Z",
+    ...overrides,
+  };
+}
+
+describe("isDigestDue", () => {
+  it("should wait a day or a week after the previous digest", () => {
+    const lastDigestAt = "2024-01-10T08:00:00.000Z";
+
+    expect(
+      isDigestDue(
+        preference({ lastDigestAt }),
+        new Date("2024-01-11T07:59:00.000Z")
+      )
+    ).toBe(false);
+    expect(
+      isDigestDue(
+        preference({ lastDigestAt }),
+        new Date("2024-01-11T08:00:00.000Z")
+      )
+    ).toBe(true);
+    expect(
+      isDigestDue(
+        preference({ frequency: "weekly", lastDigestAt }),
+        new Date("2024-01-16T08:00:00.000Z")
+      )
+    ).toBe(false);
+  });
+
+  it("should count from the choice before the first digest", () => {
+    expect(
+      isDigestDue(preference({}), new Date("2024-01-02T08:00:00.000Z"))
+    ).toBe(true);
+  });
+
+  it("should never be due for instant emails", () => {
+    expect(
+      isDigestDue(
+        preference({ frequency: "instant" }),
+        new Date("2025-01-01T00:00:00.000Z")
+      )
+    ).toBe(false);
+  });
+});
+
+describe("getUnsubscribeUrl", () => {
+  it("should link to the web app with the encoded token", () => {
+    expect(getUnsubscribeUrl("https://oboapp.online", preference({}))).toBe(
+      "https://oboapp.online/api/notifications/email/unsubscribe?token=a%2Fb"
+    );
+  });
+});
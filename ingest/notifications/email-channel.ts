@@ -0,0 +1,295 @@
+/**
+ * Email channel of the notifications, next to push. Users choose how often
+ * in their settings (the emailPreferences collection): each match as it is
+ * sent, or a digest of the matches once a day or a week.
+ */
+
+import type { Firestore } from "firebase-admin/firestore";
+import type { Transporter } from "nodemailer";
+import {
+  convertTimestamp,
+  parseEmailPreferenceDocument,
+  parseInterestDocument,
+  parseNotificationMatchDocument,
+} from "@oboapp/core";
+import type {
+  EmailFrequency,
+  EmailPreference,
+  Interest,
+  NotificationMatch,
+} from "@/lib/types";
+import { type DigestItem, groupByZone, renderEmail } from "./email-template";
+import {
+  createSmtpTransport,
+  getSmtpConfig,
+  sendEmail,
+} from "./email-transport";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DIGEST_PERIODS_MS: Record<Exclude<EmailFrequency, "instant">, number> = {
+  daily: DAY_MS,
+  weekly: 7 * DAY_MS,
+};
+
+export interface EmailChannel {
+  transporter: Transporter;
+  from: string;
+  appUrl: string;
+  mapsApiKey?: string;
+  preferences: Map<string, EmailPreference>; // By user id
+}
+
+/**
+ * Link that unsubscribes from the emails in one click, handled by the web
+ * app (web/app/api/notifications/email/unsubscribe)
+ */
+export function getUnsubscribeUrl(
+  appUrl: string,
+  preference: EmailPreference
+): string {
+  return `${appUrl}/api/notifications/email/unsubscribe?token=${encodeURIComponent(
+    preference.unsubscribeToken
+  )}`;
+}
+
+/**
+ * Whether the digest of a user is due: a day or a week after the previous
+ * one (or after the user chose digests)
+ */
+export function isDigestDue(preference: EmailPreference, now: Date): boolean {
+  if (preference.frequency === "instant") {
+    return false;
+  }
+  const since = new Date(
+    preference.lastDigestAt ?? preference.createdAt
+  ).getTime();
+  return now.getTime() - since >= DIGEST_PERIODS_MS[preference.frequency];
+}
+
+async function getEmailPreferences(
+  adminDb: Firestore
+): Promise<Map<string, EmailPreference>> {
+  console.log("📧 Fetching email preferences...");
+
+  const snapshot = await adminDb.collection("emailPreferences").get();
+
+  const preferences = new Map<string, EmailPreference>();
+  snapshot.forEach((doc) => {
+    const preference = parseEmailPreferenceDocument(doc.id, doc.data());
+    if (!preference) {
+      console.warn(`   ⚠️  Skipping invalid email preference ${doc.id}`);
+      return;
+    }
+    preferences.set(preference.userId, preference);
+  });
+
+  console.log(`   ✅ Found ${preferences.size} email preferences`);
+
+  return preferences;
+}
+
+/**
+ * Set up the email channel, null when SMTP is not configured
+ */
+export async function initEmailChannel(
+  adminDb: Firestore,
+  appUrl: string
+): Promise<EmailChannel | null> {
+  const config = getSmtpConfig();
+  if (!config) {
+    console.log("ℹ️  SMTP_HOST not set, email notifications are off\n");
+    return null;
+  }
+
+  return {
+    transporter: createSmtpTransport(config),
+    from: config.from,
+    appUrl,
+    mapsApiKey: process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY,
+    preferences: await getEmailPreferences(adminDb),
+  };
+}
+
+async function sendItemsEmail(
+  channel: EmailChannel,
+  preference: EmailPreference,
+  items: DigestItem[],
+  interests: Interest[]
+): Promise<{ success: boolean; error?: string }> {
+  const unsubscribeUrl = getUnsubscribeUrl(channel.appUrl, preference);
+  const content = renderEmail({
+    frequency: preference.frequency,
+    zones: groupByZone(
+      items,
+      interests.filter((interest) => interest.userId === preference.userId)
+    ),
+    appUrl: channel.appUrl,
+    unsubscribeUrl,
+    mapsApiKey: channel.mapsApiKey,
+  });
+
+  return sendEmail(
+    channel.transporter,
+    channel.from,
+    preference.email,
+    content,
+    unsubscribeUrl
+  );
+}
+
+/**
+ * Email matches right away to a user who chose instant emails, together
+ * when they were collapsed into a summary. Returns whether an email was
+ * sent, false for the other users.
+ */
+export async function sendInstantEmail(
+  channel: EmailChannel,
+  userId: string,
+  items: DigestItem[],
+  interests: Interest[]
+): Promise<boolean> {
+  const preference = channel.preferences.get(userId);
+  if (preference?.frequency !== "instant") {
+    return false;
+  }
+
+  const result = await sendItemsEmail(channel, preference, items, interests);
+  return result.success;
+}
+
+// Needs the composite index of notificationMatches on userId and matchedAt
+// (firestore.indexes.json)
+async function getMatchesSince(
+  adminDb: Firestore,
+  userId: string,
+  since: Date | string
+): Promise<NotificationMatch[]> {
+  const snapshot = await adminDb
+    .collection("notificationMatches")
+    .where("userId", "==", userId)
+    .where("matchedAt", ">", new Date(since))
+    .get();
+
+  const matches: NotificationMatch[] = [];
+  snapshot.forEach((doc) => {
+    const match = parseNotificationMatchDocument(doc.id, doc.data());
+    if (match) {
+      matches.push(match);
+    }
+  });
+
+  return matches;
+}
+
+async function getUserInterests(
+  adminDb: Firestore,
+  userId: string
+): Promise<Interest[]> {
+  const snapshot = await adminDb
+    .collection("interests")
+    .where("userId", "==", userId)
+    .get();
+
+  return snapshot.docs
+    .map((doc) => parseInterestDocument(doc.id, doc.data()))
+    .filter((interest): interest is Interest => interest !== null)
+    .sort((a, b) => String(a.createdAt).localeCompare(String(b.createdAt)));
+}
+
+/**
+ * Messages of the matches, skipping the ones deleted since
+ */
+async function getDigestItems(
+  adminDb: Firestore,
+  matches: NotificationMatch[]
+): Promise<DigestItem[]> {
+  const messagesRef = adminDb.collection("messages");
+  const messageDocs = await adminDb.getAll(
+    ...matches.map((match) => messagesRef.doc(match.messageId))
+  );
+
+  const items: DigestItem[] = [];
+  messageDocs.forEach((messageDoc, index) => {
+    const data = messageDoc.data();
+    if (!data) {
+      return;
+    }
+    items.push({
+      message: {
+        id: messageDoc.id,
+        text: data.text || "",
+        geoJson: data.geoJson ? JSON.parse(data.geoJson) : undefined,
+        createdAt: convertTimestamp(data.createdAt),
+        previousMessageId: data.previousMessageId,
+      },
+      interestId: matches[index].interestId,
+      distance: matches[index].distance,
+    });
+  });
+
+  return items;
+}
+
+/**
+ * Send the digests that are due, with the matches since the previous
+ * digest. A digest that fails to send is retried on the next run.
+ */
+export async function sendEmailDigests(
+  adminDb: Firestore,
+  channel: EmailChannel
+): Promise<void> {
+  console.log("\n📧 Sending email digests...");
+
+  const preferencesRef = adminDb.collection("emailPreferences");
+  const matchesRef = adminDb.collection("notificationMatches");
+  const now = new Date();
+
+  const due = Array.from(channel.preferences.values()).filter((preference) =>
+    isDigestDue(preference, now)
+  );
+  console.log(`   ℹ️  ${due.length} digests due`);
+
+  let sentCount = 0;
+  let errorCount = 0;
+
+  for (const preference of due) {
+    const matches = await getMatchesSince(
+      adminDb,
+      preference.userId,
+      preference.lastDigestAt ?? preference.createdAt
+    );
+    const items =
+      matches.length > 0 ? await getDigestItems(adminDb, matches) : [];
+
+    if (items.length > 0) {
+      const interests = await getUserInterests(adminDb, preference.userId);
+      const result = await sendItemsEmail(
+        channel,
+        preference,
+        items,
+        interests
+      );
+      if (!result.success) {
+        errorCount++;
+        continue;
+      }
+
+      sentCount++;
+      console.log(
+        `   ✅ Sent ${preference.frequency} digest of ${
+          items.length
+        } messages to user ${preference.userId.substring(0, 8)}`
+      );
+      for (const match of matches) {
+        await matchesRef.doc(match.id!).update({ emailedAt: now });
+      }
+    }
+
+    // Also without matches, so that the next digest is a period later
+    await preferencesRef.doc(preference.userId).update({ lastDigestAt: now });
+  }
+
+  console.log(`   📊 Digests sent: ${sentCount}`);
+  console.log(`   ❌ Errors: ${errorCount}`);
+}
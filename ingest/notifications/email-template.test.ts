@@ -0,0 +1,150 @@
+import { describe, expect, it } from "vitest";
+import type { Interest, Message } from "@/lib/types";
+import {
+  type DigestItem,
+  escapeHtml,
+  getStaticMapUrl,
+  groupByZone,
+  renderEmail,
+} from "./email-template";
+
+function interest(id: string, lat: number): Interest {
+  return {
+    id,
+    userId: "user-1",
+    coordinates: { lat, lng: 23.33 },
+    radius: 500,
+    createdAt: "2024-01-01T00:00:00.000Z",
+    updatedAt: "2024-01-01T00:00:00.000Z",
+  };
+}
+
+function item(id: string, interestId: string, createdAt: string): DigestItem {
+  const message: Message = {
+    id,
+    text: `Ремонт <${id}>`,
+    createdAt,
+    geoJson: {
+      type: "FeatureCollection",
+      features: [
+        {
+          type: "Feature",
+          geometry: { type: "Point", coordinates: [23.331, 42.691] },
+          properties: {},
+        },
+      ],
+    },
+  };
+  return { message, interestId, distance: 120 };
+}
+
+const home = interest("home", 42.69);
+const work = interest("work", 42.7);
+
+describe("groupByZone", () => {
+  it("should group messages in the order of the zones, newest first", () => {
+    const zones = groupByZone(
+      [
+        item("a", "work", "2024-01-02T08:00:00.000Z"),
+        item("b", "home", "2024-01-02T08:00:00.000Z"),
+        item("c", "work", "2024-01-02T09:00:00.000Z"),
+      ],
+      [home, work]
+    );
+
+    expect(zones.map((zone) => zone.interest?.id)).toEqual(["home", "work"]);
+    expect(zones[1].items.map((i) => i.message.id)).toEqual(["c", "a"]);
+  });
+
+  it("should put messages of deleted zones last and drop empty zones", () => {
+    const zones = groupByZone(
+      [
+        item("a", "deleted", "2024-01-02T08:00:00.000Z"),
+        item("b", "work", "2024-01-02T08:00:00.000Z"),
+      ],
+      [home, work]
+    );
+
+    expect(zones.map((zone) => zone.interest?.id ?? null)).toEqual([
+      "work",
+      null,
+    ]);
+  });
+});
+
+describe("getStaticMapUrl", () => {
+  it("should draw the zone and mark the messages", () => {
+    const url = new URL(
+      getStaticMapUrl(home, [item("a", "home", "2024-01-02")], "key")
+    );
+
+    expect(url.searchParams.get("path")).toMatch(
+      /^color:0x1976D2ff\|weight:2\|fillcolor:0x1976D233\|42\.69/
+    );
+    expect(url.searchParams.get("markers")).toBe(
+      "color:0xE74C3C|42.69100,23.33100"
+    );
+    expect(url.searchParams.get("key")).toBe("key");
+  });
+});
+
+describe("escapeHtml", () => {
+  it("should escape markup and quotes", () => {
+    expect(escapeHtml(`<a href="x">'&'</a>`)).toBe(
+      "&lt;a href=&quot;x&quot;&gt;&#39;&amp;&#39;&lt;/a&gt;"
+    );
+  });
+});
+
+describe("renderEmail", () => {
+  const zones = groupByZone(
+    [
+      item("a", "home", "2024-01-02T08:00:00.000Z"),
+      item("b", "work", "2024-01-02T09:00:00.000Z"),
+    ],
+    [home, work]
+  );
+  const options = {
+    zones,
+    appUrl: "https://oboapp.online",
+    unsubscribeUrl: "https://oboapp.online/unsubscribe?token=t",
+  };
+
+  it("should title digests by their period and count", () => {
+    expect(renderEmail({ ...options, frequency: "daily" }).subject).toBe(
+      "2 нови съобщения в Оборище за деня"
+    );
+    expect(renderEmail({ ...options, frequency: "weekly" }).subject).toBe(
+      "2 нови съобщения в Оборище за седмицата"
+    );
+  });
+
+  it("should title an instant email like the push notification", () => {
+    expect(
+      renderEmail({ ...options, zones: [zones[0]], frequency: "instant" })
+        .subject
+    ).toBe("Ново съобщение в Оборище");
+  });
+
+  it("should render escaped messages with links in both versions", () => {
+    const { html, text } = renderEmail({ ...options, frequency: "daily" });
+
+    expect(html).toContain("Ремонт &lt;a&gt;");
+    expect(html).toContain('href="https://oboapp.online/?messageId=a"');
+    expect(html).toContain('href="https://oboapp.online/unsubscribe?token=t"');
+    expect(text).toContain("Ремонт <b>");
+    expect(text).toContain("https://oboapp.online/?messageId=b");
+    expect(text).toContain(
+      "Отписване от имейлите: https://oboapp.online/unsubscribe?token=t"
+    );
+  });
+
+  it("should show maps only with an API key", () => {
+    expect(renderEmail({ ...options, frequency: "daily" }).html).not.toContain(
+      "staticmap"
+    );
+    expect(
+      renderEmail({ ...options, frequency: "daily", mapsApiKey: "key" }).html
+    ).toContain("https://maps.googleapis.com/maps/api/staticmap?");
+  });
+});
@@ -0,0 +1,302 @@
+/**
+ * Emails of the email channel: a single match for instant notifications, or
+ * a digest of the matches since the previous one. Both group the messages
+ * by zone (the user's interests), each with a static map of the zone.
+ */
+
+import * as turf from "@turf/turf";
+import type { EmailFrequency, Interest, Message } from "@/lib/types";
+
+const STATIC_MAPS_URL = "https://maps.googleapis.com/maps/api/staticmap";
+const MAX_MAP_MARKERS = 10;
+const PREVIEW_LENGTH = 300;
+
+// Same colors as the map (web/lib/colors.ts)
+const ZONE_COLOR = "0x1976D2";
+const MARKER_COLOR = "0xE74C3C";
+const HEADER_COLOR = "#2c3e50";
+
+export interface EmailContent {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface DigestItem {
+  message: Message;
+  interestId: string;
+  distance?: number;
+}
+
+export interface DigestZone {
+  interest: Interest | null; // Null when the zone was deleted after the match
+  items: DigestItem[];
+}
+
+export interface EmailOptions {
+  frequency: EmailFrequency;
+  zones: DigestZone[];
+  appUrl: string;
+  unsubscribeUrl: string;
+  mapsApiKey?: string; // Without a key the emails have no maps
+}
+
+/**
+ * Group messages by the zone they matched, in the order of the user's
+ * zones, and the messages of a zone from the newest. Messages of deleted
+ * zones come last.
+ */
+export function groupByZone(
+  items: DigestItem[],
+  interests: Interest[]
+): DigestZone[] {
+  const zones: DigestZone[] = interests.map((interest) => ({
+    interest,
+    items: items.filter((item) => item.interestId === interest.id),
+  }));
+  const known = new Set(interests.map((interest) => interest.id));
+  zones.push({
+    interest: null,
+    items: items.filter((item) => !known.has(item.interestId)),
+  });
+
+  return zones
+    .filter((zone) => zone.items.length > 0)
+    .map((zone) => ({
+      ...zone,
+      items: [...zone.items].sort((a, b) =>
+        String(b.message.createdAt).localeCompare(String(a.message.createdAt))
+      ),
+    }));
+}
+
+function getMessageCenter(message: Message): [number, number] | null {
+  if (!message.geoJson?.features?.length) {
+    return null;
+  }
+  try {
+    return turf.center(message.geoJson as turf.AllGeoJSON).geometry
+      .coordinates as [number, number];
+  } catch {
+    return null;
+  }
+}
+
+function formatLatLng([lng, lat]: number[]): string {
+  return `${lat.toFixed(5)},${lng.toFixed(5)}`;
+}
+
+/**
+ * Google Static Maps image of a zone: its circle and a marker for each of
+ * the first messages
+ */
+export function getStaticMapUrl(
+  interest: Interest,
+  items: DigestItem[],
+  apiKey: string
+): string {
+  const circle = turf.circle(
+    [interest.coordinates.lng, interest.coordinates.lat],
+    interest.radius / 1000,
+    { units: "kilometers", steps: 32 }
+  );
+
+  const params = new URLSearchParams({ size: "600x300", scale: "2" });
+  params.append(
+    "path",
+    [
+      `color:${ZONE_COLOR}ff`,
+      "weight:2",
+      `fillcolor:${ZONE_COLOR}33`,
+      ...circle.geometry.coordinates[0].map(formatLatLng),
+    ].join("|")
+  );
+
+  const markers = items
+    .slice(0, MAX_MAP_MARKERS)
+    .map((item) => getMessageCenter(item.message))
+    .filter((center): center is [number, number] => center !== null);
+  if (markers.length > 0) {
+    params.append(
+      "markers",
+      [`color:${MARKER_COLOR}`, ...markers.map(formatLatLng)].join("|")
+    );
+  }
+
+  params.append("key", apiKey);
+  return `${STATIC_MAPS_URL}?${params.toString()}`;
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;")
+    .replaceAll("'", "&#39;");
+}
+
+function getPreview(text: string): string {
+  return text.length > PREVIEW_LENGTH
+    ? text.substring(0, PREVIEW_LENGTH) + "..."
+    : text;
+}
+
+function formatDate(date: Date | string): string {
+  return new Date(date).toLocaleString("bg-BG", {
+    timeZone: "Europe/Sofia",
+    day: "numeric",
+    month: "long",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function getZoneTitle(interest: Interest | null): string {
+  if (!interest) {
+    return "Изтрити зони";
+  }
+  const { lat, lng } = interest.coordinates;
+  return `Зона ${lat.toFixed(5)}, ${lng.toFixed(5)} (радиус ${
+    interest.radius
+  }м)`;
+}
+
+function getMessageUrl(appUrl: string, message: Message): string {
+  return `${appUrl}/?messageId=${message.id}`;
+}
+
+function getSubject(frequency: EmailFrequency, zones: DigestZone[]): string {
+  const items = zones.flatMap((zone) => zone.items);
+  if (frequency === "instant" && items.length === 1) {
+    return items[0].message.previousMessageId
+      ? "Обновено съобщение в Оборище"
+      : "Ново съобщение в Оборище";
+  }
+
+  const count = `${items.length} ${
+    items.length === 1 ? "ново съобщение" : "нови съобщения"
+  }`;
+  switch (frequency) {
+    case "daily":
+      return `${count} в Оборище за деня`;
+    case "weekly":
+      return `${count} в Оборище за седмицата`;
+    default:
+      return `${count} в Оборище`;
+  }
+}
+
+function renderHtmlItem(appUrl: string, item: DigestItem): string {
+  const distance =
+    item.distance === undefined
+      ? ""
+      : ` · ${Math.round(item.distance)}м от центъра на зоната`;
+
+  return `
+        <tr>
+          <td style="padding: 12px 0; border-top: 1px solid #e5e7eb;">
+            <p style="margin: 0 0 4px; color: #6b7280; font-size: 13px;">${escapeHtml(
+              formatDate(item.message.createdAt) + distance
+            )}</p>
+            <p style="margin: 0 0 8px; color: #111827; font-size: 15px; white-space: pre-line;">${escapeHtml(
+              getPreview(item.message.text)
+            )}</p>
+            <a href="${escapeHtml(
+              getMessageUrl(appUrl, item.message)
+            )}" style="color: #1976D2; font-size: 14px;">Виж на картата →</a>
+          </td>
+        </tr>`;
+}
+
+function renderHtmlZone(options: EmailOptions, zone: DigestZone): string {
+  const map =
+    zone.interest && options.mapsApiKey
+      ? `
+        <tr>
+          <td style="padding: 8px 0;">
+            <img src="${escapeHtml(
+              getStaticMapUrl(zone.interest, zone.items, options.mapsApiKey)
+            )}" width="600" alt="" style="display: block; width: 100%; height: auto; border-radius: 8px;">
+          </td>
+        </tr>`
+      : "";
+
+  return `
+      <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="margin-bottom: 24px;">
+        <tr>
+          <td><h2 style="margin: 0; color: #111827; font-size: 18px;">${escapeHtml(
+            getZoneTitle(zone.interest)
+          )}</h2></td>
+        </tr>${map}${zone.items
+    .map((item) => renderHtmlItem(options.appUrl, item))
+    .join("")}
+      </table>`;
+}
+
+function renderText(options: EmailOptions, subject: string): string {
+  const zones = options.zones.map((zone) =>
+    [
+      getZoneTitle(zone.interest),
+      ...zone.items.map((item) =>
+        [
+          `- ${formatDate(item.message.createdAt)}`,
+          `  ${getPreview(item.message.text).replaceAll("\n", "\n  ")}`,
+          `  ${getMessageUrl(options.appUrl, item.message)}`,
+        ].join("\n")
+      ),
+    ].join("\n\n")
+  );
+
+  return [
+    subject,
+    ...zones,
+    `Настройки на известията: ${options.appUrl}/settings`,
+    `Отписване от имейлите: ${options.unsubscribeUrl}`,
+  ].join("\n\n");
+}
+
+/**
+ * HTML and plain-text email of matched messages, with a one-click
+ * unsubscribe link
+ */
+export function renderEmail(options: EmailOptions): EmailContent {
+  const subject = getSubject(options.frequency, options.zones);
+
+  const html = `<!DOCTYPE html>
+<html lang="bg">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${escapeHtml(subject)}</title>
+</head>
+<body style="margin: 0; padding: 0; background: #f9fafb; font-family: Arial, sans-serif;">
+  <table role="presentation" width="100%" cellpadding="0" cellspacing="0">
+    <tr>
+      <td style="padding: 16px 24px; background: ${HEADER_COLOR}; color: #ffffff; font-size: 20px; font-weight: bold;">${escapeHtml(
+    subject
+  )}</td>
+    </tr>
+    <tr>
+      <td style="padding: 24px; max-width: 600px;">${options.zones
+        .map((zone) => renderHtmlZone(options, zone))
+        .join("")}
+      </td>
+    </tr>
+    <tr>
+      <td style="padding: 16px 24px; color: #6b7280; font-size: 12px;">
+        <a href="${escapeHtml(
+          `${options.appUrl}/settings`
+        )}" style="color: #6b7280;">Настройки на известията</a> ·
+        <a href="${escapeHtml(
+          options.unsubscribeUrl
+        )}" style="color: #6b7280;">Отписване от имейлите</a>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+`;
+
+  return { subject, html, text: renderText(options, subject) };
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it, vi } from "vitest";
+import nodemailer from "nodemailer";
+import { getSmtpConfig, sendEmail } from "./email-transport";
+
+describe("getSmtpConfig", () => {
+  it("should return null without SMTP_HOST", () => {
+    expect(getSmtpConfig({})).toBeNull();
+  });
+
+  it("should point at a local stand-in without credentials", () => {
+    expect(
+      getSmtpConfig({
+        SMTP_HOST: "localhost",
+        SMTP_PORT: "1025",
+        EMAIL_FROM: "OboApp <test@localhost>",
+      })
+    ).toEqual({
+      host: "localhost",
+      port: 1025,
+      secure: false,
+      user: undefined,
+      password: undefined,
+      from: "OboApp <test@localhost>",
+    });
+  });
+
+  it("should default the port to the TLS mode", () => {
+    const env = { SMTP_HOST: "smtp.example.com", EMAIL_FROM: "a@b.c" };
+    expect(getSmtpConfig(env)?.port).toBe(587);
+    expect(getSmtpConfig({ ...env, SMTP_SECURE: "true" })?.port).toBe(465);
+  });
+
+  it("should reject invalid ports and a missing sender", () => {
+    expect(() =>
+      getSmtpConfig({
+        SMTP_HOST: "localhost",
+        SMTP_PORT: "smtp",
+        EMAIL_FROM: "a@b.c",
+      })
+    ).toThrow("Invalid SMTP_PORT");
+    expect(() => getSmtpConfig({ SMTP_HOST: "localhost" })).toThrow(
+      "EMAIL_FROM"
+    );
+  });
+});
+
+describe("sendEmail", () => {
+  it("should send both versions with one-click unsubscribe headers", async () => {
+    const transporter = nodemailer.createTransport({
+      streamTransport: true,
+      buffer: true,
+    });
+    const sendMail = vi.spyOn(transporter, "sendMail");
+
+    const result = await sendEmail(
+      transporter,
+      "OboApp <test@localhost>",
+      "user@example.com",
+      { subject: "Ново съобщение", html: "<p>html</p>", text: "text" },
+      "https://oboapp.online/unsubscribe?token=t"
+    );
+
+    expect(result).toEqual({ success: true });
+    const raw = (await sendMail.mock.results[0].value).message.toString();
+    expect(raw).toContain(
+      "List-Unsubscribe: <https://oboapp.online/unsubscribe?token=t>"
+    );
+    expect(raw).toContain("List-Unsubscribe-Post: List-Unsubscribe=One-Click");
+    expect(raw).toContain("text/plain");
+    expect(raw).toContain("text/html");
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * SMTP transport of the email channel, set with SMTP_* variables. Locally
+ * it can point at a stand-in such as Mailpit (SMTP_HOST=localhost,
+ * SMTP_PORT=1025), which catches the emails instead of delivering them.
+ */
+
+import nodemailer, { type Transporter } from "nodemailer";
+import type { EmailContent } from "./email-template";
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean; // TLS from the start (port 465), otherwise STARTTLS
+  user?: string;
+  password?: string;
+  from: string;
+}
+
+/**
+ * SMTP settings from the environment, null when SMTP_HOST is not set (the
+ * email channel is off)
+ */
+export function getSmtpConfig(
+  env: NodeJS.ProcessEnv = process.env
+): SmtpConfig | null {
+  if (!env.SMTP_HOST) {
+    return null;
+  }
+
+  const secure = env.SMTP_SECURE === "true";
+  const port = Number.parseInt(env.SMTP_PORT || (secure ? "465" : "587"), 10);
+  if (!Number.isInteger(port) || port <= 0) {
+    throw new Error(`Invalid SMTP_PORT "${env.SMTP_PORT}"`);
+  }
+  if (!env.EMAIL_FROM) {
+    throw new Error(
+      "Environment variable EMAIL_FROM must be set when SMTP_HOST is (e.g. OboApp <notifications@oboapp.online>)"
+    );
+  }
+
+  return {
+    host: env.SMTP_HOST,
+    port,
+    secure,
+    user: env.SMTP_USER || undefined,
+    password: env.SMTP_PASSWORD || undefined,
+    from: env.EMAIL_FROM,
+  };
+}
+
+export function createSmtpTransport(config: SmtpConfig): Transporter {
+  return nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.secure,
+    auth: config.user
+      ? { user: config.user, pass: config.password }
+      : undefined,
+  });
+}
+
+/**
+ * Send an email with one-click unsubscribe headers (RFC 8058), so that mail
+ * clients show their own unsubscribe button
+ */
+export async function sendEmail(
+  transporter: Transporter,
+  from: string,
+  to: string,
+  content: EmailContent,
+  unsubscribeUrl: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    await transporter.sendMail({
+      from,
+      to,
+      subject: content.subject,
+      html: content.html,
+      text: content.text,
+      headers: {
+        "List-Unsubscribe": `<${unsubscribeUrl}>`,
+        "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+      },
+    });
+    return { success: true };
+  } catch (error) {
+    console.error(`   ❌ Failed to send email:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
@@ -2,16 +2,45 @@
 
 import dotenv from "dotenv";
 import { resolve } from "node:path";
-import type { Firestore } from "firebase-admin/firestore";
+import type { DocumentSnapshot, Firestore } from "firebase-admin/firestore";
 import type { Messaging } from "firebase-admin/messaging";
-import * as turf from "@turf/turf";
+import {
+  convertTimestamp,
+  parseInterestDocument,
+  parseNotificationMatchDocument,
+  parseNotificationPreferencesDocument,
+} from "@oboapp/core";
 import {
   Message,
+  MessageSnapshot,
   Interest,
   NotificationMatch,
-  NotificationSubscription,
+  NotificationPreferences,
   DeviceNotification,
 } from "@/lib/types";
+import { geohashesForGeoJson } from "@/lib/geohash";
+import {
+  type EmailChannel,
+  initEmailChannel,
+  sendEmailDigests,
+  sendInstantEmail,
+} from "./email-channel";
+import type { DigestItem } from "./email-template";
+import {
+  type NotificationChannel,
+  type OutgoingNotification,
+  createMessageNotification,
+  createSummaryNotification,
+} from "./channels";
+import { getRecentSends, planDelivery } from "./delivery-plan";
+import {
+  type MatchResult,
+  createInterestIndex,
+  matchMessagesWithInterests,
+} from "./matching";
+import { createPushChannel } from "./push-channel";
+import { createTelegramChannel, getTelegramConfig } from "./telegram-channel";
+import { createViberChannel, getViberConfig } from "./viber-channel";
 
 // Load environment variables
 dotenv.config({ path: resolve(process.cwd(), ".env.local") });
@@ -24,52 +53,50 @@ if (!process.env.NEXT_PUBLIC_APP_URL) {
 }
 const APP_URL = process.env.NEXT_PUBLIC_APP_URL;
 
-interface MatchResult {
-  messageId: string;
-  userId: string;
-  interestId: string;
-  distance: number;
-}
+// Firestore allows at most 500 writes per batch
+const BATCH_SIZE = 500;
 
-/**
- * Convert Firestore timestamp to ISO string
- */
-function convertTimestamp(timestamp: any): string {
-  if (timestamp?._seconds) {
-    return new Date(timestamp._seconds * 1000).toISOString();
-  }
-  if (timestamp?.toDate) {
-    return timestamp.toDate().toISOString();
-  }
-  return timestamp || new Date().toISOString();
-}
+// Firestore allows at most 30 values in an `array-contains-any` filter
+const MAX_QUERY_CELLS = 30;
+
+// Precision of the cells that load the interests near new messages
+// (≈ 4.9×4.9 km, see GEOHASH_PRECISIONS in @oboapp/core)
+const INTEREST_QUERY_PRECISION = 5;
 
 /**
- * Get all unprocessed messages (messages without notificationsSent flag)
+ * Get all unprocessed messages (notificationsSent is set to false when a
+ * message is finalized)
  */
 async function getUnprocessedMessages(adminDb: Firestore): Promise<Message[]> {
   console.log("📨 Fetching unprocessed messages...");
 
-  const messagesRef = adminDb.collection("messages");
-
-  // Get all messages ordered by createdAt
-  const messagesSnapshot = await messagesRef.orderBy("createdAt", "asc").get();
+  const messagesSnapshot = await adminDb
+    .collection("messages")
+    .where("notificationsSent", "==", false)
+    .get();
 
-  // Filter for messages that don't have notificationsSent or where it's false
   const unprocessedMessages: Message[] = [];
   messagesSnapshot.forEach((doc) => {
     const data = doc.data();
-    // Only include messages where notificationsSent is not true
-    if (data.notificationsSent !== true) {
+    // Messages pending geocoding review wait until an admin resolves them
+    if (data.reviewStatus !== "pending") {
       unprocessedMessages.push({
         id: doc.id,
         text: data.text,
         geoJson: data.geoJson ? JSON.parse(data.geoJson) : undefined,
         createdAt: convertTimestamp(data.createdAt),
+        source: data.source,
+        categories: data.categories,
+        geohashes: data.geohashes,
       });
     }
   });
 
+  // Oldest first, sorted here to need no composite index
+  unprocessedMessages.sort((a, b) =>
+    String(a.createdAt).localeCompare(String(b.createdAt))
+  );
+
   console.log(`   ✅ Found ${unprocessedMessages.length} unprocessed messages`);
 
   return unprocessedMessages;
@@ -87,161 +114,98 @@ async function markMessagesAsNotified(
   const messagesRef = adminDb.collection("messages");
   const now = new Date();
 
-  for (const messageId of messageIds) {
-    await messagesRef.doc(messageId).update({
-      notificationsSent: true,
-      notificationsSentAt: now,
-    });
+  for (let i = 0; i < messageIds.length; i += BATCH_SIZE) {
+    const batch = adminDb.batch();
+    for (const messageId of messageIds.slice(i, i + BATCH_SIZE)) {
+      batch.update(messagesRef.doc(messageId), {
+        notificationsSent: true,
+        notificationsSentAt: now,
+      });
+    }
+    await batch.commit();
   }
 
   console.log(`   ✅ Marked ${messageIds.length} messages as notified`);
 }
 
+function parseInterests(docs: DocumentSnapshot[]): Interest[] {
+  const interests: Interest[] = [];
+  for (const doc of docs) {
+    const data = doc.data();
+    if (!data) {
+      continue;
+    }
+    const interest = parseInterestDocument(doc.id, data);
+    if (!interest) {
+      console.warn(`   ⚠️  Skipping invalid interest ${doc.id}`);
+      continue;
+    }
+    interests.push(interest);
+  }
+  return interests;
+}
+
 /**
- * Get all user interests
+ * Get the interests in the cells of the messages, by the geohashes stored
+ * on both
  */
-async function getAllInterests(adminDb: Firestore): Promise<Interest[]> {
-  console.log("📍 Fetching user interests...");
+async function getInterestsNearMessages(
+  adminDb: Firestore,
+  messages: Message[]
+): Promise<Interest[]> {
+  console.log("📍 Fetching user interests near the messages...");
 
-  const interestsRef = adminDb.collection("interests");
-  const snapshot = await interestsRef.get();
+  const cells = new Set<string>();
+  for (const message of messages) {
+    const geohashes = message.geohashes ?? geohashesForGeoJson(message.geoJson);
+    for (const hash of geohashes) {
+      if (hash.length === INTEREST_QUERY_PRECISION) {
+        cells.add(hash);
+      }
+    }
+  }
 
-  const interests: Interest[] = [];
-  snapshot.forEach((doc) => {
-    const data = doc.data();
-    interests.push({
-      id: doc.id,
-      userId: data.userId,
-      coordinates: data.coordinates,
-      radius: data.radius,
-      createdAt: convertTimestamp(data.createdAt),
-      updatedAt: convertTimestamp(data.updatedAt),
+  const interestsRef = adminDb.collection("interests");
+  const cellList = Array.from(cells);
+  const docs = new Map<string, DocumentSnapshot>();
+  for (let i = 0; i < cellList.length; i += MAX_QUERY_CELLS) {
+    const snapshot = await interestsRef
+      .where(
+        "geohashes",
+        "array-contains-any",
+        cellList.slice(i, i + MAX_QUERY_CELLS)
+      )
+      .get();
+    snapshot.forEach((doc) => {
+      docs.set(doc.id, doc);
     });
-  });
+  }
+
+  const interests = parseInterests(Array.from(docs.values()));
 
   console.log(
     `   ✅ Found ${interests.length} interests from ${
       new Set(interests.map((i) => i.userId)).size
-    } users`
+    } users in ${cells.size} cells`
   );
 
   return interests;
 }
 
 /**
- * Check if a message's GeoJSON features intersect with a user's interest circle
+ * Get interests by id, for matches whose interest was not loaded
  */
-function matchMessageToInterest(
-  message: Message,
-  interest: Interest
-): { matches: boolean; distance: number | null } {
-  if (!message.geoJson?.features || message.geoJson.features.length === 0) {
-    return { matches: false, distance: null };
+async function getInterestsByIds(
+  adminDb: Firestore,
+  interestIds: string[]
+): Promise<Interest[]> {
+  if (interestIds.length === 0) {
+    return [];
   }
-
-  const interestPoint = turf.point([
-    interest.coordinates.lng,
-    interest.coordinates.lat,
-  ]);
-  const interestCircle = turf.circle(
-    interestPoint,
-    interest.radius / 1000, // Convert meters to kilometers
-    { units: "kilometers" }
+  const interestsRef = adminDb.collection("interests");
+  return parseInterests(
+    await adminDb.getAll(...interestIds.map((id) => interestsRef.doc(id)))
   );
-
-  let minDistance: number | null = null;
-
-  for (const feature of message.geoJson.features) {
-    try {
-      // Check if feature intersects with interest circle
-      const intersects = turf.booleanIntersects(feature, interestCircle);
-
-      if (intersects) {
-        // Calculate distance to get the closest point using pointToLineDistance or centroid
-        let distance: number;
-        if (feature.geometry.type === "Point") {
-          distance = turf.distance(
-            interestPoint,
-            feature.geometry.coordinates,
-            { units: "meters" }
-          );
-        } else {
-          // For LineString and Polygon, calculate distance to centroid
-          const centroid = turf.centroid(feature);
-          distance = turf.distance(interestPoint, centroid, {
-            units: "meters",
-          });
-        }
-
-        if (minDistance === null || distance < minDistance) {
-          minDistance = distance;
-        }
-      }
-    } catch (error) {
-      console.warn(`   ⚠️  Error checking intersection for feature:`, error);
-    }
-  }
-
-  return { matches: minDistance !== null, distance: minDistance };
-}
-
-/**
- * Match unprocessed messages with user interests
- */
-async function matchMessagesWithInterests(
-  messages: Message[],
-  interests: Interest[]
-): Promise<MatchResult[]> {
-  console.log("\n🔍 Matching messages with interests...");
-
-  const matches: MatchResult[] = [];
-
-  for (const message of messages) {
-    if (!message.id || !message.geoJson) {
-      continue;
-    }
-
-    for (const interest of interests) {
-      if (!interest.id) {
-        continue;
-      }
-
-      // Only match if the message was created after the interest was created
-      // Both message.createdAt and interest.createdAt are ISO strings
-      if (message.createdAt < interest.createdAt) {
-        continue;
-      }
-
-      const { matches: isMatch, distance } = matchMessageToInterest(
-        message,
-        interest
-      );
-
-      if (isMatch && distance !== null) {
-        matches.push({
-          messageId: message.id,
-          userId: interest.userId,
-          interestId: interest.id,
-          distance,
-        });
-        console.log(
-          `   ✅ Match: Message ${message.id.substring(
-            0,
-            8
-          )} → User ${interest.userId.substring(
-            0,
-            8
-          )} → Interest ${interest.id.substring(0, 8)} (${Math.round(
-            distance
-          )}m)`
-        );
-      }
-    }
-  }
-
-  console.log(`\n   📊 Total matches found: ${matches.length}`);
-
-  return matches;
 }
 
 /**
@@ -284,15 +248,19 @@ async function storeNotificationMatches(
   const matchesRef = adminDb.collection("notificationMatches");
   const now = new Date();
 
-  for (const match of matches) {
-    await matchesRef.add({
-      userId: match.userId,
-      messageId: match.messageId,
-      interestId: match.interestId,
-      distance: match.distance,
-      matchedAt: now,
-      notified: false,
-    });
+  for (let i = 0; i < matches.length; i += BATCH_SIZE) {
+    const batch = adminDb.batch();
+    for (const match of matches.slice(i, i + BATCH_SIZE)) {
+      batch.create(matchesRef.doc(), {
+        userId: match.userId,
+        messageId: match.messageId,
+        interestId: match.interestId,
+        distance: match.distance,
+        matchedAt: now,
+        notified: false,
+      });
+    }
+    await batch.commit();
   }
 
   console.log(`   ✅ Stored ${matches.length} matches`);
@@ -311,19 +279,12 @@ async function getUnnotifiedMatches(
 
   const matches: NotificationMatch[] = [];
   snapshot.forEach((doc) => {
-    const data = doc.data();
-    matches.push({
-      id: doc.id,
-      userId: data.userId,
-      messageId: data.messageId,
-      interestId: data.interestId,
-      matchedAt: convertTimestamp(data.matchedAt),
-      notified: data.notified || false,
-      notifiedAt: data.notifiedAt
-        ? convertTimestamp(data.notifiedAt)
-        : undefined,
-      distance: data.distance,
-    });
+    const match = parseNotificationMatchDocument(doc.id, doc.data());
+    if (!match) {
+      console.warn(`   ⚠️  Skipping invalid match ${doc.id}`);
+      return;
+    }
+    matches.push(match);
   });
 
   console.log(`   ✅ Found ${matches.length} unnotified matches`);
@@ -332,93 +293,280 @@ async function getUnnotifiedMatches(
 }
 
 /**
- * Get user subscriptions
+ * Message of a match with the snapshot kept in the match document, null
+ * when the message was deleted
  */
-async function getUserSubscriptions(
+async function getMatchMessage(
   adminDb: Firestore,
-  userId: string
-): Promise<NotificationSubscription[]> {
-  const subscriptionsRef = adminDb.collection("notificationSubscriptions");
-  const snapshot = await subscriptionsRef.where("userId", "==", userId).get();
+  messageId: string
+): Promise<{ message: Message; messageSnapshot: MessageSnapshot } | null> {
+  const messageDoc = await adminDb.collection("messages").doc(messageId).get();
+  if (!messageDoc.exists) {
+    console.warn(`   ⚠️  Message ${messageId} not found`);
+    return null;
+  }
 
-  const subscriptions: NotificationSubscription[] = [];
-  snapshot.forEach((doc) => {
-    const data = doc.data();
-    subscriptions.push({
-      id: doc.id,
-      userId: data.userId,
-      token: data.token,
-      endpoint: data.endpoint,
-      createdAt: convertTimestamp(data.createdAt),
-      updatedAt: convertTimestamp(data.updatedAt),
-      deviceInfo: data.deviceInfo,
-    });
-  });
+  const messageData = messageDoc.data();
+  const message: Message = {
+    id: messageDoc.id,
+    text: messageData?.text || "",
+    geoJson: messageData?.geoJson ? JSON.parse(messageData.geoJson) : undefined,
+    createdAt: convertTimestamp(messageData?.createdAt),
+    sourceRevision: messageData?.sourceRevision,
+    previousMessageId: messageData?.previousMessageId,
+  };
+
+  const messageSnapshot: MessageSnapshot = {
+    text: messageData?.text || "",
+    createdAt: convertTimestamp(messageData?.createdAt),
+  };
+
+  // Only add optional fields if they exist (avoid undefined in Firestore)
+  if (messageData?.source) {
+    messageSnapshot.source = messageData.source;
+  }
+  if (messageData?.sourceUrl) {
+    messageSnapshot.sourceUrl = messageData.sourceUrl;
+  }
 
-  return subscriptions;
+  return { message, messageSnapshot };
 }
 
 /**
- * Send push notification
+ * Notification preferences of the users, with the defaults for users who
+ * never changed them
  */
-async function sendPushNotification(
-  messaging: Messaging,
-  subscription: NotificationSubscription,
-  message: Message,
-  match: NotificationMatch
-): Promise<{ success: boolean; error?: string }> {
-  try {
-    const messagePreview =
-      message.text.length > 100
-        ? message.text.substring(0, 100) + "..."
-        : message.text;
-
-    const distanceText = match.distance
-      ? ` (${Math.round(match.distance)}m от вашия район)`
-      : "";
-
-    await messaging.send({
-      token: subscription.token,
-      notification: {
-        title: "Ново съобщение в Оборище",
-        body: `${messagePreview}${distanceText}`,
-        imageUrl: `${APP_URL}/icon-192x192.png`,
-      },
-      data: {
-        messageId: match.messageId,
-        interestId: match.interestId,
-        matchId: match.id || "",
-        url: `${APP_URL}/?messageId=${match.messageId}`,
-      },
-      webpush: {
-        fcmOptions: {
-          link: `${APP_URL}/?messageId=${match.messageId}`,
-        },
+async function getNotificationPreferences(
+  adminDb: Firestore,
+  userIds: string[]
+): Promise<Map<string, NotificationPreferences>> {
+  const preferencesRef = adminDb.collection("notificationPreferences");
+  const docs =
+    userIds.length > 0
+      ? await adminDb.getAll(...userIds.map((id) => preferencesRef.doc(id)))
+      : [];
+
+  return new Map(
+    docs.map((doc) => [
+      doc.id,
+      parseNotificationPreferencesDocument(doc.id, doc.data()),
+    ])
+  );
+}
+
+/**
+ * Keep the sends of the last hour, for the hourly cap of the next runs
+ */
+async function recordSends(
+  adminDb: Firestore,
+  preferences: NotificationPreferences,
+  count: number,
+  now: Date
+): Promise<void> {
+  await adminDb
+    .collection("notificationPreferences")
+    .doc(preferences.userId)
+    .set(
+      {
+        recentSends: [
+          ...getRecentSends(preferences, now),
+          ...Array<Date>(count).fill(now),
+        ],
       },
+      { merge: true }
+    );
+}
+
+async function sendToChannels(
+  channels: NotificationChannel[],
+  userId: string,
+  notification: OutgoingNotification
+): Promise<DeviceNotification[]> {
+  const deviceNotifications: DeviceNotification[] = [];
+  for (const channel of channels) {
+    deviceNotifications.push(...(await channel.send(userId, notification)));
+  }
+  return deviceNotifications;
+}
+
+type SendOutcome = "sent" | "failed" | "no-subscriptions";
+
+function logSendOutcome(
+  userId: string,
+  deviceNotifications: DeviceNotification[],
+  emailed: boolean,
+  what: string
+): SendOutcome {
+  const deviceSuccessCount = deviceNotifications.filter(
+    (d) => d.success
+  ).length;
+
+  if (emailed) {
+    console.log(`   📧 Emailed user ${userId.substring(0, 8)} ${what}`);
+  }
+
+  if (deviceNotifications.length === 0 && !emailed) {
+    console.log(`   ⏭️  No subscriptions for user ${userId.substring(0, 8)}`);
+    return "no-subscriptions";
+  }
+
+  if (deviceSuccessCount > 0) {
+    console.log(
+      `   ✅ Sent to user ${userId.substring(0, 8)} on ${deviceSuccessCount}/${
+        deviceNotifications.length
+      } devices ${what}`
+    );
+    return "sent";
+  }
+  if (emailed) {
+    return "sent";
+  }
+
+  console.log(
+    `   ❌ Failed to send to any device for user ${userId.substring(0, 8)}`
+  );
+  return "failed";
+}
+
+/**
+ * Send a match on its own
+ */
+async function sendMatch(
+  adminDb: Firestore,
+  channels: NotificationChannel[],
+  email: EmailChannel | null,
+  match: NotificationMatch,
+  interests: Interest[]
+): Promise<SendOutcome | null> {
+  const matchMessage = await getMatchMessage(adminDb, match.messageId);
+  if (!matchMessage) {
+    return null;
+  }
+  const { message, messageSnapshot } = matchMessage;
+
+  // Send to ALL user devices and chats and track each send
+  const deviceNotifications = await sendToChannels(
+    channels,
+    match.userId,
+    createMessageNotification(message, match, APP_URL)
+  );
+
+  const emailed =
+    email !== null &&
+    (await sendInstantEmail(
+      email,
+      match.userId,
+      [{ message, interestId: match.interestId, distance: match.distance }],
+      interests
+    ));
+
+  const outcome = logSendOutcome(
+    match.userId,
+    deviceNotifications,
+    emailed,
+    `for message ${match.messageId.substring(0, 8)}`
+  );
+  if (outcome === "no-subscriptions") {
+    return outcome;
+  }
+
+  // Update the match document with device notifications and message snapshot
+  await adminDb
+    .collection("notificationMatches")
+    .doc(match.id!)
+    .update({
+      deviceNotifications,
+      messageSnapshot,
+      ...(emailed ? { emailedAt: new Date() } : {}),
     });
 
-    return { success: true };
-  } catch (error) {
-    console.error(`   ❌ Failed to send notification:`, error);
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : String(error),
-    };
+  return outcome;
+}
+
+interface SummaryItem extends DigestItem {
+  match: NotificationMatch;
+  messageSnapshot: MessageSnapshot;
+}
+
+/**
+ * Send several matches of a user together, as one summary
+ */
+async function sendSummary(
+  adminDb: Firestore,
+  channels: NotificationChannel[],
+  email: EmailChannel | null,
+  userId: string,
+  matches: NotificationMatch[],
+  interests: Interest[]
+): Promise<SendOutcome | null> {
+  const items: SummaryItem[] = [];
+  for (const match of matches) {
+    const matchMessage = await getMatchMessage(adminDb, match.messageId);
+    if (matchMessage) {
+      items.push({
+        ...matchMessage,
+        match,
+        interestId: match.interestId,
+        distance: match.distance,
+      });
+    }
+  }
+  if (items.length === 0) {
+    return null;
+  }
+
+  const deviceNotifications = await sendToChannels(
+    channels,
+    userId,
+    createSummaryNotification(
+      items.map((item) => item.message),
+      APP_URL
+    )
+  );
+
+  const emailed =
+    email !== null && (await sendInstantEmail(email, userId, items, interests));
+
+  const outcome = logSendOutcome(
+    userId,
+    deviceNotifications,
+    emailed,
+    `for a summary of ${items.length} messages`
+  );
+  if (outcome === "no-subscriptions") {
+    return outcome;
   }
+
+  const matchesRef = adminDb.collection("notificationMatches");
+  for (const { match, messageSnapshot } of items) {
+    await matchesRef.doc(match.id!).update({
+      deviceNotifications,
+      messageSnapshot,
+      collapsed: true,
+      ...(emailed ? { emailedAt: new Date() } : {}),
+    });
+  }
+
+  return outcome;
 }
 
 /**
- * Send notifications for matches
+ * Send notifications for matches: to all devices and chats of the user on
+ * every channel, and an email to users who chose instant emails. Matches
+ * beyond the user's hourly cap go out as one summary, and matches held by
+ * the quiet hours or the cap stay unnotified for a later run.
  */
 async function sendNotifications(
   adminDb: Firestore,
-  messaging: Messaging,
-  matches: NotificationMatch[]
+  channels: NotificationChannel[],
+  email: EmailChannel | null,
+  matches: NotificationMatch[],
+  interests: Interest[]
 ): Promise<void> {
   console.log("\n📤 Sending notifications...");
 
-  const messagesRef = adminDb.collection("messages");
   const matchesRef = adminDb.collection("notificationMatches");
+  const now = new Date();
 
   let successCount = 0;
   let errorCount = 0;
@@ -438,123 +586,98 @@ async function sendNotifications(
     }
   }
 
-  const uniqueMatches = Array.from(notificationMap.values());
+  const uniqueMatches = Array.from(notificationMap.values()).filter(
+    (match) => !!match.id
+  );
   console.log(
     `   ℹ️  Sending ${uniqueMatches.length} unique notifications (deduplicated from ${matches.length} matches)`
   );
 
-  // Track which matches were processed to mark them all as notified
-  const allMatchIds = matches
-    .map((m) => m.id)
-    .filter((id): id is string => !!id);
-
+  // Plan each user's matches, oldest first
+  const userMatches = new Map<string, NotificationMatch[]>();
   for (const match of uniqueMatches) {
-    if (!match.id) {
-      continue;
-    }
-
-    // Get message details
-    const messageDoc = await messagesRef.doc(match.messageId).get();
-    if (!messageDoc.exists) {
-      console.warn(`   ⚠️  Message ${match.messageId} not found`);
-      continue;
-    }
+    userMatches.set(match.userId, [
+      ...(userMatches.get(match.userId) ?? []),
+      match,
+    ]);
+  }
+  const preferences = await getNotificationPreferences(
+    adminDb,
+    Array.from(userMatches.keys())
+  );
 
-    const messageData = messageDoc.data();
-    const message: Message = {
-      id: messageDoc.id,
-      text: messageData?.text || "",
-      geoJson: messageData?.geoJson
-        ? JSON.parse(messageData.geoJson)
-        : undefined,
-      createdAt: convertTimestamp(messageData?.createdAt),
-    };
+  // Matches held for a later run, by userId-messageId
+  const heldKeys = new Set<string>();
 
-    // Get user subscriptions
-    const subscriptions = await getUserSubscriptions(adminDb, match.userId);
+  for (const [userId, userMatchList] of userMatches) {
+    const userPreferences = preferences.get(userId)!;
+    const plan = planDelivery(
+      [...userMatchList].sort((a, b) =>
+        String(a.matchedAt).localeCompare(String(b.matchedAt))
+      ),
+      userPreferences,
+      now
+    );
 
-    if (subscriptions.length === 0) {
+    if (plan.hold.length > 0) {
       console.log(
-        `   ⏭️  No subscriptions for user ${match.userId.substring(0, 8)}`
+        plan.reason === "quiet-hours"
+          ? `   🌙 Holding ${
+              plan.hold.length
+            } matches for user ${userId.substring(
+              0,
+              8
+            )} until the quiet hours end`
+          : `   ⏸️  Holding ${
+              plan.hold.length
+            } matches for user ${userId.substring(0, 8)} (${
+              userPreferences.maxPerHour
+            } notifications in the last hour)`
       );
-      continue;
-    }
-
-    // Send to ALL user devices and track each send
-    const deviceNotifications: DeviceNotification[] = [];
-    let deviceSuccessCount = 0;
-
-    for (const subscription of subscriptions) {
-      const result = await sendPushNotification(
-        messaging,
-        subscription,
-        message,
-        match
-      );
-
-      const deviceNotification: DeviceNotification = {
-        subscriptionId: subscription.id || "",
-        deviceInfo: subscription.deviceInfo,
-        sentAt: new Date().toISOString(),
-        success: result.success,
-      };
-
-      // Only include error field if there was an error (avoid undefined)
-      if (result.error) {
-        deviceNotification.error = result.error;
-      }
-
-      deviceNotifications.push(deviceNotification);
-
-      if (result.success) {
-        deviceSuccessCount++;
+      for (const match of plan.hold) {
+        heldKeys.add(`${match.userId}-${match.messageId}`);
       }
     }
 
-    if (deviceSuccessCount > 0) {
-      successCount++;
-      console.log(
-        `   ✅ Sent to user ${match.userId.substring(
-          0,
-          8
-        )} on ${deviceSuccessCount}/${
-          subscriptions.length
-        } devices for message ${match.messageId.substring(0, 8)}`
+    const outcomes: (SendOutcome | null)[] = [];
+    for (const match of plan.send) {
+      outcomes.push(
+        await sendMatch(adminDb, channels, email, match, interests)
       );
-    } else {
-      errorCount++;
-      console.log(
-        `   ❌ Failed to send to any device for user ${match.userId.substring(
-          0,
-          8
-        )}`
+    }
+    if (plan.summary.length > 0) {
+      outcomes.push(
+        await sendSummary(
+          adminDb,
+          channels,
+          email,
+          userId,
+          plan.summary,
+          interests
+        )
       );
     }
 
-    // Store deviceNotifications and messageSnapshot in the match document
-    const messageSnapshot: any = {
-      text: messageData?.text || "",
-      createdAt: convertTimestamp(messageData?.createdAt),
-    };
+    successCount += outcomes.filter((o) => o === "sent").length;
+    errorCount += outcomes.filter((o) => o === "failed").length;
 
-    // Only add optional fields if they exist (avoid undefined in Firestore)
-    if (messageData?.source) {
-      messageSnapshot.source = messageData.source;
+    const sendCount = outcomes.filter(
+      (o) => o === "sent" || o === "failed"
+    ).length;
+    if (sendCount > 0) {
+      await recordSends(adminDb, userPreferences, sendCount, now);
     }
-    if (messageData?.sourceUrl) {
-      messageSnapshot.sourceUrl = messageData.sourceUrl;
-    }
-
-    // Update the match document with device notifications and message snapshot
-    await matchesRef.doc(match.id).update({
-      deviceNotifications,
-      messageSnapshot,
-    });
   }
 
-  // Mark all related matches as notified
-  console.log(`\n   📝 Marking ${allMatchIds.length} matches as notified...`);
-  for (const matchId of allMatchIds) {
+  // Mark all related matches as notified, except the held ones
+  const notifiedMatchIds = matches
+    .filter((m) => !heldKeys.has(`${m.userId}-${m.messageId}`))
+    .map((m) => m.id)
+    .filter((id): id is string => !!id);
+  console.log(
+    `\n   📝 Marking ${notifiedMatchIds.length} matches as notified...`
+  );
+  for (const matchId of notifiedMatchIds) {
     await matchesRef.doc(matchId).update({
       notified: true,
       notifiedAt: new Date(),
@@ -562,6 +685,7 @@ async function sendNotifications(
   }
 
   console.log(`\n   📊 Notifications sent: ${successCount}`);
+  console.log(`   ⏸️  Held: ${heldKeys.size}`);
   console.log(`   ❌ Errors: ${errorCount}`);
 }
 
@@ -582,79 +706,122 @@ async function initFirebase(): Promise<{
 }
 
 /**
- * Main function
+ * Push, and the chat bots that are configured
  */
-export async function main(): Promise<void> {
-  console.log("🔔 Starting notification matching and sending...\n");
-
-  const { adminDb, messaging } = await initFirebase();
-
-  // Step 1: Get unprocessed messages (messages without notificationsSent flag)
-  const unprocessedMessages = await getUnprocessedMessages(adminDb);
+function initChannels(
+  adminDb: Firestore,
+  messaging: Messaging
+): NotificationChannel[] {
+  const channels = [createPushChannel(adminDb, messaging, APP_URL)];
 
-  if (unprocessedMessages.length === 0) {
-    console.log("\n✨ No new messages to process");
-    return;
+  const telegram = getTelegramConfig();
+  if (telegram) {
+    channels.push(createTelegramChannel(adminDb, telegram));
   }
-
-  // Step 2: Get all user interests
-  const interests = await getAllInterests(adminDb);
-
-  if (interests.length === 0) {
-    console.log("\n✨ No user interests configured");
-    // Still mark messages as processed so we don't reprocess them
-    const messageIds = unprocessedMessages
-      .map((m) => m.id)
-      .filter((id): id is string => !!id);
-    await markMessagesAsNotified(adminDb, messageIds);
-    return;
+  const viber = getViberConfig();
+  if (viber) {
+    channels.push(createViberChannel(adminDb, viber));
   }
 
-  // Step 3: Match messages with interests
-  const matches = await matchMessagesWithInterests(
-    unprocessedMessages,
-    interests
+  console.log(
+    `ℹ️  Notification channels: ${channels.map((c) => c.name).join(", ")}\n`
   );
 
-  if (matches.length === 0) {
-    console.log("\n✨ No matches found");
-    // Still mark messages as processed
-    const messageIds = unprocessedMessages
-      .map((m) => m.id)
-      .filter((id): id is string => !!id);
-    await markMessagesAsNotified(adminDb, messageIds);
-    return;
-  }
+  return channels;
+}
+
+/**
+ * Match the unprocessed messages and send the notifications, along with
+ * the ones held back by quiet hours or the hourly cap on earlier runs
+ */
+async function matchAndNotify(
+  adminDb: Firestore,
+  channels: NotificationChannel[],
+  email: EmailChannel | null
+): Promise<void> {
+  // Step 1: Get unprocessed messages (notificationsSent == false)
+  const unprocessedMessages = await getUnprocessedMessages(adminDb);
+  const messageIds = unprocessedMessages
+    .map((m) => m.id)
+    .filter((id): id is string => !!id);
 
-  // Step 4: Deduplicate matches
-  const dedupedMatches = deduplicateMatches(matches);
+  // Step 2: Get the user interests in the cells of the messages
+  const interests =
+    unprocessedMessages.length > 0
+      ? await getInterestsNearMessages(adminDb, unprocessedMessages)
+      : [];
 
-  // Step 5: Store matches in Firestore
-  await storeNotificationMatches(adminDb, dedupedMatches);
+  if (unprocessedMessages.length === 0) {
+    console.log("\n✨ No new messages to process");
+  } else if (interests.length === 0) {
+    console.log("\n✨ No user interests near the new messages");
+  } else {
+    // Step 3: Match messages with interests, through an R-tree of the
+    // interests
+    const matches = matchMessagesWithInterests(
+      unprocessedMessages,
+      createInterestIndex(interests)
+    );
+
+    if (matches.length === 0) {
+      console.log("\n✨ No matches found");
+    } else {
+      // Step 4: Deduplicate matches
+      const dedupedMatches = deduplicateMatches(matches);
+
+      // Step 5: Store matches in Firestore
+      await storeNotificationMatches(adminDb, dedupedMatches);
+    }
+  }
 
-  // Step 6: Get all unnotified matches (including ones we just stored)
+  // Step 6: Get all unnotified matches (the ones we just stored and the
+  // held ones)
   const unnotifiedMatches = await getUnnotifiedMatches(adminDb);
 
   if (unnotifiedMatches.length === 0) {
     console.log("\n✨ No unnotified matches to send");
-    // Mark messages as processed
-    const messageIds = unprocessedMessages
-      .map((m) => m.id)
-      .filter((id): id is string => !!id);
+  } else {
+    // Step 7: Send notifications, with the interests of the held matches
+    // for the zones in the emails
+    const loadedIds = new Set(interests.map((i) => i.id));
+    const missingIds = Array.from(
+      new Set(
+        unnotifiedMatches
+          .map((m) => m.interestId)
+          .filter((id) => !loadedIds.has(id))
+      )
+    );
+    await sendNotifications(adminDb, channels, email, unnotifiedMatches, [
+      ...interests,
+      ...(await getInterestsByIds(adminDb, missingIds)),
+    ]);
+  }
+
+  // Step 8: Mark messages as having notifications sent, also without
+  // matches so we don't reprocess them
+  if (messageIds.length > 0) {
     await markMessagesAsNotified(adminDb, messageIds);
-    return;
   }
 
-  // Step 7: Send notifications
-  await sendNotifications(adminDb, messaging, unnotifiedMatches);
+  console.log("\n✅ Notification processing complete!\n");
+}
 
-  // Step 8: Mark messages as having notifications sent
-  const messageIds = unprocessedMessages
-    .map((m) => m.id)
-    .filter((id): id is string => !!id);
-  await markMessagesAsNotified(adminDb, messageIds);
+/**
+ * Main function
+ */
+export async function main(): Promise<void> {
+  console.log("🔔 Starting notification matching and sending...\n");
 
-  console.log("\n✅ Notification processing complete!\n");
+  const { adminDb, messaging } = await initFirebase();
+  const channels = initChannels(adminDb, messaging);
+  const email = await initEmailChannel(adminDb, APP_URL);
+
+  await matchAndNotify(adminDb, channels, email);
+
+  // Digests go out when due, also on runs without new messages
+  if (email) {
+    await sendEmailDigests(adminDb, email);
+  }
 }
 
 // Run the script only when executed directly
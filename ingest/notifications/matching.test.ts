@@ -0,0 +1,189 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Interest, Message } from "@/lib/types";
+import { createInterestIndex, matchMessagesWithInterests } from "./matching";
+
+// ул. Оборище / бул. Васил Левски
+const center = { lat: 42.6977, lng: 23.3341 };
+
+function createInterest(
+  id: string,
+  coordinates: { lat: number; lng: number },
+  overrides: Partial<Interest> = {}
+): Interest {
+  return {
+    id,
+    userId: `user-${id}`,
+    coordinates,
+    radius: 500,
+    createdAt: "2024-01-01T00:00:00.000Z",
+    updatedAt: "2024-01-01T00:00:00.000Z",
+    ...overrides,
+  };
+}
+
+function createPointMessage(
+  id: string,
+  coordinates: { lat: number; lng: number },
+  overrides: Partial<Message> = {}
+): Message {
+  return {
+    id,
+    text: "Авария на водопровод",
+    source: "sofiyska-voda",
+    createdAt: "2024-02-01T00:00:00.000Z",
+    geoJson: {
+      type: "FeatureCollection",
+      features: [
+        {
+          type: "Feature",
+          geometry: {
+            type: "Point",
+            coordinates: [coordinates.lng, coordinates.lat],
+          },
+          properties: {},
+        },
+      ],
+    },
+    ...overrides,
+  };
+}
+
+// Deterministic pseudo-random numbers (mulberry32)
+function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Around Sofia, within ±0.1° (≈ 22 × 16 km)
+function randomCoordinates(random: () => number) {
+  return {
+    lat: center.lat + (random() - 0.5) * 0.2,
+    lng: center.lng + (random() - 0.5) * 0.2,
+  };
+}
+
+describe("matchMessagesWithInterests", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  it("should match the interests whose circle contains the message", () => {
+    const index = createInterestIndex([
+      createInterest("near", center),
+      // ≈ 1.1 km north
+      createInterest("far", { lat: center.lat + 0.01, lng: center.lng }),
+    ]);
+
+    const matches = matchMessagesWithInterests(
+      [createPointMessage("message-1", center)],
+      index
+    );
+
+    expect(matches).toEqual([
+      {
+        messageId: "message-1",
+        userId: "user-near",
+        interestId: "near",
+        distance: 0,
+      },
+    ]);
+  });
+
+  it("should skip the interests whose box but not circle contains the message", () => {
+    // The corner of the box of a 500 m circle, ≈ 700 m away
+    const index = createInterestIndex([createInterest("corner", center)]);
+    const corner = {
+      lat: center.lat + 0.0044,
+      lng: center.lng + 0.006,
+    };
+
+    expect(
+      matchMessagesWithInterests([createPointMessage("m", corner)], index)
+    ).toEqual([]);
+  });
+
+  it("should measure the distance to the nearest part of a multi-part message", () => {
+    const index = createInterestIndex([createInterest("zone", center)]);
+    const message: Message = {
+      ...createPointMessage("multi", center),
+      geoJson: {
+        type: "FeatureCollection",
+        features: [
+          {
+            type: "Feature",
+            geometry: {
+              type: "MultiPoint",
+              coordinates: [
+                [center.lng, center.lat + 0.05],
+                [center.lng, center.lat + 0.002],
+              ],
+            },
+            properties: {},
+          },
+        ],
+      },
+    };
+
+    const [match] = matchMessagesWithInterests([message], index);
+
+    expect(Math.round(match.distance)).toBe(222);
+  });
+
+  it("should skip the messages created before the interest", () => {
+    const index = createInterestIndex([
+      createInterest("new", center, {
+        createdAt: "2024-03-01T00:00:00.000Z",
+      }),
+    ]);
+
+    expect(
+      matchMessagesWithInterests([createPointMessage("old", center)], index)
+    ).toEqual([]);
+  });
+
+  it("should skip the messages outside the filters of the zone", () => {
+    const index = createInterestIndex([
+      createInterest("heating", center, {
+        filters: { categories: ["heating"] },
+      }),
+      createInterest("water", center, { filters: { categories: ["water"] } }),
+    ]);
+
+    const matches = matchMessagesWithInterests(
+      [createPointMessage("accident", center)],
+      index
+    );
+
+    expect(matches.map((m) => m.interestId)).toEqual(["water"]);
+  });
+
+  it("should match 200 messages with 50,000 interests in a few seconds", () => {
+    const random = createRandom(42);
+    const interests = Array.from({ length: 50_000 }, (_, i) =>
+      createInterest(`interest-${i}`, randomCoordinates(random), {
+        radius: 100 + Math.round(random() * 900),
+      })
+    );
+    const messages = Array.from({ length: 200 }, (_, i) =>
+      createPointMessage(`message-${i}`, randomCoordinates(random))
+    );
+
+    // Building the index is part of every run
+    const start = performance.now();
+    const matches = matchMessagesWithInterests(
+      messages,
+      createInterestIndex(interests)
+    );
+    const elapsed = performance.now() - start;
+
+    // 50,000 circles of ≈ 1.2 km² over ≈ 350 km² cover a point ≈ 160 times
+    expect(matches.length).toBeGreaterThan(200 * 100);
+    // Under 2 s on a single CPU, generous for slower CI runners
+    expect(elapsed).toBeLessThan(10_000);
+  }, 60_000);
+});
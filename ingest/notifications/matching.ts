@@ -0,0 +1,212 @@
+/**
+ * Matching of messages with the users' interests. An R-tree of the
+ * bounding boxes of the interest circles, built once per run, narrows each
+ * part of a message down to the interests near it, and only those are
+ * intersected with their circles.
+ */
+
+import RBush from "rbush";
+import * as turf from "@turf/turf";
+import type { Feature, Polygon } from "geojson";
+import { getCircleBbox } from "@oboapp/core";
+import type { Interest, Message } from "@/lib/types";
+import { matchesInterestFilters } from "./message-classification";
+
+export interface MatchResult {
+  messageId: string;
+  userId: string;
+  interestId: string;
+  distance: number;
+}
+
+interface IndexedInterest {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+  interest: Interest;
+}
+
+export interface InterestIndex {
+  tree: RBush<IndexedInterest>;
+  circles: Map<string, Feature<Polygon>>; // Built on the first candidate
+}
+
+/**
+ * Build the R-tree of the interests with an id
+ */
+export function createInterestIndex(interests: Interest[]): InterestIndex {
+  const tree = new RBush<IndexedInterest>();
+  tree.load(
+    interests
+      .filter((interest) => interest.id)
+      .map((interest) => {
+        const [minX, minY, maxX, maxY] = getCircleBbox(
+          interest.coordinates.lat,
+          interest.coordinates.lng,
+          interest.radius
+        );
+        return { minX, minY, maxX, maxY, interest };
+      })
+  );
+  return { tree, circles: new Map() };
+}
+
+function getInterestCircle(
+  index: InterestIndex,
+  interest: Interest
+): Feature<Polygon> {
+  let circle = index.circles.get(interest.id!);
+  if (!circle) {
+    circle = turf.circle(
+      [interest.coordinates.lng, interest.coordinates.lat],
+      interest.radius / 1000, // Convert meters to kilometers
+      { units: "kilometers" }
+    );
+    index.circles.set(interest.id!, circle);
+  }
+  return circle;
+}
+
+/**
+ * Distance from an interest to the nearest part of a message within its
+ * circle, null when no part is within it
+ */
+function getMatchDistance(
+  index: InterestIndex,
+  parts: Feature[],
+  interest: Interest
+): number | null {
+  const interestPoint = turf.point([
+    interest.coordinates.lng,
+    interest.coordinates.lat,
+  ]);
+  const interestCircle = getInterestCircle(index, interest);
+
+  let minDistance: number | null = null;
+
+  for (const part of parts) {
+    try {
+      if (!turf.booleanIntersects(part, interestCircle)) {
+        continue;
+      }
+
+      // Calculate distance to the point, or to the centroid of lines and
+      // polygons
+      const distance = turf.distance(
+        interestPoint,
+        part.geometry.type === "Point"
+          ? (part.geometry.coordinates as number[])
+          : turf.centroid(part),
+        { units: "meters" }
+      );
+
+      if (minDistance === null || distance < minDistance) {
+        minDistance = distance;
+      }
+    } catch (error) {
+      console.warn(`   ⚠️  Error checking intersection for feature:`, error);
+    }
+  }
+
+  return minDistance;
+}
+
+/**
+ * Parts of the features of a message, each multi-part geometry split so
+ * that the distance is to the part near the interest
+ */
+function getMessageParts(message: Message): Feature[] {
+  const parts: Feature[] = [];
+  for (const feature of message.geoJson?.features ?? []) {
+    try {
+      parts.push(...turf.flatten(feature as turf.AllGeoJSON).features);
+    } catch (error) {
+      console.warn(`   ⚠️  Error splitting feature:`, error);
+    }
+  }
+  return parts;
+}
+
+/**
+ * Interests whose circle's bounding box touches a part of the message, and
+ * the parts that touch each
+ */
+function findCandidates(
+  index: InterestIndex,
+  parts: Feature[]
+): Map<Interest, Feature[]> {
+  const candidates = new Map<Interest, Feature[]>();
+  for (const part of parts) {
+    const [minX, minY, maxX, maxY] = turf.bbox(part);
+    for (const { interest } of index.tree.search({
+      minX,
+      minY,
+      maxX,
+      maxY,
+    })) {
+      candidates.set(interest, [...(candidates.get(interest) ?? []), part]);
+    }
+  }
+  return candidates;
+}
+
+/**
+ * Match unprocessed messages with user interests, within the filters of
+ * each interest
+ */
+export function matchMessagesWithInterests(
+  messages: Message[],
+  index: InterestIndex
+): MatchResult[] {
+  console.log("\n🔍 Matching messages with interests...");
+
+  const matches: MatchResult[] = [];
+
+  for (const message of messages) {
+    if (!message.id || !message.geoJson) {
+      continue;
+    }
+
+    const candidates = findCandidates(index, getMessageParts(message));
+
+    for (const [interest, parts] of candidates) {
+      // Only match if the message was created after the interest was created
+      // Both message.createdAt and interest.createdAt are ISO strings
+      if (message.createdAt < interest.createdAt) {
+        continue;
+      }
+
+      // Only the sources, categories and kind the zone is filtered to
+      if (!matchesInterestFilters(message, interest.filters)) {
+        continue;
+      }
+
+      const distance = getMatchDistance(index, parts, interest);
+
+      if (distance !== null) {
+        matches.push({
+          messageId: message.id,
+          userId: interest.userId,
+          interestId: interest.id!,
+          distance,
+        });
+        console.log(
+          `   ✅ Match: Message ${message.id.substring(
+            0,
+            8
+          )} → User ${interest.userId.substring(
+            0,
+            8
+          )} → Interest ${interest.id!.substring(0, 8)} (${Math.round(
+            distance
+          )}m)`
+        );
+      }
+    }
+  }
+
+  console.log(`\n   📊 Total matches found: ${matches.length}`);
+
+  return matches;
+}
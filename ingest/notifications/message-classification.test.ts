@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import {
+  getIncidentKind,
+  matchesInterestFilters,
+} from "./message-classification";
+
+const waterAccident = {
+  text: "Авария на водопровод, ул. Оборище 5",
+  source: "sofiyska-voda",
+  categories: ["water" as const],
+};
+const plannedOutage = {
+  text: "**Планирано прекъсване**\nБез ток от 10:00 до 16:00",
+  source: "erm-zapad",
+};
+const roadRepair = {
+  text: "Ремонт на пътната настилка и промяна в организацията на движението",
+  source: "sofia-bg",
+  categories: ["roads" as const],
+};
+
+describe("getIncidentKind", () => {
+  it("should tell accidents from planned works", () => {
+    expect(getIncidentKind(waterAccident)).toBe("unplanned");
+    expect(getIncidentKind(plannedOutage)).toBe("planned");
+    expect(getIncidentKind({ text: "Непланирано прекъсване" })).toBe(
+      "unplanned"
+    );
+  });
+
+  it("should return null when the text does not tell", () => {
+    expect(getIncidentKind(roadRepair)).toBeNull();
+  });
+});
+
+describe("matchesInterestFilters", () => {
+  it("should pass every message without filters", () => {
+    expect(matchesInterestFilters(roadRepair, undefined)).toBe(true);
+  });
+
+  it("should keep the messages of the chosen categories", () => {
+    const filters = { categories: ["water" as const, "heating" as const] };
+
+    expect(matchesInterestFilters(waterAccident, filters)).toBe(true);
+    expect(matchesInterestFilters(roadRepair, filters)).toBe(false);
+  });
+
+  it("should keep the messages with any of the chosen categories", () => {
+    const message = {
+      ...waterAccident,
+      categories: ["water" as const, "roads" as const],
+    };
+
+    expect(matchesInterestFilters(message, { categories: ["roads"] })).toBe(
+      true
+    );
+    expect(
+      matchesInterestFilters(message, { categories: ["construction"] })
+    ).toBe(false);
+  });
+
+  it("should classify the messages stored without categories", () => {
+    const filters = { categories: ["electricity" as const] };
+
+    expect(matchesInterestFilters(plannedOutage, filters)).toBe(true);
+    expect(matchesInterestFilters({ text: "Без източник" }, filters)).toBe(
+      false
+    );
+    expect(
+      matchesInterestFilters(
+        { text: "Ремонт на тротоара на ул. Шипка", source: "sofia-bg" },
+        { categories: ["roads"] }
+      )
+    ).toBe(true);
+  });
+
+  it("should keep the messages of the chosen sources", () => {
+    const filters = { sources: ["sofiyska-voda"] };
+
+    expect(matchesInterestFilters(waterAccident, filters)).toBe(true);
+    expect(matchesInterestFilters(plannedOutage, filters)).toBe(false);
+    expect(matchesInterestFilters({ text: "Без източник" }, filters)).toBe(
+      false
+    );
+  });
+
+  it("should keep the messages of the chosen kind and the unknown ones", () => {
+    const filters = { kind: "unplanned" as const };
+
+    expect(matchesInterestFilters(waterAccident, filters)).toBe(true);
+    expect(matchesInterestFilters(plannedOutage, filters)).toBe(false);
+    expect(matchesInterestFilters(roadRepair, filters)).toBe(true);
+  });
+});
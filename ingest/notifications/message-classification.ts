@@ -0,0 +1,67 @@
+/**
+ * What a message is about, for the filters of the zones: its categories
+ * (stored on the message, see messageIngest/category.ts) and whether it is
+ * about planned works or an unplanned incident.
+ */
+
+import { getMessageCategories } from "@/messageIngest/category";
+import type { IncidentKind, InterestFilters, Message } from "@/lib/types";
+
+// Checked before the planned ones: "непланирано" contains "планирано"
+const UNPLANNED_PATTERN = /авари|непланиран|внезапн/;
+const PLANNED_PATTERN = /планиран|планов|профилакт|ремонтни (дейности|работи)/;
+
+/**
+ * Planned works or an unplanned incident, null when the text does not tell
+ */
+export function getIncidentKind(
+  message: Pick<Message, "text">
+): IncidentKind | null {
+  const text = message.text.toLowerCase();
+  if (UNPLANNED_PATTERN.test(text)) {
+    return "unplanned";
+  }
+  if (PLANNED_PATTERN.test(text)) {
+    return "planned";
+  }
+  return null;
+}
+
+/**
+ * Whether a message passes the filters of a zone: from one of its sources,
+ * in any of its categories, and of its kind. Messages whose kind is not
+ * known pass the kind filter, so that no incident is missed.
+ */
+export function matchesInterestFilters(
+  message: Pick<Message, "text" | "source" | "categories" | "extractedData">,
+  filters: InterestFilters | undefined
+): boolean {
+  if (!filters) {
+    return true;
+  }
+
+  if (
+    filters.sources &&
+    !(message.source && filters.sources.includes(message.source))
+  ) {
+    return false;
+  }
+
+  // Messages stored before the categories field are classified here
+  const chosenCategories = filters.categories;
+  if (chosenCategories) {
+    const categories = message.categories ?? getMessageCategories(message);
+    if (!categories.some((c) => chosenCategories.includes(c))) {
+      return false;
+    }
+  }
+
+  if (filters.kind) {
+    const kind = getIncidentKind(message);
+    if (kind !== null && kind !== filters.kind) {
+      return false;
+    }
+  }
+
+  return true;
+}
@@ -0,0 +1,113 @@
+/**
+ * Web push through Firebase Cloud Messaging, to every device the user
+ * subscribed
+ */
+
+import type { Firestore } from "firebase-admin/firestore";
+import type { Messaging } from "firebase-admin/messaging";
+import { parseNotificationSubscriptionDocument } from "@oboapp/core";
+import type { DeviceNotification, NotificationSubscription } from "@/lib/types";
+import {
+  type NotificationChannel,
+  type OutgoingNotification,
+  type SendResult,
+  getPreview,
+  toDeviceNotification,
+} from "./channels";
+
+/**
+ * Get user subscriptions
+ */
+async function getUserSubscriptions(
+  adminDb: Firestore,
+  userId: string
+): Promise<NotificationSubscription[]> {
+  const subscriptionsRef = adminDb.collection("notificationSubscriptions");
+  const snapshot = await subscriptionsRef.where("userId", "==", userId).get();
+
+  const subscriptions: NotificationSubscription[] = [];
+  snapshot.forEach((doc) => {
+    const subscription = parseNotificationSubscriptionDocument(
+      doc.id,
+      doc.data()
+    );
+    if (!subscription) {
+      console.warn(`   ⚠️  Skipping invalid subscription ${doc.id}`);
+      return;
+    }
+    subscriptions.push(subscription);
+  });
+
+  return subscriptions;
+}
+
+/**
+ * Send push notification
+ */
+async function sendPushNotification(
+  messaging: Messaging,
+  appUrl: string,
+  subscription: NotificationSubscription,
+  notification: OutgoingNotification
+): Promise<SendResult> {
+  try {
+    const distanceText = notification.distance
+      ? ` (${Math.round(notification.distance)}m от вашия район)`
+      : "";
+
+    await messaging.send({
+      token: subscription.token,
+      notification: {
+        title: notification.title,
+        body: `${getPreview(notification.text, 100)}${distanceText}`,
+        imageUrl: `${appUrl}/icon-192x192.png`,
+      },
+      data: notification.data,
+      webpush: {
+        fcmOptions: {
+          link: notification.url,
+        },
+      },
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error(`   ❌ Failed to send notification:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+export function createPushChannel(
+  adminDb: Firestore,
+  messaging: Messaging,
+  appUrl: string
+): NotificationChannel {
+  return {
+    name: "push",
+    async send(userId, notification) {
+      const subscriptions = await getUserSubscriptions(adminDb, userId);
+
+      const deviceNotifications: DeviceNotification[] = [];
+      for (const subscription of subscriptions) {
+        const result = await sendPushNotification(
+          messaging,
+          appUrl,
+          subscription,
+          notification
+        );
+        deviceNotifications.push(
+          toDeviceNotification(
+            "push",
+            subscription.id || "",
+            result,
+            subscription.deviceInfo
+          )
+        );
+      }
+      return deviceNotifications;
+    },
+  };
+}
@@ -0,0 +1,122 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { Message, NotificationMatch } from "@/lib/types";
+import { createMessageNotification } from "./channels";
+import {
+  formatTelegramMessage,
+  getTelegramConfig,
+  sendTelegramMessage,
+} from "./telegram-channel";
+
+const message: Message = {
+  id: "message-1",
+  text: "Спиране на водата <до 18:00> & ремонт",
+  createdAt: "2024-01-15T12:00:00.000Z",
+};
+
+const match: NotificationMatch = {
+  userId: "user-1",
+  messageId: "message-1",
+  interestId: "interest-1",
+  matchedAt: "2024-01-15T12:00:00.000Z",
+  notified: false,
+  distance: 123.4,
+};
+
+const appUrl = "https://oboapp.online";
+const config = { token: "123:abc", apiUrl: "http://localhost:8081" };
+
+describe("getTelegramConfig", () => {
+  it("should return null without a bot token", () => {
+    expect(getTelegramConfig({})).toBeNull();
+  });
+
+  it("should default to the Telegram Bot API", () => {
+    expect(getTelegramConfig({ TELEGRAM_BOT_TOKEN: "123:abc" })).toEqual({
+      token: "123:abc",
+      apiUrl: "https://api.telegram.org",
+    });
+  });
+});
+
+describe("formatTelegramMessage", () => {
+  it("should escape the message in HTML with the distance", () => {
+    expect(
+      formatTelegramMessage(createMessageNotification(message, match, appUrl))
+    ).toBe(
+      "<b>Ново съобщение в Оборище</b>\n\n" +
+        "Спиране на водата &lt;до 18:00&gt; &amp; ремонт\n\n" +
+        "📍 123m от вашия район"
+    );
+  });
+
+  it("should title updated messages", () => {
+    expect(
+      formatTelegramMessage(
+        createMessageNotification(
+          { ...message, previousMessageId: "old" },
+          match,
+          appUrl
+        )
+      )
+    ).toMatch(/^<b>Обновено съобщение в Оборище<\/b>/);
+  });
+});
+
+describe("sendTelegramMessage", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should send HTML with a button to the message", async () => {
+    const fetch = vi.fn().mockResolvedValue({
+      status: 200,
+      json: async () => ({ ok: true }),
+    });
+    vi.stubGlobal("fetch", fetch);
+
+    const result = await sendTelegramMessage(
+      config,
+      "-100123",
+      "<b>text</b>",
+      "https://oboapp.online/?messageId=message-1"
+    );
+
+    expect(result).toEqual({ success: true });
+    expect(fetch).toHaveBeenCalledWith(
+      "http://localhost:8081/bot123:abc/sendMessage",
+      expect.objectContaining({ method: "POST" })
+    );
+    expect(JSON.parse(fetch.mock.calls[0][1].body)).toMatchObject({
+      chat_id: "-100123",
+      parse_mode: "HTML",
+      reply_markup: {
+        inline_keyboard: [
+          [
+            {
+              text: "Виж на картата",
+              url: "https://oboapp.online/?messageId=message-1",
+            },
+          ],
+        ],
+      },
+    });
+  });
+
+  it("should return the error of the Bot API", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn().mockResolvedValue({
+        status: 403,
+        json: async () => ({
+          ok: false,
+          description: "Forbidden: bot was blocked by the user",
+        }),
+      })
+    );
+
+    expect(await sendTelegramMessage(config, "1", "text", "url")).toEqual({
+      success: false,
+      error: "Forbidden: bot was blocked by the user",
+    });
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Telegram bot channel: matches go to the private chats and groups linked
+ * to the user with a one-time code (see web/app/api/telegram/webhook), as
+ * HTML messages with a button to the message on the map
+ */
+
+import type { Firestore } from "firebase-admin/firestore";
+import type { DeviceNotification } from "@/lib/types";
+import {
+  type NotificationChannel,
+  type OutgoingNotification,
+  type SendResult,
+  getChatSubscriptions,
+  getPreview,
+  toDeviceNotification,
+} from "./channels";
+import { escapeHtml } from "./email-template";
+
+const PREVIEW_LENGTH = 500;
+
+export interface TelegramConfig {
+  token: string;
+  apiUrl: string;
+}
+
+/**
+ * Bot settings from TELEGRAM_BOT_TOKEN (and TELEGRAM_API_URL for a local
+ * stand-in of the Bot API), null when the bot is not configured
+ */
+export function getTelegramConfig(
+  env: NodeJS.ProcessEnv = process.env
+): TelegramConfig | null {
+  if (!env.TELEGRAM_BOT_TOKEN) {
+    return null;
+  }
+  return {
+    token: env.TELEGRAM_BOT_TOKEN,
+    apiUrl: env.TELEGRAM_API_URL || "https://api.telegram.org",
+  };
+}
+
+/**
+ * Text of a notification in Telegram HTML
+ */
+export function formatTelegramMessage(
+  notification: OutgoingNotification
+): string {
+  const distanceText = notification.distance
+    ? `\n\n📍 ${Math.round(notification.distance)}m от вашия район`
+    : "";
+
+  return `<b>${escapeHtml(notification.title)}</b>\n\n${escapeHtml(
+    getPreview(notification.text, PREVIEW_LENGTH)
+  )}${distanceText}`;
+}
+
+export async function sendTelegramMessage(
+  config: TelegramConfig,
+  chatId: string,
+  text: string,
+  url: string
+): Promise<SendResult> {
+  try {
+    const response = await fetch(
+      `${config.apiUrl}/bot${config.token}/sendMessage`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          chat_id: chatId,
+          text,
+          parse_mode: "HTML",
+          link_preview_options: { is_disabled: true },
+          reply_markup: {
+            inline_keyboard: [[{ text: "Виж на картата", url }]],
+          },
+        }),
+      }
+    );
+    const data = await response.json();
+
+    if (!data.ok) {
+      return {
+        success: false,
+        error: data.description || `HTTP ${response.status}`,
+      };
+    }
+    return { success: true };
+  } catch (error) {
+    console.error(`   ❌ Failed to send Telegram message:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+export function createTelegramChannel(
+  adminDb: Firestore,
+  config: TelegramConfig
+): NotificationChannel {
+  return {
+    name: "telegram",
+    async send(userId, notification) {
+      const chats = await getChatSubscriptions(adminDb, userId, "telegram");
+
+      const text = formatTelegramMessage(notification);
+
+      const deviceNotifications: DeviceNotification[] = [];
+      for (const chat of chats) {
+        const result = await sendTelegramMessage(
+          config,
+          chat.chatId,
+          text,
+          notification.url
+        );
+        deviceNotifications.push(
+          toDeviceNotification("telegram", chat.id || "", result)
+        );
+      }
+      return deviceNotifications;
+    },
+  };
+}
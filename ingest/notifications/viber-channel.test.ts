@@ -0,0 +1,93 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { Message, NotificationMatch } from "@/lib/types";
+import { createMessageNotification } from "./channels";
+import {
+  formatViberMessage,
+  getViberConfig,
+  sendViberMessage,
+} from "./viber-channel";
+
+const message: Message = {
+  id: "message-1",
+  text: "Спиране на водата",
+  createdAt: "2024-01-15T12:00:00.000Z",
+};
+
+const match: NotificationMatch = {
+  userId: "user-1",
+  messageId: "message-1",
+  interestId: "interest-1",
+  matchedAt: "2024-01-15T12:00:00.000Z",
+  notified: false,
+};
+
+const config = { token: "token", apiUrl: "http://localhost:8082" };
+
+describe("getViberConfig", () => {
+  it("should return null without an auth token", () => {
+    expect(getViberConfig({})).toBeNull();
+  });
+
+  it("should use a local stand-in of the API", () => {
+    expect(
+      getViberConfig({
+        VIBER_AUTH_TOKEN: "token",
+        VIBER_API_URL: "http://localhost:8082",
+      })
+    ).toEqual(config);
+  });
+});
+
+describe("formatViberMessage", () => {
+  it("should end with the link to the message", () => {
+    expect(
+      formatViberMessage(
+        createMessageNotification(message, match, "https://oboapp.online")
+      )
+    ).toBe(
+      "Ново съобщение в Оборище\n\n" +
+        "Спиране на водата\n\n" +
+        "https://oboapp.online/?messageId=message-1"
+    );
+  });
+});
+
+describe("sendViberMessage", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should send a text message with the auth token", async () => {
+    const fetch = vi.fn().mockResolvedValue({
+      status: 200,
+      json: async () => ({ status: 0, status_message: "ok" }),
+    });
+    vi.stubGlobal("fetch", fetch);
+
+    expect(await sendViberMessage(config, "viber-user", "text")).toEqual({
+      success: true,
+    });
+    expect(fetch.mock.calls[0][0]).toBe("http://localhost:8082/send_message");
+    expect(fetch.mock.calls[0][1].headers["X-Viber-Auth-Token"]).toBe("token");
+    expect(JSON.parse(fetch.mock.calls[0][1].body)).toMatchObject({
+      receiver: "viber-user",
+      type: "text",
+      text: "text",
+    });
+  });
+
+  it("should fail on a non-zero status", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn().mockResolvedValue({
+        status: 200,
+        json: async () => ({ status: 6, status_message: "notSubscribed" }),
+      })
+    );
+
+    expect(await sendViberMessage(config, "viber-user", "text")).toEqual({
+      success: false,
+      error: "notSubscribed",
+    });
+  });
+});
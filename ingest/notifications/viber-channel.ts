@@ -0,0 +1,116 @@
+/**
+ * Viber bot channel: matches go to the Viber users who linked their chat
+ * with a one-time code (see web/app/api/viber/webhook), as text messages
+ * with the link to the message on the map
+ */
+
+import type { Firestore } from "firebase-admin/firestore";
+import type { DeviceNotification } from "@/lib/types";
+import {
+  type NotificationChannel,
+  type OutgoingNotification,
+  type SendResult,
+  getChatSubscriptions,
+  getPreview,
+  toDeviceNotification,
+} from "./channels";
+
+const PREVIEW_LENGTH = 500;
+const SENDER_NAME = "OboApp";
+
+export interface ViberConfig {
+  token: string;
+  apiUrl: string;
+}
+
+/**
+ * Bot settings from VIBER_AUTH_TOKEN (and VIBER_API_URL for a local
+ * stand-in of the bot API), null when the bot is not configured
+ */
+export function getViberConfig(
+  env: NodeJS.ProcessEnv = process.env
+): ViberConfig | null {
+  if (!env.VIBER_AUTH_TOKEN) {
+    return null;
+  }
+  return {
+    token: env.VIBER_AUTH_TOKEN,
+    apiUrl: env.VIBER_API_URL || "https://chatapi.viber.com/pa",
+  };
+}
+
+/**
+ * Plain text of a notification (Viber has no links in formatted text)
+ */
+export function formatViberMessage(notification: OutgoingNotification): string {
+  const distanceText = notification.distance
+    ? `\n\n📍 ${Math.round(notification.distance)}m от вашия район`
+    : "";
+
+  return `${notification.title}\n\n${getPreview(
+    notification.text,
+    PREVIEW_LENGTH
+  )}${distanceText}\n\n${notification.url}`;
+}
+
+export async function sendViberMessage(
+  config: ViberConfig,
+  receiver: string,
+  text: string
+): Promise<SendResult> {
+  try {
+    const response = await fetch(`${config.apiUrl}/send_message`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Viber-Auth-Token": config.token,
+      },
+      body: JSON.stringify({
+        receiver,
+        min_api_version: 1,
+        sender: { name: SENDER_NAME },
+        type: "text",
+        text,
+      }),
+    });
+    const data = await response.json();
+
+    // Viber answers 200 with a non-zero status on errors
+    if (data.status !== 0) {
+      return {
+        success: false,
+        error: data.status_message || `HTTP ${response.status}`,
+      };
+    }
+    return { success: true };
+  } catch (error) {
+    console.error(`   ❌ Failed to send Viber message:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+export function createViberChannel(
+  adminDb: Firestore,
+  config: ViberConfig
+): NotificationChannel {
+  return {
+    name: "viber",
+    async send(userId, notification) {
+      const chats = await getChatSubscriptions(adminDb, userId, "viber");
+
+      const text = formatViberMessage(notification);
+
+      const deviceNotifications: DeviceNotification[] = [];
+      for (const chat of chats) {
+        const result = await sendViberMessage(config, chat.chatId, text);
+        deviceNotifications.push(
+          toDeviceNotification("viber", chat.id || "", result)
+        );
+      }
+      return deviceNotifications;
+    },
+  };
+}
@@ -13,11 +13,18 @@ program
     "after",
     `
 This command:
-  - Fetches all unprocessed messages (where notificationsSent != true)
-  - Matches them against all user interests using geospatial calculations
-  - Creates notification matches in Firestore
-  - Sends push notifications via Firebase Cloud Messaging
+  - Fetches the unprocessed messages (where notificationsSent == false)
+  - Loads the user interests in the geohash cells of those messages and
+    matches them through an in-memory R-tree of the interest circles
+  - Creates notification matches in Firestore in batched writes
+  - Holds matches during each user's quiet hours and once their hourly cap
+    is reached, and collapses the matches over the cap into one summary
+  - Sends the unnotified matches (new and held) as push notifications via
+    Firebase Cloud Messaging, and Telegram and Viber messages when their
+    bots are configured
+  - Emails users who chose instant emails, when SMTP_HOST is set
   - Marks messages as notified
+  - Sends the daily and weekly email digests that are due
 
 Examples:
   $ npx tsx notify
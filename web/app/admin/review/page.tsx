@@ -0,0 +1,256 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { useAuth } from "@/lib/auth-context";
+import type {
+  GeoJSONPoint,
+  ReviewQueueEntry,
+  ReviewReason,
+} from "@/lib/types";
+import Card from "@/components/Card";
+
+type ReviewRequest =
+  | { action: "accept" | "reject" }
+  | {
+      action: "move";
+      featureIndex: number;
+      coordinates: { lat: number; lng: number };
+    };
+
+const REASON_LABELS: Record<ReviewReason["type"], string> = {
+  "low-confidence": "Неточно местоположение",
+  outlier: "Далеч от останалите точки",
+  "not-found": "Не е намерено",
+};
+
+export default function ReviewPage() {
+  const { user } = useAuth();
+  const router = useRouter();
+  const [reviews, setReviews] = useState<ReviewQueueEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchReviews = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const token = await user.getIdToken();
+      const response = await fetch("/api/admin/review", {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      if (response.status === 403) {
+        setError("Нямате достъп до тази страница");
+        setReviews([]);
+        return;
+      }
+      if (!response.ok) {
+        throw new Error("Failed to fetch review queue");
+      }
+
+      const data = await response.json();
+      setReviews(Array.isArray(data.reviews) ? data.reviews : []);
+    } catch (err) {
+      console.error("Error fetching review queue:", err);
+      setError("Неуспешно зареждане на сигналите за преглед");
+      setReviews([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (!user) {
+      router.push("/");
+      return;
+    }
+
+    fetchReviews();
+  }, [user, router, fetchReviews]);
+
+  const submitReview = useCallback(
+    async (messageId: string, request: ReviewRequest) => {
+      if (!user) return;
+
+      try {
+        setError(null);
+        const token = await user.getIdToken();
+        const response = await fetch(`/api/admin/review/${messageId}`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${token}`,
+          },
+          body: JSON.stringify(request),
+        });
+
+        if (!response.ok) {
+          throw new Error("Failed to apply review");
+        }
+
+        await fetchReviews();
+      } catch (err) {
+        console.error("Error applying review:", err);
+        setError("Неуспешно запазване на прегледа");
+      }
+    },
+    [user, fetchReviews]
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        <h1 className="text-3xl font-bold text-gray-900 mb-8">
+          Преглед на местоположения
+        </h1>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
+            <p className="text-red-800">{error}</p>
+          </div>
+        )}
+
+        {isLoading && (
+          <div className="flex justify-center items-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+          </div>
+        )}
+
+        {!isLoading && !error && reviews.length === 0 && (
+          <div className="bg-white rounded-lg shadow p-8 text-center">
+            <p className="text-gray-500 text-lg">Няма сигнали за преглед</p>
+          </div>
+        )}
+
+        {!isLoading && reviews.length > 0 && (
+          <div className="space-y-6">
+            {reviews.map((review) => (
+              <ReviewCard
+                key={review.messageId}
+                review={review}
+                onSubmit={(request) => submitReview(review.messageId, request)}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface ReviewCardProps {
+  readonly review: ReviewQueueEntry;
+  readonly onSubmit: (request: ReviewRequest) => Promise<void>;
+}
+
+function ReviewCard({ review, onSubmit }: ReviewCardProps) {
+  const pins = (review.geoJson?.features ?? [])
+    .map((feature, index) => ({ feature, index }))
+    .filter(({ feature }) => feature.geometry.type === "Point");
+
+  return (
+    <Card>
+      <div className="flex justify-between items-start mb-3">
+        <p className="text-sm text-gray-500">
+          Увереност: {Math.round(review.confidence * 100)}%
+        </p>
+        <Link
+          href={`/messages/${review.messageId}`}
+          className="text-blue-600 hover:text-blue-800 text-sm font-medium"
+        >
+          Виж сигнала
+        </Link>
+      </div>
+
+      <p className="text-gray-900 mb-4 whitespace-pre-wrap">{review.text}</p>
+
+      <ul className="mb-4 space-y-1 text-sm text-gray-700">
+        {review.reasons.map((reason) => (
+          <li key={`${reason.type}-${reason.location}`}>
+            {REASON_LABELS[reason.type]}: {reason.location}
+            {reason.confidence !== undefined &&
+              ` (${Math.round(reason.confidence * 100)}%)`}
+          </li>
+        ))}
+      </ul>
+
+      {pins.length > 0 && (
+        <div className="mb-4 space-y-2">
+          {pins.map(({ feature, index }) => (
+            <MovePinForm
+              key={index}
+              label={feature.properties.address ?? `Точка ${index + 1}`}
+              coordinates={(feature.geometry as GeoJSONPoint).coordinates}
+              onMove={(coordinates) =>
+                onSubmit({ action: "move", featureIndex: index, coordinates })
+              }
+            />
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-3">
+        <button
+          type="button"
+          onClick={() => onSubmit({ action: "accept" })}
+          className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700"
+        >
+          Потвърди
+        </button>
+        <button
+          type="button"
+          onClick={() => onSubmit({ action: "reject" })}
+          className="px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700"
+        >
+          Отхвърли
+        </button>
+      </div>
+    </Card>
+  );
+}
+
+interface MovePinFormProps {
+  readonly label: string;
+  readonly coordinates: [number, number]; // [longitude, latitude]
+  readonly onMove: (coordinates: { lat: number; lng: number }) => void;
+}
+
+function MovePinForm({ label, coordinates, onMove }: MovePinFormProps) {
+  const [lat, setLat] = useState(String(coordinates[1]));
+  const [lng, setLng] = useState(String(coordinates[0]));
+
+  return (
+    <form
+      className="flex flex-wrap items-center gap-2 text-sm"
+      onSubmit={(event) => {
+        event.preventDefault();
+        onMove({ lat: Number(lat), lng: Number(lng) });
+      }}
+    >
+      <span className="text-gray-700 flex-1">{label}</span>
+      <input
+        aria-label="Географска ширина"
+        value={lat}
+        onChange={(event) => setLat(event.target.value)}
+        className="w-28 px-2 py-1 border border-gray-300 rounded-md"
+      />
+      <input
+        aria-label="Географска дължина"
+        value={lng}
+        onChange={(event) => setLng(event.target.value)}
+        className="w-28 px-2 py-1 border border-gray-300 rounded-md"
+      />
+      <button
+        type="submit"
+        className="px-3 py-1 border border-blue-600 text-blue-600 rounded-md hover:bg-blue-50"
+      >
+        Премести
+      </button>
+    </form>
+  );
+}
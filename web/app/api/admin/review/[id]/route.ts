@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyAdminToken } from "@/lib/verifyAuthToken";
+import { applyReviewAction, parseReviewAction } from "@/lib/review-queue";
+
+// POST - Accept, reject or move the locations of a message under review
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userEmail } = await verifyAdminToken(
+      request.headers.get("authorization")
+    );
+    const { id } = await params;
+    const reviewAction = parseReviewAction(await request.json());
+
+    const found = await applyReviewAction(id, reviewAction, userEmail);
+    if (!found) {
+      return NextResponse.json(
+        { error: "Message not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("[POST /api/admin/review/[id]] Error:", error);
+
+    if (
+      error instanceof Error &&
+      (error.message === "Missing auth token" ||
+        error.message === "Invalid auth token")
+    ) {
+      return NextResponse.json(
+        { error: `Unauthorized - ${error.message}` },
+        { status: 401 }
+      );
+    }
+
+    if (error instanceof Error && error.message === "Forbidden") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    if (error instanceof Error && error.message.startsWith("Invalid")) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to apply review" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { NextRequest } from "next/server";
+import { GET } from "../route";
+
+vi.mock("@/lib/firebase-admin", () => ({
+  adminAuth: {
+    verifyIdToken: vi.fn(),
+  },
+  adminDb: {
+    collection: vi.fn(),
+  },
+}));
+
+const callGET = (authorization?: string) =>
+  GET(
+    new NextRequest("http://localhost/api/admin/review", {
+      headers: authorization ? { authorization } : {},
+    })
+  );
+
+describe("GET /api/admin/review", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv("ADMIN_EMAILS", "admin@example.com, other@example.com");
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("should return 401 without a token", async () => {
+    const response = await callGET();
+    expect(response.status).toBe(401);
+  });
+
+  it("should return 403 for users who are not admins", async () => {
+    const { adminAuth } = await import("@/lib/firebase-admin");
+    vi.mocked(adminAuth.verifyIdToken).mockResolvedValue({
+      uid: "user1",
+      email: "user@example.com",
+      email_verified: true,
+    } as any);
+
+    const response = await callGET("Bearer token");
+    expect(response.status).toBe(403);
+  });
+
+  it("should return 403 for an admin's address that is not verified", async () => {
+    const { adminAuth } = await import("@/lib/firebase-admin");
+    vi.mocked(adminAuth.verifyIdToken).mockResolvedValue({
+      uid: "user2",
+      email: "admin@example.com",
+      email_verified: false,
+    } as any);
+
+    const response = await callGET("Bearer token");
+    expect(response.status).toBe(403);
+  });
+
+  it("should return the pending reviews to admins", async () => {
+    const { adminAuth, adminDb } = await import("@/lib/firebase-admin");
+    vi.mocked(adminAuth.verifyIdToken).mockResolvedValue({
+      uid: "admin1",
+      email: "Admin@example.com",
+      email_verified: true,
+    } as any);
+
+    const geoJson = { type: "FeatureCollection", features: [] };
+    vi.mocked(adminDb.collection).mockImplementation(
+      (name: string) =>
+        (name === "reviewQueue"
+          ? {
+              where: vi.fn().mockReturnValue({
+                get: vi.fn().mockResolvedValue({
+                  docs: [
+                    {
+                      id: "msg1",
+                      data: () => ({
+                        text: "Ремонт на ул. Шипка",
+                        confidence: 0.3,
+                        reasons: JSON.stringify([
+                          {
+                            type: "low-confidence",
+                            location: "ул. Шипка 6",
+                            confidence: 0.3,
+                          },
+                        ]),
+                        addresses: JSON.stringify([]),
+                        outliers: JSON.stringify([]),
+                        status: "pending",
+                        createdAt: { _seconds: 1704067200 },
+                      }),
+                    },
+                  ],
+                }),
+              }),
+            }
+          : {
+              doc: vi.fn().mockReturnValue({
+                get: vi.fn().mockResolvedValue({
+                  data: () => ({ geoJson: JSON.stringify(geoJson) }),
+                }),
+              }),
+            }) as any
+    );
+
+    const response = await callGET("Bearer token");
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.reviews).toEqual([
+      {
+        messageId: "msg1",
+        text: "Ремонт на ул. Шипка",
+        confidence: 0.3,
+        reasons: [
+          {
+            type: "low-confidence",
+            location: "ул. Шипка 6",
+            confidence: 0.3,
+          },
+        ],
+        addresses: [],
+        outliers: [],
+        status: "pending",
+        createdAt: "2024-01-01T00:00:00.000Z",
+        geoJson,
+      },
+    ]);
+  });
+});
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyAdminToken } from "@/lib/verifyAuthToken";
+import { getPendingReviews } from "@/lib/review-queue";
+
+// GET - Messages with low-confidence geocoding waiting for an admin
+export async function GET(request: NextRequest) {
+  try {
+    await verifyAdminToken(request.headers.get("authorization"));
+
+    const reviews = await getPendingReviews();
+    return NextResponse.json({ reviews });
+  } catch (error) {
+    console.error("[GET /api/admin/review] Error:", error);
+
+    if (
+      error instanceof Error &&
+      (error.message === "Missing auth token" ||
+        error.message === "Invalid auth token")
+    ) {
+      return NextResponse.json(
+        { error: `Unauthorized - ${error.message}` },
+        { status: 401 }
+      );
+    }
+
+    if (error instanceof Error && error.message === "Forbidden") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to fetch review queue" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { buildAtomFeed, getFeedMessages, parseFeedQuery } from "@/lib/feeds";
+
+// GET - Atom feed of relevant messages, filterable by source and radius
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const messages = await getFeedMessages(parseFeedQuery(searchParams));
+
+    return new NextResponse(buildAtomFeed(messages, request.url), {
+      headers: { "Content-Type": "application/atom+xml; charset=utf-8" },
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message.startsWith("Invalid ")) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error("Error building Atom feed:", error);
+    return NextResponse.json(
+      { error: "Failed to build feed" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import {
+  buildGeoJsonFeed,
+  getFeedMessages,
+  parseFeedQuery,
+} from "@/lib/feeds";
+
+// GET - All features of relevant messages as one FeatureCollection
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const messages = await getFeedMessages(parseFeedQuery(searchParams));
+
+    return NextResponse.json(buildGeoJsonFeed(messages), {
+      headers: { "Content-Type": "application/geo+json; charset=utf-8" },
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message.startsWith("Invalid ")) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error("Error building GeoJSON feed:", error);
+    return NextResponse.json(
+      { error: "Failed to build feed" },
+      { status: 500 }
+    );
+  }
+}
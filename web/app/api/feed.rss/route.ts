@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { buildRssFeed, getFeedMessages, parseFeedQuery } from "@/lib/feeds";
+
+// GET - RSS feed of relevant messages, filterable by source and radius
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const messages = await getFeedMessages(parseFeedQuery(searchParams));
+
+    return new NextResponse(buildRssFeed(messages, request.url), {
+      headers: { "Content-Type": "application/rss+xml; charset=utf-8" },
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message.startsWith("Invalid ")) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error("Error building RSS feed:", error);
+    return NextResponse.json(
+      { error: "Failed to build feed" },
+      { status: 500 }
+    );
+  }
+}
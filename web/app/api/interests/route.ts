@@ -2,7 +2,12 @@ import { NextRequest, NextResponse } from "next/server";
 import { adminDb } from "@/lib/firebase-admin";
 import { Interest } from "@/lib/types";
 import { verifyAuthToken } from "@/lib/verifyAuthToken";
-import { convertTimestamp } from "@/lib/firestore-utils";
+import { FieldValue } from "firebase-admin/firestore";
+import {
+  geohashesForCircle,
+  parseInterestDocument,
+  parseInterestFilters,
+} from "@oboapp/core";
 
 // Constants
 const MIN_RADIUS = 100; // meters
@@ -40,15 +45,14 @@ export async function GET(request: NextRequest) {
 
     const interests: Interest[] = [];
     snapshot.forEach((doc) => {
-      const data = doc.data();
-      interests.push({
-        id: doc.id,
-        userId: data.userId,
-        coordinates: data.coordinates,
-        radius: data.radius,
-        createdAt: convertTimestamp(data.createdAt),
-        updatedAt: convertTimestamp(data.updatedAt),
-      });
+      const interest = parseInterestDocument(doc.id, doc.data());
+      if (!interest) {
+        console.warn(
+          `[GET /api/interests] Skipping invalid interest ${doc.id}`
+        );
+        return;
+      }
+      interests.push(interest);
     });
 
     // Sort in JavaScript if we couldn't sort in query
@@ -112,6 +116,11 @@ export async function POST(request: NextRequest) {
         lng: coordinates.lng,
       },
       radius: validatedRadius,
+      geohashes: geohashesForCircle(
+        coordinates.lat,
+        coordinates.lng,
+        validatedRadius
+      ),
       createdAt: now,
       updatedAt: now,
     };
@@ -206,14 +215,14 @@ export async function DELETE(request: NextRequest) {
   }
 }
 
-// PATCH - Update an interest (move or change radius)
+// PATCH - Update an interest (move, change radius or filters)
 export async function PATCH(request: NextRequest) {
   try {
     const authHeader = request.headers.get("authorization");
     const { userId } = await verifyAuthToken(authHeader);
 
     const body = await request.json();
-    const { id, coordinates, radius } = body;
+    const { id, coordinates, radius, filters } = body;
 
     if (!id) {
       return NextResponse.json(
@@ -266,20 +275,31 @@ export async function PATCH(request: NextRequest) {
       updates.radius = validateRadius(radius);
     }
 
+    // Cells of the moved or resized circle
+    if (updates.coordinates || updates.radius !== undefined) {
+      const { lat, lng } = updates.coordinates ?? data.coordinates;
+      updates.geohashes = geohashesForCircle(
+        lat,
+        lng,
+        updates.radius ?? data.radius
+      );
+    }
+
+    // Update filters if provided, without unknown values (null or empty
+    // filters remove them)
+    if (filters !== undefined) {
+      updates.filters = parseInterestFilters(filters) ?? FieldValue.delete();
+    }
+
     await interestRef.update(updates);
 
     // Fetch updated document
     const updatedDoc = await interestRef.get();
-    const updatedData = updatedDoc.data();
-
-    const updatedInterest: Interest = {
-      id: updatedDoc.id,
-      userId: updatedData!.userId,
-      coordinates: updatedData!.coordinates,
-      radius: updatedData!.radius,
-      createdAt: convertTimestamp(updatedData!.createdAt),
-      updatedAt: convertTimestamp(updatedData!.updatedAt),
-    };
+
+    const updatedInterest = parseInterestDocument(
+      updatedDoc.id,
+      updatedDoc.data()!
+    );
 
     return NextResponse.json({ interest: updatedInterest });
   } catch (error) {
@@ -0,0 +1,77 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { GET } from "../route";
+
+// Mock the firebase-admin module
+vi.mock("@/lib/firebase-admin", () => ({
+  adminDb: {
+    collection: vi.fn(),
+  },
+}));
+
+// Helper to create Firebase mock structure for doc(id).get()
+const setupFirebaseMock = async (mockMessages: any[]) => {
+  const { adminDb } = await import("@/lib/firebase-admin");
+
+  const mockCollection = {
+    doc: vi.fn((id: string) => ({
+      get: vi.fn().mockResolvedValue({
+        id,
+        exists: mockMessages.some((doc) => doc.id === id),
+        data: () => mockMessages.find((doc) => doc.id === id)?.data(),
+      }),
+    })),
+  };
+
+  vi.mocked(adminDb.collection).mockReturnValue(mockCollection as any);
+  return mockCollection;
+};
+
+const callGET = (id: string) =>
+  GET(new Request(`http://localhost/api/messages/${id}`), {
+    params: Promise.resolve({ id }),
+  });
+
+describe("GET /api/messages/[id]", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should return a message regardless of its validity window", async () => {
+    await setupFirebaseMock([
+      {
+        id: "msg1",
+        data: () => ({
+          text: "Спиране на водата",
+          source: "sofiyska-voda",
+          addresses: JSON.stringify([]),
+          geoJson: JSON.stringify({ type: "FeatureCollection", features: [] }),
+          createdAt: { _seconds: 1704067200 },
+          activeUntil: { _seconds: 1704067200 },
+          supersededBy: "msg2",
+        }),
+      },
+    ]);
+
+    const response = await callGET("msg1");
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.message).toMatchObject({
+      id: "msg1",
+      text: "Спиране на водата",
+      source: "sofiyska-voda",
+      createdAt: "2024-01-01T00:00:00.000Z",
+      activeUntil: "2024-01-01T00:00:00.000Z",
+      supersededBy: "msg2",
+    });
+  });
+
+  it("should return 404 for unknown messages", async () => {
+    await setupFirebaseMock([]);
+
+    const response = await callGET("missing");
+
+    expect(response.status).toBe(404);
+    expect((await response.json()).error).toBe("Message not found");
+  });
+});
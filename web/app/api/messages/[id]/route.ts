@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { getMessageById } from "@/lib/get-message";
+
+// GET - Fetch a single message, also when it is no longer relevant,
+// so links from notifications and shares keep working
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const message = await getMessageById(id);
+
+    if (!message) {
+      return NextResponse.json(
+        { error: "Message not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ message });
+  } catch (error) {
+    console.error("Error fetching message:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch message" },
+      { status: 500 }
+    );
+  }
+}
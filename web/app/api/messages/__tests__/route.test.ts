@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import { GET } from "../route";
+import { encodeGeohash } from "@oboapp/core";
 
 // Mock the firebase-admin module
 vi.mock("@/lib/firebase-admin", () => ({
@@ -30,25 +31,93 @@ const createMockGeoJson = () => ({
   ],
 });
 
-// Helper to create Firebase mock structure
+// Helper to create a Firestore timestamp as returned by the Admin SDK
+const toTimestamp = (date: Date) => ({ _seconds: date.getTime() / 1000 });
+
+// Helper to create a date relative to now
+const daysFromNow = (days: number) => {
+  const date = new Date();
+  date.setDate(date.getDate() + days);
+  return date;
+};
+
+// Helper to create a GET request with query parameters
+const createRequest = (params: Record<string, string> = {}) =>
+  new Request(
+    `http://localhost/api/messages?${new URLSearchParams(params).toString()}`
+  );
+
+const toMillis = (timestamp: any) => timestamp._seconds * 1000;
+
+const matchesFilter = (data: any, field: string, op: string, value: any) => {
+  switch (op) {
+    case ">=":
+      return (
+        data[field] !== undefined && toMillis(data[field]) >= value.getTime()
+      );
+    case "==":
+      return data[field] === value;
+    case "array-contains":
+      return Array.isArray(data[field]) && data[field].includes(value);
+    case "array-contains-any":
+      return (
+        Array.isArray(data[field]) &&
+        data[field].some((item: string) => value.includes(item))
+      );
+    default:
+      throw new Error(`Unsupported operator ${op}`);
+  }
+};
+
+// Helper to create Firebase mock structure; where/orderBy/startAfter/limit
+// are applied to the mock documents like Firestore would
 const setupFirebaseMock = async (mockMessages: any[]) => {
   const { adminDb } = await import("@/lib/firebase-admin");
 
-  const mockSnapshot = {
-    forEach: vi.fn((callback) => {
-      mockMessages.forEach((doc) => callback(doc));
-    }),
-  };
-
-  const mockQuery = {
-    get: vi.fn().mockResolvedValue(mockSnapshot),
-  };
+  let docs = [...mockMessages];
+  let limit = Infinity;
+  let startAfterId: string | undefined;
 
-  const mockCollection = {
-    orderBy: vi.fn().mockReturnValue(mockQuery),
+  const mockQuery: any = {
+    where: vi.fn((field: string, op: string, value: any) => {
+      docs = docs.filter((doc) => matchesFilter(doc.data(), field, op, value));
+      return mockQuery;
+    }),
+    orderBy: vi.fn((field: string) => {
+      docs.sort(
+        (a, b) => toMillis(b.data()[field]) - toMillis(a.data()[field])
+      );
+      return mockQuery;
+    }),
+    limit: vi.fn((count: number) => {
+      limit = count;
+      return mockQuery;
+    }),
+    startAfter: vi.fn((doc: { id: string }) => {
+      startAfterId = doc.id;
+      return mockQuery;
+    }),
+    doc: vi.fn((id: string) => ({
+      get: vi.fn().mockResolvedValue({
+        id,
+        exists: mockMessages.some((doc) => doc.id === id),
+      }),
+    })),
+    get: vi.fn(async () => {
+      const start = startAfterId
+        ? docs.findIndex((doc) => doc.id === startAfterId) + 1
+        : 0;
+      const page = docs.slice(start, start + limit);
+      return {
+        docs: page,
+        size: page.length,
+        forEach: (callback: (doc: any) => void) => page.forEach(callback),
+      };
+    }),
   };
 
-  vi.mocked(adminDb.collection).mockReturnValue(mockCollection as any);
+  vi.mocked(adminDb.collection).mockReturnValue(mockQuery);
+  return mockQuery;
 };
 
 describe("GET /api/messages - Date Filtering", () => {
@@ -58,192 +127,409 @@ describe("GET /api/messages - Date Filtering", () => {
     delete process.env.MESSAGE_RELEVANCE_DAYS;
   });
 
-  it("should filter out messages with all timespans expired", async () => {
-    // Create mock data - one message with expired timespans, one with current
-    const now = new Date();
-    const yesterday = new Date(now);
-    yesterday.setDate(yesterday.getDate() - 1);
-    const tomorrow = new Date(now);
-    tomorrow.setDate(tomorrow.getDate() + 1);
-
-    // Format dates as DD.MM.YYYY HH:MM
-    const formatDate = (date: Date) => {
-      const day = String(date.getDate()).padStart(2, "0");
-      const month = String(date.getMonth() + 1).padStart(2, "0");
-      const year = date.getFullYear();
-      return `${day}.${month}.${year} 08:00`;
-    };
+  it("should query messages by the end of their validity window", async () => {
+    const mockQuery = await setupFirebaseMock([]);
 
+    await GET(createRequest());
+
+    expect(mockQuery.where).toHaveBeenCalledWith(
+      "activeUntil",
+      ">=",
+      expect.any(Date)
+    );
+  });
+
+  it("should filter out messages whose validity window has ended", async () => {
+    const tomorrow = daysFromNow(1);
     const mockMessages = [
       {
         id: "msg1",
         data: () => ({
           text: "Old disruption",
-          extractedData: JSON.stringify({
-            responsible_entity: "Test",
-            pins: [
-              {
-                address: "ул. Тест 1",
-                timespans: [
-                  { start: "01.01.2024 08:00", end: "01.01.2024 18:00" },
-                ],
-              },
-            ],
-            streets: [],
-          }),
           geoJson: JSON.stringify(createMockGeoJson()),
-          createdAt: { _seconds: new Date("2024-01-01").getTime() / 1000 },
+          createdAt: toTimestamp(new Date("2024-01-01")),
+          activeUntil: toTimestamp(new Date("2024-01-01T16:00:00Z")),
         }),
       },
       {
         id: "msg2",
         data: () => ({
           text: "Current disruption",
-          extractedData: JSON.stringify({
-            responsible_entity: "Test",
-            pins: [
-              {
-                address: "ул. Тест 2",
-                timespans: [
-                  {
-                    start: formatDate(yesterday),
-                    end: formatDate(tomorrow),
-                  },
-                ],
-              },
-            ],
-            streets: [],
-          }),
           geoJson: JSON.stringify(createMockGeoJson()),
-          createdAt: { _seconds: yesterday.getTime() / 1000 },
+          createdAt: toTimestamp(daysFromNow(-1)),
+          activeFrom: toTimestamp(daysFromNow(-1)),
+          activeUntil: toTimestamp(tomorrow),
         }),
       },
     ];
 
     await setupFirebaseMock(mockMessages);
 
-    const response = await GET();
+    const response = await GET(createRequest());
     const data = await response.json();
 
     expect(data.messages).toHaveLength(1);
     expect(data.messages[0].id).toBe("msg2");
+    expect(data.messages[0].activeUntil).toBe(tomorrow.toISOString());
   });
 
-  it("should show messages without timespans if they are within MESSAGE_RELEVANCE_DAYS", async () => {
+  it("should show messages that ended within MESSAGE_RELEVANCE_DAYS", async () => {
     // Set relevance to 30 days
     process.env.MESSAGE_RELEVANCE_DAYS = "30";
 
-    const recentDate = new Date();
-    recentDate.setDate(recentDate.getDate() - 10); // 10 days ago
+    const mockMessages = [
+      {
+        id: "msg1",
+        data: () => ({
+          text: "Recent message",
+          geoJson: JSON.stringify(createMockGeoJson()),
+          createdAt: toTimestamp(daysFromNow(-10)),
+          activeUntil: toTimestamp(daysFromNow(-10)),
+        }),
+      },
+      {
+        id: "msg2",
+        data: () => ({
+          text: "Old message",
+          geoJson: JSON.stringify(createMockGeoJson()),
+          createdAt: toTimestamp(daysFromNow(-40)),
+          activeUntil: toTimestamp(daysFromNow(-40)),
+        }),
+      },
+    ];
+
+    await setupFirebaseMock(mockMessages);
+
+    const response = await GET(createRequest());
+    const data = await response.json();
+
+    expect(data.messages).toHaveLength(1);
+    expect(data.messages[0].id).toBe("msg1");
+  });
+
+  it("should show old messages that are still active", async () => {
+    const mockMessages = [
+      {
+        id: "msg1",
+        data: () => ({
+          text: "Long repair works",
+          geoJson: JSON.stringify(createMockGeoJson()),
+          createdAt: toTimestamp(daysFromNow(-60)),
+          activeFrom: toTimestamp(daysFromNow(-60)),
+          activeUntil: toTimestamp(daysFromNow(30)),
+        }),
+      },
+    ];
+
+    await setupFirebaseMock(mockMessages);
+
+    const response = await GET(createRequest());
+    const data = await response.json();
 
-    const oldDate = new Date();
-    oldDate.setDate(oldDate.getDate() - 40); // 40 days ago
+    expect(data.messages).toHaveLength(1);
+  });
 
+  it("should use default 7 days when MESSAGE_RELEVANCE_DAYS is not set", async () => {
     const mockMessages = [
       {
         id: "msg1",
         data: () => ({
-          text: "Recent message without timespans",
+          text: "Message from 5 days ago",
           geoJson: JSON.stringify(createMockGeoJson()),
-          createdAt: { _seconds: recentDate.getTime() / 1000 },
+          createdAt: toTimestamp(daysFromNow(-5)),
+          activeUntil: toTimestamp(daysFromNow(-5)),
         }),
       },
       {
         id: "msg2",
         data: () => ({
-          text: "Old message without timespans",
+          text: "Message from 8 days ago",
           geoJson: JSON.stringify(createMockGeoJson()),
-          createdAt: { _seconds: oldDate.getTime() / 1000 },
+          createdAt: toTimestamp(daysFromNow(-8)),
+          activeUntil: toTimestamp(daysFromNow(-8)),
         }),
       },
     ];
 
     await setupFirebaseMock(mockMessages);
 
-    const response = await GET();
+    const response = await GET(createRequest());
     const data = await response.json();
 
+    // Only the first is within 7 days
     expect(data.messages).toHaveLength(1);
     expect(data.messages[0].id).toBe("msg1");
   });
 
-  it("should show message if at least one timespan is still relevant", async () => {
+  it("should return messages in the order of the cursor, by activeUntil", async () => {
+    // Created in the opposite order, so a createdAt sort would reverse them
+    const mockMessages = ["msg1", "msg2", "msg3"].map((id, index) => ({
+      id,
+      data: () => ({
+        text: id,
+        geoJson: JSON.stringify(createMockGeoJson()),
+        createdAt: toTimestamp(daysFromNow(-1 - index)),
+        activeUntil: toTimestamp(daysFromNow(1 + index)),
+      }),
+    }));
+
+    await setupFirebaseMock(mockMessages);
+
+    const response = await GET(createRequest());
+    const data = await response.json();
+
+    expect(data.messages.map((m: { id: string }) => m.id)).toEqual([
+      "msg3",
+      "msg2",
+      "msg1",
+    ]);
+  });
+});
+
+describe("GET /api/messages - Resolved Incidents", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    delete process.env.MESSAGE_RELEVANCE_DAYS;
+  });
+
+  it("should keep recently resolved messages and drop old ones", async () => {
     const now = new Date();
-    const yesterday = new Date(now);
-    yesterday.setDate(yesterday.getDate() - 1);
-    const tomorrow = new Date(now);
-    tomorrow.setDate(tomorrow.getDate() + 1);
-
-    // Format dates as DD.MM.YYYY HH:MM
-    const formatDate = (date: Date) => {
-      const day = String(date.getDate()).padStart(2, "0");
-      const month = String(date.getMonth() + 1).padStart(2, "0");
-      const year = date.getFullYear();
-      return `${day}.${month}.${year} 08:00`;
-    };
 
     const mockMessages = [
       {
         id: "msg1",
         data: () => ({
-          text: "Mixed timespans",
-          extractedData: JSON.stringify({
-            responsible_entity: "Test",
-            pins: [
-              {
-                address: "ул. Тест 1",
-                timespans: [
-                  { start: formatDate(yesterday), end: formatDate(yesterday) }, // expired
-                ],
-              },
-            ],
-            streets: [
-              {
-                street: "ул. Тест",
-                from: "кръстовище А",
-                to: "кръстовище Б",
-                timespans: [
-                  { start: formatDate(yesterday), end: formatDate(tomorrow) }, // current
-                ],
-              },
-            ],
-          }),
+          text: "Resolved today",
           geoJson: JSON.stringify(createMockGeoJson()),
-          createdAt: { _seconds: yesterday.getTime() / 1000 },
+          createdAt: toTimestamp(daysFromNow(-10)),
+          activeUntil: toTimestamp(daysFromNow(5)),
+          resolvedAt: toTimestamp(now),
+        }),
+      },
+      {
+        id: "msg2",
+        data: () => ({
+          text: "Resolved long ago",
+          geoJson: JSON.stringify(createMockGeoJson()),
+          createdAt: toTimestamp(daysFromNow(-20)),
+          activeUntil: toTimestamp(daysFromNow(5)),
+          resolvedAt: toTimestamp(daysFromNow(-10)),
         }),
       },
     ];
 
     await setupFirebaseMock(mockMessages);
 
-    const response = await GET();
+    const response = await GET(createRequest());
     const data = await response.json();
 
     expect(data.messages).toHaveLength(1);
     expect(data.messages[0].id).toBe("msg1");
+    expect(data.messages[0].resolvedAt).toBe(now.toISOString());
   });
+});
 
-  it("should use default 7 days when MESSAGE_RELEVANCE_DAYS is not set", async () => {
-    const date5DaysAgo = new Date();
-    date5DaysAgo.setDate(date5DaysAgo.getDate() - 5);
+describe("GET /api/messages - Source Revisions", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    delete process.env.MESSAGE_RELEVANCE_DAYS;
+  });
+
+  it("should hide superseded messages and return the diff of updates", async () => {
+    const now = toTimestamp(new Date());
+    const sourceDiff = [
+      { type: "removed", text: "до 18:00 ч." },
+      { type: "added", text: "до 22:00 ч." },
+    ];
 
     const mockMessages = [
       {
         id: "msg1",
         data: () => ({
-          text: "Message from 5 days ago",
+          text: "Спиране на водата до 18:00 ч.",
+          geoJson: JSON.stringify(createMockGeoJson()),
+          createdAt: now,
+          activeUntil: now,
+          sourceRevision: 1,
+          supersededBy: "msg2",
+        }),
+      },
+      {
+        id: "msg2",
+        data: () => ({
+          text: "Спиране на водата до 22:00 ч.",
           geoJson: JSON.stringify(createMockGeoJson()),
-          createdAt: { _seconds: date5DaysAgo.getTime() / 1000 },
+          createdAt: now,
+          activeUntil: now,
+          sourceRevision: 2,
+          previousMessageId: "msg1",
+          sourceDiff: JSON.stringify(sourceDiff),
         }),
       },
     ];
 
     await setupFirebaseMock(mockMessages);
 
-    const response = await GET();
+    const response = await GET(createRequest());
     const data = await response.json();
 
-    // Should be included because it's within 7 days
     expect(data.messages).toHaveLength(1);
+    expect(data.messages[0]).toMatchObject({
+      id: "msg2",
+      sourceRevision: 2,
+      previousMessageId: "msg1",
+      sourceDiff,
+    });
+  });
+});
+
+describe("GET /api/messages - Query Parameters", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    delete process.env.MESSAGE_RELEVANCE_DAYS;
+  });
+
+  const createMessage = (id: string, fields: Record<string, any> = {}) => {
+    const createdAt = toTimestamp(daysFromNow(-1));
+    const activeUntil = toTimestamp(daysFromNow(1));
+    return {
+      id,
+      data: () => ({
+        text: id,
+        geoJson: JSON.stringify(createMockGeoJson()),
+        createdAt,
+        activeUntil,
+        ...fields,
+      }),
+    };
+  };
+
+  it("should filter by source and category in Firestore", async () => {
+    const mockQuery = await setupFirebaseMock([
+      createMessage("msg1", { source: "toplo-bg", categories: ["heating"] }),
+      createMessage("msg2", {
+        source: "sofiyska-voda",
+        categories: ["water", "roads"],
+      }),
+    ]);
+
+    const response = await GET(
+      createRequest({ source: "toplo-bg", category: "heating" })
+    );
+    const data = await response.json();
+
+    expect(mockQuery.where).toHaveBeenCalledWith("source", "==", "toplo-bg");
+    expect(mockQuery.where).toHaveBeenCalledWith(
+      "categories",
+      "array-contains",
+      "heating"
+    );
+    expect(data.messages.map((m: { id: string }) => m.id)).toEqual(["msg1"]);
+    expect(data.messages[0].categories).toEqual(["heating"]);
+  });
+
+  it("should filter bbox queries by category in memory", async () => {
+    // The mock GeoJSON point is at 23.3394, 42.7035
+    const geohashes = [encodeGeohash(42.7035, 23.3394, 6)];
+    const mockQuery = await setupFirebaseMock([
+      createMessage("msg1", { geohashes, categories: ["heating"] }),
+      createMessage("msg2", { geohashes, categories: ["water", "roads"] }),
+    ]);
+
+    const response = await GET(
+      createRequest({ bbox: "23.33,42.70,23.35,42.71", category: "roads" })
+    );
+    const data = await response.json();
+
+    // Firestore allows a single array filter, taken by the geohashes
+    expect(mockQuery.where).not.toHaveBeenCalledWith(
+      "categories",
+      "array-contains",
+      "roads"
+    );
+    expect(data.messages.map((m: { id: string }) => m.id)).toEqual(["msg2"]);
+  });
+
+  it("should narrow bbox queries by geohash and check the exact bbox", async () => {
+    // The mock GeoJSON point is at 23.3394, 42.7035
+    const geohashes = [encodeGeohash(42.7035, 23.3394, 6)];
+    const mockQuery = await setupFirebaseMock([
+      createMessage("msg1", { geohashes }),
+    ]);
+
+    const inside = await GET(
+      createRequest({ bbox: "23.33,42.70,23.35,42.71" })
+    );
+    expect((await inside.json()).messages).toHaveLength(1);
+    expect(mockQuery.where).toHaveBeenCalledWith(
+      "geohashes",
+      "array-contains-any",
+      expect.arrayContaining(geohashes)
+    );
+
+    await setupFirebaseMock([createMessage("msg1", { geohashes })]);
+    const outside = await GET(
+      createRequest({ bbox: "23.341,42.70,23.35,42.71" })
+    );
+    expect((await outside.json()).messages).toHaveLength(0);
+  });
+
+  it("should return messages active at the given time", async () => {
+    await setupFirebaseMock([
+      createMessage("msg1", {
+        activeFrom: toTimestamp(new Date("2025-03-01T08:00:00Z")),
+        activeUntil: toTimestamp(new Date("2025-03-01T16:00:00Z")),
+      }),
+      createMessage("msg2", {
+        activeFrom: toTimestamp(new Date("2025-03-02T08:00:00Z")),
+        activeUntil: toTimestamp(new Date("2025-03-02T16:00:00Z")),
+      }),
+    ]);
+
+    const response = await GET(
+      createRequest({ activeAt: "2025-03-01T12:00:00Z" })
+    );
+    const data = await response.json();
+
+    expect(data.messages.map((m: { id: string }) => m.id)).toEqual(["msg1"]);
+  });
+
+  it("should page through messages with a cursor", async () => {
+    const mockMessages = ["msg1", "msg2", "msg3"].map((id, index) =>
+      createMessage(id, { activeUntil: toTimestamp(daysFromNow(3 - index)) })
+    );
+
+    await setupFirebaseMock(mockMessages);
+    const first = await (await GET(createRequest({ limit: "2" }))).json();
+
+    expect(first.messages).toHaveLength(2);
+    expect(first.nextCursor).toBe("msg2");
+
+    const mockQuery = await setupFirebaseMock(mockMessages);
+    const second = await (
+      await GET(createRequest({ limit: "2", cursor: first.nextCursor }))
+    ).json();
+
+    expect(mockQuery.orderBy).toHaveBeenCalledWith("activeUntil", "desc");
+    expect(second.messages.map((m: { id: string }) => m.id)).toEqual([
+      "msg3",
+    ]);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it("should reject invalid parameters", async () => {
+    await setupFirebaseMock([]);
+
+    const badBbox = await GET(createRequest({ bbox: "23.3,42.7" }));
+    expect(badBbox.status).toBe(400);
+    expect((await badBbox.json()).error).toBe("Invalid bbox");
+
+    const badCursor = await GET(createRequest({ cursor: "missing" }));
+    expect(badCursor.status).toBe(400);
+    expect((await badCursor.json()).error).toBe("Invalid cursor");
+
+    const badCategory = await GET(createRequest({ category: "municipality" }));
+    expect(badCategory.status).toBe(400);
+    expect((await badCategory.json()).error).toBe("Invalid category");
   });
 });
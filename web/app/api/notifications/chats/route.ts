@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from "next/server";
+import { adminDb } from "@/lib/firebase-admin";
+import { ChatSubscription } from "@/lib/types";
+import { verifyAuthToken } from "@/lib/verifyAuthToken";
+import { createLinkCode, getLinkUrl, isBotConfigured } from "@/lib/chat-links";
+import { isChatChannel, parseChatSubscriptionDocument } from "@oboapp/core";
+
+// GET - Fetch the linked chats of the user and the bots that can be linked
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    const { userId } = await verifyAuthToken(authHeader);
+
+    const snapshot = await adminDb
+      .collection("chatSubscriptions")
+      .where("userId", "==", userId)
+      .get();
+
+    const chats: ChatSubscription[] = snapshot.docs
+      .map((doc) => parseChatSubscriptionDocument(doc.id, doc.data()))
+      .filter((chat) => chat !== null)
+      .sort(
+        (a, b) =>
+          new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+      );
+
+    return NextResponse.json({
+      chats,
+      channels: {
+        telegram: isBotConfigured("telegram"),
+        viber: isBotConfigured("viber"),
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching chats:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch chats" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Create a one-time code to link a chat
+export async function POST(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    const { userId } = await verifyAuthToken(authHeader);
+
+    const { channel } = await request.json();
+    if (!isChatChannel(channel)) {
+      return NextResponse.json(
+        { error: "Channel must be telegram or viber" },
+        { status: 400 }
+      );
+    }
+
+    if (!isBotConfigured(channel)) {
+      return NextResponse.json(
+        { error: `The ${channel} bot is not configured` },
+        { status: 400 }
+      );
+    }
+
+    const { code, expiresAt } = await createLinkCode(userId, channel);
+
+    return NextResponse.json({
+      channel,
+      code,
+      url: getLinkUrl(channel, code),
+      expiresAt: expiresAt.toISOString(),
+    });
+  } catch (error) {
+    console.error("Error creating link code:", error);
+    return NextResponse.json(
+      { error: "Failed to create link code" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Unlink a chat of the user by id
+export async function DELETE(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    const { userId } = await verifyAuthToken(authHeader);
+
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get("id");
+
+    if (!id) {
+      return NextResponse.json(
+        { error: "Id parameter is required" },
+        { status: 400 }
+      );
+    }
+
+    const chatRef = adminDb.collection("chatSubscriptions").doc(id);
+    const chatDoc = await chatRef.get();
+
+    if (!chatDoc.exists || chatDoc.data()?.userId !== userId) {
+      return NextResponse.json({ error: "Chat not found" }, { status: 404 });
+    }
+
+    await chatRef.delete();
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error unlinking chat:", error);
+    return NextResponse.json(
+      { error: "Failed to unlink chat" },
+      { status: 500 }
+    );
+  }
+}
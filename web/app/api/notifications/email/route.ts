@@ -0,0 +1,102 @@
+import { randomBytes } from "node:crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { adminDb } from "@/lib/firebase-admin";
+import { verifyAuthToken } from "@/lib/verifyAuthToken";
+import { isEmailFrequency, parseEmailPreferenceDocument } from "@oboapp/core";
+
+// GET - Fetch the email preference of the user (null when emails are off)
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    const { userId, userEmail } = await verifyAuthToken(authHeader);
+
+    const doc = await adminDb.collection("emailPreferences").doc(userId).get();
+    const preference = doc.exists
+      ? parseEmailPreferenceDocument(doc.id, doc.data() ?? {})
+      : null;
+
+    return NextResponse.json({
+      email: preference?.email ?? userEmail,
+      frequency: preference?.frequency ?? null,
+    });
+  } catch (error) {
+    console.error("Error fetching email preference:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch email preference" },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT - Turn emails on or change their frequency
+export async function PUT(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    const { userId, userEmail } = await verifyAuthToken(authHeader);
+
+    const { frequency } = await request.json();
+    if (!isEmailFrequency(frequency)) {
+      return NextResponse.json(
+        { error: "Frequency must be instant, daily or weekly" },
+        { status: 400 }
+      );
+    }
+    if (!userEmail) {
+      return NextResponse.json(
+        { error: "The account has no email address" },
+        { status: 400 }
+      );
+    }
+
+    const docRef = adminDb.collection("emailPreferences").doc(userId);
+    const existing = await docRef.get();
+    const now = new Date();
+
+    if (existing.exists) {
+      await docRef.update({
+        email: userEmail,
+        frequency,
+        updatedAt: now,
+        // A new digest frequency starts counting now, without the matches
+        // already sent with the previous one
+        ...(existing.data()?.frequency === frequency
+          ? {}
+          : { lastDigestAt: now }),
+      });
+    } else {
+      await docRef.set({
+        email: userEmail,
+        frequency,
+        unsubscribeToken: randomBytes(24).toString("base64url"),
+        createdAt: now,
+        updatedAt: now,
+      });
+    }
+
+    return NextResponse.json({ email: userEmail, frequency });
+  } catch (error) {
+    console.error("Error updating email preference:", error);
+    return NextResponse.json(
+      { error: "Failed to update email preference" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Turn emails off
+export async function DELETE(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    const { userId } = await verifyAuthToken(authHeader);
+
+    await adminDb.collection("emailPreferences").doc(userId).delete();
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting email preference:", error);
+    return NextResponse.json(
+      { error: "Failed to delete email preference" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { GET, POST } from "../route";
+import { adminDb } from "@/lib/firebase-admin";
+
+vi.mock("@/lib/firebase-admin", () => ({
+  adminDb: {
+    collection: vi.fn(),
+  },
+}));
+
+const deleteDoc = vi.fn();
+const where = vi.fn();
+
+// Email preferences with the given unsubscribe tokens
+const mockPreferences = (tokens: string[]) => {
+  where.mockImplementation((_field: string, _op: string, token: string) => ({
+    limit: () => ({
+      get: async () => {
+        const docs = tokens
+          .filter((t) => t === token)
+          .map(() => ({ ref: { delete: deleteDoc } }));
+        return { empty: docs.length === 0, docs };
+      },
+    }),
+  }));
+  vi.mocked(adminDb.collection).mockReturnValue({ where } as any);
+};
+
+const createRequest = (query: string, method = "GET") =>
+  new Request(`http://localhost/api/notifications/email/unsubscribe${query}`, {
+    method,
+  });
+
+describe("/api/notifications/email/unsubscribe", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPreferences(["secret"]);
+  });
+
+  it("should leave the preference in place on GET", async () => {
+    const response = await GET(createRequest("?token=secret"));
+
+    expect(response.status).toBe(200);
+    expect(where).toHaveBeenCalledWith("unsubscribeToken", "==", "secret");
+    expect(deleteDoc).not.toHaveBeenCalled();
+    expect(await response.text()).toContain('<form method="post">');
+  });
+
+  it("should delete the preference with the token of the link on POST", async () => {
+    const response = await POST(createRequest("?token=secret", "POST"));
+
+    expect(response.status).toBe(200);
+    expect(where).toHaveBeenCalledWith("unsubscribeToken", "==", "secret");
+    expect(deleteDoc).toHaveBeenCalledTimes(1);
+    expect(await response.text()).toContain("Отписахте се");
+  });
+
+  it("should return 404 for unknown or missing tokens", async () => {
+    expect((await GET(createRequest("?token=other"))).status).toBe(404);
+    expect((await POST(createRequest("", "POST"))).status).toBe(404);
+    expect(deleteDoc).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,97 @@
+import { adminDb } from "@/lib/firebase-admin";
+
+/**
+ * Unsubscribe from the emails, without signing in: the link in every email
+ * carries the secret token of the user's email preference. Only POST
+ * deletes it: mail clients POST to the link (RFC 8058 one-click), and the
+ * page opened in the browser asks for a click that POSTs the same URL. Link
+ * scanners and mail prefetchers, which GET every link, leave it in place.
+ */
+async function findPreference(request: Request) {
+  const token = new URL(request.url).searchParams.get("token");
+  if (!token) {
+    return null;
+  }
+
+  const snapshot = await adminDb
+    .collection("emailPreferences")
+    .where("unsubscribeToken", "==", token)
+    .limit(1)
+    .get();
+  return snapshot.empty ? null : snapshot.docs[0];
+}
+
+function renderPage(
+  title: string,
+  text: string,
+  status: number,
+  content = ""
+): Response {
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL ?? "";
+  return new Response(
+    `<!DOCTYPE html>
+<html lang="bg">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${title}</title>
+</head>
+<body style="font-family: Arial, sans-serif; max-width: 480px; margin: 48px auto; padding: 0 16px; color: #111827;">
+  <h1 style="font-size: 22px;">${title}</h1>
+  <p>${text}</p>
+${content}  <p><a href="${appUrl}/settings" style="color: #1976D2;">Настройки на известията</a></p>
+</body>
+</html>
+`,
+    { status, headers: { "Content-Type": "text/html; charset=utf-8" } }
+  );
+}
+
+function renderInvalidLinkPage(): Response {
+  return renderPage(
+    "Невалидна връзка",
+    "Връзката за отписване е невалидна или вече сте отписани.",
+    404
+  );
+}
+
+// GET - Confirmation page of a link opened in the browser
+export async function GET(request: Request) {
+  try {
+    if (!(await findPreference(request))) {
+      return renderInvalidLinkPage();
+    }
+    // Without an action the form POSTs the URL of the page, token included
+    return renderPage(
+      "Отписване от имейлите",
+      "Потвърдете, че не искате да получавате имейли от OboApp.",
+      200,
+      `  <form method="post">
+    <button type="submit" style="padding: 10px 20px; font-size: 16px; color: #fff; background: #1976D2; border: none; border-radius: 4px; cursor: pointer;">Отписване</button>
+  </form>
+`
+    );
+  } catch (error) {
+    console.error("Error loading the email preference:", error);
+    return renderPage("Грешка", "Моля, опитайте отново по-късно.", 500);
+  }
+}
+
+// POST - Unsubscribe, one-click from the mail client or confirmed on the page
+export async function POST(request: Request) {
+  try {
+    const preference = await findPreference(request);
+    if (!preference) {
+      return renderInvalidLinkPage();
+    }
+    await preference.ref.delete();
+    return renderPage(
+      "Отписахте се",
+      "Вече няма да получавате имейли от OboApp. Известията на устройствата ви остават.",
+      200
+    );
+  } catch (error) {
+    console.error("Error unsubscribing from emails:", error);
+    return renderPage("Грешка", "Моля, опитайте отново по-късно.", 500);
+  }
+}
@@ -2,7 +2,10 @@ import { NextRequest, NextResponse } from "next/server";
 import { adminDb } from "@/lib/firebase-admin";
 import { NotificationHistoryItem } from "@/lib/types";
 import { verifyAuthToken } from "@/lib/verifyAuthToken";
-import { convertTimestamp } from "@/lib/firestore-utils";
+import {
+  convertTimestamp,
+  parseNotificationMatchDocument,
+} from "@oboapp/core";
 
 // GET - Fetch latest 20 notification history items for the user
 export async function GET(request: NextRequest) {
@@ -18,28 +21,36 @@ export async function GET(request: NextRequest) {
       .limit(20)
       .get();
 
-    const historyItems: NotificationHistoryItem[] = snapshot.docs.map((doc) => {
-      const data = doc.data();
+    const historyItems: NotificationHistoryItem[] = snapshot.docs.flatMap(
+      (doc) => {
+        const match = parseNotificationMatchDocument(doc.id, doc.data());
+        if (!match) {
+          return [];
+        }
 
-      // Calculate successful devices count
-      const deviceNotifications = data.deviceNotifications || [];
-      const successfulDevicesCount = deviceNotifications.filter(
-        (d: any) => d.success
-      ).length;
+        // Calculate successful devices count
+        const deviceNotifications = match.deviceNotifications || [];
+        const successfulDevicesCount = deviceNotifications.filter(
+          (d) => d.success
+        ).length;
+        const notifiedAt = convertTimestamp(match.notifiedAt);
 
-      return {
-        id: doc.id,
-        messageId: data.messageId,
-        messageSnapshot: data.messageSnapshot || {
-          text: "",
-          createdAt: convertTimestamp(data.notifiedAt),
-        },
-        notifiedAt: convertTimestamp(data.notifiedAt),
-        distance: data.distance,
-        interestId: data.interestId,
-        successfulDevicesCount,
-      };
-    });
+        return [
+          {
+            id: doc.id,
+            messageId: match.messageId,
+            messageSnapshot: match.messageSnapshot || {
+              text: "",
+              createdAt: notifiedAt,
+            },
+            notifiedAt,
+            distance: match.distance,
+            interestId: match.interestId,
+            successfulDevicesCount,
+          },
+        ];
+      }
+    );
 
     return NextResponse.json(historyItems);
   } catch (error) {
@@ -0,0 +1,70 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { NextRequest } from "next/server";
+import { GET, PUT } from "../route";
+import { adminDb } from "@/lib/firebase-admin";
+
+vi.mock("@/lib/firebase-admin", () => ({
+  adminDb: {
+    collection: vi.fn(),
+  },
+}));
+
+vi.mock("@/lib/verifyAuthToken", () => ({
+  verifyAuthToken: vi.fn(async () => ({ userId: "user-1" })),
+}));
+
+const get = vi.fn();
+const set = vi.fn();
+
+const createRequest = (method: string, body?: unknown) =>
+  new NextRequest("http://localhost/api/notifications/preferences", {
+    method,
+    headers: { authorization: "Bearer token" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+describe("/api/notifications/preferences", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(adminDb.collection).mockReturnValue({
+      doc: () => ({ get, set }),
+    } as any);
+  });
+
+  it("should return the defaults to users without preferences", async () => {
+    get.mockResolvedValue({ data: () => undefined });
+
+    const response = await GET(createRequest("GET"));
+
+    expect(await response.json()).toEqual({ quietHours: null, maxPerHour: 5 });
+  });
+
+  it("should save the quiet hours and the hourly cap", async () => {
+    const quietHours = { start: "22:00", end: "07:00" };
+
+    const response = await PUT(
+      createRequest("PUT", { quietHours, maxPerHour: 3 })
+    );
+
+    expect(response.status).toBe(200);
+    expect(set).toHaveBeenCalledWith(
+      expect.objectContaining({ quietHours, maxPerHour: 3 }),
+      { merge: true }
+    );
+  });
+
+  it("should reject malformed quiet hours and caps", async () => {
+    const responses = await Promise.all([
+      PUT(
+        createRequest("PUT", {
+          quietHours: { start: "22:00", end: "7:00" },
+          maxPerHour: 3,
+        })
+      ),
+      PUT(createRequest("PUT", { quietHours: null, maxPerHour: 0 })),
+    ]);
+
+    expect(responses.map((response) => response.status)).toEqual([400, 400]);
+    expect(set).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from "next/server";
+import { FieldValue } from "firebase-admin/firestore";
+import { adminDb } from "@/lib/firebase-admin";
+import { verifyAuthToken } from "@/lib/verifyAuthToken";
+import {
+  isQuietHours,
+  parseNotificationPreferencesDocument,
+} from "@oboapp/core";
+
+const MAX_NOTIFICATIONS_PER_HOUR = 60;
+
+// GET - Fetch the quiet hours and the hourly cap of the user
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    const { userId } = await verifyAuthToken(authHeader);
+
+    const doc = await adminDb
+      .collection("notificationPreferences")
+      .doc(userId)
+      .get();
+    const preferences = parseNotificationPreferencesDocument(
+      userId,
+      doc.data()
+    );
+
+    return NextResponse.json({
+      quietHours: preferences.quietHours ?? null,
+      maxPerHour: preferences.maxPerHour,
+    });
+  } catch (error) {
+    console.error("Error fetching notification preferences:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch notification preferences" },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT - Change the quiet hours (null turns them off) and the hourly cap
+export async function PUT(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    const { userId } = await verifyAuthToken(authHeader);
+
+    const { quietHours, maxPerHour } = await request.json();
+    if (quietHours !== null && !isQuietHours(quietHours)) {
+      return NextResponse.json(
+        {
+          error:
+            "Quiet hours must be null or a different start and end in HH:MM",
+        },
+        { status: 400 }
+      );
+    }
+    if (
+      !Number.isInteger(maxPerHour) ||
+      maxPerHour < 1 ||
+      maxPerHour > MAX_NOTIFICATIONS_PER_HOUR
+    ) {
+      return NextResponse.json(
+        {
+          error: `Max per hour must be a whole number from 1 to ${MAX_NOTIFICATIONS_PER_HOUR}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Merged, to keep the recent sends tracked by the notify script
+    await adminDb
+      .collection("notificationPreferences")
+      .doc(userId)
+      .set(
+        {
+          quietHours: quietHours
+            ? { start: quietHours.start, end: quietHours.end }
+            : FieldValue.delete(),
+          maxPerHour,
+          updatedAt: new Date(),
+        },
+        { merge: true }
+      );
+
+    return NextResponse.json({ quietHours, maxPerHour });
+  } catch (error) {
+    console.error("Error updating notification preferences:", error);
+    return NextResponse.json(
+      { error: "Failed to update notification preferences" },
+      { status: 500 }
+    );
+  }
+}
@@ -2,7 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { adminDb } from "@/lib/firebase-admin";
 import { NotificationSubscription } from "@/lib/types";
 import { verifyAuthToken } from "@/lib/verifyAuthToken";
-import { convertTimestamp } from "@/lib/firestore-utils";
+import { parseNotificationSubscriptionDocument } from "@oboapp/core";
 
 // GET - Fetch all subscriptions for the user
 export async function GET(request: NextRequest) {
@@ -14,18 +14,12 @@ export async function GET(request: NextRequest) {
     const snapshot = await subscriptionsRef.where("userId", "==", userId).get();
 
     const subscriptions: NotificationSubscription[] = snapshot.docs
-      .map((doc) => {
-        const data = doc.data();
-        return {
-          id: doc.id,
-          userId: data.userId,
-          token: data.token,
-          endpoint: data.endpoint,
-          createdAt: convertTimestamp(data.createdAt),
-          updatedAt: convertTimestamp(data.updatedAt),
-          deviceInfo: data.deviceInfo || {},
-        };
-      })
+      .map((doc) => parseNotificationSubscriptionDocument(doc.id, doc.data()))
+      .filter((subscription) => subscription !== null)
+      .map((subscription) => ({
+        ...subscription,
+        deviceInfo: subscription.deviceInfo || {},
+      }))
       .sort((a, b) => {
         // Sort by createdAt descending (newest first)
         return (
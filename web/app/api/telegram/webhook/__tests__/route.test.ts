@@ -0,0 +1,80 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { NextRequest } from "next/server";
+import { POST } from "../route";
+import { isChatLinked, linkChat, unlinkChat } from "@/lib/chat-links";
+
+vi.mock("@/lib/chat-links", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/chat-links")>()),
+  linkChat: vi.fn(),
+  unlinkChat: vi.fn(),
+  isChatLinked: vi.fn(),
+}));
+
+vi.mock("@/lib/firebase-admin", () => ({
+  adminDb: {
+    collection: vi.fn(),
+  },
+}));
+
+// Helper to create an update from a chat
+const createRequest = (
+  text: string,
+  chat: Record<string, unknown> = { id: 42, type: "private" },
+  secret = "webhook-secret"
+) =>
+  new NextRequest("http://localhost/api/telegram/webhook", {
+    method: "POST",
+    headers: { "X-Telegram-Bot-Api-Secret-Token": secret },
+    body: JSON.stringify({ update_id: 1, message: { text, chat } }),
+  });
+
+describe("POST /api/telegram/webhook", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv("TELEGRAM_WEBHOOK_SECRET", "webhook-secret");
+  });
+
+  it("should reject updates without the secret token", async () => {
+    const response = await POST(createRequest("/start", undefined, "wrong"));
+
+    expect(response.status).toBe(401);
+  });
+
+  it("should link a group with the code of /start", async () => {
+    vi.mocked(linkChat).mockResolvedValue(true);
+
+    const response = await POST(
+      createRequest("/start@OboAppBot ABCD2345", {
+        id: -100123,
+        type: "supergroup",
+        title: "Съседи Оборище",
+      })
+    );
+    const data = await response.json();
+
+    expect(linkChat).toHaveBeenCalledWith(
+      "telegram",
+      "ABCD2345",
+      "-100123",
+      "Съседи Оборище"
+    );
+    expect(data).toMatchObject({ method: "sendMessage", chat_id: -100123 });
+    expect(data.text).toContain("свързан");
+  });
+
+  it("should unlink the chat on /stop", async () => {
+    const response = await POST(createRequest("/stop"));
+
+    expect(unlinkChat).toHaveBeenCalledWith("telegram", "42");
+    expect((await response.json()).text).toContain("отвързан");
+  });
+
+  it("should ignore other messages in groups", async () => {
+    const response = await POST(
+      createRequest("Кога ще пуснат водата?", { id: -100123, type: "group" })
+    );
+
+    expect(await response.json()).toEqual({ ok: true });
+    expect(isChatLinked).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getBotReplies,
+  isChatLinked,
+  linkChat,
+  parseLinkCode,
+  safeEqual,
+  unlinkChat,
+} from "@/lib/chat-links";
+
+/**
+ * Webhook of the Telegram bot, registered with setWebhook and the secret
+ * token TELEGRAM_WEBHOOK_SECRET. Links private chats and groups with the
+ * codes from the settings page, and unlinks them on /stop. Replies go back
+ * in the response as a sendMessage call.
+ */
+
+interface TelegramChat {
+  id: number;
+  type: string;
+  title?: string;
+  username?: string;
+  first_name?: string;
+  last_name?: string;
+}
+
+function reply(chat: TelegramChat, text: string) {
+  return NextResponse.json({ method: "sendMessage", chat_id: chat.id, text });
+}
+
+function getChatName(chat: TelegramChat): string | undefined {
+  return (
+    chat.title ||
+    [chat.first_name, chat.last_name].filter(Boolean).join(" ") ||
+    chat.username
+  );
+}
+
+export async function POST(request: NextRequest) {
+  const secret = process.env.TELEGRAM_WEBHOOK_SECRET;
+  const header = request.headers.get("x-telegram-bot-api-secret-token");
+  if (!secret || !header || !safeEqual(header, secret)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const update = await request.json();
+    const chat: TelegramChat | undefined = update.message?.chat;
+    const text = update.message?.text;
+    if (!chat || typeof text !== "string") {
+      return NextResponse.json({ ok: true });
+    }
+
+    const chatId = String(chat.id);
+    const replies = getBotReplies(process.env.NEXT_PUBLIC_APP_URL ?? "");
+
+    if (/^\/stop(?:@\w+)?$/i.test(text.trim())) {
+      await unlinkChat("telegram", chatId);
+      return reply(chat, replies.unlinked);
+    }
+
+    const code = parseLinkCode(text);
+    if (code) {
+      const linked = await linkChat(
+        "telegram",
+        code,
+        chatId,
+        getChatName(chat)
+      );
+      return reply(chat, linked ? replies.linked : replies.invalidCode);
+    }
+
+    // In groups the bot only answers its own commands
+    if (chat.type !== "private" && !/^\/start\b/i.test(text.trim())) {
+      return NextResponse.json({ ok: true });
+    }
+
+    return reply(
+      chat,
+      (await isChatLinked("telegram", chatId))
+        ? replies.alreadyLinked
+        : replies.help
+    );
+  } catch (error) {
+    console.error("Error handling Telegram update:", error);
+    return NextResponse.json(
+      { error: "Failed to handle update" },
+      { status: 500 }
+    );
+  }
+}
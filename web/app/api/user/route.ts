@@ -46,7 +46,25 @@ export async function DELETE(request: NextRequest) {
     });
     await matchesBatch.commit();
 
-    // 4. Delete the Firebase Auth user
+    // 4. Delete the email and notification preferences
+    await adminDb.collection("emailPreferences").doc(userId).delete();
+    await adminDb.collection("notificationPreferences").doc(userId).delete();
+
+    // 5. Delete all linked chats and unused link codes
+    for (const collection of ["chatSubscriptions", "chatLinkCodes"]) {
+      const snapshot = await adminDb
+        .collection(collection)
+        .where("userId", "==", userId)
+        .get();
+
+      const batch = adminDb.batch();
+      snapshot.forEach((doc) => {
+        batch.delete(doc.ref);
+      });
+      await batch.commit();
+    }
+
+    // 6. Delete the Firebase Auth user
     // This requires recent re-authentication on the client side (which we enforce in the UI)
     try {
       await adminAuth.deleteUser(userId);
@@ -0,0 +1,73 @@
+import { createHmac } from "node:crypto";
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { NextRequest } from "next/server";
+import { POST } from "../route";
+import { linkChat, unlinkChat } from "@/lib/chat-links";
+
+vi.mock("@/lib/chat-links", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/chat-links")>()),
+  linkChat: vi.fn(),
+  unlinkChat: vi.fn(),
+  isChatLinked: vi.fn(),
+}));
+
+vi.mock("@/lib/firebase-admin", () => ({
+  adminDb: {
+    collection: vi.fn(),
+  },
+}));
+
+// Helper to create an event signed like Viber does
+const createRequest = (event: Record<string, unknown>, token = "token") => {
+  const body = JSON.stringify(event);
+  return new NextRequest("http://localhost/api/viber/webhook", {
+    method: "POST",
+    headers: {
+      "X-Viber-Content-Signature": createHmac("sha256", token)
+        .update(body)
+        .digest("hex"),
+    },
+    body,
+  });
+};
+
+describe("POST /api/viber/webhook", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv("VIBER_AUTH_TOKEN", "token");
+  });
+
+  it("should reject events with a wrong signature", async () => {
+    const response = await POST(createRequest({ event: "webhook" }, "other"));
+
+    expect(response.status).toBe(401);
+  });
+
+  it("should link the chat with the code of the deep link", async () => {
+    vi.mocked(linkChat).mockResolvedValue(true);
+
+    const response = await POST(
+      createRequest({
+        event: "conversation_started",
+        user: { id: "viber-user", name: "Мария" },
+        context: "ABCD2345",
+      })
+    );
+    const data = await response.json();
+
+    expect(linkChat).toHaveBeenCalledWith(
+      "viber",
+      "ABCD2345",
+      "viber-user",
+      "Мария"
+    );
+    expect(data).toMatchObject({ type: "text", sender: { name: "OboApp" } });
+    expect(data.text).toContain("свързан");
+  });
+
+  it("should unlink the chat when the user unsubscribes", async () => {
+    await POST(createRequest({ event: "unsubscribed", user_id: "viber-user" }));
+
+    expect(unlinkChat).toHaveBeenCalledWith("viber", "viber-user");
+  });
+});
@@ -0,0 +1,126 @@
+import { createHmac } from "node:crypto";
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getBotReplies,
+  isChatLinked,
+  linkChat,
+  parseLinkCode,
+  safeEqual,
+  unlinkChat,
+} from "@/lib/chat-links";
+
+/**
+ * Webhook of the Viber bot, registered with set_webhook. Requests are signed
+ * with VIBER_AUTH_TOKEN. Links the chat with the code of the deep link
+ * (conversation_started) or of a message, and unlinks it when the user
+ * unsubscribes from the bot.
+ */
+
+const SENDER_NAME = "OboApp";
+
+function getViberApiUrl(): string {
+  return process.env.VIBER_API_URL || "https://chatapi.viber.com/pa";
+}
+
+// Answer to conversation_started, shown as the welcome message
+function welcome(text: string) {
+  return NextResponse.json({
+    sender: { name: SENDER_NAME },
+    type: "text",
+    text,
+  });
+}
+
+async function sendReply(token: string, receiver: string, text: string) {
+  const response = await fetch(`${getViberApiUrl()}/send_message`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "X-Viber-Auth-Token": token,
+    },
+    body: JSON.stringify({
+      receiver,
+      min_api_version: 1,
+      sender: { name: SENDER_NAME },
+      type: "text",
+      text,
+    }),
+  });
+  const data = await response.json();
+  if (data.status !== 0) {
+    console.error("Error replying on Viber:", data.status_message);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const token = process.env.VIBER_AUTH_TOKEN;
+  const signature = request.headers.get("x-viber-content-signature");
+  const body = await request.text();
+  if (
+    !token ||
+    !signature ||
+    !safeEqual(
+      signature,
+      createHmac("sha256", token).update(body).digest("hex")
+    )
+  ) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const event = JSON.parse(body);
+    const replies = getBotReplies(process.env.NEXT_PUBLIC_APP_URL ?? "");
+
+    switch (event.event) {
+      case "conversation_started": {
+        const code = parseLinkCode(event.context ?? "");
+        if (!code) {
+          return welcome(replies.help);
+        }
+        const linked = await linkChat(
+          "viber",
+          code,
+          event.user.id,
+          event.user.name
+        );
+        return welcome(linked ? replies.linked : replies.invalidCode);
+      }
+
+      case "message": {
+        if (event.message?.type !== "text") {
+          break;
+        }
+        const chatId: string = event.sender.id;
+        const code = parseLinkCode(event.message.text);
+        let text: string;
+        if (code) {
+          const linked = await linkChat(
+            "viber",
+            code,
+            chatId,
+            event.sender.name
+          );
+          text = linked ? replies.linked : replies.invalidCode;
+        } else {
+          text = (await isChatLinked("viber", chatId))
+            ? replies.alreadyLinked
+            : replies.help;
+        }
+        await sendReply(token, chatId, text);
+        break;
+      }
+
+      case "unsubscribed":
+        await unlinkChat("viber", event.user_id);
+        break;
+    }
+
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    console.error("Error handling Viber event:", error);
+    return NextResponse.json(
+      { error: "Failed to handle event" },
+      { status: 500 }
+    );
+  }
+}
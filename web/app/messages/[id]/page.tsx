@@ -0,0 +1,166 @@
+import { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import sources from "@/lib/sources.json";
+import { getMessageById, summarizeMessageText } from "@/lib/get-message";
+import DetailItem from "@/components/MessageDetailView/DetailItem";
+import Locations from "@/components/MessageDetailView/Locations";
+import MessageText from "@/components/MessageDetailView/MessageText";
+import SourceDiff from "@/components/MessageDetailView/SourceDiff";
+
+interface MessagePageProps {
+  readonly params: Promise<{ id: string }>;
+}
+
+const formatDate = (date: Date | string) =>
+  new Date(date).toLocaleDateString("bg-BG", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    timeZone: "Europe/Sofia",
+  });
+
+// Open Graph metadata is rendered on the server, so links shared in
+// Viber/Facebook groups get a preview of the message
+export async function generateMetadata({
+  params,
+}: MessagePageProps): Promise<Metadata> {
+  const { id } = await params;
+  const message = await getMessageById(id);
+
+  if (!message) {
+    return { title: "Сигналът не е намерен - OboApp" };
+  }
+
+  const title = `${summarizeMessageText(message.text, 70)} - OboApp`;
+  const description = summarizeMessageText(message.text, 200);
+
+  return {
+    title,
+    description,
+    openGraph: {
+      title,
+      description,
+      url: `/messages/${id}`,
+      images: ["/icon-512x512.png"],
+      locale: "bg_BG",
+      type: "article",
+      siteName: "OboApp",
+    },
+    twitter: {
+      card: "summary",
+      title,
+      description,
+      images: ["/icon-512x512.png"],
+    },
+  };
+}
+
+export default async function MessagePage({ params }: MessagePageProps) {
+  const { id } = await params;
+  const message = await getMessageById(id);
+
+  if (!message) {
+    notFound();
+  }
+
+  const source = sources.find((item) => item.id === message.source);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        <div className="flex items-center justify-between mb-8">
+          <h1 className="text-3xl font-bold text-gray-900">
+            Детайли за сигнала
+          </h1>
+          <Link
+            href={`/?messageId=${id}`}
+            className="text-blue-600 hover:text-blue-800 font-medium"
+          >
+            Виж на картата
+          </Link>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm p-6 space-y-6">
+          {message.supersededBy && (
+            <p className="p-3 bg-yellow-50 text-yellow-900 rounded-md text-sm">
+              Има по-нова версия на този сигнал.{" "}
+              <Link
+                href={`/messages/${message.supersededBy}`}
+                className="font-medium underline"
+              >
+                Виж я тук
+              </Link>
+            </p>
+          )}
+
+          {message.finalizedAt && (
+            <DetailItem
+              title={
+                message.previousMessageId ? "Обновено тук" : "Публикувано тук"
+              }
+            >
+              <p className="text-base text-gray-900">
+                {formatDate(message.finalizedAt)}
+              </p>
+            </DetailItem>
+          )}
+
+          {message.resolvedAt && (
+            <DetailItem title="Приключило">
+              <p className="text-base text-gray-900">
+                {formatDate(message.resolvedAt)}
+              </p>
+            </DetailItem>
+          )}
+
+          {message.source && (
+            <DetailItem title="Източник">
+              {message.sourceUrl ? (
+                <a
+                  href={message.sourceUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-base text-blue-600 hover:text-blue-800"
+                >
+                  {source?.name || message.source}
+                </a>
+              ) : (
+                <p className="text-base text-gray-900">
+                  {source?.name || message.source}
+                </p>
+              )}
+            </DetailItem>
+          )}
+
+          <DetailItem title="Текст">
+            <MessageText
+              text={message.text}
+              markdownText={message.extractedData?.markdown_text}
+            />
+          </DetailItem>
+
+          <SourceDiff diff={message.sourceDiff} />
+
+          {message.extractedData?.responsible_entity && (
+            <DetailItem title="Отговорна институция">
+              <p className="text-base text-gray-900">
+                {message.extractedData.responsible_entity}
+              </p>
+            </DetailItem>
+          )}
+
+          <Locations
+            pins={message.extractedData?.pins}
+            streets={message.extractedData?.streets}
+            blocks={message.extractedData?.blocks}
+            wholeStreets={message.extractedData?.whole_streets}
+            areas={message.extractedData?.areas}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
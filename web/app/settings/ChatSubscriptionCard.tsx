@@ -0,0 +1,44 @@
+import { ChatChannel, ChatSubscription } from "@/lib/types";
+
+interface ChatSubscriptionCardProps {
+  readonly chat: ChatSubscription;
+  readonly onUnlink: (id: string) => void;
+}
+
+export const CHANNEL_NAMES: Record<ChatChannel, string> = {
+  telegram: "Telegram",
+  viber: "Viber",
+};
+
+export default function ChatSubscriptionCard({
+  chat,
+  onUnlink,
+}: ChatSubscriptionCardProps) {
+  const createdDate = new Date(chat.createdAt).toLocaleDateString("bg-BG", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+  });
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-3 flex items-center justify-between gap-4">
+      <div className="flex-1 min-w-0 flex flex-col sm:flex-row sm:items-center sm:gap-2">
+        <p className="font-medium text-gray-900 text-sm flex items-center gap-2">
+          <span>{chat.displayName || "Чат"}</span>
+          <span className="text-xs bg-gray-200 text-gray-700 px-2 py-0.5 rounded whitespace-nowrap">
+            {CHANNEL_NAMES[chat.channel]}
+          </span>
+        </p>
+        <p className="text-xs text-gray-500 sm:before:content-['•'] sm:before:mr-2">
+          Добавен: {createdDate}
+        </p>
+      </div>
+      <button
+        onClick={() => chat.id && onUnlink(chat.id)}
+        className="text-xs text-red-600 hover:text-red-700 hover:underline whitespace-nowrap flex-shrink-0"
+      >
+        Отвързване
+      </button>
+    </div>
+  );
+}
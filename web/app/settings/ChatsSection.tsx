@@ -0,0 +1,92 @@
+"use client";
+
+import { ChatChannel, ChatSubscription } from "@/lib/types";
+import ChatSubscriptionCard, { CHANNEL_NAMES } from "./ChatSubscriptionCard";
+
+export interface ChatLinkCode {
+  channel: ChatChannel;
+  code: string;
+  url: string;
+  expiresAt: string;
+}
+
+interface ChatsSectionProps {
+  readonly chats: ChatSubscription[];
+  readonly channels: Record<ChatChannel, boolean>;
+  readonly linkCode: ChatLinkCode | null;
+  readonly onLinkChat: (channel: ChatChannel) => void;
+  readonly onUnlinkChat: (id: string) => void;
+}
+
+export default function ChatsSection({
+  chats,
+  channels,
+  linkCode,
+  onLinkChat,
+  onUnlinkChat,
+}: ChatsSectionProps) {
+  const available = (Object.keys(CHANNEL_NAMES) as ChatChannel[]).filter(
+    (channel) => channels[channel]
+  );
+  if (available.length === 0 && chats.length === 0) {
+    return null;
+  }
+
+  return (
+    <section className="bg-white rounded-lg shadow mb-6 p-6">
+      <h2 className="text-xl font-semibold text-gray-900 mb-4">
+        Известия в Telegram и Viber
+      </h2>
+
+      <p className="text-gray-600 mb-4">
+        Получавайте съобщенията за зоните си от нашия бот, в личен чат или в
+        групата на входа или квартала.
+      </p>
+
+      {chats.length > 0 && (
+        <div className="space-y-2 mb-4">
+          {chats.map((chat) => (
+            <ChatSubscriptionCard
+              key={chat.id}
+              chat={chat}
+              onUnlink={onUnlinkChat}
+            />
+          ))}
+        </div>
+      )}
+
+      {linkCode && (
+        <div className="mb-4 bg-blue-50 border border-blue-200 rounded-lg p-4">
+          <p className="text-blue-900 mb-2">
+            Отворете бота в {CHANNEL_NAMES[linkCode.channel]} или му изпратете
+            кода{" "}
+            <span className="font-mono font-semibold">{linkCode.code}</span>{" "}
+            (валиден 15 минути).
+            {linkCode.channel === "telegram" &&
+              ` В група изпратете /start ${linkCode.code}.`}
+          </p>
+          <a
+            href={linkCode.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="inline-block bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            Отвори {CHANNEL_NAMES[linkCode.channel]}
+          </a>
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        {available.map((channel) => (
+          <button
+            key={channel}
+            onClick={() => onLinkChat(channel)}
+            className="border border-blue-600 text-blue-600 px-4 py-2 rounded-lg hover:bg-blue-50 transition-colors"
+          >
+            Свържи {CHANNEL_NAMES[channel]}
+          </button>
+        ))}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,60 @@
+"use client";
+
+import { EmailFrequency } from "@/lib/types";
+
+interface EmailNotificationsSectionProps {
+  readonly email: string | null;
+  readonly frequency: EmailFrequency | null;
+  readonly onChangeFrequency: (frequency: EmailFrequency | null) => void;
+}
+
+const OPTIONS: { value: EmailFrequency | "off"; label: string }[] = [
+  { value: "off", label: "Изключени" },
+  { value: "instant", label: "Веднага, за всяко съобщение" },
+  { value: "daily", label: "Ежедневен обзор" },
+  { value: "weekly", label: "Седмичен обзор" },
+];
+
+export default function EmailNotificationsSection({
+  email,
+  frequency,
+  onChangeFrequency,
+}: EmailNotificationsSectionProps) {
+  return (
+    <section className="bg-white rounded-lg shadow mb-6 p-6">
+      <h2 className="text-xl font-semibold text-gray-900 mb-4">
+        Известия по имейл
+      </h2>
+
+      {email ? (
+        <>
+          <p className="text-gray-600 mb-4">
+            Съобщенията в зоните ви по имейл до{" "}
+            <span className="font-medium text-gray-900">{email}</span>, също на
+            устройства без известия (например iPhone без инсталирано
+            приложение).
+          </p>
+          <select
+            value={frequency ?? "off"}
+            onChange={(e) =>
+              onChangeFrequency(
+                e.target.value === "off"
+                  ? null
+                  : (e.target.value as EmailFrequency)
+              )
+            }
+            className="border border-gray-300 rounded-lg px-3 py-2 text-gray-900"
+          >
+            {OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </>
+      ) : (
+        <p className="text-gray-600">Профилът ви няма имейл адрес.</p>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,97 @@
+"use client";
+
+import { QuietHours } from "@/lib/types";
+
+export interface NotificationPreferences {
+  quietHours: QuietHours | null;
+  maxPerHour: number;
+}
+
+interface QuietHoursSectionProps {
+  readonly preferences: NotificationPreferences;
+  readonly onChange: (preferences: NotificationPreferences) => void;
+}
+
+const DEFAULT_QUIET_HOURS: QuietHours = { start: "22:00", end: "07:00" };
+
+const MAX_PER_HOUR_OPTIONS = [1, 3, 5, 10, 20];
+
+export default function QuietHoursSection({
+  preferences,
+  onChange,
+}: QuietHoursSectionProps) {
+  const { quietHours, maxPerHour } = preferences;
+
+  const changeQuietHours = (change: Partial<QuietHours>) => {
+    const next = { ...(quietHours ?? DEFAULT_QUIET_HOURS), ...change };
+    if (next.start !== next.end) {
+      onChange({ ...preferences, quietHours: next });
+    }
+  };
+
+  return (
+    <section className="bg-white rounded-lg shadow mb-6 p-6">
+      <h2 className="text-xl font-semibold text-gray-900 mb-4">
+        Тихи часове и честота
+      </h2>
+
+      <label className="flex items-center gap-2 text-gray-900 mb-3">
+        <input
+          type="checkbox"
+          checked={quietHours !== null}
+          onChange={(e) =>
+            onChange({
+              ...preferences,
+              quietHours: e.target.checked ? DEFAULT_QUIET_HOURS : null,
+            })
+          }
+        />
+        Тихи часове
+      </label>
+
+      {quietHours && (
+        <div className="flex items-center gap-2 text-gray-600 mb-4">
+          от
+          <input
+            type="time"
+            value={quietHours.start}
+            onChange={(e) => changeQuietHours({ start: e.target.value })}
+            className="border border-gray-300 rounded-lg px-3 py-2 text-gray-900"
+          />
+          до
+          <input
+            type="time"
+            value={quietHours.end}
+            onChange={(e) => changeQuietHours({ end: e.target.value })}
+            className="border border-gray-300 rounded-lg px-3 py-2 text-gray-900"
+          />
+        </div>
+      )}
+
+      <p className="text-gray-600 mb-4">
+        Съобщенията през тихите часове ще получите, когато те свършат.
+        Съобщенията над лимита за час се събират в едно общо известие.
+      </p>
+
+      <label className="flex items-center gap-2 text-gray-900">
+        Най-много
+        <select
+          value={maxPerHour}
+          onChange={(e) =>
+            onChange({ ...preferences, maxPerHour: Number(e.target.value) })
+          }
+          className="border border-gray-300 rounded-lg px-3 py-2 text-gray-900"
+        >
+          {[...new Set([...MAX_PER_HOUR_OPTIONS, maxPerHour])]
+            .sort((a, b) => a - b)
+            .map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+        </select>
+        известия на час
+      </label>
+    </section>
+  );
+}
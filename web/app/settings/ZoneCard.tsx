@@ -1,24 +1,78 @@
+"use client";
+
+import { useState } from "react";
 import Link from "next/link";
-import { Interest } from "@/lib/types";
+import {
+  IncidentKind,
+  Interest,
+  InterestFilters,
+  MessageCategory,
+} from "@/lib/types";
+import sources from "@/lib/sources.json";
 
 interface ZoneCardProps {
   readonly interest: Interest;
+  readonly onChangeFilters: (id: string, filters: InterestFilters) => void;
+}
+
+const CATEGORY_NAMES: Record<MessageCategory, string> = {
+  water: "Вода",
+  heating: "Отопление",
+  electricity: "Ток",
+  roads: "Пътища и движение",
+  construction: "Строителство",
+  other: "Други",
+};
+
+const KIND_NAMES: Record<IncidentKind, string> = {
+  planned: "Само планирани",
+  unplanned: "Само аварии",
+};
+
+function toggle<T>(values: T[] | undefined, value: T): T[] {
+  const current = values ?? [];
+  return current.includes(value)
+    ? current.filter((v) => v !== value)
+    : [...current, value];
 }
 
-export default function ZoneCard({ interest }: ZoneCardProps) {
+function describeFilters(filters: InterestFilters | undefined): string {
+  if (!filters) {
+    return "Всички съобщения";
+  }
+  return [
+    ...(filters.categories ?? []).map((category) => CATEGORY_NAMES[category]),
+    ...(filters.sources ?? []).map(
+      (id) => sources.find((source) => source.id === id)?.name ?? id
+    ),
+    ...(filters.kind ? [KIND_NAMES[filters.kind]] : []),
+  ].join(", ");
+}
+
+export default function ZoneCard({ interest, onChangeFilters }: ZoneCardProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const filters = interest.filters ?? {};
+
   const createdDate = new Date(interest.createdAt).toLocaleDateString("bg-BG", {
     day: "numeric",
     month: "short",
     year: "numeric",
   });
 
+  // The API drops the emptied filters
+  const changeFilters = (change: Partial<InterestFilters>) => {
+    if (interest.id) {
+      onChangeFilters(interest.id, { ...filters, ...change });
+    }
+  };
+
   return (
-    <Link
-      href={`/?lat=${interest.coordinates.lat}&lng=${interest.coordinates.lng}`}
-      className="block border border-gray-200 rounded-lg p-4 hover:bg-gray-50 hover:border-blue-500 transition-colors"
-    >
-      <div className="flex items-center justify-between">
-        <div>
+    <div className="border border-gray-200 rounded-lg p-4">
+      <div className="flex items-center justify-between gap-4">
+        <Link
+          href={`/?lat=${interest.coordinates.lat}&lng=${interest.coordinates.lng}`}
+          className="flex-1 min-w-0 hover:text-blue-600"
+        >
           <p className="font-medium text-gray-900">
             {interest.coordinates.lat.toFixed(5)},{" "}
             {interest.coordinates.lng.toFixed(5)}
@@ -26,9 +80,91 @@ export default function ZoneCard({ interest }: ZoneCardProps) {
           <p className="text-sm text-gray-500">
             Радиус: {interest.radius}м • Добавена: {createdDate}
           </p>
-        </div>
-        <div className="text-blue-600">→</div>
+          <p className="text-sm text-gray-500">
+            Известия: {describeFilters(interest.filters)}
+          </p>
+        </Link>
+        <button
+          onClick={() => setIsEditing(!isEditing)}
+          className="text-sm text-blue-600 hover:text-blue-700 hover:underline whitespace-nowrap flex-shrink-0"
+        >
+          {isEditing ? "Готово" : "Филтри"}
+        </button>
       </div>
-    </Link>
+
+      {isEditing && (
+        <div className="mt-4 space-y-4 text-sm text-gray-900">
+          <fieldset>
+            <legend className="font-medium mb-2">Категории</legend>
+            <div className="flex flex-wrap gap-x-4 gap-y-2">
+              {(Object.keys(CATEGORY_NAMES) as MessageCategory[]).map(
+                (category) => (
+                  <label key={category} className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={filters.categories?.includes(category) ?? false}
+                      onChange={() =>
+                        changeFilters({
+                          categories: toggle(filters.categories, category),
+                        })
+                      }
+                    />
+                    {CATEGORY_NAMES[category]}
+                  </label>
+                )
+              )}
+            </div>
+          </fieldset>
+
+          <fieldset>
+            <legend className="font-medium mb-2">Източници</legend>
+            <div className="flex flex-col gap-2">
+              {sources.map((source) => (
+                <label key={source.id} className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={filters.sources?.includes(source.id) ?? false}
+                    onChange={() =>
+                      changeFilters({
+                        sources: toggle(filters.sources, source.id),
+                      })
+                    }
+                  />
+                  {source.name}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          <label className="flex items-center gap-2">
+            <span className="font-medium">Вид</span>
+            <select
+              value={filters.kind ?? "all"}
+              onChange={(e) =>
+                changeFilters({
+                  kind:
+                    e.target.value === "all"
+                      ? undefined
+                      : (e.target.value as IncidentKind),
+                })
+              }
+              className="border border-gray-300 rounded-lg px-3 py-2 text-gray-900"
+            >
+              <option value="all">Планирани и аварии</option>
+              {(Object.keys(KIND_NAMES) as IncidentKind[]).map((kind) => (
+                <option key={kind} value={kind}>
+                  {KIND_NAMES[kind]}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <p className="text-gray-500">
+            Без избрани категории или източници получавате всички съобщения в
+            зоната.
+          </p>
+        </div>
+      )}
+    </div>
   );
 }
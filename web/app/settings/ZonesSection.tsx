@@ -1,14 +1,18 @@
 "use client";
 
-import { Interest } from "@/lib/types";
+import { Interest, InterestFilters } from "@/lib/types";
 import EmptyZonesMessage from "./EmptyZonesMessage";
 import ZoneCard from "./ZoneCard";
 
 interface ZonesSectionProps {
   readonly interests: Interest[];
+  readonly onChangeFilters: (id: string, filters: InterestFilters) => void;
 }
 
-export default function ZonesSection({ interests }: ZonesSectionProps) {
+export default function ZonesSection({
+  interests,
+  onChangeFilters,
+}: ZonesSectionProps) {
   return (
     <section className="bg-white rounded-lg shadow mb-6 p-6">
       <h2 className="text-xl font-semibold text-gray-900 mb-4">
@@ -20,7 +24,11 @@ export default function ZonesSection({ interests }: ZonesSectionProps) {
       ) : (
         <div className="space-y-2">
           {interests.map((interest) => (
-            <ZoneCard key={interest.id} interest={interest} />
+            <ZoneCard
+              key={interest.id}
+              interest={interest}
+              onChangeFilters={onChangeFilters}
+            />
           ))}
         </div>
       )}
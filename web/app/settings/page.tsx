@@ -3,16 +3,29 @@
 import { useCallback, useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import { useAuth } from "@/lib/auth-context";
-import { Interest, NotificationSubscription } from "@/lib/types";
+import {
+  ChatChannel,
+  ChatSubscription,
+  EmailFrequency,
+  Interest,
+  InterestFilters,
+  NotificationSubscription,
+} from "@/lib/types";
 import {
   subscribeToPushNotifications,
   requestNotificationPermission,
   markExplicitUnsubscribe,
   getNotificationPermission,
 } from "@/lib/notification-service";
+import { DEFAULT_MAX_NOTIFICATIONS_PER_HOUR } from "@oboapp/core";
 import { getMessaging, getToken } from "firebase/messaging";
 import { app } from "@/lib/firebase";
 import NotificationsSection from "./NotificationsSection";
+import EmailNotificationsSection from "./EmailNotificationsSection";
+import ChatsSection, { ChatLinkCode } from "./ChatsSection";
+import QuietHoursSection, {
+  NotificationPreferences,
+} from "./QuietHoursSection";
 import NotificationHistorySection from "./NotificationHistorySection";
 import ZonesSection from "./ZonesSection";
 import DeleteAccountSection from "./DeleteAccountSection";
@@ -35,6 +48,20 @@ export default function SettingsPage() {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [notificationCount, setNotificationCount] = useState<number>(0);
+  const [email, setEmail] = useState<string | null>(null);
+  const [emailFrequency, setEmailFrequency] = useState<EmailFrequency | null>(
+    null
+  );
+  const [chats, setChats] = useState<ChatSubscription[]>([]);
+  const [chatChannels, setChatChannels] = useState<
+    Record<ChatChannel, boolean>
+  >({ telegram: false, viber: false });
+  const [chatLinkCode, setChatLinkCode] = useState<ChatLinkCode | null>(null);
+  const [notificationPreferences, setNotificationPreferences] =
+    useState<NotificationPreferences>({
+      quietHours: null,
+      maxPerHour: DEFAULT_MAX_NOTIFICATIONS_PER_HOUR,
+    });
 
   // Delete account state
   const [isDeleting, setIsDeleting] = useState(false);
@@ -51,7 +78,14 @@ export default function SettingsPage() {
       const authHeader = `Bearer ${token}`;
 
       // Fetch interests and subscriptions in parallel
-      const [interestsRes, subscriptionsRes, countRes] = await Promise.all([
+      const [
+        interestsRes,
+        subscriptionsRes,
+        countRes,
+        emailRes,
+        chatsRes,
+        preferencesRes,
+      ] = await Promise.all([
         fetch("/api/interests", {
           headers: { Authorization: authHeader },
         }),
@@ -61,16 +95,42 @@ export default function SettingsPage() {
         fetch("/api/notifications/history/count", {
           headers: { Authorization: authHeader },
         }),
+        fetch("/api/notifications/email", {
+          headers: { Authorization: authHeader },
+        }),
+        fetch("/api/notifications/chats", {
+          headers: { Authorization: authHeader },
+        }),
+        fetch("/api/notifications/preferences", {
+          headers: { Authorization: authHeader },
+        }),
       ]);
 
-      if (!interestsRes.ok || !subscriptionsRes.ok || !countRes.ok) {
+      if (
+        !interestsRes.ok ||
+        !subscriptionsRes.ok ||
+        !countRes.ok ||
+        !emailRes.ok ||
+        !chatsRes.ok ||
+        !preferencesRes.ok
+      ) {
         throw new Error("Failed to fetch data");
       }
 
-      const [interestsData, subscriptionsData, countData] = await Promise.all([
+      const [
+        interestsData,
+        subscriptionsData,
+        countData,
+        emailData,
+        chatsData,
+        preferencesData,
+      ] = await Promise.all([
         interestsRes.json(),
         subscriptionsRes.json(),
         countRes.json(),
+        emailRes.json(),
+        chatsRes.json(),
+        preferencesRes.json(),
       ]);
 
       setInterests(
@@ -82,6 +142,15 @@ export default function SettingsPage() {
       setNotificationCount(
         typeof countData?.count === "number" ? countData.count : 0
       );
+      setEmail(emailData?.email ?? null);
+      setEmailFrequency(emailData?.frequency ?? null);
+      setChats(Array.isArray(chatsData?.chats) ? chatsData.chats : []);
+      if (chatsData?.channels) {
+        setChatChannels(chatsData.channels);
+      }
+      if (preferencesData?.maxPerHour) {
+        setNotificationPreferences(preferencesData);
+      }
     } catch (err) {
       console.error("Error fetching data:", err);
       setError("Неуспешно зареждане на данни");
@@ -215,6 +284,138 @@ export default function SettingsPage() {
     }
   };
 
+  const handleChangeEmailFrequency = async (
+    frequency: EmailFrequency | null
+  ) => {
+    if (!user) return;
+
+    try {
+      const token = await user.getIdToken();
+      const response = await fetch("/api/notifications/email", {
+        method: frequency ? "PUT" : "DELETE",
+        headers: {
+          Authorization: `Bearer ${token}`,
+          "Content-Type": "application/json",
+        },
+        body: frequency ? JSON.stringify({ frequency }) : undefined,
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to update email preference");
+      }
+
+      setEmailFrequency(frequency);
+    } catch (error) {
+      console.error("Error updating email preference:", error);
+      alert("Грешка при промяната на известията по имейл");
+    }
+  };
+
+  const handleChangeNotificationPreferences = async (
+    preferences: NotificationPreferences
+  ) => {
+    if (!user) return;
+
+    try {
+      const token = await user.getIdToken();
+      const response = await fetch("/api/notifications/preferences", {
+        method: "PUT",
+        headers: {
+          Authorization: `Bearer ${token}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(preferences),
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to update notification preferences");
+      }
+
+      setNotificationPreferences(preferences);
+    } catch (error) {
+      console.error("Error updating notification preferences:", error);
+      alert("Грешка при промяната на тихите часове");
+    }
+  };
+
+  const handleChangeZoneFilters = async (
+    id: string,
+    filters: InterestFilters
+  ) => {
+    if (!user) return;
+
+    try {
+      const token = await user.getIdToken();
+      const response = await fetch("/api/interests", {
+        method: "PATCH",
+        headers: {
+          Authorization: `Bearer ${token}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ id, filters }),
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to update zone filters");
+      }
+
+      const { interest } = await response.json();
+      setInterests((prev) => prev.map((i) => (i.id === id ? interest : i)));
+    } catch (error) {
+      console.error("Error updating zone filters:", error);
+      alert("Грешка при промяната на филтрите на зоната");
+    }
+  };
+
+  const handleLinkChat = async (channel: ChatChannel) => {
+    if (!user) return;
+
+    try {
+      const token = await user.getIdToken();
+      const response = await fetch("/api/notifications/chats", {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${token}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ channel }),
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to create link code");
+      }
+
+      setChatLinkCode(await response.json());
+    } catch (error) {
+      console.error("Error creating link code:", error);
+      alert("Грешка при свързването на чата");
+    }
+  };
+
+  const handleUnlinkChat = async (id: string) => {
+    if (!user) return;
+
+    try {
+      const token = await user.getIdToken();
+      const response = await fetch(
+        `/api/notifications/chats?id=${encodeURIComponent(id)}`,
+        {
+          method: "DELETE",
+          headers: { Authorization: `Bearer ${token}` },
+        }
+      );
+
+      if (!response.ok) {
+        throw new Error("Failed to unlink chat");
+      }
+
+      await fetchData(); // Refresh chats
+    } catch (error) {
+      console.error("Error unlinking chat:", error);
+      alert("Грешка при отвързването на чата");
+    }
+  };
+
   const handleDeleteAccount = async (confirmText: string) => {
     if (confirmText !== "ИЗТРИЙ") {
       alert("Моля, напишете 'ИЗТРИЙ' за потвърждение");
@@ -288,7 +489,29 @@ export default function SettingsPage() {
           onUnsubscribeAll={handleUnsubscribeAll}
         />
 
-        <ZonesSection interests={interests} />
+        <EmailNotificationsSection
+          email={email}
+          frequency={emailFrequency}
+          onChangeFrequency={handleChangeEmailFrequency}
+        />
+
+        <ChatsSection
+          chats={chats}
+          channels={chatChannels}
+          linkCode={chatLinkCode}
+          onLinkChat={handleLinkChat}
+          onUnlinkChat={handleUnlinkChat}
+        />
+
+        <QuietHoursSection
+          preferences={notificationPreferences}
+          onChange={handleChangeNotificationPreferences}
+        />
+
+        <ZonesSection
+          interests={interests}
+          onChangeFilters={handleChangeZoneFilters}
+        />
 
         <DeleteAccountSection
           onDeleteAccount={handleDeleteAccount}
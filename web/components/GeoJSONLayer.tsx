@@ -3,7 +3,13 @@
 import React from "react";
 import { Marker, Polyline, Polygon } from "@react-google-maps/api";
 import { trackEvent } from "@/lib/analytics";
-import { Message } from "@/lib/types";
+import {
+  GeoJSONGeometry,
+  GeoJSONLineString,
+  GeoJSONPoint,
+  GeoJSONPolygon,
+  Message,
+} from "@/lib/types";
 import { colors, opacity } from "@/lib/colors";
 
 interface GeoJSONLayerProps {
@@ -42,12 +48,62 @@ const GEOJSON_STYLES = {
   },
 };
 
+// Helper: Resolved incidents are drawn in grey
+const getFeatureColor = (message: Message) =>
+  message.resolvedAt ? colors.map.resolved : colors.primary.red;
+
 // Helper: Transform GeoJSON coordinate to Google Maps LatLng
 const toLatLng = (coord: number[]) => ({
   lat: coord[1],
   lng: coord[0],
 });
 
+// Helper: Split multi-part geometries into the parts drawn on the map
+const getGeometryParts = (
+  geometry: GeoJSONGeometry
+): (GeoJSONPoint | GeoJSONLineString | GeoJSONPolygon)[] => {
+  switch (geometry.type) {
+    case "MultiPoint":
+      return geometry.coordinates.map((coordinates) => ({
+        type: "Point",
+        coordinates,
+      }));
+    case "MultiLineString":
+      return geometry.coordinates.map((coordinates) => ({
+        type: "LineString",
+        coordinates,
+      }));
+    case "MultiPolygon":
+      return geometry.coordinates.map((coordinates) => ({
+        type: "Polygon",
+        coordinates,
+      }));
+    case "GeometryCollection":
+      return geometry.geometries.flatMap(getGeometryParts);
+    default:
+      return [geometry];
+  }
+};
+
+// Helper: Whether a ring is clockwise (negative signed area)
+const isClockwise = (ring: number[][]) => {
+  let area = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    area += ring[i][0] * ring[i + 1][1] - ring[i + 1][0] * ring[i][1];
+  }
+  return area < 0;
+};
+
+// Helper: Polygon paths, holes wound against the outline so that Google
+// Maps cuts them out
+const toPolygonPaths = (rings: number[][][]) =>
+  rings.map((ring, index) => {
+    const path = ring.map(toLatLng);
+    return index > 0 && isClockwise(ring) === isClockwise(rings[0])
+      ? path.reverse()
+      : path;
+  });
+
 // Helper: Create feature click handler
 const createClickHandler = (
   messageId: string | undefined,
@@ -80,6 +136,7 @@ const createHoverHandlers = (
 // Point feature component
 interface PointFeatureProps {
   coords: number[];
+  color: string;
   isHovered: boolean;
   messageId: string | undefined;
   featureProperties: any;
@@ -90,6 +147,7 @@ interface PointFeatureProps {
 
 function PointFeature({
   coords,
+  color,
   isHovered,
   messageId,
   featureProperties,
@@ -102,7 +160,7 @@ function PointFeature({
       position={toLatLng(coords)}
       icon={{
         path: "M 0,0 m -8,0 a 8,8 0 1,0 16,0 a 8,8 0 1,0 -16,0",
-        fillColor: colors.primary.red,
+        fillColor: color,
         fillOpacity: isHovered ? opacity.hover : opacity.default,
         strokeWeight: 2,
         strokeColor: colors.map.stroke,
@@ -120,6 +178,7 @@ function PointFeature({
 // LineString feature component
 interface LineStringFeatureProps {
   coords: number[][];
+  color: string;
   isHovered: boolean;
   messageId: string | undefined;
   featureKey: string;
@@ -129,6 +188,7 @@ interface LineStringFeatureProps {
 
 function LineStringFeature({
   coords,
+  color,
   isHovered,
   messageId,
   featureKey,
@@ -142,6 +202,7 @@ function LineStringFeature({
         ...(isHovered
           ? GEOJSON_STYLES.lineStringHover
           : GEOJSON_STYLES.lineString),
+        strokeColor: color,
         clickable: true,
       }}
       onClick={createClickHandler(messageId, "LineString", onFeatureClick)}
@@ -153,6 +214,7 @@ function LineStringFeature({
 // Polygon feature component
 interface PolygonFeatureProps {
   coords: number[][][];
+  color: string;
   isHovered: boolean;
   messageId: string | undefined;
   featureKey: string;
@@ -162,6 +224,7 @@ interface PolygonFeatureProps {
 
 function PolygonFeature({
   coords,
+  color,
   isHovered,
   messageId,
   featureKey,
@@ -170,9 +233,11 @@ function PolygonFeature({
 }: PolygonFeatureProps) {
   return (
     <Polygon
-      paths={coords[0].map(toLatLng)}
+      paths={toPolygonPaths(coords)}
       options={{
         ...(isHovered ? GEOJSON_STYLES.polygonHover : GEOJSON_STYLES.polygon),
+        strokeColor: color,
+        fillColor: color,
         clickable: true,
       }}
       onClick={createClickHandler(messageId, "Polygon", onFeatureClick)}
@@ -196,53 +261,63 @@ export default function GeoJSONLayer({
       return;
     }
 
+    const color = getFeatureColor(message);
+
     message.geoJson.features.forEach((feature, featureIndex) => {
       const key = `${message.id}-geojson-${featureIndex}`;
       const isHovered = hoveredFeature === key;
       const { geometry, properties } = feature;
 
-      switch (geometry.type) {
-        case "Point":
-          features.push(
-            <PointFeature
-              key={key}
-              coords={geometry.coordinates}
-              isHovered={isHovered}
-              messageId={message.id}
-              featureProperties={properties}
-              featureKey={key}
-              onFeatureClick={onFeatureClick}
-              setHoveredFeature={setHoveredFeature}
-            />
-          );
-          break;
-        case "LineString":
-          features.push(
-            <LineStringFeature
-              key={key}
-              coords={geometry.coordinates}
-              isHovered={isHovered}
-              messageId={message.id}
-              featureKey={key}
-              onFeatureClick={onFeatureClick}
-              setHoveredFeature={setHoveredFeature}
-            />
-          );
-          break;
-        case "Polygon":
-          features.push(
-            <PolygonFeature
-              key={key}
-              coords={geometry.coordinates}
-              isHovered={isHovered}
-              messageId={message.id}
-              featureKey={key}
-              onFeatureClick={onFeatureClick}
-              setHoveredFeature={setHoveredFeature}
-            />
-          );
-          break;
-      }
+      // The parts of a feature share its hover key and highlight together
+      getGeometryParts(geometry).forEach((part, partIndex) => {
+        const partKey = `${key}-${partIndex}`;
+
+        switch (part.type) {
+          case "Point":
+            features.push(
+              <PointFeature
+                key={partKey}
+                coords={part.coordinates}
+                color={color}
+                isHovered={isHovered}
+                messageId={message.id}
+                featureProperties={properties}
+                featureKey={key}
+                onFeatureClick={onFeatureClick}
+                setHoveredFeature={setHoveredFeature}
+              />
+            );
+            break;
+          case "LineString":
+            features.push(
+              <LineStringFeature
+                key={partKey}
+                coords={part.coordinates}
+                color={color}
+                isHovered={isHovered}
+                messageId={message.id}
+                featureKey={key}
+                onFeatureClick={onFeatureClick}
+                setHoveredFeature={setHoveredFeature}
+              />
+            );
+            break;
+          case "Polygon":
+            features.push(
+              <PolygonFeature
+                key={partKey}
+                coords={part.coordinates}
+                color={color}
+                isHovered={isHovered}
+                messageId={message.id}
+                featureKey={key}
+                onFeatureClick={onFeatureClick}
+                setHoveredFeature={setHoveredFeature}
+              />
+            );
+            break;
+        }
+      });
     });
   });
 
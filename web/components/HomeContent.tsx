@@ -9,11 +9,16 @@ import NotificationPrompt from "@/components/NotificationPrompt";
 import LoginPrompt from "@/components/LoginPrompt";
 import SubscribePrompt from "@/components/SubscribePrompt";
 import MessagesGrid from "@/components/MessagesGrid";
+import type { Bbox } from "@oboapp/core";
 import { Message, Interest } from "@/lib/types";
+import { MAX_MESSAGES_LIMIT } from "@/lib/messages-query";
 import { useInterests } from "@/lib/hooks/useInterests";
 import { useNotificationPrompt } from "@/lib/hooks/useNotificationPrompt";
 import { useAuth } from "@/lib/auth-context";
 
+// Wait for the map to stay on the same bounds before refetching
+const BOUNDS_DEBOUNCE_MS = 300;
+
 export default function HomeContent() {
   const [messages, setMessages] = useState<Message[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -59,6 +64,9 @@ export default function HomeContent() {
   const [hasCheckedSubscriptions, setHasCheckedSubscriptions] = useState(false);
 
   const containerRef = useRef<HTMLDivElement>(null);
+  const boundsRef = useRef<Bbox | null>(null);
+  const boundsTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const fetchControllerRef = useRef<AbortController | null>(null);
   const router = useRouter();
   const searchParams = useSearchParams();
 
@@ -136,10 +144,23 @@ export default function HomeContent() {
     checkSubscriptions();
   }, [user, interests.length, hasCheckedSubscriptions, showPrompt]);
 
-  const fetchMessages = useCallback(async () => {
+  // Load the messages in the visible part of the map, replacing an older
+  // request that is still running
+  const fetchMessages = useCallback(async (bbox: Bbox) => {
+    fetchControllerRef.current?.abort();
+    const controller = new AbortController();
+    fetchControllerRef.current = controller;
+
     try {
       setError(null);
-      const response = await fetch("/api/messages");
+
+      const params = new URLSearchParams({
+        bbox: bbox.join(","),
+        limit: String(MAX_MESSAGES_LIMIT),
+      });
+      const response = await fetch(`/api/messages?${params}`, {
+        signal: controller.signal,
+      });
 
       if (!response.ok) {
         throw new Error("Failed to fetch messages");
@@ -148,6 +169,9 @@ export default function HomeContent() {
       const data = await response.json();
       setMessages(data.messages || []);
     } catch (err) {
+      if (controller.signal.aborted) {
+        return;
+      }
       // Check if it's a network error (offline)
       if (!navigator.onLine) {
         setError(
@@ -162,10 +186,27 @@ export default function HomeContent() {
       }
       console.error("Error fetching messages:", err);
     } finally {
-      setIsLoading(false);
+      if (!controller.signal.aborted) {
+        setIsLoading(false);
+      }
     }
   }, []);
 
+  // Refetch when the map settles on new bounds (debounced)
+  const handleBoundsChanged = useCallback(
+    (bbox: Bbox) => {
+      boundsRef.current = bbox;
+      if (boundsTimerRef.current) {
+        clearTimeout(boundsTimerRef.current);
+      }
+      boundsTimerRef.current = setTimeout(
+        () => fetchMessages(bbox),
+        BOUNDS_DEBOUNCE_MS
+      );
+    },
+    [fetchMessages]
+  );
+
   // Handle feature click - update URL and select message
   const handleFeatureClick = useCallback(
     (messageId: string) => {
@@ -215,27 +256,41 @@ export default function HomeContent() {
   // Sync selected message with URL parameter
   useEffect(() => {
     const messageId = searchParams.get("messageId");
-    if (messageId && messages.length > 0) {
+    if (messageId && !isLoading) {
       const message = messages.find((m) => m.id === messageId);
       if (message) {
         setSelectedMessage(message);
-      } else {
-        // Message not found, clear the parameter
-        setSelectedMessage(null);
+      } else if (selectedMessage?.id !== messageId) {
+        // Not in the list (e.g. no longer relevant) - load it on its own
+        let cancelled = false;
+        fetch(`/api/messages/${encodeURIComponent(messageId)}`)
+          .then((response) => (response.ok ? response.json() : null))
+          .then((data) => {
+            if (!cancelled) {
+              setSelectedMessage(data?.message ?? null);
+            }
+          })
+          .catch((err) => {
+            console.error("Error fetching message:", err);
+          });
+        return () => {
+          cancelled = true;
+        };
       }
     } else if (!messageId && selectedMessage) {
       // URL was changed (e.g., back button) without messageId
       setSelectedMessage(null);
     }
-  }, [searchParams, messages, selectedMessage]);
+  }, [searchParams, messages, isLoading, selectedMessage]);
 
+  // The first fetch follows the first bounds of the map
   useEffect(() => {
-    fetchMessages();
-
     // Listen for message submission events
     const handleMessageSubmitted = () => {
       setTimeout(() => {
-        fetchMessages();
+        if (boundsRef.current) {
+          fetchMessages(boundsRef.current);
+        }
       }, 2000);
     };
 
@@ -246,6 +301,10 @@ export default function HomeContent() {
         "messageSubmitted",
         handleMessageSubmitted
       );
+      if (boundsTimerRef.current) {
+        clearTimeout(boundsTimerRef.current);
+      }
+      fetchControllerRef.current?.abort();
     };
   }, [fetchMessages]);
 
@@ -386,25 +445,21 @@ export default function HomeContent() {
         className="relative"
         style={{ height: "calc(100vh - 120px)", minHeight: "500px" }}
       >
-        {isLoading ? (
-          <div className="absolute inset-0 flex items-center justify-center bg-gray-50">
-            <p className="text-gray-600">Зареждане на картата...</p>
-          </div>
-        ) : (
-          <MapContainer
-            messages={messages}
-            interests={interests}
-            user={user}
-            targetMode={targetMode}
-            initialMapCenter={initialMapCenter}
-            onFeatureClick={handleFeatureClick}
-            onMapReady={handleMapReady}
-            onInterestClick={handleInterestClick}
-            onSaveInterest={handleSaveInterest}
-            onCancelTargetMode={handleCancelTargetMode}
-            onStartAddInterest={handleStartAddInterest}
-          />
-        )}
+        {/* Rendered right away: the messages are loaded for its bounds */}
+        <MapContainer
+          messages={messages}
+          interests={interests}
+          user={user}
+          targetMode={targetMode}
+          initialMapCenter={initialMapCenter}
+          onFeatureClick={handleFeatureClick}
+          onMapReady={handleMapReady}
+          onBoundsChanged={handleBoundsChanged}
+          onInterestClick={handleInterestClick}
+          onSaveInterest={handleSaveInterest}
+          onCancelTargetMode={handleCancelTargetMode}
+          onStartAddInterest={handleStartAddInterest}
+        />
       </div>
 
       {/* Messages Grid - Below the map */}
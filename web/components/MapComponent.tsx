@@ -2,6 +2,7 @@
 
 import React, { useCallback, useMemo, useRef } from "react";
 import { GoogleMap } from "@react-google-maps/api";
+import { SOFIA_BOUNDS, SOFIA_CENTER, type Bbox } from "@oboapp/core";
 import { Message, Interest } from "@/lib/types";
 import GeoJSONLayer from "./GeoJSONLayer";
 import InterestCircles from "./InterestCircles";
@@ -19,6 +20,7 @@ interface MapComponentProps {
     ) => void,
     mapInstance: google.maps.Map | null
   ) => void;
+  readonly onBoundsChanged?: (bbox: Bbox) => void;
   readonly interests?: Interest[];
   readonly onInterestClick?: (interest: Interest) => void;
   readonly targetMode?: {
@@ -36,7 +38,6 @@ interface MapComponentProps {
 //   lat: 42.6977,
 //   lng: 23.3341,
 // };
-const SOFIA_CENTER = { lat: 42.6977, lng: 23.3219 };
 
 // Bounds to restrict map panning
 // const OBORISHTE_BOUNDS = {
@@ -45,13 +46,6 @@ const SOFIA_CENTER = { lat: 42.6977, lng: 23.3219 };
 //   east: 23.37,
 //   west: 23.31,
 // };
-const SOFIA_BOUNDS = {
-  // Also in ingest/lib/geocoding-utils.ts
-  south: 42.605,
-  west: 23.188,
-  north: 42.83,
-  east: 23.528,
-};
 
 const mapContainerStyle = {
   width: "100%",
@@ -103,6 +97,7 @@ export default function MapComponent({
   messages,
   onFeatureClick,
   onMapReady,
+  onBoundsChanged,
   interests = [],
   onInterestClick,
   targetMode,
@@ -204,6 +199,20 @@ export default function MapComponent({
     };
   }, []);
 
+  // Report the visible bounds once the map settles after a pan or zoom
+  const handleIdle = useCallback(() => {
+    const bounds = mapRef.current?.getBounds();
+    if (!bounds || !onBoundsChanged) return;
+    const southWest = bounds.getSouthWest();
+    const northEast = bounds.getNorthEast();
+    onBoundsChanged([
+      southWest.lng(),
+      southWest.lat(),
+      northEast.lng(),
+      northEast.lat(),
+    ]);
+  }, [onBoundsChanged]);
+
   return (
     <div className="absolute inset-0">
       {process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY ? (
@@ -212,6 +221,7 @@ export default function MapComponent({
           options={dynamicMapOptions}
           onLoad={onMapLoad}
           onCenterChanged={handleCenterChanged}
+          onIdle={handleIdle}
         >
           <GeoJSONLayer messages={messages} onFeatureClick={onFeatureClick} />
 
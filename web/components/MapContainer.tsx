@@ -1,6 +1,7 @@
 import MapComponent from "@/components/MapComponent";
 import AddInterestButton from "@/components/AddInterestButton";
 import AddInterestsPrompt from "@/components/AddInterestsPrompt";
+import type { Bbox } from "@oboapp/core";
 import { Message, Interest } from "@/lib/types";
 
 interface MapContainerProps {
@@ -23,6 +24,7 @@ interface MapContainerProps {
     ) => void,
     mapInstance: google.maps.Map | null
   ) => void;
+  readonly onBoundsChanged: (bbox: Bbox) => void;
   readonly onInterestClick: (interest: Interest) => void;
   readonly onSaveInterest: (
     coordinates: { lat: number; lng: number },
@@ -40,6 +42,7 @@ export default function MapContainer({
   initialMapCenter,
   onFeatureClick,
   onMapReady,
+  onBoundsChanged,
   onInterestClick,
   onSaveInterest,
   onCancelTargetMode,
@@ -51,6 +54,7 @@ export default function MapContainer({
         messages={messages}
         onFeatureClick={onFeatureClick}
         onMapReady={onMapReady}
+        onBoundsChanged={onBoundsChanged}
         interests={interests}
         onInterestClick={onInterestClick}
         initialCenter={initialMapCenter || undefined}
@@ -135,6 +135,16 @@ export default function MessageCard({ message, onClick }: MessageCardProps) {
               {sourceInfo?.name || message.source || "Неизвестен източник"}
             </h3>
           </div>
+          {message.resolvedAt && (
+            <span className="text-xs font-medium text-gray-600 bg-gray-100 rounded px-2 py-0.5 flex-shrink-0">
+              приключило
+            </span>
+          )}
+          {message.previousMessageId && (
+            <span className="text-xs font-medium text-amber-800 bg-amber-100 rounded px-2 py-0.5 flex-shrink-0">
+              обновено
+            </span>
+          )}
         </div>
 
         {/* Text snippet */}
@@ -1,13 +1,46 @@
 import React from "react";
-import type { Pin, StreetSection } from "@/lib/types";
+import type {
+  AreaReference,
+  BlockReference,
+  Pin,
+  StreetSection,
+  WholeStreet,
+} from "@/lib/types";
 import DetailItem from "./DetailItem";
 
 interface LocationsProps {
   pins?: Pin[] | null;
   streets?: StreetSection[] | null;
+  blocks?: BlockReference[] | null;
+  wholeStreets?: WholeStreet[] | null;
+  areas?: AreaReference[] | null;
 }
 
-export default function Locations({ pins, streets }: LocationsProps) {
+function formatBlock(block: BlockReference): string {
+  return [
+    block.complex,
+    block.block && `бл. ${block.block}`,
+    block.entrance && `вх. ${block.entrance}`,
+  ]
+    .filter(Boolean)
+    .join(", ");
+}
+
+export default function Locations({
+  pins,
+  streets,
+  blocks,
+  wholeStreets,
+  areas,
+}: LocationsProps) {
+  const wholeAreas: AreaReference[] = [
+    ...(wholeStreets ?? []).map((s) => ({
+      name: s.street,
+      timespans: s.timespans,
+    })),
+    ...(areas ?? []),
+  ];
+
   return (
     <>
       {pins && pins.length > 0 && (
@@ -52,6 +85,13 @@ export default function Locations({ pins, streets }: LocationsProps) {
                 <p className="text-xs text-gray-600 mb-1">
                   От: {street.from} → До: {street.to}
                 </p>
+                {street.side && (
+                  <p className="text-xs text-gray-600 mb-1">
+                    {street.side === "even"
+                      ? "Четна страна"
+                      : "Нечетна страна"}
+                  </p>
+                )}
                 {street.timespans && street.timespans.length > 0 && (
                   <div className="text-xs text-gray-600 space-y-1">
                     {street.timespans.map((timespan, tIndex) => (
@@ -68,6 +108,62 @@ export default function Locations({ pins, streets }: LocationsProps) {
           </div>
         </DetailItem>
       )}
+
+      {blocks && blocks.length > 0 && (
+        <DetailItem title="Блокове и комплекси">
+          <div className="space-y-3">
+            {blocks.map((block, index) => (
+              <div
+                key={`block-${formatBlock(block)}-${index}`}
+                className="bg-gray-50 rounded-md p-3 border border-gray-200"
+              >
+                <p className="text-sm font-medium text-gray-900 mb-1">
+                  {formatBlock(block)}
+                </p>
+                {block.timespans && block.timespans.length > 0 && (
+                  <div className="text-xs text-gray-600 space-y-1">
+                    {block.timespans.map((timespan, tIndex) => (
+                      <div
+                        key={`block-timespan-${timespan.start}-${timespan.end}-${tIndex}`}
+                      >
+                        {timespan.start} - {timespan.end}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </DetailItem>
+      )}
+
+      {wholeAreas.length > 0 && (
+        <DetailItem title="Цели улици и квартали">
+          <div className="space-y-3">
+            {wholeAreas.map((area, index) => (
+              <div
+                key={`area-${area.name}-${index}`}
+                className="bg-gray-50 rounded-md p-3 border border-gray-200"
+              >
+                <p className="text-sm font-medium text-gray-900 mb-1">
+                  {area.name}
+                </p>
+                {area.timespans && area.timespans.length > 0 && (
+                  <div className="text-xs text-gray-600 space-y-1">
+                    {area.timespans.map((timespan, tIndex) => (
+                      <div
+                        key={`area-timespan-${timespan.start}-${timespan.end}-${tIndex}`}
+                      >
+                        {timespan.start} - {timespan.end}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </DetailItem>
+      )}
     </>
   );
 }
@@ -10,6 +10,7 @@ import Locations from "./Locations";
 import Addresses from "./Addresses";
 import DetailItem from "./DetailItem";
 import MessageText from "./MessageText";
+import SourceDiff from "./SourceDiff";
 
 interface MessageDetailViewProps {
   readonly message: Message | null;
@@ -134,13 +135,25 @@ export default function MessageDetailView({
           }`}
         >
           {message.finalizedAt && (
-            <DetailItem title="Публикувано тук">
+            <DetailItem
+              title={
+                message.previousMessageId ? "Обновено тук" : "Публикувано тук"
+              }
+            >
               <p className="text-base text-gray-900">
                 {formatDate(message.finalizedAt)}
               </p>
             </DetailItem>
           )}
 
+          {message.resolvedAt && (
+            <DetailItem title="Приключило">
+              <p className="text-base text-gray-900">
+                {formatDate(message.resolvedAt)}
+              </p>
+            </DetailItem>
+          )}
+
           {message.source && (
             <SourceDisplay
               sourceId={message.source}
@@ -155,6 +168,8 @@ export default function MessageDetailView({
             />
           </DetailItem>
 
+          <SourceDiff diff={message.sourceDiff} />
+
           {message.extractedData?.responsible_entity && (
             <DetailItem title="Отговорна институция">
               <p className="text-base text-gray-900">
@@ -166,6 +181,9 @@ export default function MessageDetailView({
           <Locations
             pins={message.extractedData?.pins}
             streets={message.extractedData?.streets}
+            blocks={message.extractedData?.blocks}
+            wholeStreets={message.extractedData?.whole_streets}
+            areas={message.extractedData?.areas}
           />
 
           <Addresses
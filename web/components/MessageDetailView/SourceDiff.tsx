@@ -0,0 +1,33 @@
+import React from "react";
+import type { SourceDiffLine } from "@/lib/types";
+import DetailItem from "./DetailItem";
+
+interface SourceDiffProps {
+  diff?: SourceDiffLine[];
+}
+
+export default function SourceDiff({ diff }: SourceDiffProps) {
+  if (!diff || diff.length === 0) return null;
+
+  return (
+    <DetailItem title="Промени спрямо предишната версия">
+      <ul className="space-y-1 text-sm">
+        {diff.map((line, index) => (
+          <li
+            key={`${line.type}-${index}`}
+            className={`rounded px-2 py-1 ${
+              line.type === "added"
+                ? "bg-green-50 text-green-900"
+                : "bg-red-50 text-red-900 line-through"
+            }`}
+          >
+            <span aria-hidden="true">
+              {line.type === "added" ? "+ " : "− "}
+            </span>
+            {line.text}
+          </li>
+        ))}
+      </ul>
+    </DetailItem>
+  );
+}
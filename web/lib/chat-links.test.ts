@@ -0,0 +1,72 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  generateLinkCode,
+  getLinkUrl,
+  isBotConfigured,
+  parseLinkCode,
+  safeEqual,
+} from "./chat-links";
+
+vi.mock("@/lib/firebase-admin", () => ({
+  adminDb: {
+    collection: vi.fn(),
+  },
+}));
+
+describe("generateLinkCode", () => {
+  it("should generate codes that parse back", () => {
+    const code = generateLinkCode();
+
+    expect(code).toMatch(/^[A-Z2-9]{8}$/);
+    expect(parseLinkCode(code)).toBe(code);
+  });
+});
+
+describe("parseLinkCode", () => {
+  it("should read the code of /start commands and plain messages", () => {
+    expect(parseLinkCode("/start ABCD2345")).toBe("ABCD2345");
+    expect(parseLinkCode("/start@OboAppBot ABCD2345")).toBe("ABCD2345");
+    expect(parseLinkCode("  abcd2345 ")).toBe("ABCD2345");
+  });
+
+  it("should return null for other text", () => {
+    expect(parseLinkCode("/start")).toBeNull();
+    expect(parseLinkCode("Здравейте")).toBeNull();
+    expect(parseLinkCode("ABCD0123")).toBeNull();
+    expect(parseLinkCode("ABCD2345 please")).toBeNull();
+  });
+});
+
+describe("getLinkUrl", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("should open the configured bots with the code", () => {
+    vi.stubEnv("TELEGRAM_BOT_USERNAME", "OboAppBot");
+    vi.stubEnv("VIBER_BOT_URI", "oboapp");
+
+    expect(getLinkUrl("telegram", "ABCD2345")).toBe(
+      "https://t.me/OboAppBot?start=ABCD2345"
+    );
+    expect(getLinkUrl("viber", "ABCD2345")).toBe(
+      "viber://pa?chatURI=oboapp&context=ABCD2345"
+    );
+  });
+
+  it("should tell which bots are configured", () => {
+    vi.stubEnv("TELEGRAM_BOT_USERNAME", "OboAppBot");
+    vi.stubEnv("VIBER_BOT_URI", "");
+
+    expect(isBotConfigured("telegram")).toBe(true);
+    expect(isBotConfigured("viber")).toBe(false);
+  });
+});
+
+describe("safeEqual", () => {
+  it("should compare strings of any length", () => {
+    expect(safeEqual("secret", "secret")).toBe(true);
+    expect(safeEqual("secret", "secreT")).toBe(false);
+    expect(safeEqual("secret", "secret2")).toBe(false);
+  });
+});
@@ -0,0 +1,192 @@
+import { randomInt, timingSafeEqual } from "node:crypto";
+import { adminDb } from "@/lib/firebase-admin";
+import type { ChatChannel } from "@/lib/types";
+
+/**
+ * Linking Telegram and Viber chats to a user's notifications: the settings
+ * page creates a one-time code (the chatLinkCodes collection, the document
+ * id is the code) that the user sends to the bot, whose webhook links the
+ * chat (the chatSubscriptions collection).
+ */
+
+export const LINK_CODE_TTL_MS = 15 * 60 * 1000;
+
+// Without the look-alike 0/O and 1/I, for codes typed by hand
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const CODE_LENGTH = 8;
+const CODE_PATTERN = new RegExp(`^[${CODE_ALPHABET}]{${CODE_LENGTH}}$`);
+
+export function generateLinkCode(): string {
+  let code = "";
+  for (let i = 0; i < CODE_LENGTH; i++) {
+    code += CODE_ALPHABET[randomInt(CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+/**
+ * Code in a chat message: "/start CODE" (also "/start@bot CODE" in groups)
+ * or the code alone. Null for any other text.
+ */
+export function parseLinkCode(text: string): string | null {
+  const match = /^(?:\/start(?:@\w+)?\s+)?(\S+)$/i.exec(text.trim());
+  const code = match?.[1].toUpperCase();
+  return code && CODE_PATTERN.test(code) ? code : null;
+}
+
+/**
+ * Whether users can link chats of a bot: it needs its username
+ * (TELEGRAM_BOT_USERNAME) or URI (VIBER_BOT_URI) for the deep links
+ */
+export function isBotConfigured(channel: ChatChannel): boolean {
+  return Boolean(
+    channel === "telegram"
+      ? process.env.TELEGRAM_BOT_USERNAME
+      : process.env.VIBER_BOT_URI
+  );
+}
+
+/**
+ * Deep link that opens the bot with the code
+ */
+export function getLinkUrl(channel: ChatChannel, code: string): string {
+  return channel === "telegram"
+    ? `https://t.me/${process.env.TELEGRAM_BOT_USERNAME}?start=${code}`
+    : `viber://pa?chatURI=${process.env.VIBER_BOT_URI}&context=${code}`;
+}
+
+/**
+ * Create a one-time code for the user to link a chat
+ */
+export async function createLinkCode(
+  userId: string,
+  channel: ChatChannel
+): Promise<{ code: string; expiresAt: Date }> {
+  const code = generateLinkCode();
+  const expiresAt = new Date(Date.now() + LINK_CODE_TTL_MS);
+
+  await adminDb.collection("chatLinkCodes").doc(code).set({
+    userId,
+    channel,
+    expiresAt,
+    createdAt: new Date(),
+  });
+
+  return { code, expiresAt };
+}
+
+/**
+ * Link a chat with a code sent to the bot. The code is used up; false when
+ * it is unknown, expired or for the other bot.
+ */
+export async function linkChat(
+  channel: ChatChannel,
+  code: string,
+  chatId: string,
+  displayName?: string
+): Promise<boolean> {
+  const codeRef = adminDb.collection("chatLinkCodes").doc(code);
+  const chatsRef = adminDb.collection("chatSubscriptions");
+
+  return adminDb.runTransaction(async (transaction) => {
+    const codeDoc = await transaction.get(codeRef);
+    const data = codeDoc.data();
+    if (!data || data.channel !== channel) {
+      return false;
+    }
+
+    // Linking the same chat again only renames it (transactions read
+    // everything before writing)
+    const existing = await transaction.get(
+      chatsRef
+        .where("userId", "==", data.userId)
+        .where("channel", "==", channel)
+        .where("chatId", "==", chatId)
+        .limit(1)
+    );
+
+    transaction.delete(codeRef);
+    const expiresAt = data.expiresAt?.toDate?.() ?? new Date(data.expiresAt);
+    if (expiresAt.getTime() < Date.now()) {
+      return false;
+    }
+
+    const chatRef = existing.empty ? chatsRef.doc() : existing.docs[0].ref;
+    transaction.set(
+      chatRef,
+      {
+        userId: data.userId,
+        channel,
+        chatId,
+        ...(displayName ? { displayName } : {}),
+        ...(existing.empty ? { createdAt: new Date() } : {}),
+      },
+      { merge: true }
+    );
+
+    return true;
+  });
+}
+
+/**
+ * Unlink a chat from all users, when it stops the bot. Returns the number
+ * of links removed.
+ */
+export async function unlinkChat(
+  channel: ChatChannel,
+  chatId: string
+): Promise<number> {
+  const snapshot = await adminDb
+    .collection("chatSubscriptions")
+    .where("channel", "==", channel)
+    .where("chatId", "==", chatId)
+    .get();
+
+  const batch = adminDb.batch();
+  snapshot.forEach((doc) => {
+    batch.delete(doc.ref);
+  });
+  await batch.commit();
+
+  return snapshot.size;
+}
+
+/**
+ * Whether a chat is linked to any user
+ */
+export async function isChatLinked(
+  channel: ChatChannel,
+  chatId: string
+): Promise<boolean> {
+  const snapshot = await adminDb
+    .collection("chatSubscriptions")
+    .where("channel", "==", channel)
+    .where("chatId", "==", chatId)
+    .limit(1)
+    .get();
+  return !snapshot.empty;
+}
+
+/**
+ * Constant-time comparison of webhook secrets and signatures
+ */
+export function safeEqual(a: string, b: string): boolean {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return bufferA.length === bufferB.length && timingSafeEqual(bufferA, bufferB);
+}
+
+/**
+ * Replies of the bots
+ */
+export function getBotReplies(appUrl: string) {
+  return {
+    linked:
+      "✅ Чатът е свързан с OboApp. Тук ще получавате съобщенията за вашите зони.",
+    alreadyLinked:
+      "Чатът е свързан с OboApp. Тук ще получавате съобщенията за вашите зони.",
+    invalidCode: `Кодът е невалиден или е изтекъл. Вземете нов код от настройките: ${appUrl}/settings`,
+    help: `Здравейте! За да получавате тук съобщенията за вашите зони, вземете код за свързване от настройките (${appUrl}/settings) и го изпратете тук.`,
+    unlinked: "Чатът е отвързан. Вече няма да получавате съобщения тук.",
+  };
+}
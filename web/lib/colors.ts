@@ -26,6 +26,8 @@ export const colors = {
   map: {
     /** Stroke color for map overlays */
     stroke: "#ffffff",
+    /** Color of resolved incidents */
+    resolved: "#95A5A6",
   },
 
   // UI colors
@@ -0,0 +1,131 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  buildAtomFeed,
+  buildGeoJsonFeed,
+  buildRssFeed,
+  isWithinRadius,
+  parseFeedQuery,
+} from "./feeds";
+import type { Message } from "./types";
+
+vi.mock("@/lib/firebase-admin", () => ({
+  adminDb: {
+    collection: vi.fn(),
+  },
+}));
+
+const createMessage = (overrides: Partial<Message> = {}): Message => ({
+  id: "msg1",
+  text: "Спиране на водата <ул. Оборище> & околностите",
+  source: "sofiyska-voda",
+  categories: ["water"],
+  createdAt: "2025-03-01T08:00:00.000Z",
+  finalizedAt: "2025-03-01T08:05:00.000Z",
+  activeUntil: "2025-03-02T18:00:00.000Z",
+  geoJson: {
+    type: "FeatureCollection",
+    features: [
+      {
+        type: "Feature",
+        geometry: { type: "Point", coordinates: [23.3394, 42.7035] },
+        properties: { address: "ул. Оборище 25" },
+      },
+    ],
+  },
+  ...overrides,
+});
+
+const parse = (params: Record<string, string>) =>
+  parseFeedQuery(new URLSearchParams(params));
+
+describe("parseFeedQuery", () => {
+  it("should parse the source and the circle", () => {
+    expect(
+      parse({ source: "toplo-bg", lat: "42.7", lng: "23.33", radius: "300" })
+    ).toEqual({
+      source: "toplo-bg",
+      center: { lat: 42.7, lng: 23.33, radius: 300 },
+    });
+  });
+
+  it("should default and cap the radius", () => {
+    expect(parse({ lat: "42.7", lng: "23.33" }).center?.radius).toBe(500);
+    expect(
+      parse({ lat: "42.7", lng: "23.33", radius: "50000" }).center?.radius
+    ).toBe(10000);
+  });
+
+  it("should reject incomplete or malformed circles", () => {
+    expect(() => parse({ lat: "42.7" })).toThrow("Invalid center");
+    expect(() => parse({ lat: "142.7", lng: "23.33" })).toThrow(
+      "Invalid lat"
+    );
+    expect(() => parse({ lat: "42.7", lng: "23.33", radius: "-1" })).toThrow(
+      "Invalid radius"
+    );
+  });
+});
+
+describe("isWithinRadius", () => {
+  it("should match messages with features inside the circle", () => {
+    const message = createMessage();
+
+    expect(
+      isWithinRadius(message, { lat: 42.704, lng: 23.3394, radius: 100 })
+    ).toBe(true);
+    expect(
+      isWithinRadius(message, { lat: 42.72, lng: 23.3394, radius: 100 })
+    ).toBe(false);
+  });
+});
+
+describe("buildGeoJsonFeed", () => {
+  it("should copy message metadata to feature properties", () => {
+    const feed = buildGeoJsonFeed([createMessage()]);
+
+    expect(feed.type).toBe("FeatureCollection");
+    expect(feed.features).toHaveLength(1);
+    expect(feed.features[0].properties).toMatchObject({
+      address: "ул. Оборище 25",
+      messageId: "msg1",
+      messageUrl: "https://oboapp.online/messages/msg1",
+      source: "sofiyska-voda",
+      categories: ["water"],
+      activeUntil: "2025-03-02T18:00:00.000Z",
+    });
+  });
+});
+
+describe("buildRssFeed", () => {
+  it("should build escaped items linking to the message page", () => {
+    const feed = buildRssFeed(
+      [createMessage()],
+      "https://oboapp.online/api/feed.rss"
+    );
+
+    expect(feed).toContain('<rss version="2.0"');
+    expect(feed).toContain(
+      "<link>https://oboapp.online/messages/msg1</link>"
+    );
+    expect(feed).toContain("&lt;ул. Оборище&gt; &amp; околностите");
+    expect(feed).toContain("<pubDate>Sat, 01 Mar 2025 08:05:00 GMT</pubDate>");
+    expect(feed).toContain("<category>Софийска вода</category>");
+  });
+});
+
+describe("buildAtomFeed", () => {
+  it("should build entries and use the latest message as updated", () => {
+    const feed = buildAtomFeed(
+      [
+        createMessage(),
+        createMessage({ id: "msg2", finalizedAt: "2025-03-03T10:00:00.000Z" }),
+      ],
+      "https://oboapp.online/api/feed.atom"
+    );
+
+    expect(feed).toContain('<feed xmlns="http://www.w3.org/2005/Atom">');
+    expect(feed).toContain("<updated>2025-03-03T10:00:00.000Z</updated>");
+    expect(feed).toContain('<link href="https://oboapp.online/messages/msg2"/>');
+    expect(feed.match(/<entry>/g)).toHaveLength(2);
+  });
+});
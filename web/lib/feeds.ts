@@ -0,0 +1,244 @@
+import * as turf from "@turf/turf";
+import sources from "@/lib/sources.json";
+import { summarizeMessageText } from "@/lib/get-message";
+import { getAllMessages, getRelevanceCutoff } from "@/lib/get-messages";
+import type { Bbox } from "@oboapp/core";
+import type { GeoJSONFeature, Message } from "@/lib/types";
+
+const DEFAULT_RADIUS = 500; // meters
+const MAX_RADIUS = 10000; // meters
+
+const FEED_TITLE = "OboApp - актуални събития";
+const FEED_DESCRIPTION = "Ремонти, аварии и спирания в София";
+
+/**
+ * Filters of the feeds: a source and/or a circle around a point
+ */
+export interface FeedQuery {
+  source?: string;
+  center?: {
+    lat: number;
+    lng: number;
+    radius: number; // meters
+  };
+}
+
+export function getBaseUrl(): string {
+  return process.env.NEXT_PUBLIC_BASE_URL || "https://oboapp.online";
+}
+
+function parseCoordinate(value: string, name: string, max: number): number {
+  const coordinate = Number.parseFloat(value);
+  if (Number.isNaN(coordinate) || Math.abs(coordinate) > max) {
+    throw new Error(`Invalid ${name}`);
+  }
+  return coordinate;
+}
+
+/**
+ * Parse `source` and `lat` / `lng` / `radius` (meters, default 500,
+ * max 10 km). Throws "Invalid <param>" errors for malformed values.
+ */
+export function parseFeedQuery(params: URLSearchParams): FeedQuery {
+  const query: FeedQuery = {};
+  const lat = params.get("lat");
+  const lng = params.get("lng");
+  const radius = params.get("radius");
+
+  if (params.get("source")) {
+    query.source = params.get("source")!;
+  }
+
+  if (lat || lng || radius) {
+    if (!lat || !lng) {
+      throw new Error("Invalid center");
+    }
+    const parsedRadius = radius ? Number.parseFloat(radius) : DEFAULT_RADIUS;
+    if (Number.isNaN(parsedRadius) || parsedRadius <= 0) {
+      throw new Error("Invalid radius");
+    }
+    query.center = {
+      lat: parseCoordinate(lat, "lat", 90),
+      lng: parseCoordinate(lng, "lng", 180),
+      radius: Math.min(parsedRadius, MAX_RADIUS),
+    };
+  }
+
+  return query;
+}
+
+function getCircle(center: NonNullable<FeedQuery["center"]>) {
+  return turf.circle(
+    turf.point([center.lng, center.lat]),
+    center.radius / 1000, // Convert meters to kilometers
+    { units: "kilometers" }
+  );
+}
+
+/**
+ * Bounding box of the feed circle, to narrow the messages query
+ */
+export function getFeedBbox(center: NonNullable<FeedQuery["center"]>): Bbox {
+  return turf.bbox(getCircle(center)) as Bbox;
+}
+
+/**
+ * Check if any feature of a message intersects the feed circle
+ */
+export function isWithinRadius(
+  message: Message,
+  center: NonNullable<FeedQuery["center"]>
+): boolean {
+  const circle = getCircle(center);
+  return (message.geoJson?.features ?? []).some((feature) => {
+    try {
+      return turf.booleanIntersects(feature, circle);
+    } catch {
+      return false;
+    }
+  });
+}
+
+/**
+ * Relevant messages for a feed (same relevance logic as /api/messages),
+ * newest first
+ */
+export async function getFeedMessages(query: FeedQuery): Promise<Message[]> {
+  const { center } = query;
+  const messages = await getAllMessages({
+    from: getRelevanceCutoff(),
+    source: query.source,
+    bbox: center ? getFeedBbox(center) : undefined,
+  });
+
+  return messages
+    .filter((message) => !center || isWithinRadius(message, center))
+    .sort((a, b) => getPublishedAt(b).getTime() - getPublishedAt(a).getTime());
+}
+
+function getMessageUrl(message: Message): string {
+  return `${getBaseUrl()}/messages/${message.id}`;
+}
+
+function getSourceName(sourceId?: string): string | undefined {
+  return sources.find((source) => source.id === sourceId)?.name ?? sourceId;
+}
+
+function getPublishedAt(message: Message): Date {
+  return new Date(message.finalizedAt ?? message.createdAt);
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;")
+    .replaceAll("'", "&apos;");
+}
+
+/**
+ * One FeatureCollection with the features of all messages; message
+ * metadata is copied to the properties of each feature
+ */
+export function buildGeoJsonFeed(messages: Message[]) {
+  const features: GeoJSONFeature[] = messages.flatMap((message) =>
+    (message.geoJson?.features ?? []).map((feature) => ({
+      ...feature,
+      properties: {
+        ...feature.properties,
+        messageId: message.id,
+        messageUrl: getMessageUrl(message),
+        text: message.text,
+        source: message.source,
+        sourceUrl: message.sourceUrl,
+        categories: message.categories,
+        createdAt: message.createdAt,
+        activeFrom: message.activeFrom,
+        activeUntil: message.activeUntil,
+        resolvedAt: message.resolvedAt,
+      },
+    }))
+  );
+
+  return { type: "FeatureCollection" as const, features };
+}
+
+/**
+ * RSS 2.0 feed, one item per message
+ */
+export function buildRssFeed(messages: Message[], selfUrl: string): string {
+  const items = messages.map((message) => {
+    const url = getMessageUrl(message);
+    const source = getSourceName(message.source);
+    const title = escapeXml(summarizeMessageText(message.text, 70));
+    return [
+      "    <item>",
+      `      <title>${title}</title>`,
+      `      <link>${escapeXml(url)}</link>`,
+      `      <guid isPermaLink="true">${escapeXml(url)}</guid>`,
+      `      <description>${escapeXml(message.text)}</description>`,
+      `      <pubDate>${getPublishedAt(message).toUTCString()}</pubDate>`,
+      ...(source ? [`      <category>${escapeXml(source)}</category>`] : []),
+      "    </item>",
+    ].join("\n");
+  });
+
+  const self = escapeXml(selfUrl);
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">',
+    "  <channel>",
+    `    <title>${escapeXml(FEED_TITLE)}</title>`,
+    `    <link>${escapeXml(getBaseUrl())}</link>`,
+    `    <description>${escapeXml(FEED_DESCRIPTION)}</description>`,
+    "    <language>bg</language>",
+    `    <atom:link href="${self}" rel="self" type="application/rss+xml"/>`,
+    ...items,
+    "  </channel>",
+    "</rss>",
+    "",
+  ].join("\n");
+}
+
+/**
+ * Atom 1.0 feed, one entry per message
+ */
+export function buildAtomFeed(messages: Message[], selfUrl: string): string {
+  const updatedAt = messages.reduce(
+    (latest, message) =>
+      getPublishedAt(message) > latest ? getPublishedAt(message) : latest,
+    new Date(0)
+  );
+
+  const entries = messages.map((message) => {
+    const url = getMessageUrl(message);
+    const source = getSourceName(message.source);
+    const title = escapeXml(summarizeMessageText(message.text, 70));
+    return [
+      "  <entry>",
+      `    <title>${title}</title>`,
+      `    <link href="${escapeXml(url)}"/>`,
+      `    <id>${escapeXml(url)}</id>`,
+      `    <updated>${getPublishedAt(message).toISOString()}</updated>`,
+      `    <content type="text">${escapeXml(message.text)}</content>`,
+      ...(source ? [`    <category term="${escapeXml(source)}"/>`] : []),
+      "  </entry>",
+    ].join("\n");
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <title>${escapeXml(FEED_TITLE)}</title>`,
+    `  <subtitle>${escapeXml(FEED_DESCRIPTION)}</subtitle>`,
+    `  <link href="${escapeXml(getBaseUrl())}"/>`,
+    `  <link href="${escapeXml(selfUrl)}" rel="self"/>`,
+    `  <id>${escapeXml(selfUrl)}</id>`,
+    `  <updated>${updatedAt.toISOString()}</updated>`,
+    "  <author><name>OboApp</name></author>",
+    ...entries,
+    "</feed>",
+    "",
+  ].join("\n");
+}
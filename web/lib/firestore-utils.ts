@@ -2,15 +2,47 @@
  * Shared Firestore utility functions
  */
 
+import { convertTimestamp } from "@oboapp/core";
+import type { Message } from "./types";
+
 /**
- * Convert Firestore timestamp to ISO string
+ * Convert a stored message document to a Message. Complex fields are
+ * stored as JSON strings by ingest (see processFieldsForFirestore).
  */
-export function convertTimestamp(timestamp: any): string {
-  if (timestamp?._seconds !== undefined) {
-    return new Date(timestamp._seconds * 1000).toISOString();
-  }
-  if (timestamp?.toDate) {
-    return timestamp.toDate().toISOString();
-  }
-  return timestamp || new Date().toISOString();
+export function messageFromDocument(
+  id: string,
+  data: Record<string, any>
+): Message {
+  return {
+    id,
+    text: data.text,
+    addresses: data.addresses ? JSON.parse(data.addresses) : [],
+    extractedData: data.extractedData
+      ? JSON.parse(data.extractedData)
+      : undefined,
+    geoJson: data.geoJson ? JSON.parse(data.geoJson) : undefined,
+    createdAt: convertTimestamp(data.createdAt),
+    crawledAt: data.crawledAt ? convertTimestamp(data.crawledAt) : undefined,
+    finalizedAt: data.finalizedAt
+      ? convertTimestamp(data.finalizedAt)
+      : undefined,
+    source: data.source,
+    categories: data.categories,
+    sourceUrl: data.sourceUrl,
+    sourceRevision: data.sourceRevision,
+    previousMessageId: data.previousMessageId,
+    supersededBy: data.supersededBy,
+    sourceDiff: data.sourceDiff ? JSON.parse(data.sourceDiff) : undefined,
+    resolvedAt: data.resolvedAt
+      ? convertTimestamp(data.resolvedAt)
+      : undefined,
+    activeFrom: data.activeFrom
+      ? convertTimestamp(data.activeFrom)
+      : undefined,
+    activeUntil: data.activeUntil
+      ? convertTimestamp(data.activeUntil)
+      : undefined,
+    geocodingConfidence: data.geocodingConfidence,
+    reviewStatus: data.reviewStatus,
+  };
 }
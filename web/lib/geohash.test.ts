@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { MAX_GEOHASH_CELLS, selectGeohashCells } from "./geohash";
+
+describe("selectGeohashCells", () => {
+  it("should use the finest precision for small boxes", () => {
+    const cells = selectGeohashCells([23.33, 42.69, 23.34, 42.7]);
+
+    expect(cells).not.toBeNull();
+    expect(cells!.every((cell) => cell.length === 6)).toBe(true);
+  });
+
+  it("should fall back to coarser cells for large boxes", () => {
+    // The whole of Sofia
+    const cells = selectGeohashCells([23.1, 42.55, 23.55, 42.8]);
+
+    expect(cells).not.toBeNull();
+    expect(cells!.length).toBeLessThanOrEqual(MAX_GEOHASH_CELLS);
+    expect(cells![0].length).toBeLessThan(6);
+  });
+
+  it("should not narrow boxes larger than the coarsest cells", () => {
+    expect(selectGeohashCells([-10, 35, 40, 60])).toBeNull();
+  });
+});
@@ -0,0 +1,26 @@
+import {
+  GEOHASH_PRECISIONS,
+  countGeohashesForBbox,
+  geohashesForBbox,
+  type Bbox,
+} from "@oboapp/core";
+
+/**
+ * Firestore allows at most 30 values in an `array-contains-any` filter
+ */
+export const MAX_GEOHASH_CELLS = 30;
+
+/**
+ * Cells to query for a bounding box: those of the finest stored precision
+ * that fit in a single `array-contains-any` filter. Null when the box is too
+ * large even for the coarsest precision and can't be narrowed by geohash.
+ */
+export function selectGeohashCells(bbox: Bbox): string[] | null {
+  for (const precision of [...GEOHASH_PRECISIONS].reverse()) {
+    // Count before listing, large boxes have millions of fine cells
+    if (countGeohashesForBbox(bbox, precision) <= MAX_GEOHASH_CELLS) {
+      return geohashesForBbox(bbox, precision);
+    }
+  }
+  return null;
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it, vi } from "vitest";
+import { summarizeMessageText } from "./get-message";
+
+vi.mock("@/lib/firebase-admin", () => ({
+  adminDb: {
+    collection: vi.fn(),
+  },
+}));
+
+describe("summarizeMessageText", () => {
+  it("should collapse whitespace", () => {
+    expect(summarizeMessageText("Спиране\n\nна   водата ", 70)).toBe(
+      "Спиране на водата"
+    );
+  });
+
+  it("should truncate long texts with an ellipsis", () => {
+    const summary = summarizeMessageText(
+      "Ремонт на ул. Оборище от ул. Граф Игнатиев до бул. Васил Левски",
+      20
+    );
+
+    expect(summary).toBe("Ремонт на ул. Обори…");
+    expect(summary.length).toBe(20);
+  });
+});
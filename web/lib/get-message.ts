@@ -0,0 +1,30 @@
+import { cache } from "react";
+import { adminDb } from "@/lib/firebase-admin";
+import { messageFromDocument } from "@/lib/firestore-utils";
+import type { Message } from "@/lib/types";
+
+/**
+ * Load a single message by id, regardless of its relevance window.
+ * Returns null when the message doesn't exist. Cached per server request,
+ * so that the metadata and the page of a message share one read.
+ */
+export const getMessageById = cache(
+  async (id: string): Promise<Message | null> => {
+    const doc = await adminDb.collection("messages").doc(id).get();
+    if (!doc.exists) {
+      return null;
+    }
+    return messageFromDocument(doc.id, doc.data() ?? {});
+  }
+);
+
+/**
+ * Short plain-text summary of a message for titles and link previews
+ */
+export function summarizeMessageText(text: string, maxLength: number): string {
+  const normalized = text.replaceAll(/\s+/g, " ").trim();
+  if (normalized.length <= maxLength) {
+    return normalized;
+  }
+  return `${normalized.slice(0, maxLength - 1).trimEnd()}…`;
+}
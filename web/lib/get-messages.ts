@@ -0,0 +1,168 @@
+import { adminDb } from "@/lib/firebase-admin";
+import { messageFromDocument } from "@/lib/firestore-utils";
+import { selectGeohashCells } from "@/lib/geohash";
+import {
+  MAX_MESSAGES_LIMIT,
+  MessagesQueryError,
+  intersectsBbox,
+  type MessagesQuery,
+} from "@/lib/messages-query";
+import type { Message } from "@/lib/types";
+
+const DEFAULT_RELEVANCE_DAYS = 7;
+
+export interface MessagesPage {
+  messages: Message[];
+  nextCursor: string | null;
+}
+
+/**
+ * Start of the relevance period: messages whose validity window ended
+ * before it are no longer shown (MESSAGE_RELEVANCE_DAYS, default 7)
+ */
+export function getRelevanceCutoff(): Date {
+  const relevanceDays = process.env.MESSAGE_RELEVANCE_DAYS
+    ? Number.parseInt(process.env.MESSAGE_RELEVANCE_DAYS, 10)
+    : DEFAULT_RELEVANCE_DAYS;
+
+  const cutoffDate = new Date();
+  cutoffDate.setDate(cutoffDate.getDate() - relevanceDays);
+  return cutoffDate;
+}
+
+/**
+ * Check if a resolved message is still shown: resolved incidents stay
+ * visible (greyed out) until the cutoff
+ */
+function isResolvedBeforeCutoff(message: Message, cutoffDate: Date): boolean {
+  return Boolean(
+    message.resolvedAt && new Date(message.resolvedAt) < cutoffDate
+  );
+}
+
+/**
+ * Filters Firestore can't apply together with the activeUntil range:
+ * the start of the validity window and the exact bbox intersection. The
+ * category is checked here too, for the bbox queries that can't use it.
+ */
+function matchesQuery(message: Message, query: MessagesQuery): boolean {
+  if (!message.geoJson) {
+    return false;
+  }
+  if (isResolvedBeforeCutoff(message, query.from)) {
+    return false;
+  }
+  if (
+    query.to &&
+    message.activeFrom &&
+    new Date(message.activeFrom) > query.to
+  ) {
+    return false;
+  }
+  if (query.category && !message.categories?.includes(query.category)) {
+    return false;
+  }
+  return !query.bbox || intersectsBbox(message.geoJson, query.bbox);
+}
+
+/**
+ * Build the Firestore query. Messages are ordered and paged by activeUntil
+ * (latest first); bbox queries are narrowed by the geohash cells stored on
+ * messages.
+ */
+async function buildFirestoreQuery(query: MessagesQuery) {
+  const messagesRef = adminDb.collection("messages");
+
+  // activeUntil is the end of the message validity window, computed
+  // during ingest from timespans and crawler dates
+  let firestoreQuery = messagesRef.where("activeUntil", ">=", query.from);
+
+  if (query.source) {
+    firestoreQuery = firestoreQuery.where("source", "==", query.source);
+  }
+  // Firestore allows a single array filter per query, the geohash cells
+  // take precedence over the categories
+  const cells = query.bbox ? selectGeohashCells(query.bbox) : null;
+  if (query.category && !cells) {
+    firestoreQuery = firestoreQuery.where(
+      "categories",
+      "array-contains",
+      query.category
+    );
+  }
+  if (cells) {
+    firestoreQuery = firestoreQuery.where(
+      "geohashes",
+      "array-contains-any",
+      cells
+    );
+  }
+
+  firestoreQuery = firestoreQuery
+    .orderBy("activeUntil", "desc")
+    .limit(query.limit);
+
+  if (query.cursor) {
+    const cursorDoc = await messagesRef.doc(query.cursor).get();
+    if (!cursorDoc.exists) {
+      throw new MessagesQueryError("Invalid cursor");
+    }
+    firestoreQuery = firestoreQuery.startAfter(cursorDoc);
+  }
+
+  return firestoreQuery;
+}
+
+/**
+ * Load a page of messages matching the query, in the order of the cursor:
+ * by the end of the validity window, latest first
+ */
+export async function getMessages(query: MessagesQuery): Promise<MessagesPage> {
+  const snapshot = await (await buildFirestoreQuery(query)).get();
+
+  const allMessages: Message[] = [];
+  snapshot.forEach((doc) => {
+    const data = doc.data();
+    // Skip messages replaced by a newer revision of the same source
+    if (data.supersededBy) {
+      return;
+    }
+    allMessages.push(messageFromDocument(doc.id, data));
+  });
+
+  // Include matching messages with valid GeoJSON
+  const messages = allMessages.filter((message) =>
+    matchesQuery(message, query)
+  );
+
+  // A full page means there may be more; filtered out messages still
+  // advance the cursor
+  const nextCursor =
+    snapshot.size === query.limit
+      ? snapshot.docs[snapshot.docs.length - 1].id
+      : null;
+
+  return { messages, nextCursor };
+}
+
+/**
+ * Load all messages matching the query, following the cursor page by page
+ */
+export async function getAllMessages(
+  query: Omit<MessagesQuery, "cursor" | "limit">
+): Promise<Message[]> {
+  const messages: Message[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const page = await getMessages({
+      ...query,
+      cursor,
+      limit: MAX_MESSAGES_LIMIT,
+    });
+    messages.push(...page.messages);
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor);
+
+  return messages;
+}
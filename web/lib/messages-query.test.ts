@@ -0,0 +1,132 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_MESSAGES_LIMIT,
+  MAX_MESSAGES_LIMIT,
+  MessagesQueryError,
+  intersectsBbox,
+  parseMessagesQuery,
+} from "./messages-query";
+import type { GeoJSONFeatureCollection } from "./types";
+
+const defaultFrom = new Date("2025-03-01T00:00:00Z");
+const parse = (params: Record<string, string>) =>
+  parseMessagesQuery(new URLSearchParams(params), defaultFrom);
+
+describe("parseMessagesQuery", () => {
+  it("should default to the relevance period and the default limit", () => {
+    expect(parse({})).toEqual({
+      from: defaultFrom,
+      limit: DEFAULT_MESSAGES_LIMIT,
+    });
+  });
+
+  it("should parse all filters", () => {
+    expect(
+      parse({
+        bbox: "23.3,42.6,23.4,42.7",
+        source: "toplo-bg",
+        category: "heating",
+        from: "2025-03-02T00:00:00Z",
+        to: "2025-03-03T00:00:00Z",
+        cursor: "msg1",
+        limit: "50",
+      })
+    ).toEqual({
+      bbox: [23.3, 42.6, 23.4, 42.7],
+      source: "toplo-bg",
+      category: "heating",
+      from: new Date("2025-03-02T00:00:00Z"),
+      to: new Date("2025-03-03T00:00:00Z"),
+      cursor: "msg1",
+      limit: 50,
+    });
+  });
+
+  it("should use activeAt as both ends of the range", () => {
+    const query = parse({ activeAt: "2025-03-02T12:00:00Z" });
+
+    expect(query.from).toEqual(new Date("2025-03-02T12:00:00Z"));
+    expect(query.to).toEqual(new Date("2025-03-02T12:00:00Z"));
+  });
+
+  it("should cap the limit", () => {
+    expect(parse({ limit: "10000" }).limit).toBe(MAX_MESSAGES_LIMIT);
+  });
+
+  it("should reject malformed values", () => {
+    expect(() => parse({ bbox: "23.3,42.6,23.4" })).toThrow("Invalid bbox");
+    expect(() => parse({ bbox: "23.4,42.6,23.3,42.7" })).toThrow(
+      "Invalid bbox"
+    );
+    expect(() => parse({ activeAt: "yesterday" })).toThrow(
+      "Invalid activeAt"
+    );
+    expect(() => parse({ limit: "0" })).toThrow("Invalid limit");
+    expect(() => parse({ category: "roadworks" })).toThrow(
+      "Invalid category"
+    );
+    expect(() =>
+      parse({ from: "2025-03-03T00:00:00Z", to: "2025-03-02T00:00:00Z" })
+    ).toThrow("Invalid range");
+  });
+
+  it("should throw a MessagesQueryError for malformed values", () => {
+    expect(() => parse({ limit: "abc" })).toThrow(MessagesQueryError);
+  });
+});
+
+describe("intersectsBbox", () => {
+  const line: GeoJSONFeatureCollection = {
+    type: "FeatureCollection",
+    features: [
+      {
+        type: "Feature",
+        geometry: {
+          type: "LineString",
+          coordinates: [
+            [23.3, 42.69],
+            [23.36, 42.69],
+          ],
+        },
+        properties: {},
+      },
+    ],
+  };
+
+  it("should match features crossing the bbox without a vertex in it", () => {
+    expect(intersectsBbox(line, [23.32, 42.68, 23.34, 42.7])).toBe(true);
+  });
+
+  it("should not match features outside the bbox", () => {
+    expect(intersectsBbox(line, [23.32, 42.7, 23.34, 42.71])).toBe(false);
+  });
+
+  it("should check each part of multi-part features", () => {
+    const lines: GeoJSONFeatureCollection = {
+      type: "FeatureCollection",
+      features: [
+        {
+          type: "Feature",
+          geometry: {
+            type: "MultiLineString",
+            coordinates: [
+              [
+                [23.3, 42.69],
+                [23.31, 42.69],
+              ],
+              [
+                [23.35, 42.69],
+                [23.36, 42.69],
+              ],
+            ],
+          },
+          properties: {},
+        },
+      ],
+    };
+
+    expect(intersectsBbox(lines, [23.305, 42.68, 23.315, 42.7])).toBe(true);
+    // Between the parts
+    expect(intersectsBbox(lines, [23.32, 42.68, 23.34, 42.7])).toBe(false);
+  });
+});
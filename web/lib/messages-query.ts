@@ -0,0 +1,181 @@
+import { isMessageCategory, type Bbox } from "@oboapp/core";
+import type {
+  GeoJSONFeatureCollection,
+  GeoJSONGeometry,
+  MessageCategory,
+} from "./types";
+
+export const DEFAULT_MESSAGES_LIMIT = 200;
+export const MAX_MESSAGES_LIMIT = 500;
+
+/**
+ * Filters of GET /api/messages
+ */
+export interface MessagesQuery {
+  bbox?: Bbox;
+  source?: string;
+  category?: MessageCategory; // One of the categories of the message
+  from: Date; // Messages active until at least this time
+  to?: Date; // Messages active from at most this time
+  cursor?: string; // Id of the last message of the previous page
+  limit: number;
+}
+
+/**
+ * Malformed query parameter or cursor of GET /api/messages
+ */
+export class MessagesQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MessagesQueryError";
+  }
+}
+
+function parseDate(value: string, name: string): Date {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new MessagesQueryError(`Invalid ${name}`);
+  }
+  return date;
+}
+
+function parseBbox(value: string): Bbox {
+  const parts = value.split(",").map((part) => Number.parseFloat(part));
+  const [minLng, minLat, maxLng, maxLat] = parts;
+  if (
+    parts.length !== 4 ||
+    parts.some((part) => Number.isNaN(part)) ||
+    minLng > maxLng ||
+    minLat > maxLat ||
+    minLng < -180 ||
+    maxLng > 180 ||
+    minLat < -90 ||
+    maxLat > 90
+  ) {
+    throw new MessagesQueryError("Invalid bbox");
+  }
+  return [minLng, minLat, maxLng, maxLat];
+}
+
+function parseLimit(value: string | null): number {
+  if (value === null) {
+    return DEFAULT_MESSAGES_LIMIT;
+  }
+  const limit = Number.parseInt(value, 10);
+  if (Number.isNaN(limit) || limit < 1) {
+    throw new MessagesQueryError("Invalid limit");
+  }
+  return Math.min(limit, MAX_MESSAGES_LIMIT);
+}
+
+/**
+ * Parse the query parameters of GET /api/messages:
+ * - `bbox=minLng,minLat,maxLng,maxLat`
+ * - `source`, `category`
+ * - `activeAt` (ISO date) or a `from` / `to` range; without them messages
+ *   active since `defaultFrom` (the relevance period) are returned
+ * - `cursor` (the `nextCursor` of the previous page) and `limit`
+ * Throws a MessagesQueryError ("Invalid <param>") for malformed values.
+ */
+export function parseMessagesQuery(
+  params: URLSearchParams,
+  defaultFrom: Date
+): MessagesQuery {
+  const bbox = params.get("bbox");
+  const activeAt = params.get("activeAt");
+  const from = params.get("from");
+  const to = params.get("to");
+
+  const query: MessagesQuery = {
+    from: defaultFrom,
+    limit: parseLimit(params.get("limit")),
+  };
+
+  if (bbox) {
+    query.bbox = parseBbox(bbox);
+  }
+  if (params.get("source")) {
+    query.source = params.get("source")!;
+  }
+  const category = params.get("category");
+  if (category) {
+    if (!isMessageCategory(category)) {
+      throw new MessagesQueryError("Invalid category");
+    }
+    query.category = category;
+  }
+  if (params.get("cursor")) {
+    query.cursor = params.get("cursor")!;
+  }
+
+  if (activeAt) {
+    const date = parseDate(activeAt, "activeAt");
+    query.from = date;
+    query.to = date;
+  } else {
+    if (from) {
+      query.from = parseDate(from, "from");
+    }
+    if (to) {
+      query.to = parseDate(to, "to");
+    }
+  }
+
+  if (query.to && query.to < query.from) {
+    throw new MessagesQueryError("Invalid range");
+  }
+
+  return query;
+}
+
+// Positions of each part of a geometry (the parts of Multi* geometries and
+// the geometries of a GeometryCollection)
+function geometryParts(geometry: GeoJSONGeometry): [number, number][][] {
+  switch (geometry.type) {
+    case "Point":
+      return [[geometry.coordinates]];
+    case "MultiPoint":
+      return geometry.coordinates.map((point) => [point]);
+    case "LineString":
+      return [geometry.coordinates];
+    case "MultiLineString":
+      return geometry.coordinates;
+    case "Polygon":
+      return [geometry.coordinates.flat()];
+    case "MultiPolygon":
+      return geometry.coordinates.map((polygon) => polygon.flat());
+    case "GeometryCollection":
+      return geometry.geometries.flatMap(geometryParts);
+    default:
+      return [];
+  }
+}
+
+/**
+ * Check whether the bounding box of any feature part intersects the given
+ * bbox. Geohash cells only narrow the Firestore query, this is the exact
+ * check.
+ */
+export function intersectsBbox(
+  geoJson: GeoJSONFeatureCollection,
+  bbox: Bbox
+): boolean {
+  const [minLng, minLat, maxLng, maxLat] = bbox;
+
+  return geoJson.features.some((feature) => {
+    const parts = feature.geometry ? geometryParts(feature.geometry) : [];
+    return parts.some((positions) => {
+      if (positions.length === 0) {
+        return false;
+      }
+      const lngs = positions.map(([lng]) => lng);
+      const lats = positions.map(([, lat]) => lat);
+      return (
+        Math.min(...lngs) <= maxLng &&
+        Math.max(...lngs) >= minLng &&
+        Math.min(...lats) <= maxLat &&
+        Math.max(...lats) >= minLat
+      );
+    });
+  });
+}
@@ -0,0 +1,108 @@
+import { describe, expect, it, vi } from "vitest";
+import { moveFeature, parseReviewAction } from "./review-queue";
+import type { GeoJSONFeatureCollection, GeoJSONPoint } from "./types";
+
+vi.mock("@/lib/firebase-admin", () => ({
+  adminDb: {
+    collection: vi.fn(),
+  },
+}));
+
+const geoJson: GeoJSONFeatureCollection = {
+  type: "FeatureCollection",
+  features: [
+    {
+      type: "Feature",
+      geometry: { type: "Point", coordinates: [23.4, 42.75] },
+      properties: { feature_type: "pin", address: "ул. Шипка 6" },
+    },
+    {
+      type: "Feature",
+      geometry: {
+        type: "LineString",
+        coordinates: [
+          [23.33, 42.69],
+          [23.34, 42.7],
+        ],
+      },
+      properties: { feature_type: "street_closure" },
+    },
+  ],
+};
+
+describe("parseReviewAction", () => {
+  it("should accept the review actions", () => {
+    expect(parseReviewAction({ action: "accept" })).toEqual({
+      action: "accept",
+    });
+    expect(parseReviewAction({ action: "reject" })).toEqual({
+      action: "reject",
+    });
+    expect(
+      parseReviewAction({
+        action: "move",
+        featureIndex: 0,
+        coordinates: { lat: 42.69, lng: 23.33 },
+      })
+    ).toEqual({
+      action: "move",
+      featureIndex: 0,
+      coordinates: { lat: 42.69, lng: 23.33 },
+    });
+  });
+
+  it("should reject unknown actions", () => {
+    expect(() => parseReviewAction({ action: "delete" })).toThrow(
+      "Invalid action"
+    );
+    expect(() => parseReviewAction(null)).toThrow("Invalid action");
+  });
+
+  it("should reject moves without a feature or valid coordinates", () => {
+    expect(() =>
+      parseReviewAction({
+        action: "move",
+        featureIndex: -1,
+        coordinates: { lat: 42.69, lng: 23.33 },
+      })
+    ).toThrow("Invalid featureIndex");
+    expect(() =>
+      parseReviewAction({
+        action: "move",
+        featureIndex: 0,
+        coordinates: { lat: "42.69", lng: 23.33 },
+      })
+    ).toThrow("Invalid coordinates");
+    expect(() =>
+      parseReviewAction({
+        action: "move",
+        featureIndex: 0,
+        coordinates: { lat: 42.69, lng: 200 },
+      })
+    ).toThrow("Invalid coordinates");
+  });
+});
+
+describe("moveFeature", () => {
+  it("should move a pin and keep the other features", () => {
+    const moved = moveFeature(geoJson, 0, { lat: 42.69, lng: 23.33 });
+
+    expect(moved.features[0]).toEqual({
+      ...geoJson.features[0],
+      geometry: { type: "Point", coordinates: [23.33, 42.69] },
+    });
+    expect(moved.features[1]).toBe(geoJson.features[1]);
+    expect((geoJson.features[0].geometry as GeoJSONPoint).coordinates).toEqual([
+      23.4, 42.75,
+    ]);
+  });
+
+  it("should only move points", () => {
+    expect(() => moveFeature(geoJson, 1, { lat: 42.69, lng: 23.33 })).toThrow(
+      "Invalid featureIndex"
+    );
+    expect(() => moveFeature(geoJson, 5, { lat: 42.69, lng: 23.33 })).toThrow(
+      "Invalid featureIndex"
+    );
+  });
+});
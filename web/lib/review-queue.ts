@@ -0,0 +1,231 @@
+import { FieldValue } from "firebase-admin/firestore";
+import { adminDb } from "@/lib/firebase-admin";
+import {
+  GEOHASH_PRECISIONS,
+  convertTimestamp,
+  encodeGeohash,
+} from "@oboapp/core";
+import type {
+  Address,
+  GeoJSONFeatureCollection,
+  ReviewQueueEntry,
+} from "@/lib/types";
+
+/**
+ * Decision of an admin on a message in the review queue:
+ * - accept: the locations are right, notifications can go out
+ * - reject: the locations are wrong, the message is removed from the map
+ * - move: put a pin at the right coordinates (the review stays pending)
+ */
+export type ReviewAction =
+  | { action: "accept" }
+  | { action: "reject" }
+  | {
+      action: "move";
+      featureIndex: number;
+      coordinates: { lat: number; lng: number };
+    };
+
+function isCoordinate(value: unknown, limit: number): value is number {
+  return (
+    typeof value === "number" &&
+    Number.isFinite(value) &&
+    Math.abs(value) <= limit
+  );
+}
+
+/**
+ * Validate the body of a review request
+ */
+export function parseReviewAction(body: any): ReviewAction {
+  const action = body?.action;
+
+  if (action === "accept" || action === "reject") {
+    return { action };
+  }
+
+  if (action !== "move") {
+    throw new Error("Invalid action");
+  }
+
+  const { featureIndex, coordinates } = body;
+  if (!Number.isInteger(featureIndex) || featureIndex < 0) {
+    throw new Error("Invalid featureIndex");
+  }
+  if (
+    !isCoordinate(coordinates?.lat, 90) ||
+    !isCoordinate(coordinates?.lng, 180)
+  ) {
+    throw new Error("Invalid coordinates");
+  }
+
+  return {
+    action,
+    featureIndex,
+    coordinates: { lat: coordinates.lat, lng: coordinates.lng },
+  };
+}
+
+/**
+ * Move a pin of the GeoJSON to new coordinates. Only points can be moved,
+ * street sections are geocoded again by resuming the ingest instead.
+ */
+export function moveFeature(
+  geoJson: GeoJSONFeatureCollection,
+  featureIndex: number,
+  coordinates: { lat: number; lng: number }
+): GeoJSONFeatureCollection {
+  const feature = geoJson.features[featureIndex];
+  if (feature?.geometry.type !== "Point") {
+    throw new Error("Invalid featureIndex");
+  }
+
+  return {
+    ...geoJson,
+    features: geoJson.features.map((item, index) =>
+      index === featureIndex
+        ? {
+            ...item,
+            geometry: {
+              type: "Point",
+              coordinates: [coordinates.lng, coordinates.lat],
+            },
+          }
+        : item
+    ),
+  };
+}
+
+/**
+ * Set the coordinates of the address a moved pin was geocoded from
+ */
+function moveAddress(
+  addresses: Address[],
+  originalText: string | undefined,
+  coordinates: { lat: number; lng: number }
+): Address[] {
+  return addresses.map((address) =>
+    address.originalText === originalText
+      ? {
+          ...address,
+          coordinates,
+          geoJson: {
+            type: "Point",
+            coordinates: [coordinates.lng, coordinates.lat],
+          },
+          geocoding: { method: "manual", confidence: 1 },
+        }
+      : address
+  );
+}
+
+function reviewEntryFromDocument(
+  id: string,
+  data: Record<string, any>
+): ReviewQueueEntry {
+  return {
+    messageId: id,
+    text: data.text,
+    source: data.source,
+    confidence: data.confidence,
+    reasons: data.reasons ? JSON.parse(data.reasons) : [],
+    addresses: data.addresses ? JSON.parse(data.addresses) : [],
+    outliers: data.outliers ? JSON.parse(data.outliers) : [],
+    status: data.status,
+    createdAt: convertTimestamp(data.createdAt),
+    reviewedAt: data.reviewedAt ? convertTimestamp(data.reviewedAt) : undefined,
+    reviewedBy: data.reviewedBy,
+  };
+}
+
+/**
+ * Messages waiting for review, oldest first, with their current GeoJSON
+ */
+export async function getPendingReviews(): Promise<ReviewQueueEntry[]> {
+  const snapshot = await adminDb
+    .collection("reviewQueue")
+    .where("status", "==", "pending")
+    .get();
+
+  const entries = await Promise.all(
+    snapshot.docs.map(async (doc) => {
+      const entry = reviewEntryFromDocument(doc.id, doc.data());
+      const message = await adminDb.collection("messages").doc(doc.id).get();
+      const geoJson = message.data()?.geoJson;
+      return geoJson ? { ...entry, geoJson: JSON.parse(geoJson) } : entry;
+    })
+  );
+
+  return entries.sort(
+    (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+  );
+}
+
+/**
+ * Apply the decision of an admin to a message and its queue entry
+ * @returns false when the message does not exist
+ */
+export async function applyReviewAction(
+  messageId: string,
+  reviewAction: ReviewAction,
+  reviewerEmail: string
+): Promise<boolean> {
+  const messageRef = adminDb.collection("messages").doc(messageId);
+  const queueRef = adminDb.collection("reviewQueue").doc(messageId);
+
+  const messageDoc = await messageRef.get();
+  if (!messageDoc.exists) {
+    return false;
+  }
+  const data = messageDoc.data() ?? {};
+
+  if (reviewAction.action === "move") {
+    if (!data.geoJson) {
+      throw new Error("Invalid featureIndex");
+    }
+    const { featureIndex, coordinates } = reviewAction;
+    const geoJson = moveFeature(
+      JSON.parse(data.geoJson),
+      featureIndex,
+      coordinates
+    );
+    const addresses = moveAddress(
+      data.addresses ? JSON.parse(data.addresses) : [],
+      geoJson.features[featureIndex].properties?.address,
+      coordinates
+    );
+
+    // The cells of the old position are kept: map queries filter by bounds
+    await messageRef.update({
+      geoJson: JSON.stringify(geoJson),
+      addresses: JSON.stringify(addresses),
+      geohashes: FieldValue.arrayUnion(
+        ...GEOHASH_PRECISIONS.map((precision) =>
+          encodeGeohash(coordinates.lat, coordinates.lng, precision)
+        )
+      ),
+    });
+    return true;
+  }
+
+  if (reviewAction.action === "accept") {
+    await messageRef.update({ reviewStatus: "accepted" });
+  } else {
+    // Without geoJson the message is neither shown nor matched to interests
+    await messageRef.update({
+      reviewStatus: "rejected",
+      geoJson: FieldValue.delete(),
+      geohashes: FieldValue.delete(),
+    });
+  }
+
+  await queueRef.set(
+    {
+      status: reviewAction.action === "accept" ? "accepted" : "rejected",
+      reviewedAt: FieldValue.serverTimestamp(),
+      reviewedBy: reviewerEmail,
+    },
+    { merge: true }
+  );
+  return true;
+}
@@ -6,6 +6,7 @@ import { adminAuth } from "@/lib/firebase-admin";
 export async function verifyAuthToken(authHeader: string | null): Promise<{
   userId: string;
   userEmail: string | null;
+  emailVerified: boolean;
 }> {
   if (!authHeader?.startsWith("Bearer ")) {
     throw new Error("Missing auth token");
@@ -18,9 +19,37 @@ export async function verifyAuthToken(authHeader: string | null): Promise<{
     return {
       userId: decodedToken.uid,
       userEmail: decodedToken.email || null,
+      emailVerified: decodedToken.email_verified === true,
     };
   } catch (error) {
     console.error("Error verifying auth token:", error);
     throw new Error("Invalid auth token");
   }
 }
+
+/**
+ * Helper: Verify the token of an admin, listed by email in ADMIN_EMAILS
+ * (comma-separated). The email must be verified, anyone could sign up with
+ * an admin's address otherwise. Throws "Forbidden" for other users.
+ */
+export async function verifyAdminToken(authHeader: string | null): Promise<{
+  userId: string;
+  userEmail: string;
+}> {
+  const { userId, userEmail, emailVerified } = await verifyAuthToken(
+    authHeader
+  );
+  if (!emailVerified) {
+    throw new Error("Forbidden");
+  }
+
+  const adminEmails = (process.env.ADMIN_EMAILS ?? "")
+    .split(",")
+    .map((email) => email.trim().toLowerCase())
+    .filter(Boolean);
+  if (!userEmail || !adminEmails.includes(userEmail.toLowerCase())) {
+    throw new Error("Forbidden");
+  }
+
+  return { userId, userEmail };
+}
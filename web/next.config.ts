@@ -1,9 +1,16 @@
+import path from "node:path";
 import type { NextConfig } from "next";
 import createMDX from "@next/mdx";
 
 const nextConfig: NextConfig = {
   /* config options here */
   pageExtensions: ["js", "jsx", "md", "mdx", "ts", "tsx"],
+  // @oboapp/core is linked from ../core and shipped as TypeScript
+  transpilePackages: ["@oboapp/core"],
+  outputFileTracingRoot: path.join(__dirname, ".."),
+  turbopack: {
+    root: path.join(__dirname, ".."),
+  },
 };
 
 const withMDX = createMDX({